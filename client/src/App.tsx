@@ -1,20 +1,33 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { Sidebar } from "@/components/sidebar";
 import { NotificationSystem } from "@/components/notification-system";
+import { useAuth } from "@/hooks/use-auth";
+import { Loader2 } from "lucide-react";
 import Dashboard from "./pages/dashboard";
 import CreateAccount from "./pages/create-account";
 import Deposit from "./pages/deposit";
 import Withdraw from "./pages/withdraw";
 import Transfer from "./pages/transfer";
+import TransferBatches from "./pages/transfer-batches";
+import ScheduledTransfers from "./pages/scheduled-transfers";
+import Approvals from "./pages/approvals";
+import ExchangeRates from "./pages/exchange-rates";
 import Accounts from "./pages/accounts";
+import AccountDetails from "./pages/account-details";
+import Customers from "./pages/customers";
+import CustomerProfile from "./pages/customer-profile";
+import Staff from "./pages/staff";
+import Security from "./pages/security";
+import AuditLog from "./pages/audit-log";
 import GitHubDeploy from "./pages/github-deploy";
+import Login from "./pages/login";
 import NotFound from "./pages/not-found";
 
-function Router() {
+function AuthenticatedRouter() {
   return (
     <div className="flex h-screen">
       <Sidebar />
@@ -27,7 +40,17 @@ function Router() {
             <Route path="/deposit" component={Deposit} />
             <Route path="/withdraw" component={Withdraw} />
             <Route path="/transfer" component={Transfer} />
+            <Route path="/transfer-batches" component={TransferBatches} />
+            <Route path="/scheduled-transfers" component={ScheduledTransfers} />
+            <Route path="/approvals" component={Approvals} />
+            <Route path="/exchange-rates" component={ExchangeRates} />
             <Route path="/accounts" component={Accounts} />
+            <Route path="/accounts/:accountNumber" component={AccountDetails} />
+            <Route path="/customers" component={Customers} />
+            <Route path="/customers/:id" component={CustomerProfile} />
+            <Route path="/staff" component={Staff} />
+            <Route path="/security" component={Security} />
+            <Route path="/audit" component={AuditLog} />
             <Route path="/github-deploy" component={GitHubDeploy} />
             <Route component={NotFound} />
           </Switch>
@@ -37,6 +60,27 @@ function Router() {
   );
 }
 
+// Everything but the login page needs a signed in user
+function Router() {
+  const { user, isLoading } = useAuth();
+  const [location] = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  if (!user) {
+    return location === "/login" ? <Login /> : <Redirect to="/login" />;
+  }
+  if (location === "/login") {
+    return <Redirect to="/" />;
+  }
+  return <AuthenticatedRouter />;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
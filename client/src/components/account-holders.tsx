@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CustomerPicker } from "@/components/customer-picker";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Loader2, User, X } from "lucide-react";
+import { api } from "@/lib/api";
+import type { Account, AccountHolderRole, AccountHolderWithCustomer, AddAccountHolderRequest, Customer } from "@shared/schema";
+
+export const roleLabels: Record<AccountHolderRole, string> = {
+  primary: "Primary",
+  joint: "Joint",
+  authorized_signer: "Authorized signer",
+};
+
+export function AccountHolders({ account }: { account: Account }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const editable = account.status !== 'closed' && can("accounts:manage");
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [role, setRole] = useState<AddAccountHolderRequest["role"]>("joint");
+
+  const { data: holders } = useQuery<AccountHolderWithCustomer[]>({
+    queryKey: ["/api/accounts", account.accountNumber, "holders"],
+  });
+
+  const onSuccess = () => {
+    setCustomer(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts", account.accountNumber, "holders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message || "Failed to update account holders. Please try again.",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () => api.addAccountHolder(account.accountNumber, { customerId: customer!.id, role }),
+    onSuccess,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (customerId: string) => api.removeAccountHolder(account.accountNumber, customerId),
+    onSuccess,
+    onError,
+  });
+
+  return (
+    <Card>
+      <div className="p-6 border-b border-border">
+        <h3 className="text-lg font-semibold text-foreground">Account Holders</h3>
+      </div>
+      <CardContent className="p-6 space-y-4">
+        <div className="space-y-2">
+          {holders?.map((holder) => (
+            <div key={holder.id} className="flex items-center justify-between" data-testid={`holder-${holder.customerId}`}>
+              <Link href={`/customers/${holder.customerId}`} className="flex items-center space-x-2 hover:underline">
+                <User className="h-4 w-4 text-primary" />
+                <span className="text-sm font-medium text-foreground">{holder.customer.name}</span>
+              </Link>
+              <div className="flex items-center space-x-1">
+                <Badge variant="outline">{roleLabels[holder.role]}</Badge>
+                {holder.role !== 'primary' && editable && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="p-1 h-7 w-7"
+                    title="Remove holder"
+                    disabled={removeMutation.isPending}
+                    onClick={() => removeMutation.mutate(holder.customerId)}
+                    data-testid={`button-remove-holder-${holder.customerId}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {editable && (
+          <div className="border-t border-border pt-4 space-y-3">
+            <Label className="block text-sm font-medium text-foreground">Add Holder</Label>
+            <CustomerPicker
+              selected={customer}
+              onSelect={setCustomer}
+              exclude={holders?.map((holder) => holder.customerId)}
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as AddAccountHolderRequest["role"])}>
+              <SelectTrigger data-testid="select-holder-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="joint">{roleLabels.joint}</SelectItem>
+                <SelectItem value="authorized_signer">{roleLabels.authorized_signer}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              className="w-full"
+              disabled={addMutation.isPending || !customer}
+              onClick={() => addMutation.mutate()}
+              data-testid="button-add-holder"
+            >
+              {addMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {customer ? `Add ${customer.name}` : "Pick a customer to add"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TellerLimitNotice, useExceedsTellerLimit } from "@/components/teller-limit";
+import { CurrencyPrefix, currencyInputPadding } from "@/components/currency-prefix";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Loader2 } from "lucide-react";
+import { api } from "@/lib/api";
+import { INVALID_ACCOUNT_NUMBER_MESSAGE, isValidAccountNumber } from "@shared/account-number";
+import { formatMoney, toMajorUnits, toMinorUnits } from "@shared/money";
+import { HOLD_DEFAULT_DAYS, type Account, type Hold } from "@shared/schema";
+
+function useHoldMutationHandlers(account: Account, onDone: () => void) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return {
+    onSuccess: async (response: Response) => {
+      const result = await response.json();
+      toast({
+        variant: "default",
+        // Large captures wait for someone else to approve them
+        title: response.status === 202 ? "Sent for approval" : "Success!",
+        description: result.message ?? `${formatMoney(result.amount, account.currency)} held on account ${account.accountNumber}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions/recent"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/approvals"] });
+      onDone();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update the hold. Please try again.",
+      });
+    },
+  };
+}
+
+function CaptureDialog({ account, hold, onClose }: { account: Account; hold: Hold; onClose: () => void }) {
+  const [amount, setAmount] = useState("");
+  const [toAccountNumber, setToAccountNumber] = useState("");
+
+  // Left blank, the whole hold is captured as a withdrawal
+  const minorAmount = amount === "" ? hold.amount : toMinorUnits(parseFloat(amount));
+  const invalidAmount = !(minorAmount > 0) || minorAmount > hold.amount;
+  const invalidAccount = toAccountNumber !== "" && !isValidAccountNumber(Number(toAccountNumber));
+  const overTellerLimit = useExceedsTellerLimit(minorAmount, account.currency);
+
+  const idempotency = useIdempotencyKey();
+  const captureMutation = useMutation({
+    mutationFn: () => {
+      const request = {
+        amount: amount === "" ? undefined : minorAmount,
+        toAccountNumber: toAccountNumber === "" ? undefined : Number(toAccountNumber),
+      };
+      return api.captureHold(hold.id, request, idempotency.keyFor(request));
+    },
+    ...useHoldMutationHandlers(account, onClose),
+    onSettled: (_, error) => idempotency.settle(error),
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Capture {formatMoney(hold.amount, account.currency)} hold?</DialogTitle>
+          <DialogDescription>
+            {hold.reason}. Whatever isn't captured is released back to the account.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="capture-amount" className="block text-sm font-medium text-foreground mb-2">
+              Amount
+            </Label>
+            <Input
+              id="capture-amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              placeholder={toMajorUnits(hold.amount).toFixed(2)}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              data-testid="input-capture-amount"
+            />
+            {minorAmount > hold.amount && (
+              <p className="text-sm text-red-600 mt-1">Can't capture more than is held</p>
+            )}
+            <TellerLimitNotice amount={minorAmount} currency={account.currency} />
+          </div>
+          <div>
+            <Label htmlFor="capture-to-account" className="block text-sm font-medium text-foreground mb-2">
+              Transfer To
+            </Label>
+            <Input
+              id="capture-to-account"
+              type="number"
+              placeholder="Leave blank to withdraw"
+              value={toAccountNumber}
+              onChange={(e) => setToAccountNumber(e.target.value)}
+              data-testid="input-capture-to-account"
+            />
+            {invalidAccount && <p className="text-sm text-destructive mt-1">{INVALID_ACCOUNT_NUMBER_MESSAGE}</p>}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            disabled={captureMutation.isPending || invalidAmount || invalidAccount || overTellerLimit}
+            onClick={() => captureMutation.mutate()}
+            data-testid="button-confirm-capture"
+          >
+            {captureMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Capture {invalidAmount ? "" : formatMoney(minorAmount, account.currency)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function AccountHolds({ account }: { account: Account }) {
+  const { can } = useAuth();
+  const editable = account.status !== 'closed' && can("transactions:create");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [expiresOn, setExpiresOn] = useState("");
+  const [capturing, setCapturing] = useState<Hold | null>(null);
+
+  const { data: holds } = useQuery<Hold[]>({
+    queryKey: ["/api/accounts", account.accountNumber, "holds", "active"],
+    queryFn: () => api.getAccountHolds(account.accountNumber, "active"),
+  });
+
+  const idempotency = useIdempotencyKey();
+  const placeMutation = useMutation({
+    mutationFn: () => {
+      const request = {
+        amount: toMinorUnits(parseFloat(amount)),
+        reason,
+        // End of the chosen day in local time
+        expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`) : undefined,
+      };
+      return api.placeHold(account.accountNumber, request, idempotency.keyFor(request));
+    },
+    ...useHoldMutationHandlers(account, () => {
+      setAmount("");
+      setReason("");
+      setExpiresOn("");
+    }),
+    onSettled: (_, error) => idempotency.settle(error),
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: (id: string) => api.releaseHold(id),
+    ...useHoldMutationHandlers(account, () => {}),
+  });
+
+  const minorAmount = toMinorUnits(parseFloat(amount));
+  const overTellerLimit = useExceedsTellerLimit(minorAmount, account.currency);
+
+  return (
+    <Card>
+      <div className="p-6 border-b border-border">
+        <h3 className="text-lg font-semibold text-foreground">Holds</h3>
+      </div>
+      <CardContent className="p-6 space-y-4">
+        <p className="text-sm text-muted-foreground" data-testid="text-held-amount">
+          {account.heldAmount > 0
+            ? `${formatMoney(account.heldAmount, account.currency)} on hold, ${formatMoney(account.availableBalance, account.currency)} available`
+            : 'Nothing on hold'}
+        </p>
+        <div className="space-y-3">
+          {holds?.map((hold) => (
+            <div key={hold.id} className="border border-border rounded-lg p-3 space-y-2" data-testid={`hold-${hold.id}`}>
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-foreground">{formatMoney(hold.amount, account.currency)}</span>
+                <Badge variant="outline">
+                  {hold.expiresAt ? `Until ${new Date(hold.expiresAt).toLocaleDateString()}` : 'Waiting for approval'}
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">{hold.reason}</p>
+              {/* Only approval requests hold without an expiry; their decision moves them */}
+              {editable && hold.expiresAt && (
+                <div className="flex space-x-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setCapturing(hold)}
+                    data-testid={`button-capture-hold-${hold.id}`}
+                  >
+                    Capture
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-red-600"
+                    disabled={releaseMutation.isPending}
+                    onClick={() => releaseMutation.mutate(hold.id)}
+                    data-testid={`button-release-hold-${hold.id}`}
+                  >
+                    Release
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {editable && (
+          <div className="border-t border-border pt-4 space-y-3">
+            <Label className="block text-sm font-medium text-foreground">Place Hold</Label>
+            <div className="relative">
+              <CurrencyPrefix currency={account.currency} />
+              <Input
+                type="number"
+                step="0.01"
+                min="0.01"
+                placeholder="0.00"
+                className={`w-full ${currencyInputPadding(account.currency)}`}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-hold-amount"
+              />
+            </div>
+            <TellerLimitNotice amount={minorAmount} currency={account.currency} />
+            <Input
+              placeholder="Reason, e.g. card payment at ACME"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-hold-reason"
+            />
+            <div>
+              <Input
+                type="date"
+                title="Expires"
+                value={expiresOn}
+                onChange={(e) => setExpiresOn(e.target.value)}
+                data-testid="input-hold-expires"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Released automatically after {expiresOn ? "this day" : `${HOLD_DEFAULT_DAYS} days`}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              className="w-full"
+              disabled={
+                placeMutation.isPending ||
+                overTellerLimit ||
+                !(minorAmount > 0) ||
+                !reason.trim() ||
+                minorAmount > account.availableBalance + account.overdraftLimit
+              }
+              onClick={() => placeMutation.mutate()}
+              data-testid="button-place-hold"
+            >
+              {placeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Place Hold
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      {capturing && <CaptureDialog account={account} hold={capturing} onClose={() => setCapturing(null)} />}
+    </Card>
+  );
+}
@@ -0,0 +1,17 @@
+import { Badge } from "@/components/ui/badge";
+import type { AccountStatus } from "@shared/schema";
+
+const statusStyles: Record<AccountStatus, string> = {
+  active: "bg-green-100 text-green-800 hover:bg-green-100",
+  frozen: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  dormant: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  closed: "bg-gray-200 text-gray-700 hover:bg-gray-200",
+};
+
+export function AccountStatusBadge({ status }: { status: AccountStatus }) {
+  return (
+    <Badge className={`capitalize ${statusStyles[status]}`} data-testid={`badge-status-${status}`}>
+      {status}
+    </Badge>
+  );
+}
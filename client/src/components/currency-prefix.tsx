@@ -0,0 +1,14 @@
+import { currencySymbol, type Currency } from "@shared/money";
+
+/** The currency sign shown inside an amount input, which needs `currencyInputPadding` to clear it. */
+export function CurrencyPrefix({ currency }: { currency: Currency }) {
+  return (
+    <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-muted-foreground">
+      {currencySymbol(currency).trim()}
+    </span>
+  );
+}
+
+export function currencyInputPadding(currency: Currency): string {
+  return currencySymbol(currency).trim().length > 1 ? "pl-14" : "pl-8";
+}
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Check, Search } from "lucide-react";
+import { api } from "@/lib/api";
+import type { Customer } from "@shared/schema";
+
+const MAX_RESULTS = 8;
+
+export function CustomerPicker({
+  selected,
+  onSelect,
+  exclude = [],
+}: {
+  selected?: Customer | null;
+  onSelect: (customer: Customer) => void;
+  // Customers that can't be picked, e.g. the account's existing holders
+  exclude?: string[];
+}) {
+  const [search, setSearch] = useState("");
+
+  const { data: customers, isLoading } = useQuery<Customer[]>({
+    queryKey: ["/api/customers", "search", search],
+    queryFn: () => api.searchCustomers(search),
+    enabled: search.trim().length > 0,
+  });
+
+  const results = (customers ?? []).filter((customer) => !exclude.includes(customer.id)).slice(0, MAX_RESULTS);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+        <Input
+          type="text"
+          placeholder="Search customers by name, email or phone"
+          className="w-full pl-9"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          data-testid="input-customer-search"
+        />
+      </div>
+      {search.trim() && !isLoading && results.length === 0 && (
+        <p className="text-sm text-muted-foreground">No customers match "{search}"</p>
+      )}
+      {results.length > 0 && (
+        <div className="border border-border rounded-lg divide-y divide-border">
+          {results.map((customer) => (
+            <Button
+              key={customer.id}
+              type="button"
+              variant="ghost"
+              className="w-full justify-between rounded-none h-auto py-2"
+              onClick={() => onSelect(customer)}
+              data-testid={`button-pick-customer-${customer.id}`}
+            >
+              <span className="text-left">
+                <span className="block font-medium text-foreground">{customer.name}</span>
+                <span className="block text-xs text-muted-foreground">
+                  {[customer.email, customer.phone, customer.dateOfBirth].filter(Boolean).join(" · ") || "No contact details"}
+                </span>
+              </span>
+              {selected?.id === customer.id && <Check className="h-4 w-4 text-primary" />}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { scheduleFrequencies, type CreateScheduledTransferRequest, type ScheduleFrequency } from "@shared/schema";
+
+// The schedule as typed, before it is turned into a request
+export type ScheduleDraft = {
+  startAt: string;
+  frequency: ScheduleFrequency;
+  interval: string;
+  endsOn: string;
+  runLimit: string;
+};
+
+export const emptySchedule: ScheduleDraft = { startAt: "", frequency: "once", interval: "1", endsOn: "", runLimit: "" };
+
+const frequencyLabels: Record<ScheduleFrequency, string> = {
+  once: "Once",
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+};
+
+const units: Record<Exclude<ScheduleFrequency, "once">, string> = { daily: "day", weekly: "week", monthly: "month" };
+
+/** "Once", "Monthly", "Every 2 weeks" and so on. */
+export function describeSchedule(frequency: ScheduleFrequency, interval: number): string {
+  if (frequency === "once" || interval === 1) {
+    return frequencyLabels[frequency];
+  }
+  return `Every ${interval} ${units[frequency]}s`;
+}
+
+/** The schedule part of a request, or a reason it can't be sent yet. */
+export function toScheduleRequest(
+  draft: ScheduleDraft,
+): Pick<CreateScheduledTransferRequest, "frequency" | "interval" | "startAt" | "endAt" | "runLimit"> | string {
+  // datetime-local values are in local time
+  const startAt = new Date(draft.startAt);
+  if (!draft.startAt || isNaN(startAt.getTime())) {
+    return "Choose when the first transfer is made";
+  }
+  if (startAt <= new Date()) {
+    return "The first transfer must be in the future";
+  }
+
+  const repeats = draft.frequency !== "once";
+  const interval = Number(draft.interval);
+  if (repeats && !(Number.isInteger(interval) && interval >= 1 && interval <= 52)) {
+    return "Repeat every 1 to 52";
+  }
+  // The end date includes the whole day
+  const endAt = repeats && draft.endsOn ? new Date(`${draft.endsOn}T23:59:59`) : undefined;
+  if (endAt && endAt < startAt) {
+    return "The end date must be after the first transfer";
+  }
+  const runLimit = repeats && draft.runLimit ? Number(draft.runLimit) : undefined;
+  if (runLimit !== undefined && !(Number.isInteger(runLimit) && runLimit >= 1 && runLimit <= 1000)) {
+    return "Stop after 1 to 1000 transfers";
+  }
+
+  return { frequency: draft.frequency, interval: repeats ? interval : 1, startAt, endAt, runLimit };
+}
+
+export function ScheduleFields({ value, onChange }: { value: ScheduleDraft; onChange: (value: ScheduleDraft) => void }) {
+  const set = (changes: Partial<ScheduleDraft>) => onChange({ ...value, ...changes });
+  const repeats = value.frequency !== "once";
+
+  return (
+    <div className="space-y-4" data-testid="schedule-fields">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="schedule-start" className="block text-sm font-medium text-foreground mb-2">
+            {repeats ? "First Transfer" : "Transfer On"}
+          </Label>
+          <Input
+            id="schedule-start"
+            type="datetime-local"
+            value={value.startAt}
+            onChange={(e) => set({ startAt: e.target.value })}
+            data-testid="input-schedule-start"
+          />
+        </div>
+        <div>
+          <Label className="block text-sm font-medium text-foreground mb-2">Repeat</Label>
+          <Select value={value.frequency} onValueChange={(frequency) => set({ frequency: frequency as ScheduleFrequency })}>
+            <SelectTrigger data-testid="select-schedule-frequency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {scheduleFrequencies.map((frequency) => (
+                <SelectItem key={frequency} value={frequency}>{frequencyLabels[frequency]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {repeats && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="schedule-interval" className="block text-sm font-medium text-foreground mb-2">
+              Every ({units[value.frequency as Exclude<ScheduleFrequency, "once">]}s)
+            </Label>
+            <Input
+              id="schedule-interval"
+              type="number"
+              min="1"
+              max="52"
+              value={value.interval}
+              onChange={(e) => set({ interval: e.target.value })}
+              data-testid="input-schedule-interval"
+            />
+          </div>
+          <div>
+            <Label htmlFor="schedule-ends" className="block text-sm font-medium text-foreground mb-2">
+              Ends On
+            </Label>
+            <Input
+              id="schedule-ends"
+              type="date"
+              value={value.endsOn}
+              onChange={(e) => set({ endsOn: e.target.value })}
+              data-testid="input-schedule-ends"
+            />
+          </div>
+          <div>
+            <Label htmlFor="schedule-run-limit" className="block text-sm font-medium text-foreground mb-2">
+              Or After (transfers)
+            </Label>
+            <Input
+              id="schedule-run-limit"
+              type="number"
+              min="1"
+              placeholder="No limit"
+              value={value.runLimit}
+              onChange={(e) => set({ runLimit: e.target.value })}
+              data-testid="input-schedule-run-limit"
+            />
+          </div>
+        </div>
+      )}
+      {repeats && value.frequency === "monthly" && (
+        <p className="text-xs text-muted-foreground">
+          Falls on the same day each month, or the last day of shorter months
+        </p>
+      )}
+    </div>
+  );
+}
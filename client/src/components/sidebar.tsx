@@ -6,31 +6,75 @@ import {
   MinusCircle, 
   ArrowLeftRight, 
   Users,
+  Contact,
   University,
   Menu,
   X,
-  Github
+  Github,
+  LogOut,
+  UserCog,
+  ShieldCheck,
+  ScrollText,
+  ClipboardCheck,
+  CalendarClock,
+  FileSpreadsheet,
+  Coins,
+  type LucideIcon
 } from "lucide-react";
 import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { cn } from "@/lib/utils";
+import { api } from "@/lib/api";
+import { USER_QUERY_KEY } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import type { Permission } from "@shared/permissions";
 
 interface SidebarProps {
   className?: string;
 }
 
-const navigation = [
+interface NavigationItem {
+  name: string;
+  href: string;
+  icon: LucideIcon;
+  current: boolean;
+  color?: string;
+  // Only shown to users whose role has this permission
+  permission?: Permission;
+}
+
+const navigation: NavigationItem[] = [
   { name: "Dashboard", href: "/", icon: BarChart3, current: false },
-  { name: "Create Account", href: "/create-account", icon: UserPlus, current: false },
-  { name: "Deposit", href: "/deposit", icon: PlusCircle, current: false, color: "text-green-600" },
-  { name: "Withdraw", href: "/withdraw", icon: MinusCircle, current: false, color: "text-red-600" },
-  { name: "Transfer", href: "/transfer", icon: ArrowLeftRight, current: false, color: "text-blue-600" },
+  { name: "Create Account", href: "/create-account", icon: UserPlus, current: false, permission: "accounts:manage" },
+  { name: "Deposit", href: "/deposit", icon: PlusCircle, current: false, color: "text-green-600", permission: "transactions:create" },
+  { name: "Withdraw", href: "/withdraw", icon: MinusCircle, current: false, color: "text-red-600", permission: "transactions:create" },
+  { name: "Transfer", href: "/transfer", icon: ArrowLeftRight, current: false, color: "text-blue-600", permission: "transactions:create" },
+  { name: "Bulk Transfer", href: "/transfer-batches", icon: FileSpreadsheet, current: false, color: "text-blue-600", permission: "transactions:create" },
+  { name: "Scheduled Transfers", href: "/scheduled-transfers", icon: CalendarClock, current: false },
+  { name: "Approvals", href: "/approvals", icon: ClipboardCheck, current: false },
+  { name: "Exchange Rates", href: "/exchange-rates", icon: Coins, current: false },
   { name: "All Accounts", href: "/accounts", icon: Users, current: false },
-  { name: "GitHub Deploy", href: "/github-deploy", icon: Github, current: false, color: "text-gray-900" },
+  { name: "Customers", href: "/customers", icon: Contact, current: false },
+  { name: "Staff", href: "/staff", icon: UserCog, current: false, permission: "users:manage" },
+  { name: "Audit Log", href: "/audit", icon: ScrollText, current: false, permission: "audit:read" },
+  { name: "Security", href: "/security", icon: ShieldCheck, current: false },
+  { name: "GitHub Deploy", href: "/github-deploy", icon: Github, current: false, color: "text-gray-900", permission: "deploy" },
 ];
 
 export function Sidebar({ className }: SidebarProps) {
   const [location] = useLocation();
   const [isMobileOpen, setIsMobileOpen] = useState(false);
+  const { user, can } = useAuth();
+  const queryClient = useQueryClient();
+
+  const logoutMutation = useMutation({
+    mutationFn: () => api.logout(),
+    onSuccess: () => {
+      // Nothing from this session should outlive it
+      queryClient.clear();
+      queryClient.setQueryData(USER_QUERY_KEY, null);
+    },
+  });
 
   const isCurrentPath = (href: string) => {
     if (href === "/") return location === "/";
@@ -53,7 +97,7 @@ export function Sidebar({ className }: SidebarProps) {
       
       <nav className="mt-6 px-4">
         <ul className="space-y-2">
-          {navigation.map((item) => {
+          {navigation.filter((item) => !item.permission || can(item.permission)).map((item) => {
             const Icon = item.icon;
             const isCurrent = isCurrentPath(item.href);
             
@@ -78,6 +122,24 @@ export function Sidebar({ className }: SidebarProps) {
           })}
         </ul>
       </nav>
+
+      {user && (
+        <div className="mt-auto p-4 border-t border-border flex items-center justify-between">
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-foreground truncate" data-testid="text-user-name">{user.displayName}</p>
+            <p className="text-xs text-muted-foreground truncate capitalize">{user.username} · {user.role}</p>
+          </div>
+          <button
+            className="p-2 rounded-lg text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+            title="Sign out"
+            disabled={logoutMutation.isPending}
+            onClick={() => logoutMutation.mutate()}
+            data-testid="button-sign-out"
+          >
+            <LogOut className="h-5 w-5" />
+          </button>
+        </div>
+      )}
     </>
   );
 
@@ -102,7 +164,7 @@ export function Sidebar({ className }: SidebarProps) {
 
       {/* Sidebar */}
       <div className={cn(
-        "bg-card shadow-xl w-64 flex-shrink-0 sidebar-transition h-full",
+        "bg-card shadow-xl w-64 flex-shrink-0 sidebar-transition h-full flex flex-col",
         "lg:translate-x-0 lg:relative lg:z-auto",
         "fixed z-30",
         isMobileOpen ? "translate-x-0" : "-translate-x-full",
@@ -0,0 +1,47 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { api } from "@/lib/api";
+import { exceedsTellerLimit, hasPermission, TELLER_TRANSACTION_LIMIT } from "@shared/permissions";
+import { BASE_CURRENCY, convertMoney, formatMoney, invertRate, RATE_MICROS_PER_UNIT, type Currency, type Money } from "@shared/money";
+import type { FxQuote } from "@shared/schema";
+
+// The limit is in the base currency, so amounts in other currencies are
+// converted at the current rate first. Without a rate there's no telling,
+// and the server has the last word.
+function useTellerLimit(amount: Money, currency: Currency) {
+  const { user } = useAuth();
+  const limited = !!user && !hasPermission(user.role, "transactions:large");
+  const converts = limited && currency !== BASE_CURRENCY;
+
+  const { data: quote } = useQuery<FxQuote>({
+    queryKey: ["/api/fx-rates/quote", currency, BASE_CURRENCY],
+    queryFn: () => api.getFxQuote(currency, BASE_CURRENCY),
+    enabled: converts,
+    retry: false,
+  });
+
+  const rate = converts ? quote?.rateMicros : RATE_MICROS_PER_UNIT;
+  return {
+    exceeds: limited && rate !== undefined && exceedsTellerLimit(user.role, convertMoney(amount, rate)),
+    // The limit in `currency`, for showing alongside it
+    converted: converts && rate !== undefined ? convertMoney(TELLER_TRANSACTION_LIMIT, invertRate(rate)) : undefined,
+  };
+}
+
+/** Whether the signed in user's role can't move `amount` alone, which the server would reject. */
+export function useExceedsTellerLimit(amount: Money, currency: Currency): boolean {
+  return useTellerLimit(amount, currency).exceeds;
+}
+
+export function TellerLimitNotice({ amount, currency }: { amount: Money; currency: Currency }) {
+  const { exceeds, converted } = useTellerLimit(amount, currency);
+  if (!exceeds) {
+    return null;
+  }
+  return (
+    <p className="text-sm text-red-600 mt-1" data-testid="text-teller-limit">
+      Amounts over {formatMoney(TELLER_TRANSACTION_LIMIT)}
+      {converted !== undefined && ` (${formatMoney(converted, currency)} at today's rate)`} need a manager
+    </p>
+  );
+}
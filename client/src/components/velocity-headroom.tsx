@@ -0,0 +1,47 @@
+import { formatMoney, type Currency, type Money } from "@shared/money";
+import type { VelocityHeadroom, VelocityWindow } from "@shared/schema";
+
+const windowLabels: Record<VelocityWindow, string> = { daily: "Today", monthly: "This month" };
+
+/** Whether another debit of `amount` would go over any of the limits, which the server would reject. */
+export function exceedsHeadroom(headroom: VelocityHeadroom[] | undefined, amount: Money): boolean {
+  return (headroom ?? []).some(
+    (window) =>
+      (window.remainingCount !== null && window.remainingCount < 1) ||
+      (window.remainingAmount !== null && amount > window.remainingAmount),
+  );
+}
+
+export function VelocityHeadroomSummary({
+  headroom,
+  amount,
+  currency,
+}: {
+  headroom: VelocityHeadroom[];
+  amount: Money;
+  currency: Currency;
+}) {
+  if (headroom.length === 0) {
+    return null;
+  }
+
+  const exceeded = exceedsHeadroom(headroom, amount);
+  return (
+    <div className="space-y-1 text-sm" data-testid="velocity-headroom">
+      {headroom.map((window) => (
+        <div key={window.window} className="flex justify-between">
+          <span className="text-muted-foreground">{windowLabels[window.window]} left</span>
+          <span className="text-foreground">
+            {window.remainingAmount !== null && formatMoney(window.remainingAmount, currency)}
+            {window.remainingAmount !== null && window.remainingCount !== null && " · "}
+            {window.remainingCount !== null &&
+              `${window.remainingCount} transaction${window.remainingCount === 1 ? "" : "s"}`}
+          </span>
+        </div>
+      ))}
+      {exceeded && (
+        <p className="text-xs text-red-600 font-medium">This would go over the account's limits</p>
+      )}
+    </div>
+  );
+}
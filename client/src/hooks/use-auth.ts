@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn, USER_QUERY_KEY } from "@/lib/queryClient";
+import { hasPermission, type Permission } from "@shared/permissions";
+import type { PublicUser } from "@shared/schema";
+
+// The signed in staff user; null when nobody is signed in. `can` mirrors the
+// server's permission checks so pages can hide what the user can't do.
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: USER_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const can = (permission: Permission) => !!user && hasPermission(user.role, permission);
+
+  return { user: user ?? null, isLoading, can };
+}
@@ -0,0 +1,42 @@
+import { useCallback, useRef } from "react";
+
+// The code server/idempotency.ts answers with while the first request with
+// a key is still running
+const REQUEST_IN_PROGRESS = "request_in_progress";
+
+// Errors after which the request may or may not have gone through, so a
+// retry must send the same key for the server to replay the outcome. Not
+// request_outcome_unknown: the server will never finish that key, so once
+// the user has checked, a resubmit needs a new one
+function outcomeUnknown(error: Error): boolean {
+  const status = Number(error.message.slice(0, 3));
+  return error instanceof TypeError || status >= 500 || error.message.includes(REQUEST_IN_PROGRESS);
+}
+
+/**
+ * The Idempotency-Key for a form's money-moving request. Submitting the same
+ * request again, after a double click or a timeout, reuses the key so the
+ * server replays the first response instead of moving the money twice. A new
+ * key is made once the server has answered for good, or for a different
+ * request.
+ */
+export function useIdempotencyKey() {
+  const current = useRef<{ key: string; request: string } | null>(null);
+
+  const keyFor = useCallback((request: unknown) => {
+    const json = JSON.stringify(request);
+    if (current.current?.request !== json) {
+      current.current = { key: crypto.randomUUID(), request: json };
+    }
+    return current.current.key;
+  }, []);
+
+  // For a mutation's onSettled
+  const settle = useCallback((error: Error | null) => {
+    if (!error || !outcomeUnknown(error)) {
+      current.current = null;
+    }
+  }, []);
+
+  return { keyFor, settle };
+}
@@ -1,29 +1,220 @@
 import { apiRequest } from "./queryClient";
+import type { Currency, Money } from "@shared/money";
+import type {
+  AccountHistoryQuery,
+  AccountStatusChange,
+  AddAccountHolderRequest,
+  ApprovalRequestWithDetails,
+  ApprovalStatus,
+  AuditLogPage,
+  AuditLogQuery,
+  CaptureHoldRequest,
+  CloseAccountRequest,
+  CreateScheduledTransferRequest,
+  Customer,
+  FeeableTransactionType,
+  FeeQuote,
+  FxQuote,
+  FxRate,
+  InsertCustomer,
+  LoadFxRatesRequest,
+  LoginRequest,
+  OpenAccountRequest,
+  Hold,
+  HoldStatus,
+  OverdraftLimitChange,
+  PlaceHoldRequest,
+  PublicUser,
+  ScheduledTransferRun,
+  ScheduledTransferStatus,
+  ScheduledTransferWithDetails,
+  StaffRole,
+  TransferBatchRequest,
+  TransferBatchResult,
+  TwoFactorSetup,
+  UpdateCustomer,
+} from "@shared/schema";
+
+const MAX_ATTEMPTS = 3;
+
+// Sends a money-moving request with the form's Idempotency-Key (see
+// useIdempotencyKey), retrying with it if the network fails. The server
+// replays the original response instead of moving the money twice.
+async function idempotentRequest(method: string, url: string, data: unknown, idempotencyKey: string): Promise<Response> {
+  const headers = { "Idempotency-Key": idempotencyKey };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await apiRequest(method, url, data, headers);
+    } catch (error) {
+      // fetch rejects with a TypeError only when the request never completed
+      if (!(error instanceof TypeError) || attempt >= MAX_ATTEMPTS) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 500 * attempt));
+    }
+  }
+}
+
+// GETs JSON, throwing on error responses like apiRequest, so a 401 after
+// the session ends reaches the query cache's error handler
+function getJson(url: string) {
+  return apiRequest("GET", url).then((res) => res.json());
+}
 
 export const api = {
+  // Staff sign in
+  login: (credentials: LoginRequest) => apiRequest("POST", "/api/login", credentials),
+
+  // The second step of signing in, when POST /api/login asked for a code
+  loginTwoFactor: (code: string) => apiRequest("POST", "/api/login/two-factor", { code }),
+
+  logout: () => apiRequest("POST", "/api/logout"),
+
+  // The signed in user's two-factor sign in
+  startTwoFactorSetup: (): Promise<TwoFactorSetup> =>
+    apiRequest("POST", "/api/user/two-factor/setup").then((res) => res.json()),
+
+  enableTwoFactor: (code: string): Promise<{ recoveryCodes: string[] }> =>
+    apiRequest("POST", "/api/user/two-factor/enable", { code }).then((res) => res.json()),
+
+  disableTwoFactor: (code: string) => apiRequest("POST", "/api/user/two-factor/disable", { code }),
+
+  regenerateRecoveryCodes: (code: string): Promise<{ recoveryCodes: string[] }> =>
+    apiRequest("POST", "/api/user/two-factor/recovery-codes", { code }).then((res) => res.json()),
+
+  // Staff
+  getUsers: (): Promise<PublicUser[]> => getJson("/api/users"),
+
+  changeUserRole: (id: string, role: StaffRole) => apiRequest("PATCH", `/api/users/${id}`, { role }),
+
+  resetTwoFactor: (id: string) => apiRequest("DELETE", `/api/users/${id}/two-factor`),
+
   // Dashboard
-  getDashboardStats: () => fetch("/api/dashboard/stats").then(res => res.json()),
-  getRecentTransactions: (limit = 10) => fetch(`/api/transactions/recent?limit=${limit}`).then(res => res.json()),
+  getDashboardStats: () => getJson("/api/dashboard/stats"),
+  getRecentTransactions: (limit = 10) => getJson(`/api/transactions/recent?limit=${limit}`),
   
   // Accounts
-  createAccount: (data: { accountNumber: number; name: string; balance: number }) =>
-    apiRequest("POST", "/api/accounts", data),
+  createAccount: (data: OpenAccountRequest, idempotencyKey: string) =>
+    idempotentRequest("POST", "/api/accounts", data, idempotencyKey),
   
-  getAllAccounts: () => fetch("/api/accounts").then(res => res.json()),
+  getAllAccounts: () => getJson("/api/accounts"),
   
   getAccountByNumber: (accountNumber: number) =>
-    fetch(`/api/accounts/${accountNumber}`).then(res => res.json()),
+    getJson(`/api/accounts/${accountNumber}`),
+  
+  getAccountTransactions: (accountNumber: number, query: AccountHistoryQuery = {}) => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") {
+        params.set(key, value instanceof Date ? value.toISOString() : String(value));
+      }
+    });
+    return getJson(`/api/accounts/${accountNumber}/transactions?${params}`);
+  },
+
+  changeAccountStatus: (accountNumber: number, change: AccountStatusChange) =>
+    apiRequest("POST", `/api/accounts/${accountNumber}/status`, change),
+
+  closeAccount: (accountNumber: number, request: CloseAccountRequest, idempotencyKey: string) =>
+    idempotentRequest("POST", `/api/accounts/${accountNumber}/close`, request, idempotencyKey),
+
+  setOverdraftLimit: (accountNumber: number, change: OverdraftLimitChange) =>
+    apiRequest("PUT", `/api/accounts/${accountNumber}/overdraft`, change),
+
+  addAccountHolder: (accountNumber: number, request: AddAccountHolderRequest) =>
+    apiRequest("POST", `/api/accounts/${accountNumber}/holders`, request),
+
+  removeAccountHolder: (accountNumber: number, customerId: string) =>
+    apiRequest("DELETE", `/api/accounts/${accountNumber}/holders/${customerId}`),
+
+  // Customers
+  searchCustomers: (search: string): Promise<Customer[]> =>
+    getJson(`/api/customers?${new URLSearchParams({ search })}`),
+
+  createCustomer: (customer: InsertCustomer) =>
+    apiRequest("POST", "/api/customers", customer),
+
+  updateCustomer: (id: string, changes: UpdateCustomer) =>
+    apiRequest("PATCH", `/api/customers/${id}`, changes),
   
   // Transactions
-  deposit: (accountNumber: number, amount: number) =>
-    apiRequest("POST", `/api/accounts/${accountNumber}/deposit`, { amount }),
+  deposit: (accountNumber: number, amount: Money, idempotencyKey: string) =>
+    idempotentRequest("POST", `/api/accounts/${accountNumber}/deposit`, { amount }, idempotencyKey),
+  
+  withdraw: (accountNumber: number, amount: Money, idempotencyKey: string) =>
+    idempotentRequest("POST", `/api/accounts/${accountNumber}/withdraw`, { amount }, idempotencyKey),
   
-  withdraw: (accountNumber: number, amount: number) =>
-    apiRequest("POST", `/api/accounts/${accountNumber}/withdraw`, { amount }),
+  transfer: (fromAccountNumber: number, toAccountNumber: number, amount: Money, idempotencyKey: string) =>
+    idempotentRequest("POST", "/api/accounts/transfer", { fromAccountNumber, toAccountNumber, amount }, idempotencyKey),
   
-  transfer: (fromAccountNumber: number, toAccountNumber: number, amount: number) =>
-    apiRequest("POST", "/api/accounts/transfer", { fromAccountNumber, toAccountNumber, amount }),
+  getFeeQuote: (type: FeeableTransactionType, accountNumber: number, amount: Money): Promise<FeeQuote> =>
+    getJson(`/api/fees/quote?${new URLSearchParams({ type, accountNumber: String(accountNumber), amount: String(amount) })}`),
   
+  reverseTransaction: (transactionId: string, idempotencyKey: string) =>
+    idempotentRequest("POST", `/api/transactions/${transactionId}/reverse`, {}, idempotencyKey),
+  
+  // Holds: money kept aside on an account until captured, released or expired
+  getAccountHolds: (accountNumber: number, status?: HoldStatus): Promise<Hold[]> =>
+    getJson(`/api/accounts/${accountNumber}/holds${status ? `?${new URLSearchParams({ status })}` : ""}`),
+
+  placeHold: (accountNumber: number, request: PlaceHoldRequest, idempotencyKey: string) =>
+    idempotentRequest("POST", `/api/accounts/${accountNumber}/holds`, request, idempotencyKey),
+
+  captureHold: (id: string, request: CaptureHoldRequest, idempotencyKey: string) =>
+    idempotentRequest("POST", `/api/holds/${id}/capture`, request, idempotencyKey),
+
+  releaseHold: (id: string) =>
+    apiRequest("POST", `/api/holds/${id}/release`),
+
+  // Many transfers out of one account; every line reports how it went
+  transferBatch: (batch: TransferBatchRequest, idempotencyKey: string): Promise<TransferBatchResult> =>
+    idempotentRequest("POST", "/api/transfer-batches", batch, idempotencyKey).then((res) => res.json()),
+
+  // Standing orders the scheduler posts later, once or repeating
+  getScheduledTransfers: (status?: ScheduledTransferStatus): Promise<ScheduledTransferWithDetails[]> =>
+    getJson(`/api/scheduled-transfers${status ? `?${new URLSearchParams({ status })}` : ""}`),
+
+  getScheduledTransferRuns: (id: string): Promise<ScheduledTransferRun[]> =>
+    getJson(`/api/scheduled-transfers/${id}/runs`),
+
+  scheduleTransfer: (request: CreateScheduledTransferRequest, idempotencyKey: string) =>
+    idempotentRequest("POST", "/api/scheduled-transfers", request, idempotencyKey),
+
+  cancelScheduledTransfer: (id: string) =>
+    apiRequest("POST", `/api/scheduled-transfers/${id}/cancel`),
+
+  // Exchange rates for transfers between currencies
+  getFxRates: (): Promise<FxRate[]> =>
+    getJson("/api/fx-rates"),
+
+  loadFxRates: (request: LoadFxRatesRequest): Promise<FxRate[]> =>
+    apiRequest("POST", "/api/fx-rates", request).then((res) => res.json()),
+
+  getFxQuote: (from: Currency, to: Currency): Promise<FxQuote> =>
+    getJson(`/api/fx-rates/quote?${new URLSearchParams({ from, to })}`),
+
+  // Withdrawals and transfers waiting for a second member of staff
+  getApprovals: (status: ApprovalStatus): Promise<ApprovalRequestWithDetails[]> =>
+    getJson(`/api/approvals?${new URLSearchParams({ status })}`),
+
+  approveRequest: (id: string, comment: string, idempotencyKey: string) =>
+    idempotentRequest("POST", `/api/approvals/${id}/approve`, { comment }, idempotencyKey),
+
+  rejectRequest: (id: string, comment: string) =>
+    apiRequest("POST", `/api/approvals/${id}/reject`, { comment }),
+
+  // Audit log
+  getAuditLog: (query: AuditLogQuery = {}): Promise<AuditLogPage> => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") {
+        params.set(key, value instanceof Date ? value.toISOString() : String(value));
+      }
+    });
+    return getJson(`/api/audit?${params}`);
+  },
+
   // GitHub deployment
   deployToGitHub: (repoName: string, description?: string) =>
     apiRequest("POST", "/api/deploy-to-github", { repoName, description }),
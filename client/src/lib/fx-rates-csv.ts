@@ -0,0 +1,44 @@
+import { currencySchema } from "@shared/money";
+import type { LoadFxRatesRequest } from "@shared/schema";
+import { parseCsvRows, type CsvProblem } from "./csv";
+
+export const FX_RATES_CSV_COLUMNS = ["base", "quote", "rate"] as const;
+
+type FxRateLine = LoadFxRatesRequest["rates"][number];
+
+/**
+ * Reads exchange rates from CSV: the base currency, the quote currency and
+ * how many units of the quote one unit of the base buys. A header row and
+ * blank rows are skipped.
+ */
+export function parseFxRatesCsv(text: string): { rates: FxRateLine[]; problems: CsvProblem[] } {
+  const rates: FxRateLine[] = [];
+  const problems: CsvProblem[] = [];
+
+  parseCsvRows(text).forEach((fields, index) => {
+    const row = index + 1;
+    const [base = "", quote = "", rate = ""] = fields.map((field) => field.trim());
+    if (fields.every((field) => field.trim() === "")) {
+      return;
+    }
+    // A first row without a number in the rate column is a header
+    if (index === 0 && Number.isNaN(Number(rate))) {
+      return;
+    }
+
+    const baseCurrency = currencySchema.safeParse(base.toUpperCase());
+    const quoteCurrency = currencySchema.safeParse(quote.toUpperCase());
+    if (!baseCurrency.success || !quoteCurrency.success) {
+      problems.push({ row, message: `${baseCurrency.success ? quote : base || "Missing currency"} isn't a supported currency` });
+      return;
+    }
+    if (!/^\d+(\.\d+)?$/.test(rate) || Number(rate) <= 0) {
+      problems.push({ row, message: `"${rate}" isn't a rate like 0.9215` });
+      return;
+    }
+
+    rates.push({ baseCurrency: baseCurrency.data, quoteCurrency: quoteCurrency.data, rate: Number(rate) });
+  });
+
+  return { rates, problems };
+}
@@ -1,4 +1,4 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { MutationCache, QueryCache, QueryClient, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -11,10 +11,11 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  headers: Record<string, string> = {},
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { "Content-Type": "application/json", ...headers } : headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -41,7 +42,20 @@ export const getQueryFn: <T>(options: {
     return await res.json();
   };
 
+// The signed in user, or null; see useAuth
+export const USER_QUERY_KEY = ["/api/user"];
+
+// A 401 from any request means the session has ended. Forgetting the user
+// sends the app back to the login page.
+function signOutOnUnauthorized(error: Error) {
+  if (error.message.startsWith("401:")) {
+    queryClient.setQueryData(USER_QUERY_KEY, null);
+  }
+}
+
 export const queryClient = new QueryClient({
+  queryCache: new QueryCache({ onError: signOutOnUnauthorized }),
+  mutationCache: new MutationCache({ onError: signOutOnUnauthorized }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
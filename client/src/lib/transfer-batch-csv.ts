@@ -0,0 +1,47 @@
+import { INVALID_ACCOUNT_NUMBER_MESSAGE, isValidAccountNumber } from "@shared/account-number";
+import { toMinorUnits } from "@shared/money";
+import { parseCsvRows, type CsvProblem } from "./csv";
+import type { TransferBatchLine } from "@shared/schema";
+
+export const TRANSFER_BATCH_CSV_COLUMNS = ["toAccountNumber", "amount", "reference"] as const;
+
+/**
+ * Reads transfer batch lines from CSV: the account to pay, the amount in the
+ * paying account's currency and an optional reference, in that order. A
+ * header row and blank rows are skipped.
+ */
+export function parseTransferBatchCsv(text: string): { lines: TransferBatchLine[]; problems: CsvProblem[] } {
+  const lines: TransferBatchLine[] = [];
+  const problems: CsvProblem[] = [];
+
+  parseCsvRows(text).forEach((fields, index) => {
+    const row = index + 1;
+    const [account = "", amount = "", reference = ""] = fields.map((field) => field.trim());
+    if (fields.every((field) => field.trim() === "")) {
+      return;
+    }
+    // A first row that doesn't start with a number is a header
+    if (index === 0 && !/^\d+$/.test(account)) {
+      return;
+    }
+
+    const toAccountNumber = Number(account);
+    if (!/^\d+$/.test(account) || !isValidAccountNumber(toAccountNumber)) {
+      problems.push({ row, message: `${account || "Missing account"}: ${INVALID_ACCOUNT_NUMBER_MESSAGE}` });
+      return;
+    }
+    // Whole units and hundredths, without a currency sign or thousands separators
+    if (!/^\d+(\.\d{1,2})?$/.test(amount) || Number(amount) <= 0) {
+      problems.push({ row, message: `"${amount}" isn't an amount like 1234.56` });
+      return;
+    }
+
+    lines.push({
+      toAccountNumber,
+      amount: toMinorUnits(Number(amount)),
+      reference: reference || undefined,
+    });
+  });
+
+  return { lines, problems };
+}
@@ -0,0 +1,850 @@
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { AccountStatusBadge } from "@/components/account-status-badge";
+import { AccountHolders } from "@/components/account-holders";
+import { AccountHolds } from "@/components/account-holds";
+import { TellerLimitNotice, useExceedsTellerLimit } from "@/components/teller-limit";
+import { CurrencyPrefix, currencyInputPadding } from "@/components/currency-prefix";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  ArrowLeft,
+  ArrowLeftRight,
+  Loader2,
+  Lock,
+  MinusCircle,
+  PlusCircle,
+  User,
+  XCircle,
+} from "lucide-react";
+import { api } from "@/lib/api";
+import { INVALID_ACCOUNT_NUMBER_MESSAGE, isValidAccountNumber } from "@shared/account-number";
+import { BASE_CURRENCY, formatMoney, microsToMoney, toMajorUnits, toMinorUnits } from "@shared/money";
+import {
+  accountStatusReasons,
+  type Account,
+  type AccountHistoryPage,
+  type AccountHistoryEntry,
+  type AccountStatusChange,
+  type AccountStatusReason,
+  type InterestPreview,
+} from "@shared/schema";
+
+const PAGE_SIZE = 10;
+const CHART_POINTS = 100;
+
+const chartConfig = {
+  balance: {
+    label: "Balance",
+    color: "var(--chart-1)",
+  },
+} satisfies ChartConfig;
+
+function describeEntry(entry: AccountHistoryEntry, accountNumber: number) {
+  const counterparty = entry.direction === "debit" ? entry.toAccount : entry.fromAccount;
+  switch (entry.type) {
+    case 'deposit':
+      return 'Cash deposit';
+    case 'withdraw':
+      return 'Cash withdrawal';
+    case 'transfer':
+      return entry.direction === "debit"
+        ? `Transfer to #${counterparty?.accountNumber ?? 'unknown'}`
+        : `Transfer from #${counterparty?.accountNumber ?? 'unknown'}`;
+    case 'disbursement':
+      return 'Loan disbursement';
+    case 'interest':
+      return 'Interest payment';
+    case 'overdraft_interest':
+      return 'Overdraft interest';
+    case 'fee':
+      return 'Fee';
+    case 'reversal':
+      return counterparty && counterparty.accountNumber !== accountNumber
+        ? `Reversal with #${counterparty.accountNumber}`
+        : 'Reversal';
+    default:
+      return entry.type;
+  }
+}
+
+function AccountActions({ account }: { account: Account }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState("");
+  const [toAccountNumber, setToAccountNumber] = useState("");
+
+  const onSuccess = async (response: Response) => {
+    const result = await response.json();
+    toast({
+      variant: "default",
+      // Amounts over the approval threshold wait for someone else to approve them
+      title: response.status === 202 ? "Sent for approval" : "Success!",
+      description: result.message,
+    });
+    setAmount("");
+    setToAccountNumber("");
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions/recent"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/approvals"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message || "Failed to process transaction. Please try again.",
+    });
+  };
+
+  // Only one of these runs at a time, so they can share the key
+  const idempotency = useIdempotencyKey();
+  const onSettled = (_: unknown, error: Error | null) => idempotency.settle(error);
+
+  const depositMutation = useMutation({
+    mutationFn: (amount: number) =>
+      api.deposit(account.accountNumber, amount, idempotency.keyFor(["deposit", amount])),
+    onSuccess,
+    onError,
+    onSettled,
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: (amount: number) =>
+      api.withdraw(account.accountNumber, amount, idempotency.keyFor(["withdraw", amount])),
+    onSuccess,
+    onError,
+    onSettled,
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: ({ to, amount }: { to: number; amount: number }) =>
+      api.transfer(account.accountNumber, to, amount, idempotency.keyFor(["transfer", to, amount])),
+    onSuccess,
+    onError,
+    onSettled,
+  });
+
+  const minorAmount = toMinorUnits(parseFloat(amount));
+  const isPending = depositMutation.isPending || withdrawMutation.isPending || transferMutation.isPending;
+  // Money on hold can't be spent, and an arranged overdraft lets the
+  // balance go that far below zero
+  const availableFunds = account.availableBalance + account.overdraftLimit;
+  const exceedsBalance = minorAmount > availableFunds;
+  const overTellerLimit = useExceedsTellerLimit(minorAmount, account.currency);
+
+  const amountInput = (
+    <div>
+      <Label htmlFor="action-amount" className="block text-sm font-medium text-foreground mb-2">
+        Amount
+      </Label>
+      <div className="relative">
+        <CurrencyPrefix currency={account.currency} />
+        <Input
+          id="action-amount"
+          type="number"
+          step="0.01"
+          min="0.01"
+          placeholder="0.00"
+          className={`w-full ${currencyInputPadding(account.currency)}`}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          data-testid="input-action-amount"
+        />
+      </div>
+      <TellerLimitNotice amount={minorAmount} currency={account.currency} />
+    </div>
+  );
+
+  const availableFundsNote = (
+    <p className="text-sm text-muted-foreground" data-testid="text-available-funds">
+      Available funds: {formatMoney(availableFunds, account.currency)}
+      {account.heldAmount > 0 && ` after ${formatMoney(account.heldAmount, account.currency)} on hold`}
+      {account.overdraftLimit > 0 && ` (includes ${formatMoney(account.overdraftLimit, account.currency)} overdraft)`}
+    </p>
+  );
+
+  return (
+    <Card>
+      <div className="p-6 border-b border-border">
+        <h3 className="text-lg font-semibold text-foreground">Actions</h3>
+      </div>
+      <CardContent className="p-6">
+        <Tabs defaultValue="deposit">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="deposit" data-testid="tab-deposit">Deposit</TabsTrigger>
+            <TabsTrigger value="withdraw" data-testid="tab-withdraw">Withdraw</TabsTrigger>
+            <TabsTrigger value="transfer" data-testid="tab-transfer">Transfer</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="deposit" className="space-y-4 pt-4">
+            {amountInput}
+            <Button
+              className="w-full bg-green-600 text-white hover:bg-green-700"
+              disabled={isPending || overTellerLimit || minorAmount <= 0}
+              onClick={() => depositMutation.mutate(minorAmount)}
+              data-testid="button-inline-deposit"
+            >
+              {depositMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <PlusCircle className="mr-2 h-4 w-4" />
+              )}
+              Deposit
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="withdraw" className="space-y-4 pt-4">
+            {amountInput}
+            {availableFundsNote}
+            {exceedsBalance && (
+              <p className="text-sm text-red-600">Insufficient funds for this withdrawal</p>
+            )}
+            <Button
+              className="w-full bg-red-600 text-white hover:bg-red-700"
+              disabled={isPending || overTellerLimit || minorAmount <= 0 || exceedsBalance}
+              onClick={() => withdrawMutation.mutate(minorAmount)}
+              data-testid="button-inline-withdraw"
+            >
+              {withdrawMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <MinusCircle className="mr-2 h-4 w-4" />
+              )}
+              Withdraw
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="transfer" className="space-y-4 pt-4">
+            <div>
+              <Label htmlFor="action-to-account" className="block text-sm font-medium text-foreground mb-2">
+                To Account
+              </Label>
+              <Input
+                id="action-to-account"
+                type="number"
+                placeholder="Receiver account number"
+                value={toAccountNumber}
+                onChange={(e) => setToAccountNumber(e.target.value)}
+                data-testid="input-action-to-account"
+              />
+              {toAccountNumber && !isValidAccountNumber(Number(toAccountNumber)) && (
+                <p className="text-sm text-destructive mt-1">{INVALID_ACCOUNT_NUMBER_MESSAGE}</p>
+              )}
+            </div>
+            {amountInput}
+            {availableFundsNote}
+            {exceedsBalance && (
+              <p className="text-sm text-red-600">Insufficient funds in this account</p>
+            )}
+            <Button
+              className="w-full bg-blue-600 text-white hover:bg-blue-700"
+              disabled={isPending || overTellerLimit || minorAmount <= 0 || exceedsBalance || !isValidAccountNumber(Number(toAccountNumber))}
+              onClick={() => transferMutation.mutate({ to: parseInt(toAccountNumber), amount: minorAmount })}
+              data-testid="button-inline-transfer"
+            >
+              {transferMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <ArrowLeftRight className="mr-2 h-4 w-4" />
+              )}
+              Transfer
+            </Button>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
+
+const formatReason = (reason: string) => reason.replace(/_/g, ' ');
+
+function AccountLifecycle({ account }: { account: Account }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState<AccountStatusReason>("customer_request");
+  const [sweepToAccountNumber, setSweepToAccountNumber] = useState("");
+
+  const onSuccess = async (response: Response) => {
+    const result = await response.json();
+    toast({
+      variant: "default",
+      title: "Success!",
+      description: result.message,
+    });
+    setSweepToAccountNumber("");
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions/recent"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message || "Failed to update account. Please try again.",
+    });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: (status: AccountStatusChange["status"]) =>
+      api.changeAccountStatus(account.accountNumber, { status, reason }),
+    onSuccess,
+    onError,
+  });
+
+  const idempotency = useIdempotencyKey();
+  const closeMutation = useMutation({
+    mutationFn: () => {
+      const request = {
+        reason,
+        sweepToAccountNumber: sweepToAccountNumber ? parseInt(sweepToAccountNumber) : undefined,
+      };
+      return api.closeAccount(account.accountNumber, request, idempotency.keyFor(request));
+    },
+    onSuccess,
+    onError,
+    onSettled: (_, error) => idempotency.settle(error),
+  });
+
+  const isPending = statusMutation.isPending || closeMutation.isPending;
+
+  return (
+    <Card>
+      <div className="p-6 border-b border-border">
+        <h3 className="text-lg font-semibold text-foreground">Account Status</h3>
+      </div>
+      <CardContent className="p-6 space-y-4">
+        <div>
+          <Label className="block text-sm font-medium text-foreground mb-2">Reason</Label>
+          <Select value={reason} onValueChange={(value) => setReason(value as AccountStatusReason)}>
+            <SelectTrigger data-testid="select-status-reason">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {accountStatusReasons.map((value) => (
+                <SelectItem key={value} value={value} className="capitalize">
+                  {formatReason(value)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {account.status === 'closed' ? (
+          <Button
+            className="w-full"
+            disabled={isPending}
+            onClick={() => statusMutation.mutate("active")}
+            data-testid="button-reopen"
+          >
+            Reopen Account
+          </Button>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              {account.status === 'frozen' ? (
+                <Button
+                  variant="outline"
+                  disabled={isPending}
+                  onClick={() => statusMutation.mutate("active")}
+                  data-testid="button-unfreeze"
+                >
+                  Unfreeze
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  disabled={isPending}
+                  onClick={() => statusMutation.mutate("frozen")}
+                  data-testid="button-freeze"
+                >
+                  <Lock className="mr-2 h-4 w-4" />
+                  Freeze
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                disabled={isPending}
+                onClick={() => statusMutation.mutate(account.status === 'dormant' ? "active" : "dormant")}
+                data-testid="button-dormant"
+              >
+                {account.status === 'dormant' ? "Reactivate" : "Mark Dormant"}
+              </Button>
+            </div>
+
+            <div className="border-t border-border pt-4 space-y-2">
+              {account.balance !== 0 && (
+                <div>
+                  <Label htmlFor="sweep-account" className="block text-sm font-medium text-foreground mb-2">
+                    Sweep {formatMoney(account.balance, account.currency)} to account
+                  </Label>
+                  <Input
+                    id="sweep-account"
+                    type="number"
+                    placeholder="Receiving account number"
+                    value={sweepToAccountNumber}
+                    onChange={(e) => setSweepToAccountNumber(e.target.value)}
+                    data-testid="input-sweep-account"
+                  />
+                  {sweepToAccountNumber && !isValidAccountNumber(Number(sweepToAccountNumber)) && (
+                    <p className="text-sm text-destructive mt-1">{INVALID_ACCOUNT_NUMBER_MESSAGE}</p>
+                  )}
+                </div>
+              )}
+              <Button
+                variant="destructive"
+                className="w-full"
+                disabled={isPending || (account.balance !== 0 && !isValidAccountNumber(Number(sweepToAccountNumber)))}
+                onClick={() => closeMutation.mutate()}
+                data-testid="button-close-account"
+              >
+                {closeMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <XCircle className="mr-2 h-4 w-4" />
+                )}
+                Close Account
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function AccountOverdraft({ account }: { account: Account }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [limit, setLimit] = useState("");
+
+  const overdraftMutation = useMutation({
+    mutationFn: (overdraftLimit: number) => api.setOverdraftLimit(account.accountNumber, { overdraftLimit }),
+    onSuccess: async (response: Response) => {
+      const result = await response.json();
+      toast({
+        variant: "default",
+        title: "Success!",
+        description: result.message,
+      });
+      setLimit("");
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to set overdraft limit. Please try again.",
+      });
+    },
+  });
+
+  const minorLimit = toMinorUnits(parseFloat(limit));
+
+  return (
+    <Card>
+      <div className="p-6 border-b border-border">
+        <h3 className="text-lg font-semibold text-foreground">Overdraft</h3>
+      </div>
+      <CardContent className="p-6 space-y-4">
+        <p className="text-sm text-muted-foreground" data-testid="text-overdraft-limit">
+          {account.overdraftLimit > 0
+            ? `Arranged overdraft of ${formatMoney(account.overdraftLimit, account.currency)}`
+            : 'No arranged overdraft'}
+        </p>
+        <div>
+          <Label htmlFor="overdraft-limit" className="block text-sm font-medium text-foreground mb-2">
+            New Limit
+          </Label>
+          <div className="relative">
+            <CurrencyPrefix currency={account.currency} />
+            <Input
+              id="overdraft-limit"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              className={`w-full ${currencyInputPadding(account.currency)}`}
+              value={limit}
+              onChange={(e) => setLimit(e.target.value)}
+              data-testid="input-overdraft-limit"
+            />
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          className="w-full"
+          disabled={overdraftMutation.isPending || limit === "" || minorLimit < 0}
+          onClick={() => overdraftMutation.mutate(minorLimit)}
+          data-testid="button-set-overdraft"
+        >
+          {overdraftMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Set Overdraft Limit
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AccountDetails() {
+  const params = useParams<{ accountNumber: string }>();
+  const accountNumber = parseInt(params.accountNumber);
+  const { can } = useAuth();
+
+  const [typeFilter, setTypeFilter] = useState("all");
+  // Cursors of the pages before the current one, so Previous can step back
+  const [cursors, setCursors] = useState<(string | undefined)[]>([]);
+  const [cursor, setCursor] = useState<string | undefined>(undefined);
+
+  const { data: account, isLoading: accountLoading, isError } = useQuery<Account>({
+    queryKey: ["/api/accounts", accountNumber],
+    retry: false,
+  });
+
+  const { data: history, isLoading: historyLoading } = useQuery<AccountHistoryPage>({
+    queryKey: ["/api/accounts", accountNumber, "transactions", typeFilter, cursor],
+    queryFn: () =>
+      api.getAccountTransactions(accountNumber, {
+        limit: PAGE_SIZE,
+        cursor,
+        type: typeFilter === "all" ? undefined : typeFilter,
+      }),
+    enabled: !!account,
+  });
+
+  const { data: interest } = useQuery<InterestPreview>({
+    queryKey: ["/api/accounts", accountNumber, "interest"],
+    enabled: !!account,
+  });
+
+  const { data: chartHistory } = useQuery<AccountHistoryPage>({
+    queryKey: ["/api/accounts", accountNumber, "transactions", "chart"],
+    queryFn: () => api.getAccountTransactions(accountNumber, { limit: CHART_POINTS }),
+    enabled: !!account,
+  });
+
+  const chartData = (chartHistory?.entries ?? [])
+    .filter((entry) => entry.balanceAfter !== null)
+    .map((entry) => ({
+      date: new Date(entry.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      balance: toMajorUnits(entry.balanceAfter!),
+    }))
+    .reverse();
+
+  const currency = account?.currency ?? BASE_CURRENCY;
+
+  const changeFilter = (value: string) => {
+    setTypeFilter(value);
+    setCursors([]);
+    setCursor(undefined);
+  };
+
+  const nextPage = () => {
+    if (!history?.nextCursor) return;
+    setCursors([...cursors, cursor]);
+    setCursor(history.nextCursor);
+  };
+
+  const previousPage = () => {
+    setCursor(cursors[cursors.length - 1]);
+    setCursors(cursors.slice(0, -1));
+  };
+
+  if (isError || (!accountLoading && !account)) {
+    return (
+      <div className="p-6 bg-background min-h-screen">
+        <Link href="/accounts" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          All Accounts
+        </Link>
+        <p className="text-muted-foreground">Account #{params.accountNumber} was not found.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      {/* Header */}
+      <div className="mb-8">
+        <Link href="/accounts" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-4">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          All Accounts
+        </Link>
+        {accountLoading || !account ? (
+          <Skeleton className="h-10 w-64" />
+        ) : (
+          <div className="flex items-center space-x-4">
+            <div className="bg-primary/10 p-3 rounded-lg">
+              <User className="text-primary h-6 w-6" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-semibold text-foreground" data-testid="text-account-holder">
+                {account.name}
+              </h1>
+              <p className="text-muted-foreground">
+                <span className="font-mono">#{account.accountNumber}</span>
+                <span className="capitalize"> · {account.accountType}</span>
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-muted-foreground text-sm font-medium">Balance</p>
+            {account ? (
+              <>
+                <p
+                  className={`text-3xl font-bold ${account.balance < 0 ? 'text-red-600' : 'text-foreground'}`}
+                  data-testid="text-account-balance"
+                >
+                  {formatMoney(account.balance, currency)}
+                </p>
+                {account.heldAmount > 0 && (
+                  <p className="text-sm text-muted-foreground" data-testid="text-available-balance">
+                    {formatMoney(account.availableBalance, currency)} available, {formatMoney(account.heldAmount, currency)} on hold
+                  </p>
+                )}
+                {account.overdraftLimit > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    {formatMoney(account.availableBalance + account.overdraftLimit, currency)} available with overdraft
+                  </p>
+                )}
+              </>
+            ) : (
+              <Skeleton className="h-8 w-32 mt-2" />
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-muted-foreground text-sm font-medium">Status</p>
+            {account ? (
+              <div className="mt-2 space-y-1">
+                <AccountStatusBadge status={account.status} />
+                {account.statusReason && (
+                  <p className="text-sm text-muted-foreground capitalize">
+                    {formatReason(account.statusReason)}
+                    {account.statusChangedAt && ` · ${new Date(account.statusChangedAt).toLocaleDateString()}`}
+                  </p>
+                )}
+              </div>
+            ) : (
+              <Skeleton className="h-6 w-16 mt-2" />
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-muted-foreground text-sm font-medium">Opened</p>
+            {account ? (
+              <p className="text-xl font-semibold text-foreground mt-1">
+                {new Date(account.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}
+              </p>
+            ) : (
+              <Skeleton className="h-6 w-32 mt-2" />
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-muted-foreground text-sm font-medium">Accrued Interest</p>
+            {interest ? (
+              <>
+                <p className="text-xl font-semibold text-foreground mt-1" data-testid="text-accrued-interest">
+                  {formatMoney(interest.accrued, currency)}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {interest.since
+                    ? `${interest.days} day${interest.days === 1 ? '' : 's'} since ${interest.since}`
+                    : 'Nothing accrued yet'}
+                  {interest.dailyMicros !== 0 && ` · ~${formatMoney(microsToMoney(interest.dailyMicros), currency)}/day`}
+                </p>
+                {interest.overdraftFees > 0 && (
+                  <p className="text-sm text-red-600">
+                    Plus {formatMoney(interest.overdraftFees, currency)} in overdraft fees
+                  </p>
+                )}
+              </>
+            ) : (
+              <Skeleton className="h-6 w-24 mt-2" />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Balance over time */}
+          <Card>
+            <div className="p-6 border-b border-border">
+              <h3 className="text-lg font-semibold text-foreground">Balance Over Time</h3>
+            </div>
+            <CardContent className="p-6">
+              {chartData.length > 1 ? (
+                <ChartContainer config={chartConfig} className="h-64 w-full">
+                  <AreaChart data={chartData} margin={{ left: 12, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} minTickGap={32} />
+                    <YAxis
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={(value: number) => formatMoney(toMinorUnits(value), currency)}
+                      width={90}
+                    />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          formatter={(value) => formatMoney(toMinorUnits(Number(value)), currency)}
+                        />
+                      }
+                    />
+                    <Area
+                      dataKey="balance"
+                      type="stepAfter"
+                      fill="var(--color-balance)"
+                      fillOpacity={0.2}
+                      stroke="var(--color-balance)"
+                    />
+                  </AreaChart>
+                </ChartContainer>
+              ) : (
+                <p className="text-center text-muted-foreground py-8">Not enough activity to chart yet</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Transaction history */}
+          <Card>
+            <div className="p-6 border-b border-border flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-foreground">Transaction History</h3>
+              <Select value={typeFilter} onValueChange={changeFilter}>
+                <SelectTrigger className="w-[180px]" data-testid="select-history-type">
+                  <SelectValue placeholder="Filter by type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  <SelectItem value="deposit">Deposits</SelectItem>
+                  <SelectItem value="withdraw">Withdrawals</SelectItem>
+                  <SelectItem value="transfer">Transfers</SelectItem>
+                  <SelectItem value="reversal">Reversals</SelectItem>
+                  <SelectItem value="disbursement">Loan Disbursements</SelectItem>
+                  <SelectItem value="interest">Interest</SelectItem>
+                  <SelectItem value="overdraft_interest">Overdraft Interest</SelectItem>
+                  <SelectItem value="fee">Fees</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-secondary/30">
+                  <tr>
+                    <th className="text-left p-4 font-medium text-foreground">Date</th>
+                    <th className="text-left p-4 font-medium text-foreground">Description</th>
+                    <th className="text-right p-4 font-medium text-foreground">Amount</th>
+                    <th className="text-right p-4 font-medium text-foreground">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {historyLoading ? (
+                    [...Array(3)].map((_, i) => (
+                      <tr key={i} className="border-b border-border">
+                        <td className="p-4"><Skeleton className="h-4 w-24" /></td>
+                        <td className="p-4"><Skeleton className="h-4 w-40" /></td>
+                        <td className="p-4"><Skeleton className="h-4 w-16 ml-auto" /></td>
+                        <td className="p-4"><Skeleton className="h-4 w-20 ml-auto" /></td>
+                      </tr>
+                    ))
+                  ) : history && history.entries.length > 0 ? (
+                    history.entries.map((entry) => (
+                      <tr
+                        key={entry.postingId}
+                        className="border-b border-border hover:bg-secondary/20 transition-colors"
+                        data-testid={`row-history-${entry.postingId}`}
+                      >
+                        <td className="p-4 text-sm text-muted-foreground">
+                          {new Date(entry.createdAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}
+                        </td>
+                        <td className="p-4">
+                          <p className="font-medium text-foreground">{describeEntry(entry, accountNumber)}</p>
+                          {entry.status === 'reversed' && (
+                            <Badge variant="outline" className="text-orange-600 border-orange-300">
+                              Reversed
+                            </Badge>
+                          )}
+                        </td>
+                        <td className={`p-4 text-right font-semibold ${entry.direction === 'credit' ? 'text-green-600' : 'text-red-600'}`}>
+                          {entry.direction === 'credit' ? '+' : '-'}{formatMoney(entry.amount, currency)}
+                        </td>
+                        <td className="p-4 text-right text-foreground">
+                          {entry.balanceAfter !== null ? formatMoney(entry.balanceAfter, currency) : '—'}
+                        </td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={4} className="p-8 text-center text-muted-foreground">
+                        No transactions found
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            <div className="p-6 border-t border-border flex items-center justify-end space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={cursors.length === 0}
+                onClick={previousPage}
+                data-testid="button-history-previous"
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!history?.nextCursor}
+                onClick={nextPage}
+                data-testid="button-history-next"
+              >
+                Next
+              </Button>
+            </div>
+          </Card>
+        </div>
+
+        <div>
+          {account && (
+            <div className="space-y-6">
+              {account.status !== 'closed' && can("transactions:create") && <AccountActions account={account} />}
+              {account.accountType !== 'loan' && <AccountHolds account={account} />}
+              <AccountHolders account={account} />
+              {account.accountType === 'checking' && account.status !== 'closed' && can("accounts:manage") && (
+                <AccountOverdraft account={account} />
+              )}
+              {can("accounts:manage") && <AccountLifecycle account={account} />}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Badge } from "@/components/ui/badge";
+import { AccountStatusBadge } from "@/components/account-status-badge";
 import { 
   RefreshCw, 
   Search, 
@@ -15,11 +16,13 @@ import {
   User
 } from "lucide-react";
 import { api } from "@/lib/api";
+import { formatMoney, toMinorUnits } from "@shared/money";
 import type { Account } from "@shared/schema";
 
 export default function Accounts() {
   const [searchTerm, setSearchTerm] = useState("");
   const [filterType, setFilterType] = useState("all");
+  const [accountType, setAccountType] = useState("all");
 
   const { data: accounts, isLoading, refetch } = useQuery<Account[]>({
     queryKey: ["/api/accounts"],
@@ -30,10 +33,16 @@ export default function Accounts() {
     const matchesSearch = 
       account.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       account.accountNumber.toString().includes(searchTerm);
+
+    if (accountType !== "all" && account.accountType !== accountType) return false;
     
     if (filterType === "all") return matchesSearch;
-    if (filterType === "active") return matchesSearch; // All accounts are active
-    if (filterType === "high-balance") return matchesSearch && account.balance >= 10000;
+    if (filterType === "active" || filterType === "frozen" || filterType === "dormant" || filterType === "closed") {
+      return matchesSearch && account.status === filterType;
+    }
+    // A loan's balance is always negative, so it is never overdrawn
+    if (filterType === "overdrawn") return matchesSearch && account.accountType !== "loan" && account.balance < 0;
+    if (filterType === "high-balance") return matchesSearch && account.balance >= toMinorUnits(10000);
     if (filterType === "recent") return matchesSearch; // Could be enhanced with creation date filter
     
     return matchesSearch;
@@ -96,10 +105,25 @@ export default function Accounts() {
               <SelectContent>
                 <SelectItem value="all">All Accounts</SelectItem>
                 <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="frozen">Frozen</SelectItem>
+                <SelectItem value="dormant">Dormant</SelectItem>
+                <SelectItem value="closed">Closed</SelectItem>
+                <SelectItem value="overdrawn">Overdrawn</SelectItem>
                 <SelectItem value="high-balance">High Balance</SelectItem>
                 <SelectItem value="recent">Recent Activity</SelectItem>
               </SelectContent>
             </Select>
+            <Select value={accountType} onValueChange={setAccountType}>
+              <SelectTrigger className="w-full sm:w-[200px]" data-testid="select-account-type">
+                <SelectValue placeholder="Account type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Types</SelectItem>
+                <SelectItem value="checking">Checking</SelectItem>
+                <SelectItem value="savings">Savings</SelectItem>
+                <SelectItem value="loan">Loan</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
         </div>
         
@@ -168,19 +192,22 @@ export default function Accounts() {
                         </div>
                         <div>
                           <p className="font-medium text-foreground">{account.name}</p>
-                          <p className="text-sm text-muted-foreground">Personal Account</p>
+                          <p className="text-sm text-muted-foreground capitalize">{account.accountType} Account · {account.currency}</p>
                         </div>
                       </div>
                     </td>
                     <td className="p-4 text-right">
-                      <p className="font-bold text-xl text-foreground">
-                        ${account.balance.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                      <p className={`font-bold text-xl ${account.accountType !== 'loan' && account.balance < 0 ? 'text-red-600' : 'text-foreground'}`}>
+                        {formatMoney(account.balance, account.currency)}
                       </p>
+                      {account.overdraftLimit > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          {formatMoney(account.overdraftLimit, account.currency)} overdraft
+                        </p>
+                      )}
                     </td>
                     <td className="p-4">
-                      <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
-                        Active
-                      </Badge>
+                      <AccountStatusBadge status={account.status} />
                     </td>
                     <td className="p-4">
                       <p className="text-sm text-muted-foreground">
@@ -190,13 +217,16 @@ export default function Accounts() {
                     <td className="p-4">
                       <div className="flex justify-center space-x-2">
                         <Button
+                          asChild
                           size="sm"
                           variant="ghost"
                           className="p-2 text-blue-600 hover:bg-blue-100"
                           title="View Details"
                           data-testid={`button-view-${account.accountNumber}`}
                         >
-                          <Eye className="h-4 w-4" />
+                          <Link href={`/accounts/${account.accountNumber}`}>
+                            <Eye className="h-4 w-4" />
+                          </Link>
                         </Button>
                         <Button
                           size="sm"
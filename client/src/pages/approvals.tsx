@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Loader2, X } from "lucide-react";
+import { api } from "@/lib/api";
+import { formatMoney } from "@shared/money";
+import { approvalStatuses, type ApprovalRequestWithDetails, type ApprovalStatus } from "@shared/schema";
+
+type Decision = "approve" | "reject";
+
+const statusLabels: Record<ApprovalStatus, string> = {
+  pending: "Waiting",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+function describe(request: ApprovalRequestWithDetails): string {
+  const from = `#${request.fromAccount?.accountNumber ?? "?"}`;
+  if (request.batchLines) {
+    return `Batch of ${request.batchLines.length} transfers from ${from}`;
+  }
+  return request.transactionType === "transfer"
+    ? `Transfer from ${from} to #${request.toAccount?.accountNumber ?? "?"}`
+    : `Withdrawal from ${from}`;
+}
+
+function DecisionDialog({
+  request,
+  decision,
+  onClose,
+}: {
+  request: ApprovalRequestWithDetails;
+  decision: Decision;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [comment, setComment] = useState("");
+
+  const idempotency = useIdempotencyKey();
+  const decideMutation = useMutation({
+    mutationFn: () =>
+      decision === "approve"
+        ? api.approveRequest(request.id, comment, idempotency.keyFor([request.id, comment]))
+        : api.rejectRequest(request.id, comment),
+    onSettled: (_, error) => idempotency.settle(error),
+    onSuccess: async (response: Response) => {
+      const result = await response.json();
+      toast({
+        variant: "default",
+        title: decision === "approve" ? "Approved" : "Rejected",
+        description: result.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/approvals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions/recent"] });
+      onClose();
+    },
+    onError: (error: any) => {
+      // Someone else may have decided it meanwhile
+      queryClient.invalidateQueries({ queryKey: ["/api/approvals"] });
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to record the decision. Please try again.",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {decision === "approve" ? "Approve" : "Reject"} {formatMoney(request.amount, request.fromAccount?.currency)}?
+          </DialogTitle>
+          <DialogDescription>
+            {describe(request)}, asked for by {request.requestedBy?.displayName ?? "someone"}.
+            {decision === "approve"
+              ? " It posts as soon as you approve it."
+              : " The money held for it is released."}
+          </DialogDescription>
+        </DialogHeader>
+        <div>
+          <Label htmlFor="decision-comment" className="block text-sm font-medium text-foreground mb-2">
+            Comment
+          </Label>
+          <Textarea
+            id="decision-comment"
+            rows={3}
+            placeholder={decision === "approve" ? "e.g. Confirmed with the customer by phone" : "Why it was rejected"}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            data-testid="input-decision-comment"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant={decision === "approve" ? "default" : "destructive"}
+            disabled={decideMutation.isPending || !comment.trim()}
+            onClick={() => decideMutation.mutate()}
+            data-testid={`button-confirm-${decision}`}
+          >
+            {decideMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {decision === "approve" ? "Approve" : "Reject"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function Approvals() {
+  const { user, can } = useAuth();
+  const [status, setStatus] = useState<ApprovalStatus>("pending");
+  const [deciding, setDeciding] = useState<{ request: ApprovalRequestWithDetails; decision: Decision } | null>(null);
+
+  const { data: requests, isLoading, isError } = useQuery<ApprovalRequestWithDetails[]>({
+    queryKey: ["/api/approvals", status],
+    queryFn: () => api.getApprovals(status),
+    // Other staff add and decide requests all the time
+    staleTime: 0,
+  });
+
+  const canDecide = can("approvals:decide");
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-semibold text-foreground mb-2">Approvals</h1>
+        <p className="text-muted-foreground">
+          Large withdrawals and transfers wait here until someone other than whoever asked for them decides
+        </p>
+      </div>
+
+      <Card>
+        <div className="p-6 border-b border-border flex justify-end">
+          <Select value={status} onValueChange={(value) => setStatus(value as ApprovalStatus)}>
+            <SelectTrigger className="w-40" data-testid="select-approval-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {approvalStatuses.map((value) => (
+                <SelectItem key={value} value={value}>{statusLabels[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-secondary/30">
+              <tr>
+                <th className="text-left p-4 font-medium text-foreground">Asked</th>
+                <th className="text-left p-4 font-medium text-foreground">Request</th>
+                <th className="text-right p-4 font-medium text-foreground">Amount</th>
+                <th className="text-left p-4 font-medium text-foreground">By</th>
+                {status === "pending" ? (
+                  <th className="text-center p-4 font-medium text-foreground">Actions</th>
+                ) : (
+                  <th className="text-left p-4 font-medium text-foreground">Decision</th>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                [...Array(3)].map((_, i) => (
+                  <tr key={i} className="border-b border-border">
+                    <td className="p-4"><Skeleton className="h-4 w-32" /></td>
+                    <td className="p-4"><Skeleton className="h-4 w-56" /></td>
+                    <td className="p-4"><Skeleton className="h-4 w-20 ml-auto" /></td>
+                    <td className="p-4"><Skeleton className="h-4 w-24" /></td>
+                    <td className="p-4"><Skeleton className="h-8 w-32 mx-auto" /></td>
+                  </tr>
+                ))
+              ) : requests && requests.length > 0 ? (
+                requests.map((request) => (
+                  <tr key={request.id} className="border-b border-border" data-testid={`row-approval-${request.id}`}>
+                    <td className="p-4 text-sm text-muted-foreground whitespace-nowrap">
+                      {new Date(request.requestedAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}
+                    </td>
+                    <td className="p-4">
+                      <p className="font-medium text-foreground">{describe(request)}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {request.fromAccount?.name}
+                        {request.toAccount && ` → ${request.toAccount.name}`}
+                      </p>
+                    </td>
+                    <td className="p-4 text-right font-semibold text-foreground">{formatMoney(request.amount, request.fromAccount?.currency)}</td>
+                    <td className="p-4 text-sm text-foreground">{request.requestedBy?.displayName ?? '—'}</td>
+                    {status === "pending" ? (
+                      <td className="p-4">
+                        <div className="flex justify-center space-x-2">
+                          {request.requestedById === user?.id ? (
+                            <Badge variant="outline">Waiting for someone else</Badge>
+                          ) : canDecide ? (
+                            <>
+                              <Button
+                                size="sm"
+                                onClick={() => setDeciding({ request, decision: "approve" })}
+                                data-testid={`button-approve-${request.id}`}
+                              >
+                                <Check className="mr-1 h-4 w-4" />
+                                Approve
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="text-red-600"
+                                onClick={() => setDeciding({ request, decision: "reject" })}
+                                data-testid={`button-reject-${request.id}`}
+                              >
+                                <X className="mr-1 h-4 w-4" />
+                                Reject
+                              </Button>
+                            </>
+                          ) : (
+                            <Badge variant="outline">Needs a manager</Badge>
+                          )}
+                        </div>
+                      </td>
+                    ) : (
+                      <td className="p-4">
+                        <p className="text-sm text-foreground">
+                          {statusLabels[request.status]} by {request.decidedBy?.displayName ?? '—'}
+                          {request.decidedAt && (
+                            <span className="text-muted-foreground">
+                              {" · "}
+                              {new Date(request.decidedAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}
+                            </span>
+                          )}
+                        </p>
+                        {request.comment && <p className="text-sm text-muted-foreground">“{request.comment}”</p>}
+                      </td>
+                    )}
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={5} className="p-8 text-center text-muted-foreground">
+                    {isError
+                      ? "Failed to load approval requests"
+                      : status === "pending"
+                        ? "Nothing is waiting for approval"
+                        : `No ${status} requests`}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {deciding && (
+        <DecisionDialog
+          request={deciding.request}
+          decision={deciding.decision}
+          onClose={() => setDeciding(null)}
+        />
+      )}
+    </div>
+  );
+}
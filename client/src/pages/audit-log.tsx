@@ -0,0 +1,260 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { api } from "@/lib/api";
+import { auditedMethods, auditOutcomes, type AuditEntry, type AuditLogPage, type AuditOutcome } from "@shared/schema";
+
+const PAGE_SIZE = 25;
+
+const outcomeStyles: Record<AuditOutcome, string> = {
+  succeeded: "bg-green-100 text-green-800 hover:bg-green-100",
+  denied: "bg-orange-100 text-orange-800 hover:bg-orange-100",
+  rejected: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  failed: "bg-red-100 text-red-800 hover:bg-red-100",
+};
+
+type Filters = {
+  actor: string;
+  method: string;
+  outcome: string;
+  route: string;
+  accountNumber: string;
+  from: string;
+  to: string;
+};
+
+const noFilters: Filters = { actor: "", method: "all", outcome: "all", route: "", accountNumber: "", from: "", to: "" };
+
+function Json({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div className="min-w-0">
+      <p className="text-xs font-medium text-muted-foreground mb-1">{label}</p>
+      <pre className="text-xs bg-secondary/30 rounded-lg p-3 overflow-auto max-h-64">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  );
+}
+
+function AuditEntryDetails({ entry }: { entry: AuditEntry }) {
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+      <Json label={`Request body · ${entry.path}`} value={entry.requestBody} />
+      <Json label="Before" value={entry.before} />
+      <Json label="After" value={entry.after} />
+    </div>
+  );
+}
+
+export default function AuditLog() {
+  const [filters, setFilters] = useState<Filters>(noFilters);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  // Cursors of the pages before the current one, so Previous can step back
+  const [cursors, setCursors] = useState<(string | undefined)[]>([]);
+  const [cursor, setCursor] = useState<string | undefined>(undefined);
+
+  const { data: page, isLoading, isError } = useQuery<AuditLogPage>({
+    queryKey: ["/api/audit", filters, cursor],
+    queryFn: () =>
+      api.getAuditLog({
+        limit: PAGE_SIZE,
+        cursor,
+        actor: filters.actor || undefined,
+        method: filters.method === "all" ? undefined : (filters.method as AuditEntry["method"]),
+        outcome: filters.outcome === "all" ? undefined : (filters.outcome as AuditOutcome),
+        route: filters.route || undefined,
+        accountNumber: /^\d+$/.test(filters.accountNumber) ? Number(filters.accountNumber) : undefined,
+        // Whole days in local time; `to` is inclusive here, exclusive in the API
+        from: filters.from ? new Date(`${filters.from}T00:00`) : undefined,
+        to: filters.to ? new Date(new Date(`${filters.to}T00:00`).getTime() + 24 * 60 * 60 * 1000) : undefined,
+      }),
+    // Every change anywhere in the app adds entries, so don't trust the cache
+    staleTime: 0,
+  });
+
+  const changeFilter = (key: keyof Filters, value: string) => {
+    setFilters({ ...filters, [key]: value });
+    setCursors([]);
+    setCursor(undefined);
+  };
+
+  const nextPage = () => {
+    if (!page?.nextCursor) return;
+    setCursors([...cursors, cursor]);
+    setCursor(page.nextCursor);
+  };
+
+  const previousPage = () => {
+    setCursor(cursors[cursors.length - 1]);
+    setCursors(cursors.slice(0, -1));
+  };
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-semibold text-foreground mb-2">Audit Log</h1>
+        <p className="text-muted-foreground">Every change made through the app: who, from where, and what it changed</p>
+      </div>
+
+      <Card>
+        <div className="p-6 border-b border-border grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-3">
+          <Input
+            placeholder="Username"
+            value={filters.actor}
+            onChange={(e) => changeFilter("actor", e.target.value)}
+            data-testid="input-audit-actor"
+          />
+          <Input
+            placeholder="Account number"
+            inputMode="numeric"
+            value={filters.accountNumber}
+            onChange={(e) => changeFilter("accountNumber", e.target.value.trim())}
+            data-testid="input-audit-account"
+          />
+          <Input
+            placeholder="Route, e.g. deposit"
+            value={filters.route}
+            onChange={(e) => changeFilter("route", e.target.value)}
+            data-testid="input-audit-route"
+          />
+          <Select value={filters.method} onValueChange={(value) => changeFilter("method", value)}>
+            <SelectTrigger data-testid="select-audit-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Methods</SelectItem>
+              {auditedMethods.map((method) => (
+                <SelectItem key={method} value={method}>{method}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.outcome} onValueChange={(value) => changeFilter("outcome", value)}>
+            <SelectTrigger className="capitalize" data-testid="select-audit-outcome">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Outcomes</SelectItem>
+              {auditOutcomes.map((outcome) => (
+                <SelectItem key={outcome} value={outcome} className="capitalize">{outcome}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            title="From"
+            value={filters.from}
+            onChange={(e) => changeFilter("from", e.target.value)}
+            data-testid="input-audit-from"
+          />
+          <Input
+            type="date"
+            title="To"
+            value={filters.to}
+            onChange={(e) => changeFilter("to", e.target.value)}
+            data-testid="input-audit-to"
+          />
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-secondary/30">
+              <tr>
+                <th className="w-10 p-4" />
+                <th className="text-left p-4 font-medium text-foreground">Time</th>
+                <th className="text-left p-4 font-medium text-foreground">Who</th>
+                <th className="text-left p-4 font-medium text-foreground">Request</th>
+                <th className="text-left p-4 font-medium text-foreground">Outcome</th>
+                <th className="text-left p-4 font-medium text-foreground">Touched</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                [...Array(5)].map((_, i) => (
+                  <tr key={i} className="border-b border-border">
+                    <td className="p-4" />
+                    <td className="p-4"><Skeleton className="h-4 w-32" /></td>
+                    <td className="p-4"><Skeleton className="h-4 w-24" /></td>
+                    <td className="p-4"><Skeleton className="h-4 w-56" /></td>
+                    <td className="p-4"><Skeleton className="h-5 w-20" /></td>
+                    <td className="p-4"><Skeleton className="h-4 w-32" /></td>
+                  </tr>
+                ))
+              ) : page && page.entries.length > 0 ? (
+                page.entries.map((entry) => (
+                  <Fragment key={entry.id}>
+                    <tr
+                      className="border-b border-border hover:bg-secondary/20 transition-colors cursor-pointer"
+                      onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                      data-testid={`row-audit-${entry.id}`}
+                    >
+                      <td className="p-4 text-muted-foreground">
+                        {expanded === entry.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </td>
+                      <td className="p-4 text-sm text-muted-foreground whitespace-nowrap">
+                        {new Date(entry.createdAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'medium' })}
+                      </td>
+                      <td className="p-4">
+                        <p className="font-medium text-foreground">{entry.actorUsername ?? '—'}</p>
+                        <p className="text-xs text-muted-foreground font-mono">{entry.ip ?? ''}</p>
+                      </td>
+                      <td className="p-4 font-mono text-sm text-foreground">
+                        <span className="font-semibold">{entry.method}</span> {entry.route}
+                      </td>
+                      <td className="p-4">
+                        <Badge className={`capitalize ${outcomeStyles[entry.outcome]}`}>{entry.outcome}</Badge>
+                        <span className="text-xs text-muted-foreground ml-2">{entry.statusCode}</span>
+                      </td>
+                      <td className="p-4 text-sm text-muted-foreground font-mono">
+                        {entry.subjects.length > 0 ? entry.subjects.join(", ") : '—'}
+                      </td>
+                    </tr>
+                    {expanded === entry.id && (
+                      <tr className="border-b border-border bg-secondary/10">
+                        <td colSpan={6} className="p-4">
+                          <AuditEntryDetails entry={entry} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={6} className="p-8 text-center text-muted-foreground">
+                    {isError ? "Failed to load the audit log" : "No entries match these filters"}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        <div className="p-6 border-t border-border flex items-center justify-end space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={cursors.length === 0}
+            onClick={previousPage}
+            data-testid="button-audit-previous"
+          >
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!page?.nextCursor}
+            onClick={nextPage}
+            data-testid="button-audit-next"
+          >
+            Next
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -7,14 +7,37 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { CustomerPicker } from "@/components/customer-picker";
+import { CurrencyPrefix, currencyInputPadding } from "@/components/currency-prefix";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
 import { useToast } from "@/hooks/use-toast";
-import { PlusCircle, Loader2 } from "lucide-react";
+import { PlusCircle, Loader2, User } from "lucide-react";
 import { api } from "@/lib/api";
+import { BASE_CURRENCY, currencies, currencyCodes, currencySchema, toMinorUnits, type Currency } from "@shared/money";
+import { accountTypes, type Account, type Customer, type OpenAccountRequest } from "@shared/schema";
 
 const createAccountSchema = z.object({
-  accountNumber: z.number().min(1, "Account number must be positive"),
-  name: z.string().min(1, "Name is required").max(50, "Name must be less than 50 characters"),
+  // Blank means the account is named after its customer
+  name: z.string().max(50, "Name must be less than 50 characters"),
+  accountType: z.enum(accountTypes),
+  currency: currencySchema,
   balance: z.number().min(0, "Initial balance cannot be negative"),
+  customerMode: z.enum(["existing", "new"]),
+  customerId: z.string().optional(),
+  customerName: z.string().trim(),
+  dateOfBirth: z.string(),
+  email: z.string().email("Enter a valid email").or(z.literal("")),
+  phone: z.string(),
+  address: z.string(),
+}).refine((data) => data.customerMode === "new" || !!data.customerId, {
+  message: "Pick a customer",
+  path: ["customerId"],
+}).refine((data) => data.customerMode === "existing" || data.customerName.length > 0, {
+  message: "Customer name is required",
+  path: ["customerName"],
 });
 
 type CreateAccountForm = z.infer<typeof createAccountSchema>;
@@ -22,27 +45,67 @@ type CreateAccountForm = z.infer<typeof createAccountSchema>;
 export default function CreateAccount() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
 
   const form = useForm<CreateAccountForm>({
     resolver: zodResolver(createAccountSchema),
     defaultValues: {
-      accountNumber: 0,
       name: "",
+      accountType: "checking",
+      currency: BASE_CURRENCY,
       balance: 0,
+      customerMode: "existing",
+      customerName: "",
+      dateOfBirth: "",
+      email: "",
+      phone: "",
+      address: "",
     },
   });
 
+  const accountType = form.watch("accountType");
+  const currency = form.watch("currency");
+  const customerMode = form.watch("customerMode");
+
+  const resetForm = () => {
+    form.reset();
+    setSelectedCustomer(null);
+  };
+
+  const idempotency = useIdempotencyKey();
   const createAccountMutation = useMutation({
-    mutationFn: (data: CreateAccountForm) => api.createAccount(data),
-    onSuccess: (response) => {
-      const account = response.json();
+    // A loan's balance is what the customer owes, so the principal goes in negative
+    mutationFn: (data: CreateAccountForm) => {
+      const request: OpenAccountRequest = {
+        name: data.name.trim() || (data.customerMode === "existing" ? selectedCustomer!.name : data.customerName),
+        accountType: data.accountType,
+        currency: data.currency,
+        balance: data.accountType === "loan" ? -toMinorUnits(data.balance) : toMinorUnits(data.balance),
+        ...(data.customerMode === "existing"
+          ? { customerId: data.customerId }
+          : {
+              customer: {
+                name: data.customerName,
+                dateOfBirth: data.dateOfBirth || null,
+                email: data.email || null,
+                phone: data.phone || null,
+                address: data.address || null,
+              },
+            }),
+      };
+      return api.createAccount(request, idempotency.keyFor(request));
+    },
+    onSettled: (_, error) => idempotency.settle(error),
+    onSuccess: async (response) => {
+      const account: Account = await response.json();
       toast({
         variant: "default",
         title: "Success!",
-        description: `Account #${form.getValues().accountNumber} created successfully!`,
+        description: `Account #${account.accountNumber} created successfully!`,
       });
-      form.reset();
+      resetForm();
       queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
     },
     onError: (error: any) => {
@@ -63,7 +126,7 @@ export default function CreateAccount() {
       {/* Header */}
       <div className="mb-8">
         <h1 className="text-3xl font-semibold text-foreground mb-2">Create New Account</h1>
-        <p className="text-muted-foreground">Set up a new bank account with initial details</p>
+        <p className="text-muted-foreground">Set up a new bank account; its account number is assigned when it is created</p>
       </div>
 
       <div className="max-w-2xl">
@@ -71,33 +134,108 @@ export default function CreateAccount() {
           <CardContent className="p-8">
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <div>
-                <Label htmlFor="accountNumber" className="block text-sm font-medium text-foreground mb-2">
-                  Account Number
+                <Label className="block text-sm font-medium text-foreground mb-2">
+                  Customer
                 </Label>
-                <Input
-                  id="accountNumber"
-                  type="number"
-                  placeholder="Enter unique account number"
-                  className="w-full"
-                  data-testid="input-account-number"
-                  {...form.register("accountNumber", { valueAsNumber: true })}
-                />
-                <p className="text-xs text-muted-foreground mt-1">Must be unique and numeric</p>
-                {form.formState.errors.accountNumber && (
-                  <p className="text-sm text-destructive mt-1">
-                    {form.formState.errors.accountNumber.message}
-                  </p>
-                )}
+                <Tabs
+                  value={customerMode}
+                  onValueChange={(value) => form.setValue("customerMode", value as CreateAccountForm["customerMode"])}
+                >
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="existing" data-testid="tab-existing-customer">Existing Customer</TabsTrigger>
+                    <TabsTrigger value="new" data-testid="tab-new-customer">New Customer</TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="existing" className="space-y-3 pt-2">
+                    {selectedCustomer && (
+                      <div className="flex items-center space-x-3 border border-border rounded-lg p-3" data-testid="selected-customer">
+                        <div className="bg-primary/10 p-2 rounded-lg">
+                          <User className="text-primary h-4 w-4" />
+                        </div>
+                        <div>
+                          <p className="font-medium text-foreground">{selectedCustomer.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {[selectedCustomer.email, selectedCustomer.phone].filter(Boolean).join(" · ") || "No contact details"}
+                          </p>
+                        </div>
+                      </div>
+                    )}
+                    <CustomerPicker
+                      selected={selectedCustomer}
+                      onSelect={(customer) => {
+                        setSelectedCustomer(customer);
+                        form.setValue("customerId", customer.id, { shouldValidate: true });
+                      }}
+                    />
+                    {form.formState.errors.customerId && (
+                      <p className="text-sm text-destructive">
+                        {form.formState.errors.customerId.message}
+                      </p>
+                    )}
+                  </TabsContent>
+
+                  <TabsContent value="new" className="space-y-4 pt-2">
+                    <div>
+                      <Label htmlFor="customerName" className="block text-sm font-medium text-foreground mb-2">
+                        Full Name
+                      </Label>
+                      <Input
+                        id="customerName"
+                        type="text"
+                        placeholder="Enter full name"
+                        className="w-full"
+                        data-testid="input-customer-name"
+                        {...form.register("customerName")}
+                      />
+                      {form.formState.errors.customerName && (
+                        <p className="text-sm text-destructive mt-1">
+                          {form.formState.errors.customerName.message}
+                        </p>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="dateOfBirth" className="block text-sm font-medium text-foreground mb-2">
+                          Date of Birth
+                        </Label>
+                        <Input id="dateOfBirth" type="date" data-testid="input-date-of-birth" {...form.register("dateOfBirth")} />
+                      </div>
+                      <div>
+                        <Label htmlFor="phone" className="block text-sm font-medium text-foreground mb-2">
+                          Phone
+                        </Label>
+                        <Input id="phone" type="tel" placeholder="Phone number" data-testid="input-phone" {...form.register("phone")} />
+                      </div>
+                    </div>
+                    <div>
+                      <Label htmlFor="email" className="block text-sm font-medium text-foreground mb-2">
+                        Email
+                      </Label>
+                      <Input id="email" type="email" placeholder="name@example.com" data-testid="input-email" {...form.register("email")} />
+                      {form.formState.errors.email && (
+                        <p className="text-sm text-destructive mt-1">
+                          {form.formState.errors.email.message}
+                        </p>
+                      )}
+                    </div>
+                    <div>
+                      <Label htmlFor="address" className="block text-sm font-medium text-foreground mb-2">
+                        Address
+                      </Label>
+                      <Textarea id="address" rows={3} placeholder="Street, city, postal code" data-testid="input-address" {...form.register("address")} />
+                    </div>
+                  </TabsContent>
+                </Tabs>
               </div>
 
               <div>
                 <Label htmlFor="name" className="block text-sm font-medium text-foreground mb-2">
-                  Account Holder Name
+                  Account Name
                 </Label>
                 <Input
                   id="name"
                   type="text"
-                  placeholder="Enter full name"
+                  placeholder="Defaults to the customer's name"
                   className="w-full"
                   data-testid="input-holder-name"
                   {...form.register("name")}
@@ -109,21 +247,62 @@ export default function CreateAccount() {
                 )}
               </div>
 
+              <div>
+                <Label className="block text-sm font-medium text-foreground mb-2">
+                  Account Type
+                </Label>
+                <Select
+                  value={accountType}
+                  onValueChange={(value) => form.setValue("accountType", value as CreateAccountForm["accountType"])}
+                >
+                  <SelectTrigger className="w-full" data-testid="select-account-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="checking">Checking</SelectItem>
+                    <SelectItem value="savings">Savings</SelectItem>
+                    <SelectItem value="loan">Loan</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {accountType === "savings" && "Limited to 6 withdrawals or transfers per month"}
+                  {accountType === "loan" && "Only accepts repayments until the loan is paid off"}
+                  {accountType === "checking" && "Everyday account with unlimited withdrawals"}
+                </p>
+              </div>
+
+              <div>
+                <Label className="block text-sm font-medium text-foreground mb-2">
+                  Currency
+                </Label>
+                <Select value={currency} onValueChange={(value) => form.setValue("currency", value as Currency)}>
+                  <SelectTrigger className="w-full" data-testid="select-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {currencyCodes.map((code) => (
+                      <SelectItem key={code} value={code}>{code} · {currencies[code].name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Can't be changed later; transfers from other currencies are converted
+                </p>
+              </div>
+
               <div>
                 <Label htmlFor="balance" className="block text-sm font-medium text-foreground mb-2">
-                  Initial Balance
+                  {accountType === "loan" ? "Loan Amount" : "Initial Balance"}
                 </Label>
                 <div className="relative">
-                  <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-muted-foreground">
-                    $
-                  </span>
+                  <CurrencyPrefix currency={currency} />
                   <Input
                     id="balance"
                     type="number"
                     step="0.01"
                     min="0"
                     placeholder="0.00"
-                    className="w-full pl-8"
+                    className={`w-full ${currencyInputPadding(currency)}`}
                     data-testid="input-initial-balance"
                     {...form.register("balance", { valueAsNumber: true })}
                   />
@@ -158,7 +337,7 @@ export default function CreateAccount() {
                 <Button
                   type="button"
                   variant="secondary"
-                  onClick={() => form.reset()}
+                  onClick={resetForm}
                   data-testid="button-reset-form"
                 >
                   Reset
@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AccountStatusBadge } from "@/components/account-status-badge";
+import { roleLabels } from "@/components/account-holders";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ArrowLeft, Eye, Loader2, Pencil, User } from "lucide-react";
+import { api } from "@/lib/api";
+import { BASE_CURRENCY, formatMoney } from "@shared/money";
+import type { Customer, CustomerProfile as Profile } from "@shared/schema";
+
+function ContactDetails({ customer }: { customer: Customer }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState({
+    name: customer.name,
+    dateOfBirth: customer.dateOfBirth ?? "",
+    email: customer.email ?? "",
+    phone: customer.phone ?? "",
+    address: customer.address ?? "",
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: () =>
+      api.updateCustomer(customer.id, {
+        name: draft.name,
+        dateOfBirth: draft.dateOfBirth || null,
+        email: draft.email || null,
+        phone: draft.phone || null,
+        address: draft.address || null,
+      }),
+    onSuccess: () => {
+      toast({
+        variant: "default",
+        title: "Success!",
+        description: "Customer details saved",
+      });
+      setEditing(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save customer. Please try again.",
+      });
+    },
+  });
+
+  const field = (key: keyof typeof draft, label: string, type = "text") => (
+    <div>
+      <Label htmlFor={`customer-${key}`} className="block text-sm font-medium text-foreground mb-2">
+        {label}
+      </Label>
+      <Input
+        id={`customer-${key}`}
+        type={type}
+        value={draft[key]}
+        onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+        data-testid={`input-customer-${key}`}
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <div className="p-6 border-b border-border flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-foreground">Contact Details</h3>
+        {!editing && can("customers:manage") && (
+          <Button size="sm" variant="ghost" onClick={() => setEditing(true)} data-testid="button-edit-customer">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <CardContent className="p-6">
+        {editing ? (
+          <div className="space-y-4">
+            {field("name", "Full Name")}
+            {field("dateOfBirth", "Date of Birth", "date")}
+            {field("email", "Email", "email")}
+            {field("phone", "Phone", "tel")}
+            <div>
+              <Label htmlFor="customer-address" className="block text-sm font-medium text-foreground mb-2">
+                Address
+              </Label>
+              <Textarea
+                id="customer-address"
+                rows={3}
+                value={draft.address}
+                onChange={(e) => setDraft({ ...draft, address: e.target.value })}
+                data-testid="input-customer-address"
+              />
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                className="flex-1"
+                disabled={updateMutation.isPending || !draft.name.trim()}
+                onClick={() => updateMutation.mutate()}
+                data-testid="button-save-customer"
+              >
+                {updateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+              <Button variant="secondary" onClick={() => setEditing(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <dl className="space-y-3 text-sm">
+            {[
+              ["Date of birth", customer.dateOfBirth],
+              ["Email", customer.email],
+              ["Phone", customer.phone],
+              ["Address", customer.address],
+            ].map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className="text-foreground whitespace-pre-line">{value || '—'}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function CustomerProfile() {
+  const params = useParams<{ id: string }>();
+
+  const { data: profile, isLoading, isError } = useQuery<Profile>({
+    queryKey: ["/api/customers", params.id],
+    retry: false,
+  });
+
+  if (isError || (!isLoading && !profile)) {
+    return (
+      <div className="p-6 bg-background min-h-screen">
+        <Link href="/customers" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          All Customers
+        </Link>
+        <p className="text-muted-foreground">This customer was not found.</p>
+      </div>
+    );
+  }
+
+  const openAccounts = profile?.accounts.filter(({ account }) => account.status !== 'closed') ?? [];
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      {/* Header */}
+      <div className="mb-8">
+        <Link href="/customers" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-4">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          All Customers
+        </Link>
+        {isLoading || !profile ? (
+          <Skeleton className="h-10 w-64" />
+        ) : (
+          <div className="flex items-center space-x-4">
+            <div className="bg-primary/10 p-3 rounded-lg">
+              <User className="text-primary h-6 w-6" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-semibold text-foreground" data-testid="text-customer-name">
+                {profile.customer.name}
+              </h1>
+              <p className="text-muted-foreground">
+                Customer since {new Date(profile.customer.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-muted-foreground text-sm font-medium">Combined Balance</p>
+            {profile ? (
+              <div data-testid="text-combined-balance">
+                {(profile.combinedBalances.length > 0
+                  ? profile.combinedBalances
+                  : [{ currency: BASE_CURRENCY, balance: 0 }]
+                ).map(({ currency, balance }) => (
+                  <p key={currency} className={`text-3xl font-bold ${balance < 0 ? 'text-red-600' : 'text-foreground'}`}>
+                    {formatMoney(balance, currency)}
+                  </p>
+                ))}
+              </div>
+            ) : (
+              <Skeleton className="h-8 w-32 mt-2" />
+            )}
+            <p className="text-sm text-muted-foreground">Across open accounts, per currency; loans count against it</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-muted-foreground text-sm font-medium">Accounts</p>
+            {profile ? (
+              <p className="text-3xl font-bold text-foreground" data-testid="text-account-count">
+                {openAccounts.length}
+                {profile.accounts.length > openAccounts.length && (
+                  <span className="text-sm font-normal text-muted-foreground ml-2">
+                    + {profile.accounts.length - openAccounts.length} closed
+                  </span>
+                )}
+              </p>
+            ) : (
+              <Skeleton className="h-8 w-16 mt-2" />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <Card>
+            <div className="p-6 border-b border-border">
+              <h3 className="text-lg font-semibold text-foreground">Accounts</h3>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-secondary/30">
+                  <tr>
+                    <th className="text-left p-4 font-medium text-foreground">Account</th>
+                    <th className="text-left p-4 font-medium text-foreground">Role</th>
+                    <th className="text-left p-4 font-medium text-foreground">Status</th>
+                    <th className="text-right p-4 font-medium text-foreground">Balance</th>
+                    <th className="text-center p-4 font-medium text-foreground">View</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {profile?.accounts.map(({ account, role }) => (
+                    <tr key={account.id} className="border-b border-border" data-testid={`row-account-${account.accountNumber}`}>
+                      <td className="p-4">
+                        <p className="font-mono text-primary font-medium">#{account.accountNumber}</p>
+                        <p className="text-sm text-muted-foreground capitalize">{account.name} · {account.accountType}</p>
+                      </td>
+                      <td className="p-4">
+                        <Badge variant="outline">{roleLabels[role]}</Badge>
+                      </td>
+                      <td className="p-4">
+                        <AccountStatusBadge status={account.status} />
+                      </td>
+                      <td className="p-4 text-right font-semibold text-foreground">
+                        {formatMoney(account.balance, account.currency)}
+                      </td>
+                      <td className="p-4">
+                        <div className="flex justify-center">
+                          <Button asChild size="sm" variant="ghost" className="p-2 text-blue-600 hover:bg-blue-100" title="View Account">
+                            <Link href={`/accounts/${account.accountNumber}`}>
+                              <Eye className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                  {profile && profile.accounts.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="p-8 text-center text-muted-foreground">
+                        No accounts yet
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        </div>
+
+        {profile && <ContactDetails key={profile.customer.id} customer={profile.customer} />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/use-auth";
+import { Eye, Search, User, UserPlus } from "lucide-react";
+import { api } from "@/lib/api";
+import type { Customer } from "@shared/schema";
+
+export default function Customers() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const { can } = useAuth();
+
+  const { data: customers, isLoading } = useQuery<Customer[]>({
+    queryKey: ["/api/customers", "search", searchTerm],
+    queryFn: () => api.searchCustomers(searchTerm),
+  });
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-semibold text-foreground mb-2">Customers</h1>
+        <p className="text-muted-foreground">The people behind every account</p>
+      </div>
+
+      <Card>
+        <div className="p-6 border-b border-border">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-2xl font-semibold text-foreground">Customer Directory</h3>
+            {can("accounts:manage") && (
+              <Button asChild className="bg-primary text-primary-foreground hover:bg-primary/90" data-testid="button-new-account">
+                <Link href="/create-account">
+                  <UserPlus className="mr-2 h-4 w-4" />
+                  New Account
+                </Link>
+              </Button>
+            )}
+          </div>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+            <Input
+              placeholder="Search customers by name, email or phone..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+              data-testid="input-search"
+            />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-secondary/30">
+              <tr>
+                <th className="text-left p-4 font-medium text-foreground">Customer</th>
+                <th className="text-left p-4 font-medium text-foreground">Email</th>
+                <th className="text-left p-4 font-medium text-foreground">Phone</th>
+                <th className="text-left p-4 font-medium text-foreground">Date of Birth</th>
+                <th className="text-center p-4 font-medium text-foreground">Profile</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                [...Array(3)].map((_, i) => (
+                  <tr key={i} className="border-b border-border">
+                    <td className="p-4"><Skeleton className="h-6 w-32" /></td>
+                    <td className="p-4"><Skeleton className="h-4 w-40" /></td>
+                    <td className="p-4"><Skeleton className="h-4 w-24" /></td>
+                    <td className="p-4"><Skeleton className="h-4 w-20" /></td>
+                    <td className="p-4"><Skeleton className="h-8 w-8 mx-auto" /></td>
+                  </tr>
+                ))
+              ) : customers && customers.length > 0 ? (
+                customers.map((customer) => (
+                  <tr
+                    key={customer.id}
+                    className="border-b border-border hover:bg-secondary/20 transition-colors"
+                    data-testid={`row-customer-${customer.id}`}
+                  >
+                    <td className="p-4">
+                      <div className="flex items-center space-x-3">
+                        <div className="bg-primary/10 p-2 rounded-lg">
+                          <User className="text-primary h-5 w-5" />
+                        </div>
+                        <p className="font-medium text-foreground">{customer.name}</p>
+                      </div>
+                    </td>
+                    <td className="p-4 text-sm text-muted-foreground">{customer.email ?? '—'}</td>
+                    <td className="p-4 text-sm text-muted-foreground">{customer.phone ?? '—'}</td>
+                    <td className="p-4 text-sm text-muted-foreground">{customer.dateOfBirth ?? '—'}</td>
+                    <td className="p-4">
+                      <div className="flex justify-center">
+                        <Button
+                          asChild
+                          size="sm"
+                          variant="ghost"
+                          className="p-2 text-blue-600 hover:bg-blue-100"
+                          title="View Profile"
+                          data-testid={`button-view-customer-${customer.id}`}
+                        >
+                          <Link href={`/customers/${customer.id}`}>
+                            <Eye className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={5} className="p-8 text-center text-muted-foreground">
+                    {searchTerm ? `No customers match "${searchTerm}"` : "No customers yet"}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { Link } from "wouter";
 import { 
   Users, 
@@ -11,12 +15,50 @@ import {
   TrendingUp,
   TrendingDown,
   UserPlus,
-  Search
+  Search,
+  Undo2,
+  Landmark,
+  Percent,
+  Receipt
 } from "lucide-react";
 import { api } from "@/lib/api";
+import { formatMoney } from "@shared/money";
 import type { DashboardStats, TransactionWithDetails } from "@shared/schema";
 
+// A dashboard total in the base currency, with each currency's own total
+// underneath when accounts are held in more than one
+function CurrencyTotal({
+  stats,
+  field,
+  testId,
+}: {
+  stats?: DashboardStats;
+  field: "totalDeposits" | "totalWithdrawals";
+  testId: string;
+}) {
+  const byCurrency = stats?.byCurrency ?? [];
+  const converted = stats?.converted;
+
+  return (
+    <>
+      <p className="text-3xl font-bold text-foreground" data-testid={testId}>
+        {converted === null ? "—" : formatMoney(converted?.[field] ?? 0, converted?.currency)}
+      </p>
+      {(byCurrency.length > 1 || converted === null) && (
+        <p className="text-xs text-muted-foreground" data-testid={`${testId}-by-currency`}>
+          {converted === null && "Some currencies have no exchange rate: "}
+          {byCurrency.map((totals) => formatMoney(totals[field], totals.currency)).join(" · ")}
+        </p>
+      )}
+    </>
+  );
+}
+
 export default function Dashboard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+
   const { data: stats, isLoading: statsLoading } = useQuery<DashboardStats>({
     queryKey: ["/api/dashboard/stats"],
     queryFn: api.getDashboardStats
@@ -27,6 +69,30 @@ export default function Dashboard() {
     queryFn: () => api.getRecentTransactions(5)
   });
 
+  const idempotency = useIdempotencyKey();
+  const reverseMutation = useMutation({
+    mutationFn: (transactionId: string) => api.reverseTransaction(transactionId, idempotency.keyFor(transactionId)),
+    onSettled: (_, error) => idempotency.settle(error),
+    onSuccess: async (response) => {
+      const result = await response.json();
+      toast({
+        variant: "default",
+        title: "Success!",
+        description: result.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions/recent"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to reverse transaction. Please try again.",
+      });
+    },
+  });
+
   const getTransactionIcon = (type: string) => {
     switch (type) {
       case 'deposit':
@@ -35,19 +101,37 @@ export default function Dashboard() {
         return <MinusCircle className="text-red-600 h-5 w-5" />;
       case 'transfer':
         return <ArrowLeftRight className="text-blue-600 h-5 w-5" />;
+      case 'reversal':
+        return <Undo2 className="text-orange-600 h-5 w-5" />;
+      case 'disbursement':
+        return <Landmark className="text-purple-600 h-5 w-5" />;
+      case 'interest':
+        return <Percent className="text-green-600 h-5 w-5" />;
+      case 'overdraft_interest':
+        return <Percent className="text-red-600 h-5 w-5" />;
+      case 'fee':
+        return <Receipt className="text-red-600 h-5 w-5" />;
       default:
         return <PlusCircle className="h-5 w-5" />;
     }
   };
 
   const formatTransactionAmount = (transaction: TransactionWithDetails) => {
-    const amount = `$${transaction.amount.toFixed(2)}`;
+    // In the currency it left, and for a transfer between currencies also
+    // what arrived
+    const amount = formatMoney(transaction.amount, transaction.fromAccount?.currency ?? transaction.toAccount?.currency) +
+      (transaction.toAmount !== null ? ` → ${formatMoney(transaction.toAmount, transaction.toAccount?.currency)}` : "");
     switch (transaction.type) {
       case 'deposit':
+      case 'interest':
         return <span className="font-semibold text-green-600">+{amount}</span>;
       case 'withdraw':
+      case 'disbursement':
+      case 'overdraft_interest':
+      case 'fee':
         return <span className="font-semibold text-red-600">-{amount}</span>;
       case 'transfer':
+      case 'reversal':
         return <span className="font-semibold text-foreground">{amount}</span>;
       default:
         return amount;
@@ -62,6 +146,16 @@ export default function Dashboard() {
         return `Withdrawal • ${transaction.fromAccount?.name || 'Unknown'}`;
       case 'transfer':
         return `Transfer • ${transaction.fromAccount?.accountNumber} → ${transaction.toAccount?.accountNumber}`;
+      case 'reversal':
+        return `Reversal • ${transaction.fromAccount?.accountNumber ?? 'Cash'} → ${transaction.toAccount?.accountNumber ?? 'Cash'}`;
+      case 'disbursement':
+        return `Loan Disbursement • ${transaction.fromAccount?.name || 'Unknown'}`;
+      case 'interest':
+        return `Interest • ${transaction.toAccount?.name || 'Unknown'}`;
+      case 'overdraft_interest':
+        return `Overdraft Interest • ${transaction.fromAccount?.name || 'Unknown'}`;
+      case 'fee':
+        return `Fee • ${transaction.fromAccount?.name || 'Unknown'}`;
       default:
         return 'Transaction';
     }
@@ -135,9 +229,7 @@ export default function Dashboard() {
                 {statsLoading ? (
                   <Skeleton className="h-8 w-24 mt-2" />
                 ) : (
-                  <p className="text-3xl font-bold text-foreground" data-testid="text-total-deposits">
-                    {stats?.totalDeposits || '$0.00'}
-                  </p>
+                  <CurrencyTotal stats={stats} field="totalDeposits" testId="text-total-deposits" />
                 )}
               </div>
               <div className="bg-green-100 p-3 rounded-lg">
@@ -160,9 +252,7 @@ export default function Dashboard() {
                 {statsLoading ? (
                   <Skeleton className="h-8 w-24 mt-2" />
                 ) : (
-                  <p className="text-3xl font-bold text-foreground" data-testid="text-total-withdrawals">
-                    {stats?.totalWithdrawals || '$0.00'}
-                  </p>
+                  <CurrencyTotal stats={stats} field="totalWithdrawals" testId="text-total-withdrawals" />
                 )}
               </div>
               <div className="bg-red-100 p-3 rounded-lg">
@@ -243,17 +333,39 @@ export default function Dashboard() {
                           {getTransactionIcon(transaction.type)}
                         </div>
                         <div>
-                          <p className="font-medium text-foreground capitalize">{transaction.type}</p>
+                          <p className="font-medium text-foreground capitalize">
+                            {transaction.type}
+                            {transaction.status === 'reversed' && (
+                              <Badge variant="outline" className="ml-2 text-orange-600 border-orange-300">
+                                Reversed
+                              </Badge>
+                            )}
+                          </p>
                           <p className="text-sm text-muted-foreground">
                             {getTransactionDescription(transaction)}
                           </p>
                         </div>
                       </div>
-                      <div className="text-right">
-                        {formatTransactionAmount(transaction)}
-                        <p className="text-sm text-muted-foreground">
-                          {formatTimeAgo(transaction.createdAt)}
-                        </p>
+                      <div className="flex items-center space-x-2">
+                        <div className="text-right">
+                          {formatTransactionAmount(transaction)}
+                          <p className="text-sm text-muted-foreground">
+                            {formatTimeAgo(transaction.createdAt)}
+                          </p>
+                        </div>
+                        {transaction.status === 'posted' && transaction.type !== 'reversal' && can("transactions:reverse") && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="p-2 text-orange-600 hover:bg-orange-100"
+                            title="Reverse Transaction"
+                            disabled={reverseMutation.isPending}
+                            onClick={() => reverseMutation.mutate(transaction.id)}
+                            data-testid={`button-reverse-${transaction.id}`}
+                          >
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -274,35 +386,41 @@ export default function Dashboard() {
               <h3 className="text-lg font-semibold text-foreground">Quick Actions</h3>
             </div>
             <CardContent className="p-6 space-y-4">
-              <Link href="/create-account">
-                <Button 
-                  className="w-full flex items-center space-x-3 bg-primary text-primary-foreground hover:bg-primary/90"
-                  data-testid="button-new-account"
-                >
-                  <UserPlus className="h-5 w-5" />
-                  <span>New Account</span>
-                </Button>
-              </Link>
-              
-              <Link href="/deposit">
-                <Button 
-                  className="w-full flex items-center space-x-3 bg-green-600 text-white hover:bg-green-700"
-                  data-testid="button-quick-deposit"
-                >
-                  <PlusCircle className="h-5 w-5" />
-                  <span>Quick Deposit</span>
-                </Button>
-              </Link>
+              {can("accounts:manage") && (
+                <Link href="/create-account">
+                  <Button 
+                    className="w-full flex items-center space-x-3 bg-primary text-primary-foreground hover:bg-primary/90"
+                    data-testid="button-new-account"
+                  >
+                    <UserPlus className="h-5 w-5" />
+                    <span>New Account</span>
+                  </Button>
+                </Link>
+              )}
               
-              <Link href="/transfer">
-                <Button 
-                  className="w-full flex items-center space-x-3 bg-blue-600 text-white hover:bg-blue-700"
-                  data-testid="button-transfer-funds"
-                >
-                  <ArrowLeftRight className="h-5 w-5" />
-                  <span>Transfer Funds</span>
-                </Button>
-              </Link>
+              {can("transactions:create") && (
+                <>
+                  <Link href="/deposit">
+                    <Button 
+                      className="w-full flex items-center space-x-3 bg-green-600 text-white hover:bg-green-700"
+                      data-testid="button-quick-deposit"
+                    >
+                      <PlusCircle className="h-5 w-5" />
+                      <span>Quick Deposit</span>
+                    </Button>
+                  </Link>
+                  
+                  <Link href="/transfer">
+                    <Button 
+                      className="w-full flex items-center space-x-3 bg-blue-600 text-white hover:bg-blue-700"
+                      data-testid="button-transfer-funds"
+                    >
+                      <ArrowLeftRight className="h-5 w-5" />
+                      <span>Transfer Funds</span>
+                    </Button>
+                  </Link>
+                </>
+              )}
               
               <Link href="/accounts">
                 <Button 
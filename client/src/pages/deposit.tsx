@@ -7,14 +7,19 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
 import { useToast } from "@/hooks/use-toast";
 import { PlusCircle, Loader2, Check } from "lucide-react";
+import { TellerLimitNotice, useExceedsTellerLimit } from "@/components/teller-limit";
+import { CurrencyPrefix, currencyInputPadding } from "@/components/currency-prefix";
 import { api } from "@/lib/api";
+import { isValidAccountNumber, accountNumberSchema } from "@shared/account-number";
+import { BASE_CURRENCY, formatMoney, toMinorUnits } from "@shared/money";
 import type { Account } from "@shared/schema";
 
 const depositSchema = z.object({
-  accountNumber: z.number().min(1, "Account number must be positive"),
-  amount: z.number().min(0.01, "Amount must be at least $0.01"),
+  accountNumber: accountNumberSchema,
+  amount: z.number().min(0.01, "Amount must be at least 0.01"),
 });
 
 type DepositForm = z.infer<typeof depositSchema>;
@@ -26,6 +31,8 @@ export default function Deposit() {
 
   const form = useForm<DepositForm>({
     resolver: zodResolver(depositSchema),
+    // Flags a mistyped account number as soon as it fails its check digit
+    mode: "onChange",
     defaultValues: {
       accountNumber: 0,
       amount: 0,
@@ -33,12 +40,13 @@ export default function Deposit() {
   });
 
   const accountNumber = form.watch("accountNumber");
+  const amount = form.watch("amount");
 
   // Query to get account details when account number is entered
   const { data: account } = useQuery({
     queryKey: ["/api/accounts", accountNumber],
     queryFn: () => api.getAccountByNumber(accountNumber),
-    enabled: !!accountNumber && accountNumber > 0,
+    enabled: isValidAccountNumber(accountNumber),
     retry: false,
   });
 
@@ -50,14 +58,22 @@ export default function Deposit() {
     }
   }, [account]);
 
+  const currency = selectedAccount?.currency ?? BASE_CURRENCY;
+  const overTellerLimit = useExceedsTellerLimit(toMinorUnits(amount || 0), currency);
+
+  const idempotency = useIdempotencyKey();
   const depositMutation = useMutation({
-    mutationFn: (data: DepositForm) => api.deposit(data.accountNumber, data.amount),
+    mutationFn: (data: DepositForm) => {
+      const amount = toMinorUnits(data.amount);
+      return api.deposit(data.accountNumber, amount, idempotency.keyFor([data.accountNumber, amount]));
+    },
+    onSettled: (_, error) => idempotency.settle(error),
     onSuccess: (response) => {
       const result = response.json();
       toast({
         variant: "default",
         title: "Success!",
-        description: `Deposit of $${form.getValues().amount.toFixed(2)} processed successfully!`,
+        description: `Deposit of ${formatMoney(toMinorUnits(form.getValues().amount), currency)} processed successfully!`,
       });
       form.reset();
       setSelectedAccount(null);
@@ -122,26 +138,25 @@ export default function Deposit() {
                   Deposit Amount
                 </Label>
                 <div className="relative">
-                  <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-muted-foreground">
-                    $
-                  </span>
+                  <CurrencyPrefix currency={currency} />
                   <Input
                     id="amount"
                     type="number"
                     step="0.01"
                     min="0.01"
                     placeholder="0.00"
-                    className="w-full pl-8"
+                    className={`w-full ${currencyInputPadding(currency)}`}
                     data-testid="input-amount"
                     {...form.register("amount", { valueAsNumber: true })}
                   />
                 </div>
-                <p className="text-xs text-muted-foreground mt-1">Minimum deposit: $0.01</p>
+                <p className="text-xs text-muted-foreground mt-1">Minimum deposit: {formatMoney(1, currency)}</p>
                 {form.formState.errors.amount && (
                   <p className="text-sm text-destructive mt-1">
                     {form.formState.errors.amount.message}
                   </p>
                 )}
+                <TellerLimitNotice amount={toMinorUnits(amount || 0)} currency={currency} />
               </div>
 
               {/* Account Preview */}
@@ -151,7 +166,7 @@ export default function Deposit() {
                     <div>
                       <p className="font-medium text-foreground">{selectedAccount.name}</p>
                       <p className="text-sm text-muted-foreground">
-                        Current Balance: ${selectedAccount.balance.toFixed(2)}
+                        Current Balance: {formatMoney(selectedAccount.balance, currency)}
                       </p>
                     </div>
                     <div className="bg-green-100 p-2 rounded-lg">
@@ -165,7 +180,7 @@ export default function Deposit() {
                 <Button
                   type="submit"
                   className="flex-1 bg-green-600 text-white hover:bg-green-700"
-                  disabled={depositMutation.isPending || !selectedAccount}
+                  disabled={depositMutation.isPending || !selectedAccount || overTellerLimit}
                   data-testid="button-process-deposit"
                 >
                   {depositMutation.isPending ? (
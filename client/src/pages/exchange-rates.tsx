@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Plus, Upload } from "lucide-react";
+import { api } from "@/lib/api";
+import type { CsvProblem } from "@/lib/csv";
+import { FX_RATES_CSV_COLUMNS, parseFxRatesCsv } from "@/lib/fx-rates-csv";
+import { BASE_CURRENCY, currencies, currencyCodes, formatRate, type Currency } from "@shared/money";
+import type { FxRate, FxRateSource, LoadFxRatesRequest } from "@shared/schema";
+
+const sourceLabels: Record<FxRateSource, string> = {
+  manual: "Typed in",
+  file: "Rates file",
+};
+
+function CurrencySelect({ value, onChange, testId }: { value: Currency; onChange: (value: Currency) => void; testId: string }) {
+  return (
+    <Select value={value} onValueChange={(code) => onChange(code as Currency)}>
+      <SelectTrigger data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {currencyCodes.map((code) => (
+          <SelectItem key={code} value={code}>{code} · {currencies[code].name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function ExchangeRates() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const [baseCurrency, setBaseCurrency] = useState<Currency>(BASE_CURRENCY);
+  const [quoteCurrency, setQuoteCurrency] = useState<Currency>("EUR");
+  const [rate, setRate] = useState("");
+  const [fileProblems, setFileProblems] = useState<CsvProblem[]>([]);
+
+  const { data: rates, isLoading, isError } = useQuery<FxRate[]>({
+    queryKey: ["/api/fx-rates"],
+    queryFn: () => api.getFxRates(),
+  });
+
+  const loadMutation = useMutation({
+    mutationFn: (request: LoadFxRatesRequest) => api.loadFxRates(request),
+    onSuccess: (saved) => {
+      toast({
+        title: "Rates loaded",
+        description: `${saved.length} ${saved.length === 1 ? "rate" : "rates"} will be used from now on`,
+      });
+      setRate("");
+      queryClient.invalidateQueries({ queryKey: ["/api/fx-rates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to load exchange rates. Please try again.",
+      });
+    },
+  });
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    const { rates: fileRates, problems } = parseFxRatesCsv(await file.text());
+    setFileProblems(problems);
+    if (problems.length === 0 && fileRates.length > 0) {
+      loadMutation.mutate({ source: "file", rates: fileRates });
+    } else if (problems.length === 0) {
+      setFileProblems([{ row: 1, message: "The file has no rates in it" }]);
+    }
+  };
+
+  const canManage = can("settings:manage");
+  const rateValue = Number(rate);
+  const validRate = rate !== "" && rateValue > 0 && baseCurrency !== quoteCurrency;
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-semibold text-foreground mb-2">Exchange Rates</h1>
+        <p className="text-muted-foreground">
+          The rates transfers between currencies convert at. Pairs without a rate are crossed through {BASE_CURRENCY}.
+        </p>
+      </div>
+
+      <div className="max-w-4xl space-y-6">
+        {canManage && (
+          <Card>
+            <CardContent className="p-8 space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div>
+                  <Label className="block text-sm font-medium text-foreground mb-2">One Unit Of</Label>
+                  <CurrencySelect value={baseCurrency} onChange={setBaseCurrency} testId="select-fx-base" />
+                </div>
+                <div>
+                  <Label className="block text-sm font-medium text-foreground mb-2">Buys</Label>
+                  <CurrencySelect value={quoteCurrency} onChange={setQuoteCurrency} testId="select-fx-quote" />
+                </div>
+                <div>
+                  <Label htmlFor="fx-rate" className="block text-sm font-medium text-foreground mb-2">Rate</Label>
+                  <Input
+                    id="fx-rate"
+                    type="number"
+                    step="0.000001"
+                    min="0"
+                    placeholder="0.9215"
+                    value={rate}
+                    onChange={(e) => setRate(e.target.value)}
+                    data-testid="input-fx-rate"
+                  />
+                </div>
+                <Button
+                  className="bg-blue-600 text-white hover:bg-blue-700"
+                  disabled={!validRate || loadMutation.isPending}
+                  onClick={() => loadMutation.mutate({
+                    source: "manual",
+                    rates: [{ baseCurrency, quoteCurrency, rate: rateValue }],
+                  })}
+                  data-testid="button-add-fx-rate"
+                >
+                  {loadMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                  Add Rate
+                </Button>
+              </div>
+              {baseCurrency === quoteCurrency && (
+                <p className="text-sm text-destructive">A rate needs two different currencies</p>
+              )}
+
+              <div className="border-t border-border pt-6">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-muted-foreground">
+                    Or load a rates file with the columns {FX_RATES_CSV_COLUMNS.join(", ")}, one pair per line
+                  </p>
+                  <Label
+                    htmlFor="fx-rates-file"
+                    className="inline-flex items-center text-sm text-blue-600 cursor-pointer hover:underline"
+                  >
+                    <Upload className="mr-1 h-4 w-4" />
+                    Upload CSV
+                  </Label>
+                  <input
+                    id="fx-rates-file"
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="hidden"
+                    onChange={(e) => {
+                      void loadFile(e.target.files?.[0]);
+                      e.target.value = "";
+                    }}
+                    data-testid="input-fx-rates-file"
+                  />
+                </div>
+                {fileProblems.length > 0 && (
+                  <ul className="text-sm text-destructive mt-2 space-y-1" data-testid="fx-rates-file-problems">
+                    {fileProblems.map((problem) => (
+                      <li key={problem.row}>Row {problem.row}: {problem.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <div className="p-6 border-b border-border">
+            <h3 className="text-lg font-semibold text-foreground">Current Rates</h3>
+            <p className="text-sm text-muted-foreground">The latest rate loaded for each pair; either way round is used</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-secondary/30">
+                <tr>
+                  <th className="text-left p-4 font-medium text-foreground">Pair</th>
+                  <th className="text-right p-4 font-medium text-foreground">Rate</th>
+                  <th className="text-left p-4 font-medium text-foreground">Source</th>
+                  <th className="text-left p-4 font-medium text-foreground">Loaded</th>
+                </tr>
+              </thead>
+              <tbody>
+                {isLoading ? (
+                  [...Array(3)].map((_, i) => (
+                    <tr key={i} className="border-b border-border">
+                      <td className="p-4"><Skeleton className="h-4 w-24" /></td>
+                      <td className="p-4"><Skeleton className="h-4 w-16 ml-auto" /></td>
+                      <td className="p-4"><Skeleton className="h-4 w-20" /></td>
+                      <td className="p-4"><Skeleton className="h-4 w-32" /></td>
+                    </tr>
+                  ))
+                ) : rates && rates.length > 0 ? (
+                  rates.map((fxRate) => (
+                    <tr
+                      key={fxRate.id}
+                      className="border-b border-border"
+                      data-testid={`row-fx-rate-${fxRate.baseCurrency}-${fxRate.quoteCurrency}`}
+                    >
+                      <td className="p-4 font-medium text-foreground">{fxRate.baseCurrency} → {fxRate.quoteCurrency}</td>
+                      <td className="p-4 text-right font-mono text-foreground">{formatRate(fxRate.rateMicros)}</td>
+                      <td className="p-4">
+                        <Badge variant="outline">{sourceLabels[fxRate.source]}</Badge>
+                      </td>
+                      <td className="p-4 text-sm text-muted-foreground">
+                        {new Date(fxRate.createdAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={4} className="p-8 text-center text-muted-foreground">
+                      {isError ? "Failed to load exchange rates" : "No exchange rates yet, so transfers can only be between accounts in the same currency"}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { TwoFactorCodeInput } from "@/components/two-factor-code-input";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, LogIn, ShieldCheck, University } from "lucide-react";
+import { api } from "@/lib/api";
+import { USER_QUERY_KEY } from "@/lib/queryClient";
+import { loginSchema, INVALID_TWO_FACTOR_CODE, type LoginRequest, type LoginResponse, type PublicUser } from "@shared/schema";
+
+export default function Login() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // After the password, users with two-factor on enter a code
+  const [step, setStep] = useState<"password" | "code">("password");
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const form = useForm<LoginRequest>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+    },
+  });
+
+  const signIn = (user: PublicUser) => {
+    // Drop anything cached before signing in, then show the app
+    queryClient.clear();
+    queryClient.setQueryData(USER_QUERY_KEY, user);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: (data: LoginRequest) => api.login(data),
+    onSuccess: async (response) => {
+      const result: LoginResponse = await response.json();
+      if ("twoFactorRequired" in result) {
+        setCode("");
+        setUseRecoveryCode(false);
+        setStep("code");
+        return;
+      }
+      signIn(result);
+    },
+    onError: (error: any) => {
+      form.resetField("password");
+      toast({
+        variant: "destructive",
+        title: "Sign in failed",
+        description: error.message?.startsWith("401:")
+          ? "Invalid username or password"
+          : error.message || "Failed to sign in. Please try again.",
+      });
+    },
+  });
+
+  const codeMutation = useMutation({
+    mutationFn: (code: string) => api.loginTwoFactor(code),
+    onSuccess: async (response) => signIn(await response.json()),
+    onError: (error: any) => {
+      setCode("");
+      const wrongCode = error.message?.includes(INVALID_TWO_FACTOR_CODE);
+      // Otherwise the password step has expired or had too many wrong codes
+      if (!wrongCode) {
+        form.resetField("password");
+        setStep("password");
+      }
+      toast({
+        variant: "destructive",
+        title: "Sign in failed",
+        description: wrongCode ? "That code isn't right" : "Sign in with your password again",
+      });
+    },
+  });
+
+  const submitCode = (value: string) => {
+    if (value.trim()) {
+      codeMutation.mutate(value);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <div className="w-full max-w-sm">
+        <div className="flex items-center justify-center space-x-3 mb-8">
+          <div className="bg-primary rounded-lg p-2">
+            <University className="text-primary-foreground h-6 w-6" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-foreground">SecureBank</h1>
+            <p className="text-sm text-muted-foreground">
+              {step === "password" ? "Staff sign in" : "Two-factor sign in"}
+            </p>
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="p-8">
+            {step === "code" ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  submitCode(code);
+                }}
+                className="space-y-6"
+              >
+                {useRecoveryCode ? (
+                  <div>
+                    <Label htmlFor="recovery-code" className="block text-sm font-medium text-foreground mb-2">
+                      Recovery code
+                    </Label>
+                    <Input
+                      id="recovery-code"
+                      type="text"
+                      autoComplete="off"
+                      autoFocus
+                      placeholder="xxxxx-xxxxx"
+                      className="w-full font-mono"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      data-testid="input-recovery-code"
+                    />
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <p className="text-sm text-muted-foreground text-center">
+                      Enter the code from your authenticator app
+                    </p>
+                    <TwoFactorCodeInput
+                      value={code}
+                      onChange={setCode}
+                      onComplete={submitCode}
+                      disabled={codeMutation.isPending}
+                    />
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full bg-primary text-primary-foreground hover:bg-primary/90"
+                  disabled={codeMutation.isPending || !code.trim()}
+                  data-testid="button-verify-code"
+                >
+                  {codeMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <ShieldCheck className="mr-2 h-4 w-4" />
+                  )}
+                  Verify
+                </Button>
+
+                <div className="flex justify-between text-sm">
+                  <button
+                    type="button"
+                    className="text-primary hover:underline"
+                    onClick={() => {
+                      setCode("");
+                      setUseRecoveryCode(!useRecoveryCode);
+                    }}
+                    data-testid="button-toggle-recovery-code"
+                  >
+                    {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                  </button>
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:underline"
+                    onClick={() => {
+                      form.resetField("password");
+                      setStep("password");
+                    }}
+                    data-testid="button-back-to-password"
+                  >
+                    Back
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <form onSubmit={form.handleSubmit((data) => loginMutation.mutate(data))} className="space-y-6">
+                <div>
+                  <Label htmlFor="username" className="block text-sm font-medium text-foreground mb-2">
+                    Username
+                  </Label>
+                  <Input
+                    id="username"
+                    type="text"
+                    autoComplete="username"
+                    autoFocus
+                    className="w-full"
+                    data-testid="input-username"
+                    {...form.register("username")}
+                  />
+                  {form.formState.errors.username && (
+                    <p className="text-sm text-destructive mt-1">
+                      {form.formState.errors.username.message}
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <Label htmlFor="password" className="block text-sm font-medium text-foreground mb-2">
+                    Password
+                  </Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete="current-password"
+                    className="w-full"
+                    data-testid="input-password"
+                    {...form.register("password")}
+                  />
+                  {form.formState.errors.password && (
+                    <p className="text-sm text-destructive mt-1">
+                      {form.formState.errors.password.message}
+                    </p>
+                  )}
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full bg-primary text-primary-foreground hover:bg-primary/90"
+                  disabled={loginMutation.isPending}
+                  data-testid="button-sign-in"
+                >
+                  {loginMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <LogIn className="mr-2 h-4 w-4" />
+                  )}
+                  Sign In
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
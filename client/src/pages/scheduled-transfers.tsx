@@ -0,0 +1,248 @@
+import { Fragment, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { describeSchedule } from "@/components/schedule-fields";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronDown, ChevronRight, X } from "lucide-react";
+import { api } from "@/lib/api";
+import { formatMoney } from "@shared/money";
+import {
+  scheduledTransferStatuses,
+  type ScheduledRunStatus,
+  type ScheduledTransferRun,
+  type ScheduledTransferStatus,
+  type ScheduledTransferWithDetails,
+} from "@shared/schema";
+
+const statusLabels: Record<ScheduledTransferStatus, string> = {
+  active: "Active",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+const runStatusLabels: Record<ScheduledRunStatus, string> = {
+  succeeded: "Transferred",
+  sent_for_approval: "Sent for approval",
+  retrying: "Failed, will retry",
+  failed: "Failed",
+};
+
+const runStatusColors: Record<ScheduledRunStatus, string> = {
+  succeeded: "text-green-600",
+  sent_for_approval: "text-blue-600",
+  retrying: "text-amber-600",
+  failed: "text-red-600",
+};
+
+function formatDateTime(date: Date | string): string {
+  return new Date(date).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function describeEnd(schedule: ScheduledTransferWithDetails): string | null {
+  if (schedule.frequency === "once") return null;
+  const limits = [
+    schedule.endAt && `until ${new Date(schedule.endAt).toLocaleDateString()}`,
+    schedule.runLimit !== null && `${schedule.runCount} of ${schedule.runLimit} made`,
+  ].filter(Boolean);
+  return limits.length > 0 ? limits.join(", ") : "until cancelled";
+}
+
+function RunHistory({ schedule }: { schedule: ScheduledTransferWithDetails }) {
+  const { data: runs, isLoading, isError } = useQuery<ScheduledTransferRun[]>({
+    queryKey: ["/api/scheduled-transfers", schedule.id, "runs"],
+    queryFn: () => api.getScheduledTransferRuns(schedule.id),
+    // The scheduler adds runs in the background
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-4 w-64" />;
+  }
+  if (isError || !runs || runs.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {isError ? "Failed to load the history" : "Nothing has run yet"}
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-1 text-sm" data-testid={`runs-${schedule.id}`}>
+      {runs.map((run) => (
+        <li key={run.id} className="flex flex-wrap gap-x-3">
+          <span className="text-muted-foreground">{formatDateTime(run.createdAt)}</span>
+          <span className={runStatusColors[run.status]}>{runStatusLabels[run.status]}</span>
+          <span className="text-muted-foreground">
+            for {formatDateTime(run.dueAt)}
+            {run.attempt > 1 && `, attempt ${run.attempt}`}
+          </span>
+          {run.message && <span className="text-foreground">{run.message}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function ScheduledTransfers() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const [status, setStatus] = useState<ScheduledTransferStatus>("active");
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { data: schedules, isLoading, isError } = useQuery<ScheduledTransferWithDetails[]>({
+    queryKey: ["/api/scheduled-transfers", status],
+    queryFn: () => api.getScheduledTransfers(status),
+    staleTime: 0,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => api.cancelScheduledTransfer(id),
+    onSuccess: async (response: Response) => {
+      const result = await response.json();
+      toast({ variant: "default", title: "Cancelled", description: result.message });
+      queryClient.invalidateQueries({ queryKey: ["/api/scheduled-transfers"] });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scheduled-transfers"] });
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to cancel the scheduled transfer. Please try again.",
+      });
+    },
+  });
+
+  const canCancel = status === "active" && can("transactions:create");
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-semibold text-foreground mb-2">Scheduled Transfers</h1>
+        <p className="text-muted-foreground">
+          Future-dated transfers and standing orders, made automatically when they fall due
+        </p>
+      </div>
+
+      <Card>
+        <div className="p-6 border-b border-border flex justify-end">
+          <Select value={status} onValueChange={(value) => setStatus(value as ScheduledTransferStatus)}>
+            <SelectTrigger className="w-40" data-testid="select-schedule-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {scheduledTransferStatuses.map((value) => (
+                <SelectItem key={value} value={value}>{statusLabels[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-secondary/30">
+              <tr>
+                <th className="text-left p-4 font-medium text-foreground">Next</th>
+                <th className="text-left p-4 font-medium text-foreground">Transfer</th>
+                <th className="text-right p-4 font-medium text-foreground">Amount</th>
+                <th className="text-left p-4 font-medium text-foreground">Schedule</th>
+                <th className="text-left p-4 font-medium text-foreground">Set Up By</th>
+                <th className="text-center p-4 font-medium text-foreground">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                [...Array(3)].map((_, i) => (
+                  <tr key={i} className="border-b border-border">
+                    <td className="p-4"><Skeleton className="h-4 w-32" /></td>
+                    <td className="p-4"><Skeleton className="h-4 w-56" /></td>
+                    <td className="p-4"><Skeleton className="h-4 w-20 ml-auto" /></td>
+                    <td className="p-4"><Skeleton className="h-4 w-24" /></td>
+                    <td className="p-4"><Skeleton className="h-4 w-24" /></td>
+                    <td className="p-4"><Skeleton className="h-8 w-32 mx-auto" /></td>
+                  </tr>
+                ))
+              ) : schedules && schedules.length > 0 ? (
+                schedules.map((schedule) => (
+                  <Fragment key={schedule.id}>
+                    <tr className="border-b border-border" data-testid={`row-schedule-${schedule.id}`}>
+                      <td className="p-4 text-sm text-muted-foreground whitespace-nowrap">
+                        {schedule.nextRunAt ? formatDateTime(schedule.nextRunAt) : '—'}
+                        {schedule.failedAttempts > 0 && (
+                          <Badge variant="outline" className="ml-2 text-amber-600">Retrying</Badge>
+                        )}
+                      </td>
+                      <td className="p-4">
+                        <p className="font-medium text-foreground">
+                          #{schedule.fromAccount?.accountNumber ?? "?"} → #{schedule.toAccount?.accountNumber ?? "?"}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {schedule.description ?? `${schedule.fromAccount?.name} → ${schedule.toAccount?.name}`}
+                        </p>
+                      </td>
+                      <td className="p-4 text-right font-semibold text-foreground">{formatMoney(schedule.amount, schedule.fromAccount?.currency)}</td>
+                      <td className="p-4">
+                        <p className="text-sm text-foreground">{describeSchedule(schedule.frequency, schedule.interval)}</p>
+                        {describeEnd(schedule) && (
+                          <p className="text-sm text-muted-foreground">{describeEnd(schedule)}</p>
+                        )}
+                      </td>
+                      <td className="p-4 text-sm text-foreground">{schedule.createdBy?.displayName ?? '—'}</td>
+                      <td className="p-4">
+                        <div className="flex justify-center space-x-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setExpanded(expanded === schedule.id ? null : schedule.id)}
+                            data-testid={`button-history-${schedule.id}`}
+                          >
+                            {expanded === schedule.id
+                              ? <ChevronDown className="mr-1 h-4 w-4" />
+                              : <ChevronRight className="mr-1 h-4 w-4" />}
+                            History
+                          </Button>
+                          {canCancel && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="text-red-600"
+                              disabled={cancelMutation.isPending}
+                              onClick={() => cancelMutation.mutate(schedule.id)}
+                              data-testid={`button-cancel-schedule-${schedule.id}`}
+                            >
+                              <X className="mr-1 h-4 w-4" />
+                              Cancel
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                    {expanded === schedule.id && (
+                      <tr className="border-b border-border bg-secondary/10">
+                        <td colSpan={6} className="p-4">
+                          <RunHistory schedule={schedule} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={6} className="p-8 text-center text-muted-foreground">
+                    {isError ? "Failed to load scheduled transfers" : `No ${status} scheduled transfers`}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { TwoFactorCodeInput } from "@/components/two-factor-code-input";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, KeyRound, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import { api } from "@/lib/api";
+import { USER_QUERY_KEY } from "@/lib/queryClient";
+import type { PublicUser, TwoFactorSetup } from "@shared/schema";
+
+// Shown once, right after they are made; the server only keeps hashes
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({ title: "Copied", description: "Recovery codes copied to the clipboard" });
+  };
+
+  return (
+    <Card className="mb-6 border-amber-300">
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-foreground mb-1">Save your recovery codes</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          Each code signs you in once if you lose your authenticator app. Keep them somewhere safe;
+          they won't be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-secondary/30 rounded-lg p-4 mb-4" data-testid="list-recovery-codes">
+          {codes.map((code) => (
+            <span key={code}>{code}</span>
+          ))}
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={copy} data-testid="button-copy-recovery-codes">
+            <Copy className="mr-2 h-4 w-4" />
+            Copy
+          </Button>
+          <Button onClick={onDone} data-testid="button-recovery-codes-saved">
+            I've saved them
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Security() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+
+  const onError = (error: any) => {
+    setCode("");
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message || "Failed to update two-factor sign in. Please try again.",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: () => api.startTwoFactorSetup(),
+    onSuccess: (setup) => {
+      setCode("");
+      setSetup(setup);
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: (code: string) => api.enableTwoFactor(code),
+    onSuccess: ({ recoveryCodes }) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: USER_QUERY_KEY });
+      toast({ title: "Two-factor sign in is on", description: "You'll be asked for a code when you sign in" });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: (code: string) => api.regenerateRecoveryCodes(code),
+    onSuccess: ({ recoveryCodes }) => {
+      setCode("");
+      setRecoveryCodes(recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: USER_QUERY_KEY });
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: (code: string) => api.disableTwoFactor(code),
+    onSuccess: async (response) => {
+      const updated: PublicUser = await response.json();
+      setCode("");
+      setRecoveryCodes(null);
+      queryClient.setQueryData(USER_QUERY_KEY, updated);
+      toast({ title: "Two-factor sign in is off" });
+    },
+    onError,
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const isPending = enableMutation.isPending || regenerateMutation.isPending || disableMutation.isPending;
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-semibold text-foreground mb-2">Security</h1>
+        <p className="text-muted-foreground">Two-factor sign in for {user.username}</p>
+      </div>
+
+      <div className="max-w-2xl">
+        {recoveryCodes && <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />}
+
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center space-x-3">
+                <div className="bg-primary/10 p-2 rounded-lg">
+                  <ShieldCheck className="text-primary h-5 w-5" />
+                </div>
+                <h3 className="text-lg font-semibold text-foreground">Authenticator app</h3>
+              </div>
+              {user.totpEnabledAt ? (
+                <Badge className="bg-green-100 text-green-800 hover:bg-green-100" data-testid="badge-two-factor">On</Badge>
+              ) : (
+                <Badge variant="outline" data-testid="badge-two-factor">Off</Badge>
+              )}
+            </div>
+
+            {user.totpEnabledAt ? (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  On since {new Date(user.totpEnabledAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}
+                  {" · "}
+                  <span className={user.recoveryCodesLeft < 3 ? "text-amber-600 font-medium" : undefined} data-testid="text-recovery-codes-left">
+                    {user.recoveryCodesLeft} recovery {user.recoveryCodesLeft === 1 ? "code" : "codes"} left
+                  </span>
+                </p>
+                <div>
+                  <Label htmlFor="confirm-code" className="block text-sm font-medium text-foreground mb-2">
+                    Code from your app, or a recovery code
+                  </Label>
+                  <Input
+                    id="confirm-code"
+                    type="text"
+                    autoComplete="one-time-code"
+                    className="w-full font-mono"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    data-testid="input-confirm-code"
+                  />
+                </div>
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    disabled={isPending || !code.trim()}
+                    onClick={() => regenerateMutation.mutate(code)}
+                    data-testid="button-regenerate-recovery-codes"
+                  >
+                    {regenerateMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <KeyRound className="mr-2 h-4 w-4" />
+                    )}
+                    New Recovery Codes
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    disabled={isPending || !code.trim()}
+                    onClick={() => disableMutation.mutate(code)}
+                    data-testid="button-disable-two-factor"
+                  >
+                    {disableMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <ShieldOff className="mr-2 h-4 w-4" />
+                    )}
+                    Turn Off
+                  </Button>
+                </div>
+              </div>
+            ) : setup ? (
+              <div className="space-y-6">
+                <p className="text-sm text-muted-foreground">
+                  Scan this with an authenticator app, then enter the code it shows.
+                </p>
+                <div className="flex flex-col sm:flex-row sm:items-center gap-6">
+                  <div className="bg-white p-3 rounded-lg border border-border self-start">
+                    <QRCodeSVG value={setup.provisioningUri} size={176} data-testid="img-two-factor-qr" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-sm text-muted-foreground mb-1">Can't scan it? Enter this key:</p>
+                    <p className="font-mono text-sm break-all text-foreground" data-testid="text-two-factor-secret">
+                      {setup.secret.match(/.{1,4}/g)?.join(" ")}
+                    </p>
+                  </div>
+                </div>
+                <TwoFactorCodeInput
+                  value={code}
+                  onChange={setCode}
+                  onComplete={(value) => enableMutation.mutate(value)}
+                  disabled={enableMutation.isPending}
+                />
+                <div className="flex space-x-2">
+                  <Button
+                    disabled={enableMutation.isPending || code.length < 6}
+                    onClick={() => enableMutation.mutate(code)}
+                    data-testid="button-enable-two-factor"
+                  >
+                    {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Turn On
+                  </Button>
+                  <Button variant="outline" onClick={() => setSetup(null)} data-testid="button-cancel-two-factor">
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Ask for a code from an authenticator app as well as your password when you sign in.
+                </p>
+                <Button
+                  onClick={() => setupMutation.mutate()}
+                  disabled={setupMutation.isPending}
+                  data-testid="button-setup-two-factor"
+                >
+                  {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Set Up
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { ShieldOff, User } from "lucide-react";
+import { api } from "@/lib/api";
+import { USER_QUERY_KEY } from "@/lib/queryClient";
+import { staffRoles, type PublicUser, type StaffRole } from "@shared/schema";
+
+export default function Staff() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: users, isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+    queryFn: () => api.getUsers(),
+  });
+
+  const onSuccess = (updated: PublicUser) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    if (updated.id === currentUser?.id) {
+      queryClient.setQueryData(USER_QUERY_KEY, updated);
+    }
+  };
+
+  const onError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message || "Failed to update user. Please try again.",
+    });
+  };
+
+  const roleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: string; role: StaffRole }) =>
+      api.changeUserRole(id, role).then((res) => res.json()),
+    onSuccess,
+    onError,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: (id: string) => api.resetTwoFactor(id).then((res) => res.json()),
+    onSuccess: (updated: PublicUser) => {
+      onSuccess(updated);
+      toast({
+        title: "Two-factor sign in reset",
+        description: `${updated.displayName} can sign in with just a password and set it up again`,
+      });
+    },
+    onError,
+  });
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-semibold text-foreground mb-2">Staff</h1>
+        <p className="text-muted-foreground">Who can sign in, and what their role allows</p>
+      </div>
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-secondary/30">
+              <tr>
+                <th className="text-left p-4 font-medium text-foreground">User</th>
+                <th className="text-left p-4 font-medium text-foreground">Role</th>
+                <th className="text-left p-4 font-medium text-foreground">Two-Factor</th>
+                <th className="text-center p-4 font-medium text-foreground">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                [...Array(3)].map((_, i) => (
+                  <tr key={i} className="border-b border-border">
+                    <td className="p-4"><Skeleton className="h-6 w-32" /></td>
+                    <td className="p-4"><Skeleton className="h-8 w-32" /></td>
+                    <td className="p-4"><Skeleton className="h-5 w-12" /></td>
+                    <td className="p-4"><Skeleton className="h-8 w-8 mx-auto" /></td>
+                  </tr>
+                ))
+              ) : (
+                users?.map((user) => (
+                  <tr key={user.id} className="border-b border-border" data-testid={`row-user-${user.username}`}>
+                    <td className="p-4">
+                      <div className="flex items-center space-x-3">
+                        <div className="bg-primary/10 p-2 rounded-lg">
+                          <User className="text-primary h-5 w-5" />
+                        </div>
+                        <div>
+                          <p className="font-medium text-foreground">{user.displayName}</p>
+                          <p className="text-sm text-muted-foreground">{user.username}</p>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="p-4">
+                      <Select
+                        value={user.role}
+                        onValueChange={(role) => roleMutation.mutate({ id: user.id, role: role as StaffRole })}
+                        disabled={roleMutation.isPending}
+                      >
+                        <SelectTrigger className="w-36 capitalize" data-testid={`select-role-${user.username}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {staffRoles.map((role) => (
+                            <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="p-4">
+                      {user.totpEnabledAt ? (
+                        <Badge className="bg-green-100 text-green-800 hover:bg-green-100">On</Badge>
+                      ) : (
+                        <Badge variant="outline">Off</Badge>
+                      )}
+                    </td>
+                    <td className="p-4">
+                      <div className="flex justify-center">
+                        {user.totpEnabledAt && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="p-2 text-red-600 hover:bg-red-100"
+                                title="Reset Two-Factor"
+                                disabled={resetMutation.isPending}
+                                data-testid={`button-reset-two-factor-${user.username}`}
+                              >
+                                <ShieldOff className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Reset two-factor sign in for {user.displayName}?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Their authenticator app and recovery codes stop working, and they can sign in
+                                  with just their password. Only do this once you're sure who is asking.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => resetMutation.mutate(user.id)}>Reset</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
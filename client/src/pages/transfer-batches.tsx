@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TellerLimitNotice, useExceedsTellerLimit } from "@/components/teller-limit";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
+import { useToast } from "@/hooks/use-toast";
+import { FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { api } from "@/lib/api";
+import { parseTransferBatchCsv, TRANSFER_BATCH_CSV_COLUMNS } from "@/lib/transfer-batch-csv";
+import { INVALID_ACCOUNT_NUMBER_MESSAGE, isValidAccountNumber } from "@shared/account-number";
+import { BASE_CURRENCY, formatMoney, type Currency } from "@shared/money";
+import {
+  TRANSFER_BATCH_MAX_LINES,
+  transferBatchModes,
+  type TransferBatchLineStatus,
+  type TransferBatchMode,
+  type TransferBatchOutcome,
+  type TransferBatchResult,
+} from "@shared/schema";
+
+const modeLabels: Record<TransferBatchMode, { label: string; description: string }> = {
+  all_or_nothing: {
+    label: "All or nothing",
+    description: "If any line fails, none of them are posted",
+  },
+  best_effort: {
+    label: "Best effort",
+    description: "Lines that can be posted are, and the rest are reported as failed",
+  },
+};
+
+const lineStatusLabels: Record<TransferBatchLineStatus, string> = {
+  transferred: "Transferred",
+  sent_for_approval: "Sent for approval",
+  failed: "Failed",
+  not_posted: "Not posted",
+};
+
+const lineStatusColors: Record<TransferBatchLineStatus, string> = {
+  transferred: "text-green-600",
+  sent_for_approval: "text-blue-600",
+  failed: "text-red-600",
+  not_posted: "text-muted-foreground",
+};
+
+const outcomeLabels: Record<TransferBatchOutcome, string> = {
+  completed: "Completed",
+  partial: "Partly posted",
+  rejected: "Nothing posted",
+};
+
+function BatchResult({ result, currency }: { result: TransferBatchResult; currency: Currency }) {
+  return (
+    <Card>
+      <div className="p-6 border-b border-border flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Result</h3>
+          <p className="text-sm text-muted-foreground" data-testid="text-batch-message">{result.message}</p>
+        </div>
+        <Badge variant={result.outcome === "rejected" ? "destructive" : "outline"}>{outcomeLabels[result.outcome]}</Badge>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-secondary/30">
+            <tr>
+              <th className="text-left p-4 font-medium text-foreground">Line</th>
+              <th className="text-left p-4 font-medium text-foreground">To Account</th>
+              <th className="text-right p-4 font-medium text-foreground">Amount</th>
+              <th className="text-left p-4 font-medium text-foreground">Reference</th>
+              <th className="text-left p-4 font-medium text-foreground">Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.lines.map((line) => (
+              <tr key={line.line} className="border-b border-border" data-testid={`row-batch-line-${line.line}`}>
+                <td className="p-4 text-sm text-muted-foreground">{line.line}</td>
+                <td className="p-4 text-sm text-foreground">#{line.toAccountNumber}</td>
+                <td className="p-4 text-right font-semibold text-foreground">{formatMoney(line.amount, currency)}</td>
+                <td className="p-4 text-sm text-muted-foreground">{line.reference ?? '—'}</td>
+                <td className="p-4 text-sm">
+                  <span className={lineStatusColors[line.status]}>{lineStatusLabels[line.status]}</span>
+                  {line.fee !== undefined && line.fee > 0 && (
+                    <span className="text-muted-foreground"> · fee {formatMoney(line.fee, currency)}</span>
+                  )}
+                  {line.message && <p className="text-muted-foreground">{line.message}</p>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
+
+export default function TransferBatches() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [fromAccountNumber, setFromAccountNumber] = useState("");
+  const [mode, setMode] = useState<TransferBatchMode>("all_or_nothing");
+  const [csv, setCsv] = useState("");
+  const [result, setResult] = useState<TransferBatchResult | null>(null);
+
+  const accountNumber = Number(fromAccountNumber);
+  const validAccount = isValidAccountNumber(accountNumber);
+  const { data: fromAccount } = useQuery({
+    queryKey: ["/api/accounts", accountNumber],
+    queryFn: () => api.getAccountByNumber(accountNumber),
+    enabled: validAccount,
+    retry: false,
+  });
+
+  // Every line is paid in the paying account's currency
+  const currency = fromAccount?.currency ?? BASE_CURRENCY;
+
+  const { lines, problems } = parseTransferBatchCsv(csv);
+  const total = lines.reduce((sum, line) => sum + line.amount, 0);
+  const overTellerLimit = useExceedsTellerLimit(total, currency);
+  const tooManyLines = lines.length > TRANSFER_BATCH_MAX_LINES;
+
+  const idempotency = useIdempotencyKey();
+  const batchMutation = useMutation({
+    mutationFn: () => {
+      const batch = { fromAccountNumber: accountNumber, mode, lines };
+      return api.transferBatch(batch, idempotency.keyFor(batch));
+    },
+    onSettled: (_, error) => idempotency.settle(error),
+    onSuccess: (batchResult) => {
+      setResult(batchResult);
+      toast({
+        variant: batchResult.outcome === "rejected" ? "destructive" : "default",
+        title: outcomeLabels[batchResult.outcome],
+        description: batchResult.message,
+      });
+      if (batchResult.outcome !== "rejected") {
+        setCsv("");
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions/recent"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/approvals"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to process transfer batch. Please try again.",
+      });
+    },
+  });
+
+  const loadFile = async (file: File | undefined) => {
+    if (file) {
+      setCsv(await file.text());
+      setResult(null);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-background min-h-screen">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-semibold text-foreground mb-2">Bulk Transfer</h1>
+        <p className="text-muted-foreground">Pay many accounts from one, such as a payroll run, from a CSV file</p>
+      </div>
+
+      <div className="max-w-4xl space-y-6">
+        <Card>
+          <CardContent className="p-8 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <Label htmlFor="batch-from-account" className="block text-sm font-medium text-foreground mb-2">
+                  From Account
+                </Label>
+                <Input
+                  id="batch-from-account"
+                  type="number"
+                  placeholder="Paying account number"
+                  value={fromAccountNumber}
+                  onChange={(e) => setFromAccountNumber(e.target.value)}
+                  data-testid="input-batch-from-account"
+                />
+                {fromAccountNumber && !validAccount && (
+                  <p className="text-sm text-destructive mt-1">{INVALID_ACCOUNT_NUMBER_MESSAGE}</p>
+                )}
+                {fromAccount && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {fromAccount.name} · Available {formatMoney(fromAccount.availableBalance + fromAccount.overdraftLimit, currency)}
+                  </p>
+                )}
+              </div>
+              <div>
+                <Label className="block text-sm font-medium text-foreground mb-2">If a Line Fails</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as TransferBatchMode)}>
+                  <SelectTrigger data-testid="select-batch-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {transferBatchModes.map((value) => (
+                      <SelectItem key={value} value={value}>{modeLabels[value].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">{modeLabels[mode].description}</p>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label htmlFor="batch-csv" className="text-sm font-medium text-foreground">
+                  Lines
+                </Label>
+                <Label
+                  htmlFor="batch-file"
+                  className="inline-flex items-center text-sm text-blue-600 cursor-pointer hover:underline"
+                >
+                  <Upload className="mr-1 h-4 w-4" />
+                  Upload CSV
+                </Label>
+                <input
+                  id="batch-file"
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    void loadFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                  data-testid="input-batch-file"
+                />
+              </div>
+              <Textarea
+                id="batch-csv"
+                rows={8}
+                className="font-mono text-sm"
+                placeholder={`${TRANSFER_BATCH_CSV_COLUMNS.join(",")}\n10000016,2500.00,Salary March`}
+                value={csv}
+                onChange={(e) => {
+                  setCsv(e.target.value);
+                  setResult(null);
+                }}
+                data-testid="input-batch-csv"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                One line per transfer: account number, amount in {currency}, and an optional reference
+              </p>
+              {problems.length > 0 && (
+                <ul className="text-sm text-destructive mt-2 space-y-1" data-testid="batch-csv-problems">
+                  {problems.map((problem) => (
+                    <li key={problem.row}>Row {problem.row}: {problem.message}</li>
+                  ))}
+                </ul>
+              )}
+              {tooManyLines && (
+                <p className="text-sm text-destructive mt-2">
+                  A batch can have at most {TRANSFER_BATCH_MAX_LINES} lines
+                </p>
+              )}
+            </div>
+
+            {lines.length > 0 && (
+              <div className="bg-blue-50 border border-blue-200 p-4 rounded-lg text-sm" data-testid="batch-summary">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Lines</span>
+                  <span className="text-foreground">{lines.length}</span>
+                </div>
+                <div className="flex justify-between font-medium">
+                  <span className="text-foreground">Total, before fees</span>
+                  <span className="text-foreground">{formatMoney(total, currency)}</span>
+                </div>
+                <TellerLimitNotice amount={total} currency={currency} />
+              </div>
+            )}
+
+            <Button
+              className="w-full bg-blue-600 text-white hover:bg-blue-700"
+              disabled={
+                batchMutation.isPending ||
+                !fromAccount ||
+                lines.length === 0 ||
+                problems.length > 0 ||
+                tooManyLines ||
+                overTellerLimit
+              }
+              onClick={() => batchMutation.mutate()}
+              data-testid="button-submit-batch"
+            >
+              {batchMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileSpreadsheet className="mr-2 h-4 w-4" />
+              )}
+              Post {lines.length > 0 ? `${lines.length} Transfers` : "Batch"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {result && <BatchResult result={result} currency={currency} />}
+      </div>
+    </div>
+  );
+}
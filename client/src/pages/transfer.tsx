@@ -7,15 +7,23 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeftRight, Loader2, ArrowRight } from "lucide-react";
+import { ArrowLeftRight, Loader2, ArrowRight, CalendarClock } from "lucide-react";
+import { TellerLimitNotice, useExceedsTellerLimit } from "@/components/teller-limit";
+import { CurrencyPrefix, currencyInputPadding } from "@/components/currency-prefix";
+import { describeSchedule, emptySchedule, ScheduleFields, toScheduleRequest, type ScheduleDraft } from "@/components/schedule-fields";
 import { api } from "@/lib/api";
-import type { Account } from "@shared/schema";
+import { isValidAccountNumber, accountNumberSchema } from "@shared/account-number";
+import { BASE_CURRENCY, convertMoney, formatMoney, formatRate, toMinorUnits } from "@shared/money";
+import type { Account, FeeQuote, FxQuote, VelocityHeadroom } from "@shared/schema";
+import { exceedsHeadroom, VelocityHeadroomSummary } from "@/components/velocity-headroom";
 
 const transferSchema = z.object({
-  fromAccountNumber: z.number().min(1, "From account number must be positive"),
-  toAccountNumber: z.number().min(1, "To account number must be positive"),
-  amount: z.number().min(0.01, "Amount must be at least $0.01"),
+  fromAccountNumber: accountNumberSchema,
+  toAccountNumber: accountNumberSchema,
+  amount: z.number().min(0.01, "Amount must be at least 0.01"),
 }).refine(data => data.fromAccountNumber !== data.toAccountNumber, {
   message: "Cannot transfer to the same account",
   path: ["toAccountNumber"],
@@ -28,9 +36,14 @@ export default function Transfer() {
   const queryClient = useQueryClient();
   const [fromAccount, setFromAccount] = useState<Account | null>(null);
   const [toAccount, setToAccount] = useState<Account | null>(null);
+  // Schedule for later instead of transferring now
+  const [scheduled, setScheduled] = useState(false);
+  const [schedule, setSchedule] = useState<ScheduleDraft>(emptySchedule);
 
   const form = useForm<TransferForm>({
     resolver: zodResolver(transferSchema),
+    // Flags a mistyped account number as soon as it fails its check digit
+    mode: "onChange",
     defaultValues: {
       fromAccountNumber: 0,
       toAccountNumber: 0,
@@ -46,7 +59,7 @@ export default function Transfer() {
   const { data: fromAccountData } = useQuery({
     queryKey: ["/api/accounts", fromAccountNumber],
     queryFn: () => api.getAccountByNumber(fromAccountNumber),
-    enabled: !!fromAccountNumber && fromAccountNumber > 0,
+    enabled: isValidAccountNumber(fromAccountNumber),
     retry: false,
   });
 
@@ -54,7 +67,7 @@ export default function Transfer() {
   const { data: toAccountData } = useQuery({
     queryKey: ["/api/accounts", toAccountNumber],
     queryFn: () => api.getAccountByNumber(toAccountNumber),
-    enabled: !!toAccountNumber && toAccountNumber > 0,
+    enabled: isValidAccountNumber(toAccountNumber),
     retry: false,
   });
 
@@ -66,24 +79,71 @@ export default function Transfer() {
     setToAccount(toAccountData || null);
   }, [toAccountData]);
 
-  const hasInsufficientFunds = fromAccount ? fromAccount.balance < (amount || 0) : false;
+  const minorAmount = toMinorUnits(amount || 0);
+  // The amount is in the sending account's currency
+  const currency = fromAccount?.currency ?? BASE_CURRENCY;
+  const converts = !!fromAccount && !!toAccount && fromAccount.currency !== toAccount.currency;
+
+  const { data: fxQuote, isError: noFxRate } = useQuery<FxQuote>({
+    queryKey: ["/api/fx-rates/quote", fromAccount?.currency, toAccount?.currency],
+    queryFn: () => api.getFxQuote(fromAccount!.currency, toAccount!.currency),
+    enabled: converts,
+    retry: false,
+  });
+
+  const { data: feeQuote } = useQuery<FeeQuote>({
+    queryKey: ["/api/fees/quote", "transfer", fromAccountNumber, minorAmount],
+    queryFn: () => api.getFeeQuote("transfer", fromAccountNumber, minorAmount),
+    enabled: !!fromAccount && minorAmount > 0,
+  });
+
+  const fee = feeQuote?.fee ?? 0;
+  // Money on hold can't be spent, and an arranged overdraft lets the
+  // balance go that far below zero
+  const availableFunds = fromAccount ? fromAccount.availableBalance + fromAccount.overdraftLimit : 0;
+  const hasInsufficientFunds = fromAccount ? availableFunds < minorAmount + fee : false;
   const canShowPreview = fromAccount && toAccount && amount > 0;
 
+  const { data: headroom } = useQuery<VelocityHeadroom[]>({
+    queryKey: ["/api/accounts", fromAccountNumber, "velocity"],
+    enabled: !!fromAccount,
+  });
+  const overLimit = exceedsHeadroom(headroom, minorAmount);
+  const overTellerLimit = useExceedsTellerLimit(minorAmount, currency);
+  const scheduleRequest = scheduled ? toScheduleRequest(schedule) : undefined;
+  const scheduleProblem = typeof scheduleRequest === "string" ? scheduleRequest : undefined;
+
+  const resetForm = () => {
+    form.reset();
+    setFromAccount(null);
+    setToAccount(null);
+    setSchedule(emptySchedule);
+  };
+
+  const idempotency = useIdempotencyKey();
   const transferMutation = useMutation({
-    mutationFn: (data: TransferForm) => api.transfer(data.fromAccountNumber, data.toAccountNumber, data.amount),
+    mutationFn: (data: TransferForm) => {
+      const amount = toMinorUnits(data.amount);
+      const key = idempotency.keyFor(["transfer", data.fromAccountNumber, data.toAccountNumber, amount]);
+      return api.transfer(data.fromAccountNumber, data.toAccountNumber, amount, key);
+    },
+    onSettled: (_, error) => idempotency.settle(error),
     onSuccess: (response) => {
       const result = response.json();
+      // Amounts over the approval threshold wait for someone else to approve them
+      const sentForApproval = response.status === 202;
       toast({
         variant: "default",
-        title: "Success!",
-        description: `Transfer of $${form.getValues().amount.toFixed(2)} completed successfully!`,
+        title: sentForApproval ? "Sent for approval" : "Success!",
+        description: sentForApproval
+          ? `Transfer of ${formatMoney(toMinorUnits(form.getValues().amount), currency)} is waiting for approval`
+          : `Transfer of ${formatMoney(toMinorUnits(form.getValues().amount), currency)} completed successfully!`,
       });
-      form.reset();
-      setFromAccount(null);
-      setToAccount(null);
+      resetForm();
       queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions/recent"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/approvals"] });
     },
     onError: (error: any) => {
       toast({
@@ -94,6 +154,39 @@ export default function Transfer() {
     },
   });
 
+  const scheduleMutation = useMutation({
+    mutationFn: (data: TransferForm) => {
+      if (!scheduleRequest || typeof scheduleRequest === "string") {
+        throw new Error(scheduleRequest ?? "Choose when to transfer");
+      }
+      const request = {
+        fromAccountNumber: data.fromAccountNumber,
+        toAccountNumber: data.toAccountNumber,
+        amount: toMinorUnits(data.amount),
+        ...scheduleRequest,
+      };
+      return api.scheduleTransfer(request, idempotency.keyFor(["schedule", request]));
+    },
+    onSettled: (_, error) => idempotency.settle(error),
+    onSuccess: async (response) => {
+      const created = await response.json();
+      toast({
+        variant: "default",
+        title: "Scheduled",
+        description: `${describeSchedule(created.frequency, created.interval)} transfer of ${formatMoney(created.amount, currency)}, first on ${new Date(created.startAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}`,
+      });
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ["/api/scheduled-transfers"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to schedule transfer. Please try again.",
+      });
+    },
+  });
+
   const onSubmit = (data: TransferForm) => {
     if (!fromAccount || !toAccount) {
       toast({
@@ -104,6 +197,12 @@ export default function Transfer() {
       return;
     }
 
+    // Funds and limits are checked again when each scheduled transfer runs
+    if (scheduled) {
+      scheduleMutation.mutate(data);
+      return;
+    }
+
     if (hasInsufficientFunds) {
       toast({
         variant: "destructive",
@@ -121,7 +220,7 @@ export default function Transfer() {
       {/* Header */}
       <div className="mb-8">
         <h1 className="text-3xl font-semibold text-foreground mb-2">Transfer Funds</h1>
-        <p className="text-muted-foreground">Move money between accounts</p>
+        <p className="text-muted-foreground">Move money between accounts, now or on a schedule</p>
       </div>
 
       <div className="max-w-2xl">
@@ -173,16 +272,14 @@ export default function Transfer() {
                   Transfer Amount
                 </Label>
                 <div className="relative">
-                  <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-muted-foreground">
-                    $
-                  </span>
+                  <CurrencyPrefix currency={currency} />
                   <Input
                     id="amount"
                     type="number"
                     step="0.01"
                     min="0.01"
                     placeholder="0.00"
-                    className="w-full pl-8"
+                    className={`w-full ${currencyInputPadding(currency)}`}
                     data-testid="input-amount"
                     {...form.register("amount", { valueAsNumber: true })}
                   />
@@ -192,6 +289,34 @@ export default function Transfer() {
                     {form.formState.errors.amount.message}
                   </p>
                 )}
+                <TellerLimitNotice amount={minorAmount} currency={currency} />
+              </div>
+
+              <div className="space-y-4 border-t border-border pt-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="schedule-toggle" className="text-sm font-medium text-foreground">
+                      Schedule for later
+                    </Label>
+                    <p className="text-xs text-muted-foreground">
+                      Make it once on a future date, or repeat it as a standing order
+                    </p>
+                  </div>
+                  <Switch
+                    id="schedule-toggle"
+                    checked={scheduled}
+                    onCheckedChange={setScheduled}
+                    data-testid="switch-schedule"
+                  />
+                </div>
+                {scheduled && (
+                  <>
+                    <ScheduleFields value={schedule} onChange={setSchedule} />
+                    {scheduleProblem && schedule.startAt && (
+                      <p className="text-sm text-destructive">{scheduleProblem}</p>
+                    )}
+                  </>
+                )}
               </div>
 
               {/* Transfer Preview */}
@@ -205,23 +330,68 @@ export default function Transfer() {
                       <p className="text-sm font-medium text-foreground">From</p>
                       <p className="text-sm text-muted-foreground">{fromAccount.name}</p>
                       <p className={`text-sm ${hasInsufficientFunds ? 'text-red-600 font-medium' : 'text-blue-600'}`}>
-                        Balance: ${fromAccount.balance.toFixed(2)}
+                        Available: {formatMoney(availableFunds, currency)}
                       </p>
+                      {(fromAccount.overdraftLimit > 0 || fromAccount.heldAmount > 0) && (
+                        <p className="text-xs text-muted-foreground">
+                          Balance {formatMoney(fromAccount.balance, currency)}
+                          {fromAccount.heldAmount > 0 && ` − on hold ${formatMoney(fromAccount.heldAmount, currency)}`}
+                          {fromAccount.overdraftLimit > 0 && ` + overdraft ${formatMoney(fromAccount.overdraftLimit, currency)}`}
+                        </p>
+                      )}
                       {hasInsufficientFunds && (
-                        <p className="text-xs text-red-600 font-medium">Insufficient funds!</p>
+                        <p className="text-xs text-red-600 font-medium">
+                          {scheduled ? "Not enough today; checked again when it runs" : "Insufficient funds!"}
+                        </p>
                       )}
                     </div>
                     <div>
                       <p className="text-sm font-medium text-foreground">To</p>
                       <p className="text-sm text-muted-foreground">{toAccount.name}</p>
                       <p className="text-sm text-green-600">
-                        Balance: ${toAccount.balance.toFixed(2)}
+                        Balance: {formatMoney(toAccount.balance, toAccount.currency)}
                       </p>
                     </div>
                   </div>
                   <div className="text-center">
                     <ArrowRight className="text-blue-600 h-5 w-5 mx-auto" />
                   </div>
+                  <div className="border-t border-blue-200 pt-3 space-y-1 text-sm" data-testid="transfer-fee">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Amount</span>
+                      <span className="text-foreground">{formatMoney(minorAmount, currency)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">
+                        Fee
+                        {feeQuote?.waiver === "free_allowance" && ` (free, ${feeQuote.freeRemaining} left this month)`}
+                        {feeQuote?.waiver === "minimum_balance" && " (waived for balance)"}
+                      </span>
+                      <span className="text-foreground">{feeQuote ? formatMoney(fee, currency) : "…"}</span>
+                    </div>
+                    <div className="flex justify-between font-medium">
+                      <span className="text-foreground">Total debited</span>
+                      <span className="text-foreground">{formatMoney(minorAmount + fee, currency)}</span>
+                    </div>
+                    {converts && (
+                      <div className="flex justify-between" data-testid="transfer-conversion">
+                        <span className="text-muted-foreground">
+                          Received in {toAccount.currency}
+                          {fxQuote && ` at ${formatRate(fxQuote.rateMicros)}`}
+                        </span>
+                        <span className={noFxRate ? "text-red-600" : "text-foreground"}>
+                          {fxQuote
+                            ? formatMoney(convertMoney(minorAmount, fxQuote.rateMicros), toAccount.currency)
+                            : noFxRate ? `No ${fromAccount.currency} to ${toAccount.currency} rate` : "…"}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                  {headroom && headroom.length > 0 && (
+                    <div className="border-t border-blue-200 pt-3">
+                      <VelocityHeadroomSummary headroom={headroom} amount={minorAmount} currency={currency} />
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -229,14 +399,26 @@ export default function Transfer() {
                 <Button
                   type="submit"
                   className="flex-1 bg-blue-600 text-white hover:bg-blue-700"
-                  disabled={transferMutation.isPending || !fromAccount || !toAccount || hasInsufficientFunds}
+                  disabled={
+                    transferMutation.isPending ||
+                    scheduleMutation.isPending ||
+                    !fromAccount ||
+                    !toAccount ||
+                    overTellerLimit ||
+                    (scheduled ? !!scheduleProblem : hasInsufficientFunds || overLimit || (converts && noFxRate))
+                  }
                   data-testid="button-process-transfer"
                 >
-                  {transferMutation.isPending ? (
+                  {transferMutation.isPending || scheduleMutation.isPending ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                       Processing...
                     </>
+                  ) : scheduled ? (
+                    <>
+                      <CalendarClock className="mr-2 h-4 w-4" />
+                      Schedule Transfer
+                    </>
                   ) : (
                     <>
                       <ArrowLeftRight className="mr-2 h-4 w-4" />
@@ -248,11 +430,7 @@ export default function Transfer() {
                 <Button
                   type="button"
                   variant="secondary"
-                  onClick={() => {
-                    form.reset();
-                    setFromAccount(null);
-                    setToAccount(null);
-                  }}
+                  onClick={resetForm}
                   data-testid="button-clear-form"
                 >
                   Clear
@@ -7,14 +7,20 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
 import { useToast } from "@/hooks/use-toast";
 import { MinusCircle, Loader2, AlertTriangle } from "lucide-react";
+import { TellerLimitNotice, useExceedsTellerLimit } from "@/components/teller-limit";
+import { CurrencyPrefix, currencyInputPadding } from "@/components/currency-prefix";
 import { api } from "@/lib/api";
-import type { Account } from "@shared/schema";
+import { isValidAccountNumber, accountNumberSchema } from "@shared/account-number";
+import { BASE_CURRENCY, formatMoney, toMinorUnits } from "@shared/money";
+import type { Account, VelocityHeadroom } from "@shared/schema";
+import { exceedsHeadroom, VelocityHeadroomSummary } from "@/components/velocity-headroom";
 
 const withdrawSchema = z.object({
-  accountNumber: z.number().min(1, "Account number must be positive"),
-  amount: z.number().min(0.01, "Amount must be at least $0.01"),
+  accountNumber: accountNumberSchema,
+  amount: z.number().min(0.01, "Amount must be at least 0.01"),
 });
 
 type WithdrawForm = z.infer<typeof withdrawSchema>;
@@ -26,6 +32,8 @@ export default function Withdraw() {
 
   const form = useForm<WithdrawForm>({
     resolver: zodResolver(withdrawSchema),
+    // Flags a mistyped account number as soon as it fails its check digit
+    mode: "onChange",
     defaultValues: {
       accountNumber: 0,
       amount: 0,
@@ -39,7 +47,7 @@ export default function Withdraw() {
   const { data: account } = useQuery({
     queryKey: ["/api/accounts", accountNumber],
     queryFn: () => api.getAccountByNumber(accountNumber),
-    enabled: !!accountNumber && accountNumber > 0,
+    enabled: isValidAccountNumber(accountNumber),
     retry: false,
   });
 
@@ -51,23 +59,45 @@ export default function Withdraw() {
     }
   }, [account]);
 
-  const remainingBalance = selectedAccount ? selectedAccount.balance - (amount || 0) : 0;
-  const hasInsufficientFunds = remainingBalance < 0;
+  const currency = selectedAccount?.currency ?? BASE_CURRENCY;
 
+  // Money on hold can't be spent, and an arranged overdraft lets the
+  // balance go that far below zero
+  const availableFunds = selectedAccount ? selectedAccount.availableBalance + selectedAccount.overdraftLimit : 0;
+  const remainingBalance = selectedAccount ? selectedAccount.balance - toMinorUnits(amount || 0) : 0;
+  const hasInsufficientFunds = toMinorUnits(amount || 0) > availableFunds;
+
+  const { data: headroom } = useQuery<VelocityHeadroom[]>({
+    queryKey: ["/api/accounts", accountNumber, "velocity"],
+    enabled: !!selectedAccount,
+  });
+  const overLimit = exceedsHeadroom(headroom, toMinorUnits(amount || 0));
+  const overTellerLimit = useExceedsTellerLimit(toMinorUnits(amount || 0), currency);
+
+  const idempotency = useIdempotencyKey();
   const withdrawMutation = useMutation({
-    mutationFn: (data: WithdrawForm) => api.withdraw(data.accountNumber, data.amount),
+    mutationFn: (data: WithdrawForm) => {
+      const amount = toMinorUnits(data.amount);
+      return api.withdraw(data.accountNumber, amount, idempotency.keyFor([data.accountNumber, amount]));
+    },
+    onSettled: (_, error) => idempotency.settle(error),
     onSuccess: (response) => {
       const result = response.json();
+      // Amounts over the approval threshold wait for someone else to approve them
+      const sentForApproval = response.status === 202;
       toast({
         variant: "default",
-        title: "Success!",
-        description: `Withdrawal of $${form.getValues().amount.toFixed(2)} processed successfully!`,
+        title: sentForApproval ? "Sent for approval" : "Success!",
+        description: sentForApproval
+          ? `Withdrawal of ${formatMoney(toMinorUnits(form.getValues().amount), currency)} is waiting for approval`
+          : `Withdrawal of ${formatMoney(toMinorUnits(form.getValues().amount), currency)} processed successfully!`,
       });
       form.reset();
       setSelectedAccount(null);
       queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions/recent"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/approvals"] });
     },
     onError: (error: any) => {
       toast({
@@ -136,16 +166,14 @@ export default function Withdraw() {
                   Withdrawal Amount
                 </Label>
                 <div className="relative">
-                  <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-muted-foreground">
-                    $
-                  </span>
+                  <CurrencyPrefix currency={currency} />
                   <Input
                     id="amount"
                     type="number"
                     step="0.01"
                     min="0.01"
                     placeholder="0.00"
-                    className="w-full pl-8"
+                    className={`w-full ${currencyInputPadding(currency)}`}
                     data-testid="input-amount"
                     {...form.register("amount", { valueAsNumber: true })}
                   />
@@ -155,6 +183,7 @@ export default function Withdraw() {
                     {form.formState.errors.amount.message}
                   </p>
                 )}
+                <TellerLimitNotice amount={toMinorUnits(amount || 0)} currency={currency} />
               </div>
 
               {/* Account Preview */}
@@ -166,12 +195,19 @@ export default function Withdraw() {
                   <div className="flex items-center justify-between">
                     <div>
                       <p className="font-medium text-foreground">{selectedAccount.name}</p>
-                      <p className="text-sm text-muted-foreground">
-                        Available Balance: ${selectedAccount.balance.toFixed(2)}
+                      <p className="text-sm text-muted-foreground" data-testid="text-available-funds">
+                        Available Funds: {formatMoney(availableFunds, currency)}
                       </p>
+                      {(selectedAccount.overdraftLimit > 0 || selectedAccount.heldAmount > 0) && (
+                        <p className="text-xs text-muted-foreground">
+                          Balance {formatMoney(selectedAccount.balance, currency)}
+                          {selectedAccount.heldAmount > 0 && ` − on hold ${formatMoney(selectedAccount.heldAmount, currency)}`}
+                          {selectedAccount.overdraftLimit > 0 && ` + overdraft ${formatMoney(selectedAccount.overdraftLimit, currency)}`}
+                        </p>
+                      )}
                       {amount > 0 && (
                         <p className={`text-sm font-medium ${hasInsufficientFunds ? 'text-red-600' : 'text-foreground'}`}>
-                          After Withdrawal: ${remainingBalance.toFixed(2)}
+                          After Withdrawal: {formatMoney(remainingBalance, currency)}
                         </p>
                       )}
                     </div>
@@ -179,6 +215,11 @@ export default function Withdraw() {
                       <AlertTriangle className={`h-5 w-5 ${hasInsufficientFunds ? 'text-red-600' : 'text-orange-600'}`} />
                     </div>
                   </div>
+                  {headroom && headroom.length > 0 && (
+                    <div className="border-t border-border mt-3 pt-3">
+                      <VelocityHeadroomSummary headroom={headroom} amount={toMinorUnits(amount || 0)} currency={currency} />
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -186,7 +227,7 @@ export default function Withdraw() {
                 <Button
                   type="submit"
                   className="flex-1 bg-red-600 text-white hover:bg-red-700"
-                  disabled={withdrawMutation.isPending || !selectedAccount || hasInsufficientFunds}
+                  disabled={withdrawMutation.isPending || !selectedAccount || hasInsufficientFunds || overLimit || overTellerLimit}
                   data-testid="button-process-withdrawal"
                 >
                   {withdrawMutation.isPending ? (
@@ -0,0 +1,20 @@
+-- Converts money columns from floating-point dollars (real) to integer
+-- cents (bigint). See shared/money.ts for how amounts are handled in code.
+--
+-- Run this once against an existing database BEFORE `npm run db:push`:
+--   psql "$DATABASE_URL" -f migrations/manual/0001_money_to_minor_units.sql
+-- Fresh databases can skip it; `db:push` creates the bigint columns directly.
+--
+-- round(numeric) rounds half away from zero, the same rule parseMoney uses.
+
+BEGIN;
+
+ALTER TABLE accounts ALTER COLUMN balance DROP DEFAULT;
+ALTER TABLE accounts
+  ALTER COLUMN balance TYPE bigint USING round(balance::numeric * 100)::bigint;
+ALTER TABLE accounts ALTER COLUMN balance SET DEFAULT 0;
+
+ALTER TABLE transactions
+  ALTER COLUMN amount TYPE bigint USING round(amount::numeric * 100)::bigint;
+
+COMMIT;
@@ -0,0 +1,31 @@
+-- Backfills an opening-balance journal entry for every account whose balance
+-- predates the double-entry ledger, so GET /api/ledger/verify reports no
+-- mismatches. Each entry credits the account (debits, for a negative
+-- balance) against the cash vault.
+--
+-- Run once AFTER `npm run db:push` has created journal_entries and postings:
+--   psql "$DATABASE_URL" -f migrations/manual/0002_ledger_opening_balances.sql
+-- Accounts that already have postings are skipped, so re-running is harmless.
+
+BEGIN;
+
+CREATE TEMP TABLE opening_balances ON COMMIT DROP AS
+  SELECT a.id AS account_id, a.balance, gen_random_uuid()::varchar AS entry_id
+  FROM accounts a
+  WHERE a.balance <> 0
+    AND NOT EXISTS (SELECT 1 FROM postings p WHERE p.account_id = a.id);
+
+INSERT INTO journal_entries (id, description)
+  SELECT entry_id, 'Opening balance (ledger migration)' FROM opening_balances;
+
+INSERT INTO postings (journal_entry_id, account_id, direction, amount)
+  SELECT entry_id, account_id,
+         CASE WHEN balance > 0 THEN 'credit' ELSE 'debit' END, abs(balance)
+  FROM opening_balances;
+
+INSERT INTO postings (journal_entry_id, system_account, direction, amount)
+  SELECT entry_id, 'cash_vault',
+         CASE WHEN balance > 0 THEN 'debit' ELSE 'credit' END, abs(balance)
+  FROM opening_balances;
+
+COMMIT;
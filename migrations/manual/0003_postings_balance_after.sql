@@ -0,0 +1,22 @@
+-- Backfills postings.balance_after (the running balance shown in account
+-- history) for customer-account postings made before the column existed.
+--
+-- Run once AFTER `npm run db:push` has added the column:
+--   psql "$DATABASE_URL" -f migrations/manual/0003_postings_balance_after.sql
+-- Only rows still missing a value are updated, so re-running is harmless.
+
+BEGIN;
+
+UPDATE postings p
+SET balance_after = r.balance_after
+FROM (
+  SELECT id,
+         sum(CASE WHEN direction = 'credit' THEN amount ELSE -amount END)
+           OVER (PARTITION BY account_id ORDER BY created_at, id) AS balance_after
+  FROM postings
+  WHERE account_id IS NOT NULL
+) r
+WHERE p.id = r.id
+  AND p.balance_after IS NULL;
+
+COMMIT;
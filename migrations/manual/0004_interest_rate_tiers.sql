@@ -0,0 +1,20 @@
+-- Seeds the default savings interest rate table (the same tiers MemStorage
+-- starts with, see DEFAULT_INTEREST_RATE_TIERS in server/interest.ts):
+--   $0 - $10,000        1.50%
+--   $10,000 - $100,000  2.50%
+--   $100,000 and above  3.50%
+--
+-- Run once AFTER `npm run db:push` has created interest_rate_tiers:
+--   psql "$DATABASE_URL" -f migrations/manual/0004_interest_rate_tiers.sql
+-- Tiers that already exist are left alone, so re-running is harmless.
+
+BEGIN;
+
+INSERT INTO interest_rate_tiers (account_type, min_balance, rate_basis_points)
+VALUES
+  ('savings', 0, 150),
+  ('savings', 1000000, 250),
+  ('savings', 10000000, 350)
+ON CONFLICT (account_type, min_balance) DO NOTHING;
+
+COMMIT;
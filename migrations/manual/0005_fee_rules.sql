@@ -0,0 +1,20 @@
+-- Seeds the default fee rules (the same rules MemStorage starts with, see
+-- DEFAULT_FEE_RULES in server/fees.ts):
+--   withdrawals  $2.50 flat, first 4 a month free, waived at $1,500 or more
+--   transfers    0.50% of the amount, first 10 a month free, waived at $5,000 or more
+--
+-- Run once AFTER `npm run db:push` has created fee_rules:
+--   psql "$DATABASE_URL" -f migrations/manual/0005_fee_rules.sql
+-- Nothing is inserted if any fee rules exist, so re-running is harmless.
+
+BEGIN;
+
+INSERT INTO fee_rules (transaction_type, account_type, kind, flat_fee, rate_basis_points, waive_at_balance, free_per_month)
+SELECT v.*
+FROM (VALUES
+  ('withdraw', NULL, 'flat', 250, 0, 150000, 4),
+  ('transfer', NULL, 'percentage', 0, 50, 500000, 10)
+) AS v(transaction_type, account_type, kind, flat_fee, rate_basis_points, waive_at_balance, free_per_month)
+WHERE NOT EXISTS (SELECT 1 FROM fee_rules);
+
+COMMIT;
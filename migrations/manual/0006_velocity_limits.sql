@@ -0,0 +1,20 @@
+-- Seeds the default velocity limits (the same limits MemStorage starts with,
+-- see DEFAULT_VELOCITY_LIMITS in server/velocity.ts), for every account:
+--   daily    20 withdrawals and transfers, $10,000 in total
+--   monthly  200 withdrawals and transfers, $50,000 in total
+--
+-- Run once AFTER `npm run db:push` has created velocity_limits:
+--   psql "$DATABASE_URL" -f migrations/manual/0006_velocity_limits.sql
+-- Nothing is inserted if any shared limits exist, so re-running is harmless.
+
+BEGIN;
+
+INSERT INTO velocity_limits (account_id, account_type, "window", max_count, max_amount)
+SELECT v.*
+FROM (VALUES
+  (NULL::varchar, NULL::text, 'daily', 20, 1000000::bigint),
+  (NULL::varchar, NULL::text, 'monthly', 200, 5000000::bigint)
+) AS v(account_id, account_type, "window", max_count, max_amount)
+WHERE NOT EXISTS (SELECT 1 FROM velocity_limits WHERE account_id IS NULL);
+
+COMMIT;
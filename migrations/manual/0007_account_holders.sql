@@ -0,0 +1,23 @@
+-- Gives every account that has no holders a primary holder: a new customer
+-- named after the account, created when the account was. Accounts that
+-- belong to the same person can be merged onto one customer afterwards by
+-- adding them as holders in the app.
+--
+-- Run once AFTER `npm run db:push` has created customers and account_holders:
+--   psql "$DATABASE_URL" -f migrations/manual/0007_account_holders.sql
+-- Accounts that already have a holder are skipped, so re-running is harmless.
+
+BEGIN;
+
+CREATE TEMP TABLE account_owners ON COMMIT DROP AS
+  SELECT a.id AS account_id, a.name, a.created_at, gen_random_uuid()::varchar AS customer_id
+  FROM accounts a
+  WHERE NOT EXISTS (SELECT 1 FROM account_holders h WHERE h.account_id = a.id);
+
+INSERT INTO customers (id, name, created_at)
+  SELECT customer_id, name, created_at FROM account_owners;
+
+INSERT INTO account_holders (account_id, customer_id, role, created_at)
+  SELECT account_id, customer_id, 'primary', created_at FROM account_owners;
+
+COMMIT;
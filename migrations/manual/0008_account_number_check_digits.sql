@@ -0,0 +1,38 @@
+-- Gives every account whose number fails its Luhn check digit (see
+-- shared/account-number.ts) a new number from account_number_seq, in the
+-- order of the old numbers. The API turns such numbers away, so those
+-- accounts can't be reached until this has run. Tell their customers the
+-- new numbers; descriptions on past journal entries keep the old ones.
+--
+-- Run once AFTER `npm run db:push` has created account_number_seq:
+--   psql "$DATABASE_URL" -f migrations/manual/0008_account_number_check_digits.sql
+-- Accounts with a valid number are left alone, so re-running is harmless.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION pg_temp.luhn_check_digit(base bigint) RETURNS int AS $$
+  SELECT ((10 - coalesce(sum(CASE WHEN i % 2 = 1 THEN d * 2 - CASE WHEN d > 4 THEN 9 ELSE 0 END ELSE d END), 0) % 10) % 10)::int
+  FROM (
+    SELECT i, substr(reverse(base::text), i, 1)::int AS d
+    FROM generate_series(1, length(base::text)) AS i
+  ) AS digits
+$$ LANGUAGE sql IMMUTABLE;
+
+-- New numbers must not collide with existing ones that happen to be valid
+SELECT setval('account_number_seq', GREATEST(max(account_number) / 10, (SELECT last_value FROM account_number_seq)))
+FROM accounts;
+
+UPDATE accounts a
+SET account_number = renumbered.base * 10 + pg_temp.luhn_check_digit(renumbered.base)
+FROM (
+  SELECT id, nextval('account_number_seq') AS base
+  FROM (
+    SELECT id FROM accounts
+    WHERE account_number < 10
+       OR pg_temp.luhn_check_digit(account_number / 10) <> account_number % 10
+    ORDER BY account_number
+  ) AS invalid
+) AS renumbered
+WHERE a.id = renumbered.id;
+
+COMMIT;
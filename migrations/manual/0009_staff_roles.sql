@@ -0,0 +1,16 @@
+-- `db:push` gives existing users the default role, teller, which would leave
+-- nobody able to manage users. This makes the earliest user an admin when
+-- there is no admin yet; they can then give everyone else their role with
+-- PATCH /api/users/:id.
+--
+-- Run once AFTER `npm run db:push` has added users.role:
+--   psql "$DATABASE_URL" -f migrations/manual/0009_staff_roles.sql
+-- Nothing changes once an admin exists, so re-running is harmless.
+
+BEGIN;
+
+UPDATE users SET role = 'admin'
+WHERE id = (SELECT id FROM users ORDER BY created_at, id LIMIT 1)
+  AND NOT EXISTS (SELECT 1 FROM users WHERE role = 'admin');
+
+COMMIT;
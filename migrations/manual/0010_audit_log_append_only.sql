@@ -0,0 +1,26 @@
+-- Makes audit_log append-only: updating, deleting or truncating its rows
+-- raises an error, whoever asks. The app only ever inserts into it.
+--
+-- Run once AFTER `npm run db:push` has created audit_log:
+--   psql "$DATABASE_URL" -f migrations/manual/0010_audit_log_append_only.sql
+-- The function and triggers are replaced, so re-running is harmless.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION audit_log_append_only() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only; % is not allowed', TG_OP;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_no_changes ON audit_log;
+CREATE TRIGGER audit_log_no_changes
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION audit_log_append_only();
+
+DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log;
+CREATE TRIGGER audit_log_no_truncate
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION audit_log_append_only();
+
+COMMIT;
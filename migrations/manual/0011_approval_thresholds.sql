@@ -0,0 +1,19 @@
+-- Seeds the default approval thresholds (the same ones MemStorage starts
+-- with, see DEFAULT_APPROVAL_THRESHOLDS in server/approvals.ts): withdrawals
+-- and transfers over $5,000 wait for a second member of staff to approve them.
+--
+-- Run once AFTER `npm run db:push` has created approval_thresholds:
+--   psql "$DATABASE_URL" -f migrations/manual/0011_approval_thresholds.sql
+-- Nothing is inserted if any thresholds exist, so re-running is harmless.
+
+BEGIN;
+
+INSERT INTO approval_thresholds (transaction_type, amount)
+SELECT v.*
+FROM (VALUES
+  ('withdraw', 500000),
+  ('transfer', 500000)
+) AS v(transaction_type, amount)
+WHERE NOT EXISTS (SELECT 1 FROM approval_thresholds);
+
+COMMIT;
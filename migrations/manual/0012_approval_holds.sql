@@ -0,0 +1,42 @@
+-- Moves approval requests onto holds. Until now a pending request's amount
+-- was kept aside by summing pending requests; now every pending request has
+-- a hold (see server/holds.ts), and accounts.held_amount is the sum of the
+-- account's active holds.
+--
+-- Run once AFTER `npm run db:push` has created holds and added
+-- accounts.held_amount, accounts.available_balance and
+-- approval_requests.hold_id:
+--   psql "$DATABASE_URL" -f migrations/manual/0012_approval_holds.sql
+-- Only requests without a hold get one, and held_amount is recomputed from
+-- scratch, so re-running is harmless.
+
+BEGIN;
+
+CREATE TEMP TABLE approval_holds ON COMMIT DROP AS
+SELECT id AS request_id, gen_random_uuid()::varchar AS hold_id
+FROM approval_requests
+WHERE status = 'pending' AND hold_id IS NULL;
+
+INSERT INTO holds (id, account_id, amount, reason, status, expires_at, created_by_id, created_at)
+SELECT ah.hold_id,
+       r.from_account_id,
+       r.amount,
+       'Waiting for approval of a ' || CASE r.transaction_type WHEN 'transfer' THEN 'transfer' ELSE 'withdrawal' END,
+       'active',
+       NULL,
+       r.requested_by_id,
+       r.requested_at
+FROM approval_holds ah
+JOIN approval_requests r ON r.id = ah.request_id;
+
+UPDATE approval_requests r
+SET hold_id = ah.hold_id
+FROM approval_holds ah
+WHERE r.id = ah.request_id;
+
+UPDATE accounts a
+SET held_amount = coalesce((
+  SELECT sum(h.amount) FROM holds h WHERE h.account_id = a.id AND h.status = 'active'
+), 0);
+
+COMMIT;
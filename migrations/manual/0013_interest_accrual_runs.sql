@@ -0,0 +1,21 @@
+-- Records the accrual runs made before interest_accrual_runs existed, so
+-- the scheduler doesn't start over from yesterday. Whether a past day's run
+-- reached every account can't be told from its accruals, so the latest day
+-- is left unfinished and the scheduler runs it again; accounts it already
+-- reached are skipped.
+--
+-- Run once AFTER `npm run db:push` has created interest_accrual_runs:
+--   psql "$DATABASE_URL" -f migrations/manual/0013_interest_accrual_runs.sql
+-- Dates that already have a run are left alone, so re-running is harmless.
+
+BEGIN;
+
+INSERT INTO interest_accrual_runs (accrual_date, started_at, finished_at)
+SELECT accrual_date,
+       min(created_at),
+       CASE WHEN accrual_date = (SELECT max(accrual_date) FROM interest_accruals) THEN NULL ELSE max(created_at) END
+FROM interest_accruals
+GROUP BY accrual_date
+ON CONFLICT (accrual_date) DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,102 @@
+import type { Account, AccountType } from "@shared/schema";
+import { formatMoney, type Money } from "@shared/money";
+import type { IStorage } from "./storage";
+import { ApiError } from "./errors";
+
+type AccountRules = {
+  label: string;
+  // Whether customers can take money out by withdrawal or transfer
+  allowsDebits: boolean;
+  // Withdrawals and outgoing transfers allowed per calendar month
+  monthlyDebitLimit?: number;
+  // Whether the account can be given an overdraft limit
+  allowsOverdraft: boolean;
+  // The balance must stay within these bounds; unset means unbounded. An
+  // overdraft limit lowers minBalance by that much.
+  minBalance?: Money;
+  maxBalance?: Money;
+};
+
+export const accountRules: Record<AccountType, AccountRules> = {
+  checking: { label: "Checking", allowsDebits: true, allowsOverdraft: true, minBalance: 0 },
+  savings: { label: "Savings", allowsDebits: true, allowsOverdraft: false, monthlyDebitLimit: 6, minBalance: 0 },
+  // The balance is what the customer owes, so it can only rise towards zero
+  loan: { label: "Loan", allowsDebits: false, allowsOverdraft: false, maxBalance: 0 },
+};
+
+// Transaction types that count against a monthly debit limit
+export const CUSTOMER_DEBIT_TYPES = ["withdraw", "transfer"];
+
+export function startOfMonth(date: Date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+export function isBalanceAllowed(account: Account, balance: Money): boolean {
+  const { minBalance, maxBalance } = accountRules[account.accountType];
+  return (
+    (minBalance === undefined || balance >= minBalance - account.overdraftLimit) &&
+    (maxBalance === undefined || balance <= maxBalance)
+  );
+}
+
+export function isOverdrawn(account: Account): boolean {
+  return accountRules[account.accountType].allowsOverdraft && account.balance < 0;
+}
+
+export function assertOverdraftAllowed(accountType: AccountType, overdraftLimit: Money): void {
+  const rules = accountRules[accountType];
+  if (overdraftLimit > 0 && !rules.allowsOverdraft) {
+    throw new ApiError(400, `${rules.label} accounts can't have an overdraft`);
+  }
+}
+
+// Frozen accounts can still be paid into; closed accounts can't be touched
+export function assertStatusAllowsDebit(account: Account): void {
+  if (account.status === 'closed' || account.status === 'frozen') {
+    throw new ApiError(409, `Account ${account.accountNumber} is ${account.status}`);
+  }
+}
+
+export function assertStatusAllowsCredit(account: Account): void {
+  if (account.status === 'closed') {
+    throw new ApiError(409, `Account ${account.accountNumber} is closed`);
+  }
+}
+
+export function assertTypeAllowsDebits(account: Account): void {
+  const rules = accountRules[account.accountType];
+  if (!rules.allowsDebits) {
+    throw new ApiError(400, `${rules.label} accounts only accept repayments`);
+  }
+}
+
+/** Checks a customer-initiated withdrawal or outgoing transfer against the account's status and type. */
+export async function assertCustomerDebitAllowed(tx: IStorage, account: Account): Promise<void> {
+  assertStatusAllowsDebit(account);
+  assertTypeAllowsDebits(account);
+
+  const rules = accountRules[account.accountType];
+
+  if (rules.monthlyDebitLimit !== undefined) {
+    const { count } = await tx.summarizeDebits(account.id, startOfMonth(), CUSTOMER_DEBIT_TYPES);
+    if (count >= rules.monthlyDebitLimit) {
+      throw new ApiError(
+        400,
+        `${rules.label} accounts allow ${rules.monthlyDebitLimit} withdrawals or transfers per month`,
+      );
+    }
+  }
+}
+
+/** Checks a deposit or incoming transfer against the account's status and type. */
+export function assertCustomerCreditAllowed(account: Account, amount: Money): void {
+  assertStatusAllowsCredit(account);
+
+  const { maxBalance } = accountRules[account.accountType];
+  if (maxBalance !== undefined && account.balance + amount > maxBalance) {
+    throw new ApiError(
+      400,
+      `Account ${account.accountNumber} can accept at most ${formatMoney(maxBalance - account.balance, account.currency)}`,
+    );
+  }
+}
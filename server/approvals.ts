@@ -0,0 +1,296 @@
+import type {
+  Account,
+  ApprovalDecision,
+  ApprovalRequest,
+  ApprovalThreshold,
+  FeeableTransactionType,
+  PublicUser,
+  TransferBatchLine,
+} from "@shared/schema";
+import { convertMoney, formatMoney, type Money } from "@shared/money";
+import type { IStorage } from "./storage";
+import { ApiError } from "./errors";
+import { assertCustomerCreditAllowed, assertCustomerDebitAllowed, isBalanceAllowed } from "./account-rules";
+import { quoteFee } from "./fees";
+import { assertWithinVelocityLimits } from "./velocity";
+import { insufficientFunds, transfer, withdraw } from "./banking";
+import { requireRate, toBaseCurrency } from "./fx";
+import { addHold, captureHold, releaseHold } from "./holds";
+
+/**
+ * Maker-checker for large withdrawals and transfers. One member of staff
+ * asks for it; the request is checked the way the transaction would be, and
+ * a hold keeps its amount aside on the source account until a different
+ * member of staff approves or rejects it. Approving captures the hold in the
+ * same unit of work, so if it can no longer post the request stays pending;
+ * rejecting releases it. Capturing a large existing hold asks for approval
+ * the same way, using that hold. A transfer batch over the threshold waits
+ * as a whole, with one hold for its total.
+ */
+
+// Also seeded into Postgres by migrations/manual/0011_approval_thresholds.sql
+export const DEFAULT_APPROVAL_THRESHOLDS: ApprovalThreshold[] = [
+  { transactionType: 'withdraw', amount: 500_000 },
+  { transactionType: 'transfer', amount: 500_000 },
+];
+
+export const SELF_APPROVAL = "self_approval";
+
+export type ApprovalSubmission = {
+  transactionType: FeeableTransactionType;
+  fromAccountNumber: number;
+  // Required for transfers
+  toAccountNumber?: number;
+  amount: Money;
+  // An active hold on the source account to capture, instead of placing one
+  holdId?: string;
+};
+
+/**
+ * Whether a withdrawal or transfer of `amount` out of the account has to
+ * wait for approval, comparing it in the base currency. An account that
+ * doesn't exist is left for the posting to report.
+ */
+export async function needsApproval(
+  store: IStorage,
+  transactionType: FeeableTransactionType,
+  fromAccountNumber: number,
+  amount: Money,
+): Promise<boolean> {
+  const threshold = (await store.getApprovalThresholds()).find((t) => t.transactionType === transactionType);
+  const fromAccount = await store.getAccountByNumber(fromAccountNumber);
+  if (threshold === undefined || !fromAccount) {
+    return false;
+  }
+  return await toBaseCurrency(store, amount, fromAccount.currency) > threshold.amount;
+}
+
+/**
+ * Saves a withdrawal or transfer for approval instead of posting it. Refuses
+ * anything that couldn't post right now, leaving aside what other holds on
+ * the account already keep.
+ */
+export async function requestApproval(
+  store: IStorage,
+  requestedBy: PublicUser,
+  { transactionType, fromAccountNumber, toAccountNumber, amount, holdId }: ApprovalSubmission,
+): Promise<ApprovalRequest> {
+  const isTransfer = transactionType === 'transfer';
+  if (isTransfer && toAccountNumber === undefined) {
+    throw new ApiError(400, "A transfer needs an account to transfer to");
+  }
+  if (isTransfer && fromAccountNumber === toAccountNumber) {
+    throw new ApiError(400, "Cannot transfer to the same account");
+  }
+
+  const accountNumbers = isTransfer ? [fromAccountNumber, toAccountNumber!] : [fromAccountNumber];
+  return store.runInTransaction(accountNumbers, async (tx) => {
+    const fromAccount = await tx.getAccountByNumber(fromAccountNumber);
+    const toAccount = isTransfer ? await tx.getAccountByNumber(toAccountNumber!) : undefined;
+
+    if (!fromAccount || (isTransfer && !toAccount)) {
+      throw new ApiError(404, isTransfer ? "One or both accounts not found" : `Account ${fromAccountNumber} not found`);
+    }
+    await assertCustomerDebitAllowed(tx, fromAccount);
+    if (toAccount) {
+      const rate = await requireRate(tx, fromAccount.currency, toAccount.currency);
+      assertCustomerCreditAllowed(toAccount, convertMoney(amount, rate));
+    }
+    await assertWithinVelocityLimits(tx, fromAccount, amount);
+
+    const hold = holdId === undefined ? undefined : await tx.getHold(holdId);
+    if (holdId !== undefined) {
+      if (!hold || hold.accountId !== fromAccount.id) {
+        throw new ApiError(404, `Hold ${holdId} not found`);
+      }
+      if (hold.status !== 'active') {
+        throw new ApiError(409, `This hold has already been ${hold.status}`);
+      }
+      if (await tx.getPendingApprovalForHold(holdId)) {
+        throw new ApiError(409, "This hold is already waiting for approval");
+      }
+      if (amount > hold.amount) {
+        throw new ApiError(400, `Can't capture more than the ${formatMoney(hold.amount, fromAccount.currency)} held`);
+      }
+    }
+
+    // The hold being captured is already kept aside, so it counts as available
+    const { fee } = await quoteFee(tx, fromAccount, transactionType, amount);
+    if (!isBalanceAllowed(fromAccount, fromAccount.availableBalance + (hold?.amount ?? 0) - amount - fee)) {
+      throw insufficientFunds(isTransfer ? "Insufficient funds in source account" : "Insufficient funds", amount, fee, fromAccount.currency);
+    }
+
+    const heldFor = hold ?? await addHold(tx, fromAccount, {
+      amount,
+      reason: `Waiting for approval of a ${isTransfer ? "transfer" : "withdrawal"}`,
+      // Kept until the request is decided
+      expiresAt: null,
+      createdById: requestedBy.id,
+    });
+    return tx.createApprovalRequest({
+      transactionType,
+      fromAccountId: fromAccount.id,
+      toAccountId: toAccount?.id ?? null,
+      amount,
+      requestedById: requestedBy.id,
+      holdId: heldFor.id,
+      capturesHold: hold !== undefined,
+    });
+  });
+}
+
+/**
+ * Saves a transfer batch for approval as one request for its total, checked
+ * the way requestApproval checks a single transfer. Approving it posts every
+ * line or none of them.
+ */
+export async function requestBatchApproval(
+  store: IStorage,
+  requestedBy: PublicUser,
+  fromAccountNumber: number,
+  lines: TransferBatchLine[],
+): Promise<ApprovalRequest> {
+  const accountNumbers = [fromAccountNumber, ...lines.map((line) => line.toAccountNumber)];
+  return store.runInTransaction(accountNumbers, async (tx) => {
+    const fromAccount = await tx.getAccountByNumber(fromAccountNumber);
+    if (!fromAccount) {
+      throw new ApiError(404, `Account ${fromAccountNumber} not found`);
+    }
+    await assertCustomerDebitAllowed(tx, fromAccount);
+
+    let total = 0;
+    let fees = 0;
+    for (const { toAccountNumber, amount } of lines) {
+      const toAccount = await tx.getAccountByNumber(toAccountNumber);
+      if (!toAccount) {
+        throw new ApiError(404, `Account ${toAccountNumber} not found`);
+      }
+      const rate = await requireRate(tx, fromAccount.currency, toAccount.currency);
+      assertCustomerCreditAllowed(toAccount, convertMoney(amount, rate));
+      total += amount;
+      fees += (await quoteFee(tx, fromAccount, 'transfer', amount)).fee;
+    }
+    await assertWithinVelocityLimits(tx, fromAccount, total);
+    if (!isBalanceAllowed(fromAccount, fromAccount.availableBalance - total - fees)) {
+      throw insufficientFunds("Insufficient funds in source account", total, fees, fromAccount.currency);
+    }
+
+    const hold = await addHold(tx, fromAccount, {
+      amount: total,
+      reason: "Waiting for approval of a transfer batch",
+      expiresAt: null,
+      createdById: requestedBy.id,
+    });
+    return tx.createApprovalRequest({
+      transactionType: 'transfer',
+      fromAccountId: fromAccount.id,
+      toAccountId: null,
+      amount: total,
+      batchLines: lines,
+      requestedById: requestedBy.id,
+      holdId: hold.id,
+    });
+  });
+}
+
+// The account numbers to lock while deciding, so a decision and the
+// posting it makes can't interleave with other money moving on them
+async function accountNumbersOf(store: IStorage, id: string): Promise<number[]> {
+  const request = await store.getApprovalRequest(id);
+  if (!request) {
+    throw new ApiError(404, `Approval request ${id} not found`);
+  }
+
+  const accountIds = [request.fromAccountId, request.toAccountId].filter((accountId): accountId is string => !!accountId);
+  const accounts = await Promise.all(accountIds.map((accountId) => store.getAccount(accountId)));
+  const batchAccountNumbers = request.batchLines?.map((line) => line.toAccountNumber) ?? [];
+  return [...accounts.flatMap((account) => (account ? [account.accountNumber] : [])), ...batchAccountNumbers];
+}
+
+// Posts an approved batch's lines, checking velocity limits for the total
+// again. Its hold comes off first, so the funds checks see the money again;
+// any line failing leaves the request pending.
+async function postBatch(tx: IStorage, decidedBy: PublicUser, request: ApprovalRequest, fromAccount: Account): Promise<void> {
+  await assertWithinVelocityLimits(tx, fromAccount, request.amount);
+  if (request.holdId) {
+    await releaseHold(tx, decidedBy, request.holdId);
+  }
+  const fromAccountNumber = fromAccount.accountNumber;
+  for (const { toAccountNumber, amount, reference } of request.batchLines!) {
+    await transfer(tx, fromAccountNumber, toAccountNumber, amount, { reference, batched: true });
+  }
+}
+
+async function decide(
+  tx: IStorage,
+  decidedBy: PublicUser,
+  id: string,
+  status: 'approved' | 'rejected',
+  { comment }: ApprovalDecision,
+): Promise<ApprovalRequest> {
+  // Re-read under the locks; someone else may have decided it already
+  const current = await tx.getApprovalRequest(id);
+  if (!current) {
+    throw new ApiError(404, `Approval request ${id} not found`);
+  }
+  if (current.requestedById === decidedBy.id) {
+    throw new ApiError(403, "Someone other than whoever asked for it has to decide on this request", SELF_APPROVAL);
+  }
+
+  const decided = await tx.decideApprovalRequest(id, { status, decidedById: decidedBy.id, comment });
+  if (!decided) {
+    throw new ApiError(409, `This request has already been ${current.status}`);
+  }
+  return decided;
+}
+
+/** Approves a pending request and posts its transaction, or a batch's transfers, all or nothing. */
+export async function approveRequest(
+  store: IStorage,
+  decidedBy: PublicUser,
+  id: string,
+  decision: ApprovalDecision,
+): Promise<ApprovalRequest> {
+  const accountNumbers = await accountNumbersOf(store, id);
+
+  return store.runInTransaction(accountNumbers, async (tx) => {
+    // Decided first, so its hold is no longer waiting and can be captured
+    const request = await decide(tx, decidedBy, id, 'approved', decision);
+    const fromAccount = await tx.getAccount(request.fromAccountId);
+    const toAccount = request.toAccountId ? await tx.getAccount(request.toAccountId) : undefined;
+    if (!fromAccount || (request.toAccountId && !toAccount)) {
+      throw new ApiError(404, "One or both accounts not found");
+    }
+
+    // Each line posts as its own transfer, so there's no one transaction
+    if (request.batchLines) {
+      await postBatch(tx, decidedBy, request, fromAccount);
+      return request;
+    }
+
+    // Requests made before holds existed have nothing to capture
+    const { transaction } = request.holdId
+      ? await captureHold(tx, decidedBy, request.holdId, { amount: request.amount, toAccountNumber: toAccount?.accountNumber })
+      : toAccount
+        ? await transfer(tx, fromAccount.accountNumber, toAccount.accountNumber, request.amount)
+        : await withdraw(tx, fromAccount.accountNumber, request.amount);
+    return tx.setApprovalTransaction(id, transaction.id);
+  });
+}
+
+/** Rejects a pending request, releasing the hold placed for it. A hold it was to capture stays active. */
+export async function rejectRequest(
+  store: IStorage,
+  decidedBy: PublicUser,
+  id: string,
+  decision: ApprovalDecision,
+): Promise<ApprovalRequest> {
+  const accountNumbers = await accountNumbersOf(store, id);
+  return store.runInTransaction(accountNumbers, async (tx) => {
+    const request = await decide(tx, decidedBy, id, 'rejected', decision);
+    if (request.holdId && !request.capturesHold) {
+      await releaseHold(tx, decidedBy, request.holdId);
+    }
+    return request;
+  });
+}
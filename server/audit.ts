@@ -0,0 +1,337 @@
+import type { Request, Response, NextFunction } from "express";
+import { auditedMethods, type AccountType, type AuditOutcome, type AuditState, type AuditedMethod, type InsertAuditEntry } from "@shared/schema";
+import { storage } from "./storage";
+import { toPublicUser } from "./auth";
+import { log } from "./vite";
+
+const REDACTED = "[redacted]";
+const WRITE_ATTEMPTS = 3;
+
+// Request body fields that never reach the audit log: passwords, two-factor
+// codes and anything else that would let a reader act as someone else
+const SECRET_FIELDS = new Set(["password", "code", "secret", "token"]);
+
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, SECRET_FIELDS.has(key.toLowerCase()) ? REDACTED : redact(field)]),
+    );
+  }
+  return value;
+}
+
+function outcomeOf(statusCode: number): AuditOutcome {
+  if (statusCode >= 500) return "failed";
+  if (statusCode === 401 || statusCode === 403) return "denied";
+  if (statusCode >= 400) return "rejected";
+  return "succeeded";
+}
+
+// A field of a JSON object, or undefined when `value` isn't one
+function field(value: unknown, key: string): unknown {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+// The `id` of a JSON object, when it has a string one
+function idOf(value: unknown): string | undefined {
+  const id = field(value, "id");
+  return typeof id === "string" ? id : undefined;
+}
+
+// Something a request can change, and how to look at it
+type Subject = { key: string; load: () => Promise<unknown> };
+
+function accountSubjects(accountNumber: unknown): Subject[] {
+  if (typeof accountNumber !== "number" || !Number.isSafeInteger(accountNumber)) {
+    return [];
+  }
+  return [{ key: `account:${accountNumber}`, load: () => storage.getAccountByNumber(accountNumber) }];
+}
+
+// For records that name their accounts by id rather than number
+async function accountSubjectsByIds(ids: (string | null | undefined)[]): Promise<Subject[]> {
+  const accounts = await Promise.all(ids.filter((id): id is string => !!id).map((id) => storage.getAccount(id)));
+  return accounts.flatMap((account) => accountSubjects(account?.accountNumber));
+}
+
+function customerSubject(id: string): Subject {
+  return { key: `customer:${id}`, load: () => storage.getCustomer(id) };
+}
+
+function userSubject(id: string): Subject {
+  return {
+    key: `user:${id}`,
+    load: async () => {
+      const user = await storage.getUser(id);
+      return user && toPublicUser(user);
+    },
+  };
+}
+
+function approvalSubject(id: string): Subject {
+  return { key: `approval:${id}`, load: () => storage.getApprovalRequest(id) };
+}
+
+function holdSubject(id: string): Subject {
+  return { key: `hold:${id}`, load: () => storage.getHold(id) };
+}
+
+function scheduledTransferSubject(id: string): Subject {
+  return { key: `scheduled-transfer:${id}`, load: () => storage.getScheduledTransfer(id) };
+}
+
+// Sub-resources of an account that have their own routes
+function accountPartSubject(part: "holders" | "velocity-limits", accountNumber: number): Subject {
+  return {
+    key: `${part}:${accountNumber}`,
+    load: async () => {
+      const account = await storage.getAccountByNumber(accountNumber);
+      if (!account) return undefined;
+      return part === "holders"
+        ? storage.getAccountHolders(account.id)
+        : (await storage.getVelocityLimits()).filter((limit) => limit.accountId === account.id);
+    },
+  };
+}
+
+/**
+ * What the request is about to change, worked out from its path and body.
+ * Requests that touch many accounts at once, like interest runs, have no
+ * subjects; their body and outcome are still recorded.
+ */
+async function requestSubjects(req: Request): Promise<Subject[]> {
+  const { path } = req;
+  const body: unknown = req.body;
+  let match: RegExpMatchArray | null;
+
+  if (path === "/api/accounts/transfer") {
+    return [...accountSubjects(field(body, "fromAccountNumber")), ...accountSubjects(field(body, "toAccountNumber"))];
+  }
+  if (path === "/api/transfer-batches") {
+    const lines = field(body, "lines");
+    return [
+      ...accountSubjects(field(body, "fromAccountNumber")),
+      ...(Array.isArray(lines) ? lines.flatMap((line) => accountSubjects(field(line, "toAccountNumber"))) : []),
+    ];
+  }
+  if ((match = path.match(/^\/api\/holds\/([^/]+)\/(capture|release)$/))) {
+    const hold = await storage.getHold(match[1]);
+    return [
+      holdSubject(match[1]),
+      ...(await accountSubjectsByIds([hold?.accountId])),
+      // A capture can transfer into another account
+      ...accountSubjects(field(body, "toAccountNumber")),
+    ];
+  }
+  if ((match = path.match(/^\/api\/scheduled-transfers\/([^/]+)\/cancel$/))) {
+    const schedule = await storage.getScheduledTransfer(match[1]);
+    return [
+      scheduledTransferSubject(match[1]),
+      ...(await accountSubjectsByIds([schedule?.fromAccountId, schedule?.toAccountId])),
+    ];
+  }
+  if ((match = path.match(/^\/api\/accounts\/(\d+)(\/holders|\/velocity-limits)?/))) {
+    const accountNumber = Number(match[1]);
+    const part = match[2]?.slice(1) as "holders" | "velocity-limits" | undefined;
+    return [
+      ...accountSubjects(accountNumber),
+      // Closing an account can sweep its balance into another
+      ...accountSubjects(field(body, "sweepToAccountNumber")),
+      ...(part ? [accountPartSubject(part, accountNumber)] : []),
+    ];
+  }
+  if ((match = path.match(/^\/api\/transactions\/([^/]+)\/reverse$/))) {
+    const transaction = await storage.getTransaction(match[1]);
+    return [
+      { key: `transaction:${match[1]}`, load: () => storage.getTransaction(match![1]) },
+      ...(await accountSubjectsByIds([transaction?.fromAccountId, transaction?.toAccountId])),
+    ];
+  }
+  if ((match = path.match(/^\/api\/approvals\/([^/]+)\/(approve|reject)$/))) {
+    const request = await storage.getApprovalRequest(match[1]);
+    return [
+      approvalSubject(match[1]),
+      ...(request?.holdId ? [holdSubject(request.holdId)] : []),
+      ...(await accountSubjectsByIds([request?.fromAccountId, request?.toAccountId])),
+    ];
+  }
+  if ((match = path.match(/^\/api\/customers\/([^/]+)$/))) {
+    return [customerSubject(match[1])];
+  }
+  if ((match = path.match(/^\/api\/users\/([^/]+)/))) {
+    return [userSubject(match[1])];
+  }
+  if (path === "/api/fees/rules") {
+    return [{ key: "fee-rules", load: () => storage.getFeeRules() }];
+  }
+  if (path === "/api/velocity-limits") {
+    return [{
+      key: "velocity-limits",
+      load: async () => (await storage.getVelocityLimits()).filter((limit) => limit.accountId === null),
+    }];
+  }
+  if (path === "/api/approvals/thresholds") {
+    return [{ key: "approval-thresholds", load: () => storage.getApprovalThresholds() }];
+  }
+  if (path === "/api/fx-rates") {
+    return [{ key: "fx-rates", load: () => storage.getFxRates() }];
+  }
+  if ((match = path.match(/^\/api\/interest\/rates\/([^/]+)$/))) {
+    const accountType = match[1] as AccountType;
+    return [{
+      key: `interest-rates:${accountType}`,
+      load: async () => (await storage.getInterestRateTiers()).filter((tier) => tier.accountType === accountType),
+    }];
+  }
+  return [];
+}
+
+// What a 201 Created response made, which had no key before the request. A
+// 202 Accepted withdrawal, transfer or capture made an approval request
+// instead, usually with a hold.
+function createdSubjects(route: string, body: unknown): Subject[] {
+  const approval = field(body, "approval");
+  const approvalId = idOf(approval);
+  if (approvalId !== undefined) {
+    const holdId = field(approval, "holdId");
+    return [approvalSubject(approvalId), ...(typeof holdId === "string" ? [holdSubject(holdId)] : [])];
+  }
+
+  const id = idOf(body);
+  if (route === "/api/accounts/:accountNumber/holds" && id !== undefined) return [holdSubject(id)];
+  if (route === "/api/scheduled-transfers" && id !== undefined) return [scheduledTransferSubject(id)];
+  if (route === "/api/accounts") return accountSubjects(field(body, "accountNumber"));
+  if (route === "/api/customers" && id !== undefined) return [customerSubject(id)];
+  if (route === "/api/users" && id !== undefined) return [userSubject(id)];
+  return [];
+}
+
+async function snapshot(subjects: Subject[]): Promise<AuditState> {
+  const entries = await Promise.all(subjects.map(async ({ key, load }) => [key, (await load()) ?? null] as const));
+  return Object.fromEntries(entries);
+}
+
+// Tries a few times before giving up, and then logs the whole entry, so
+// it can still be appended by hand
+async function appendEntry(entry: InsertAuditEntry): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await storage.appendAuditEntry(entry);
+      return;
+    } catch (error) {
+      if (attempt === WRITE_ATTEMPTS) {
+        log(`Failed to write the audit log for ${entry.method} ${entry.path}: ${error}. Unwritten entry: ${JSON.stringify(entry)}`, "audit");
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100 * attempt));
+    }
+  }
+}
+
+function uniqueSubjects(subjects: Subject[]): Subject[] {
+  return subjects.filter((subject, index) => subjects.findIndex(({ key }) => key === subject.key) === index);
+}
+
+/**
+ * Middleware that writes an audit log entry for every POST, PUT, PATCH and
+ * DELETE under /api once it has been answered: who asked, from where, what
+ * they sent (redacted), how it went, and the state of what it touched
+ * before and after. The entry is written even if the client has gone by
+ * then, since the request may still have moved money.
+ *
+ * It runs before the session is loaded, so the actor is whoever is signed in
+ * once the request is done; routes that sign someone out set
+ * res.locals.auditActor first. For the same reason a user's changes to
+ * their own settings (/api/user/...) only have an after state.
+ */
+export async function auditRequests(req: Request, res: Response, next: NextFunction) {
+  if (!req.path.startsWith("/api/") || !auditedMethods.includes(req.method as AuditedMethod)) {
+    next();
+    return;
+  }
+
+  const path = req.path;
+  const requestBody = redact(req.body ?? null);
+  let subjects: Subject[] = [];
+  let before: AuditState = {};
+  try {
+    // Taken before the route runs, so nothing has changed yet. Concurrent
+    // requests for the same account can still land in between.
+    subjects = uniqueSubjects(await requestSubjects(req));
+    before = await snapshot(subjects);
+  } catch (error) {
+    log(`Failed to read the before state of ${req.method} ${path}: ${error}`, "audit");
+  }
+
+  let responseBody: unknown;
+  const originalResJson = res.json;
+  res.json = function (bodyJson, ...args) {
+    responseBody = bodyJson;
+    return originalResJson.apply(res, [bodyJson, ...args]);
+  };
+
+  let written = false;
+  const write = async () => {
+    if (written) {
+      return;
+    }
+    written = true;
+
+    const route = req.route?.path ?? path;
+    const actor = res.locals.auditActor ?? req.user;
+    const afterSubjects = uniqueSubjects([
+      ...subjects,
+      ...(res.statusCode === 201 || res.statusCode === 202 ? createdSubjects(route, responseBody) : []),
+      ...(actor && path.startsWith("/api/user/") ? [userSubject(actor.id)] : []),
+    ]);
+
+    let after: AuditState = {};
+    try {
+      after = await snapshot(afterSubjects);
+    } catch (error) {
+      log(`Failed to read the after state of ${req.method} ${path}: ${error}`, "audit");
+    }
+
+    await appendEntry({
+      actorId: actor?.id ?? null,
+      actorUsername: actor?.username ?? null,
+      ip: req.ip ?? null,
+      method: req.method as AuditedMethod,
+      route,
+      path,
+      requestBody,
+      statusCode: res.statusCode,
+      outcome: outcomeOf(res.statusCode),
+      subjects: afterSubjects.map(({ key }) => key),
+      before,
+      after,
+    });
+  };
+
+  // 'finish' never comes for a client that went away first. If the route
+  // had answered by then the entry is written on 'close'; if it is still
+  // running, once it answers.
+  let answered = false;
+  let closed = false;
+  const originalResEnd = res.end as (...args: unknown[]) => Response;
+  res.end = function (...args: unknown[]) {
+    answered = true;
+    if (closed) {
+      void write();
+    }
+    return originalResEnd.apply(res, args);
+  } as Response["end"];
+
+  res.on("finish", () => void write());
+  res.on("close", () => {
+    closed = true;
+    if (answered) {
+      void write();
+    }
+  });
+
+  next();
+}
@@ -0,0 +1,335 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { loginSchema, twoFactorCodeSchema, INVALID_TWO_FACTOR_CODE, type CreateUserRequest, type PublicUser, type StaffRole, type User as StaffUser } from "@shared/schema";
+import { hasPermission, exceedsTellerLimit, FORBIDDEN, OVER_TELLER_LIMIT, TELLER_TRANSACTION_LIMIT, type Permission } from "@shared/permissions";
+import { BASE_CURRENCY, formatMoney, isMoney, type Currency, type Money } from "@shared/money";
+import { storage, type IStorage } from "./storage";
+import { ApiError } from "./errors";
+import { fromBaseCurrency, toBaseCurrency } from "./fx";
+import { verifySecondFactor } from "./two-factor";
+import { log } from "./vite";
+
+declare global {
+  namespace Express {
+    // What passport puts on req.user
+    interface User extends PublicUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Set when the password was right but a two-factor code is still needed
+    pendingLogin?: { userId: string; expiresAt: number; attempts: number };
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+const KEY_LENGTH = 64;
+
+// Signed in staff are signed out after a working day
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+// How long after the password the two-factor code must come, and how many
+// wrong codes send the user back to the password
+const PENDING_LOGIN_TTL_MS = 5 * 60 * 1000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  const expected = Buffer.from(hash, "hex");
+  const supplied = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return expected.length === supplied.length && timingSafeEqual(expected, supplied);
+}
+
+export function toPublicUser({ passwordHash, totpSecret, totpLastCounter, recoveryCodeHashes, ...user }: StaffUser): PublicUser {
+  return { ...user, recoveryCodesLeft: recoveryCodeHashes.length };
+}
+
+export async function createUser(store: IStorage, { password, ...user }: CreateUserRequest): Promise<PublicUser> {
+  if (await store.getUserByUsername(user.username)) {
+    throw new ApiError(409, `User ${user.username} already exists`);
+  }
+  return toPublicUser(await store.createUser({ ...user, passwordHash: await hashPassword(password) }));
+}
+
+export async function changeUserRole(store: IStorage, id: string, role: StaffRole): Promise<PublicUser> {
+  const user = await store.getUser(id);
+  if (!user) {
+    throw new ApiError(404, `User ${id} not found`);
+  }
+
+  const admins = (await store.getAllUsers()).filter((user) => user.role === 'admin');
+  if (user.role === 'admin' && role !== 'admin' && admins.length === 1) {
+    throw new ApiError(409, "The last admin can't be given another role");
+  }
+  return toPublicUser(await store.updateUserRole(id, role));
+}
+
+/**
+ * Creates the first staff user, an admin, when there are none, so there is
+ * someone to sign in as. It is called ADMIN_USERNAME (default "admin") with
+ * password ADMIN_PASSWORD; without one a random password is generated and
+ * logged.
+ */
+export async function ensureFirstUser(store: IStorage): Promise<void> {
+  if ((await store.getAllUsers()).length > 0) {
+    return;
+  }
+
+  const username = (process.env.ADMIN_USERNAME ?? "admin").trim().toLowerCase();
+  const password = process.env.ADMIN_PASSWORD ?? randomBytes(12).toString("base64url");
+  await createUser(store, { username, displayName: "Administrator", password, role: 'admin' });
+  log(
+    process.env.ADMIN_PASSWORD
+      ? `created user ${username}`
+      : `created user ${username} with password ${password}; set ADMIN_PASSWORD to choose it`,
+    "auth",
+  );
+}
+
+// Sessions live in Postgres when a database is provisioned, like everything
+// else; otherwise in memory, and are lost on restart.
+function createSessionStore(): session.Store {
+  if (process.env.DATABASE_URL) {
+    const PostgresStore = connectPg(session);
+    return new PostgresStore({ conString: process.env.DATABASE_URL, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: SESSION_TTL_MS });
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  // Development only: every restart signs everyone out
+  return randomBytes(32).toString("hex");
+}
+
+function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    res.status(401).json({ message: "Sign in to continue" });
+    return;
+  }
+  next();
+}
+
+// Route middleware: only users whose role has the permission get through
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !hasPermission(req.user.role, permission)) {
+      res.status(403).json({ message: "Your role doesn't allow this", code: FORBIDDEN });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Rejects `amount` in `currency` if the user's role can't move that much
+ * alone. The teller limit is in the base currency, so the amount is
+ * converted at the current rate; `what` names the amount in the message.
+ */
+export async function assertWithinTellerLimit(
+  store: IStorage,
+  user: PublicUser,
+  amount: Money,
+  currency: Currency,
+  what = "Amounts",
+): Promise<void> {
+  if (hasPermission(user.role, "transactions:large")) {
+    return;
+  }
+  if (exceedsTellerLimit(user.role, await toBaseCurrency(store, amount, currency))) {
+    const converted = currency === BASE_CURRENCY
+      ? ""
+      : ` (${formatMoney(await fromBaseCurrency(store, TELLER_TRANSACTION_LIMIT, currency), currency)} at today's rate)`;
+    throw new ApiError(403, `${what} over ${formatMoney(TELLER_TRANSACTION_LIMIT)}${converted} need a manager`, OVER_TELLER_LIMIT);
+  }
+}
+
+// Route middleware for deposits, withdrawals and transfers: tellers may only
+// move up to TELLER_TRANSACTION_LIMIT at a time, out of or into the account
+// in the :accountNumber param or the body's fromAccountNumber. An invalid
+// amount or unknown account is let through for the route to reject.
+export function requireTransactionPermission(req: Request, res: Response, next: NextFunction) {
+  requirePermission("transactions:create")(req, res, async () => {
+    try {
+      const { amount, fromAccountNumber } = req.body ?? {};
+      const accountNumber = req.params.accountNumber === undefined ? fromAccountNumber : parseInt(req.params.accountNumber);
+      const account = Number.isInteger(accountNumber) ? await storage.getAccountByNumber(accountNumber) : undefined;
+      if (isMoney(amount) && account) {
+        await assertWithinTellerLimit(storage, req.user!, amount, account.currency);
+      }
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to check the teller limit" });
+      }
+      return;
+    }
+    next();
+  });
+}
+
+/**
+ * Staff sign in with a username and password and get a session cookie.
+ * Users with two-factor on get `{ twoFactorRequired: true }` instead, and
+ * finish with a code at /api/login/two-factor. Registers those, /api/logout
+ * and /api/user, then requires a signed in user for every other /api route,
+ * so call it before registering those.
+ */
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      secret: sessionSecret(),
+      store: createSessionStore(),
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: app.get("env") === "production",
+        maxAge: SESSION_TTL_MS,
+      },
+    }),
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await verifyPassword(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        return done(null, toPublicUser(user));
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted user's session just ends
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    try {
+      req.body = loginSchema.parse(req.body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid login request", errors: error.errors });
+        return;
+      }
+      throw error;
+    }
+
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) {
+        return next(error);
+      }
+      if (!user) {
+        res.status(401).json({ message: "Invalid username or password" });
+        return;
+      }
+      if (user.totpEnabledAt) {
+        req.session.pendingLogin = { userId: user.id, expiresAt: Date.now() + PENDING_LOGIN_TTL_MS, attempts: 0 };
+        res.status(202).json({ twoFactorRequired: true });
+        return;
+      }
+      req.login(user, (error) => {
+        if (error) {
+          return next(error);
+        }
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/login/two-factor", async (req, res, next) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+
+      const pending = req.session.pendingLogin;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingLogin;
+        res.status(401).json({ message: "Sign in with your password again" });
+        return;
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || !(await verifySecondFactor(storage, user, code))) {
+        pending.attempts++;
+        if (!user || pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingLogin;
+          res.status(401).json({ message: "Too many wrong codes; sign in with your password again" });
+          return;
+        }
+        res.status(401).json({ message: "That code isn't right", code: INVALID_TWO_FACTOR_CODE });
+        return;
+      }
+
+      delete req.session.pendingLogin;
+      const publicUser = toPublicUser(await storage.getUser(user.id) ?? user);
+      req.login(publicUser, (error) => {
+        if (error) {
+          return next(error);
+        }
+        res.json(publicUser);
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid two-factor code", errors: error.errors });
+        return;
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    // req.logout forgets the user before the audit log asks who it was
+    res.locals.auditActor = req.user;
+    req.logout((error) => {
+      if (error) {
+        return next(error);
+      }
+      req.session.destroy(() => res.sendStatus(204));
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ message: "Not signed in" });
+      return;
+    }
+    res.json(req.user);
+  });
+
+  app.use("/api", requireAuth);
+}
@@ -0,0 +1,395 @@
+import type {
+  Account,
+  AccountStatusChange,
+  CloseAccountRequest,
+  OpenAccountRequest,
+  OverdraftLimitChange,
+  Transaction,
+} from "@shared/schema";
+import { convertMoney, formatMoney, invertRate, type Currency, type Money } from "@shared/money";
+import type { IStorage } from "./storage";
+import { ApiError } from "./errors";
+import { balanceEffect, credit, debit, postJournalEntry, type PostingLine } from "./ledger";
+import {
+  assertCustomerCreditAllowed,
+  assertCustomerDebitAllowed,
+  assertOverdraftAllowed,
+  assertStatusAllowsCredit,
+  assertStatusAllowsDebit,
+  isBalanceAllowed,
+} from "./account-rules";
+import { chargeFee, NO_FEE, quoteFee } from "./fees";
+import { assertWithinVelocityLimits } from "./velocity";
+import { findOrCreateOwner } from "./customers";
+import { requireRate } from "./fx";
+
+// Money-moving operations. Each one runs as a single storage transaction
+// that locks the accounts it touches, re-reads them under the lock, checks
+// funds, then records the transaction and posts its journal entry (which
+// updates balances) all-or-nothing.
+//
+// They take the storage to use so callers that are already inside a
+// transaction can compose several operations into one unit of work.
+
+export type DepositResult = { account: Account; transaction: Transaction };
+export type WithdrawResult = { account: Account; transaction: Transaction; fee?: Transaction };
+export type TransferResult = { fromAccount: Account; toAccount: Account; transaction: Transaction; fee?: Transaction };
+export type TransferOptions = {
+  // For transfers the bank makes itself, such as sweeping a closing account:
+  // no fee, and they don't count against velocity limits
+  bankInitiated?: boolean;
+  // Added to the journal entry's description, e.g. a payslip number
+  reference?: string;
+  // For the lines of a transfer batch, which was checked against velocity
+  // limits as a whole before any of them posted
+  batched?: boolean;
+};
+export type ReversalResult = { original: Transaction; reversal: Transaction };
+export type CloseResult = { account: Account; sweep?: Transaction };
+
+export const INSUFFICIENT_FUNDS = "insufficient_funds";
+
+export function insufficientFunds(message: string, amount: Money, fee: Money, currency: Currency): ApiError {
+  return new ApiError(
+    400,
+    fee > 0 ? `${message} to cover ${formatMoney(amount, currency)} plus a ${formatMoney(fee, currency)} fee` : message,
+    INSUFFICIENT_FUNDS,
+  );
+}
+
+async function requireAccount(tx: IStorage, accountNumber: number): Promise<Account> {
+  const account = await tx.getAccountByNumber(accountNumber);
+  if (!account) {
+    throw new ApiError(404, `Account ${accountNumber} not found`);
+  }
+  return account;
+}
+
+export async function openAccount(
+  store: IStorage,
+  { customerId, customer, ...insertAccount }: OpenAccountRequest,
+): Promise<Account> {
+  const openingBalance = insertAccount.balance ?? 0;
+  // A loan opens with the amount borrowed as a negative balance
+  if (insertAccount.accountType === 'loan') {
+    if (openingBalance > 0) {
+      throw new ApiError(400, "A loan's initial balance is the amount owed and cannot be positive");
+    }
+  } else if (openingBalance < 0) {
+    throw new ApiError(400, "Initial balance cannot be negative");
+  }
+  assertOverdraftAllowed(insertAccount.accountType ?? 'checking', insertAccount.overdraftLimit ?? 0);
+
+  const accountNumber = await store.nextAccountNumber();
+  return store.runInTransaction([accountNumber], async (tx) => {
+    const owner = await findOrCreateOwner(tx, { customerId, customer, name: insertAccount.name });
+    const account = await tx.createAccount({ ...insertAccount, accountNumber, balance: 0 });
+    await tx.addAccountHolder({ accountId: account.id, customerId: owner.id, role: 'primary' });
+
+    // The opening balance is an ordinary deposit, or for a loan the payout
+    // of the principal, so it shows in the ledger
+    if (openingBalance > 0) {
+      return (await deposit(tx, account.accountNumber, openingBalance)).account;
+    }
+    if (openingBalance < 0) {
+      const principal = -openingBalance;
+      const transaction = await tx.createTransaction({
+        type: 'disbursement',
+        fromAccountId: account.id,
+        toAccountId: null,
+        amount: principal
+      });
+      await postJournalEntry(tx, {
+        transactionId: transaction.id,
+        description: `Loan disbursement from account ${account.accountNumber}`,
+        lines: [debit(account, principal), credit("cash_vault", principal)],
+      });
+      return requireAccount(tx, account.accountNumber);
+    }
+    return account;
+  });
+}
+
+export async function deposit(store: IStorage, accountNumber: number, amount: Money): Promise<DepositResult> {
+  return store.runInTransaction([accountNumber], async (tx) => {
+    const account = await requireAccount(tx, accountNumber);
+    assertCustomerCreditAllowed(account, amount);
+
+    const transaction = await tx.createTransaction({
+      type: 'deposit',
+      toAccountId: account.id,
+      fromAccountId: null,
+      amount
+    });
+    await postJournalEntry(tx, {
+      transactionId: transaction.id,
+      description: `Deposit to account ${accountNumber}`,
+      lines: [debit("cash_vault", amount), credit(account, amount)],
+    });
+
+    return { account: await requireAccount(tx, accountNumber), transaction };
+  });
+}
+
+export async function withdraw(store: IStorage, accountNumber: number, amount: Money): Promise<WithdrawResult> {
+  return store.runInTransaction([accountNumber], async (tx) => {
+    const account = await requireAccount(tx, accountNumber);
+    await assertCustomerDebitAllowed(tx, account);
+    await assertWithinVelocityLimits(tx, account, amount);
+
+    const { fee } = await quoteFee(tx, account, 'withdraw', amount);
+    if (!isBalanceAllowed(account, account.availableBalance - amount - fee)) {
+      throw insufficientFunds("Insufficient funds", amount, fee, account.currency);
+    }
+
+    const transaction = await tx.createTransaction({
+      type: 'withdraw',
+      fromAccountId: account.id,
+      toAccountId: null,
+      amount
+    });
+    await postJournalEntry(tx, {
+      transactionId: transaction.id,
+      description: `Withdrawal from account ${accountNumber}`,
+      lines: [debit(account, amount), credit("cash_vault", amount)],
+    });
+    const feeTransaction = fee > 0 ? await chargeFee(tx, account, fee, `${transaction.type} ${transaction.id}`) : undefined;
+
+    return { account: await requireAccount(tx, accountNumber), transaction, fee: feeTransaction };
+  });
+}
+
+export async function transfer(
+  store: IStorage,
+  fromAccountNumber: number,
+  toAccountNumber: number,
+  amount: Money,
+  { bankInitiated = false, reference, batched = false }: TransferOptions = {},
+): Promise<TransferResult> {
+  if (fromAccountNumber === toAccountNumber) {
+    throw new ApiError(400, "Cannot transfer to the same account");
+  }
+
+  return store.runInTransaction([fromAccountNumber, toAccountNumber], async (tx) => {
+    const fromAccount = await tx.getAccountByNumber(fromAccountNumber);
+    const toAccount = await tx.getAccountByNumber(toAccountNumber);
+
+    if (!fromAccount || !toAccount) {
+      throw new ApiError(404, "One or both accounts not found");
+    }
+    await assertCustomerDebitAllowed(tx, fromAccount);
+    // `amount` is in the source account's currency; the destination gets
+    // it converted at the current rate
+    const fxRate = fromAccount.currency === toAccount.currency
+      ? null
+      : await requireRate(tx, fromAccount.currency, toAccount.currency);
+    const toAmount = fxRate === null ? amount : convertMoney(amount, fxRate);
+    if (toAmount <= 0) {
+      throw new ApiError(400, `${formatMoney(amount, fromAccount.currency)} is too little to convert to ${toAccount.currency}`);
+    }
+    assertCustomerCreditAllowed(toAccount, toAmount);
+    if (!bankInitiated && !batched) {
+      await assertWithinVelocityLimits(tx, fromAccount, amount);
+    }
+
+    const { fee } = bankInitiated ? NO_FEE : await quoteFee(tx, fromAccount, 'transfer', amount);
+    if (!isBalanceAllowed(fromAccount, fromAccount.availableBalance - amount - fee)) {
+      throw insufficientFunds("Insufficient funds in source account", amount, fee, fromAccount.currency);
+    }
+
+    const transaction = await tx.createTransaction({
+      type: 'transfer',
+      fromAccountId: fromAccount.id,
+      toAccountId: toAccount.id,
+      amount,
+      toAmount: fxRate === null ? null : toAmount,
+      fxRateMicros: fxRate
+    });
+    await postJournalEntry(tx, {
+      transactionId: transaction.id,
+      description: `Transfer from account ${fromAccountNumber} to account ${toAccountNumber}${reference ? `: ${reference}` : ""}`,
+      lines: fxRate === null
+        ? [debit(fromAccount, amount), credit(toAccount, amount)]
+        : [
+            debit(fromAccount, amount),
+            credit("fx_position", amount),
+            debit("fx_position", toAmount),
+            credit(toAccount, toAmount),
+          ],
+    });
+    const feeTransaction = fee > 0 ? await chargeFee(tx, fromAccount, fee, `${transaction.type} ${transaction.id}`) : undefined;
+
+    return {
+      fromAccount: await requireAccount(tx, fromAccountNumber),
+      toAccount: await requireAccount(tx, toAccountNumber),
+      transaction,
+      fee: feeTransaction,
+    };
+  });
+}
+
+/**
+ * Undoes a transaction by posting the mirror image of its journal entries as
+ * a new 'reversal' transaction, and marks the original as reversed. Refuses
+ * if the reversal would leave any customer account outside the balance its
+ * account type allows.
+ */
+export async function reverseTransaction(store: IStorage, transactionId: string): Promise<ReversalResult> {
+  const original = await store.getTransaction(transactionId);
+  if (!original) {
+    throw new ApiError(404, `Transaction ${transactionId} not found`);
+  }
+
+  const postings = (await store.getJournalEntriesForTransaction(transactionId)).flatMap((entry) => entry.postings);
+  const accountIds = Array.from(new Set(postings.flatMap((posting) => (posting.accountId ? [posting.accountId] : []))));
+  const accountNumbers = (await Promise.all(accountIds.map((id) => store.getAccount(id))))
+    .flatMap((account) => (account ? [account.accountNumber] : []));
+
+  return store.runInTransaction(accountNumbers, async (tx) => {
+    // Re-read under the locks; another request may have reversed it already
+    const current = await tx.getTransaction(transactionId);
+    if (current?.type === 'reversal') {
+      throw new ApiError(400, "A reversal cannot itself be reversed");
+    }
+    if (current?.status !== 'posted') {
+      throw new ApiError(409, "Transaction has already been reversed");
+    }
+
+    const lines: PostingLine[] = [];
+    const changes = new Map<string, Money>();
+    for (const posting of postings) {
+      const direction = posting.direction === "debit" ? "credit" : "debit";
+      if (posting.accountId) {
+        const account = await tx.getAccount(posting.accountId);
+        if (!account) {
+          throw new ApiError(404, `Account ${posting.accountId} not found`);
+        }
+        lines.push({ account, direction, amount: posting.amount });
+        changes.set(account.id, (changes.get(account.id) ?? 0) + balanceEffect({ direction, amount: posting.amount }));
+      } else {
+        lines.push({ account: posting.systemAccount!, direction, amount: posting.amount });
+      }
+    }
+
+    for (const [accountId, change] of Array.from(changes)) {
+      const account = (await tx.getAccount(accountId))!;
+      if (change < 0) {
+        assertStatusAllowsDebit(account);
+      } else {
+        assertStatusAllowsCredit(account);
+      }
+      // Money on hold can't be taken back either
+      if (!isBalanceAllowed(account, (change < 0 ? account.availableBalance : account.balance) + change)) {
+        throw new ApiError(
+          400,
+          change < 0
+            ? `Insufficient funds in account ${account.accountNumber} to reverse this transaction`
+            : `Reversing this transaction would overpay account ${account.accountNumber}`,
+        );
+      }
+    }
+
+    const reversal = await tx.createTransaction({
+      type: 'reversal',
+      fromAccountId: current.toAccountId,
+      toAccountId: current.fromAccountId,
+      // A transfer between currencies goes back the other way, so the
+      // amounts and the rate swap round
+      amount: current.toAmount ?? current.amount,
+      toAmount: current.toAmount === null ? null : current.amount,
+      fxRateMicros: current.fxRateMicros === null ? null : invertRate(current.fxRateMicros),
+      reversalOfId: current.id
+    });
+    await postJournalEntry(tx, {
+      transactionId: reversal.id,
+      description: `Reversal of transaction ${current.id}`,
+      lines,
+    });
+
+    const reversed = await tx.markTransactionReversed(current.id, reversal.id);
+    if (!reversed) {
+      throw new ApiError(409, "Transaction has already been reversed");
+    }
+
+    return { original: reversed, reversal };
+  });
+}
+
+/**
+ * Freezes, unfreezes, marks dormant or reopens an account. Closing goes
+ * through closeAccount instead, and a closed account can only be reopened.
+ */
+export async function changeAccountStatus(
+  store: IStorage,
+  accountNumber: number,
+  { status, reason }: AccountStatusChange,
+): Promise<Account> {
+  return store.runInTransaction([accountNumber], async (tx) => {
+    const account = await requireAccount(tx, accountNumber);
+
+    if (account.status === status) {
+      throw new ApiError(409, `Account ${accountNumber} is already ${status}`);
+    }
+    if (account.status === 'closed' && status !== 'active') {
+      throw new ApiError(409, `Account ${accountNumber} is closed and can only be reopened`);
+    }
+
+    return tx.updateAccountStatus(accountNumber, status, reason);
+  });
+}
+
+/**
+ * Sets an account's arranged overdraft. Lowering the limit below what is
+ * already overdrawn is allowed; the account just can't be debited further
+ * until it is paid back within the new limit.
+ */
+export async function setOverdraftLimit(
+  store: IStorage,
+  accountNumber: number,
+  { overdraftLimit }: OverdraftLimitChange,
+): Promise<Account> {
+  return store.runInTransaction([accountNumber], async (tx) => {
+    const account = await requireAccount(tx, accountNumber);
+    assertStatusAllowsCredit(account);
+    assertOverdraftAllowed(account.accountType, overdraftLimit);
+
+    return tx.updateOverdraftLimit(accountNumber, overdraftLimit);
+  });
+}
+
+/**
+ * Closes an account. Its balance must be zero, unless an account to sweep
+ * the remainder into is given, in which case the sweep is an ordinary
+ * transfer made in the same unit of work as the close.
+ */
+export async function closeAccount(
+  store: IStorage,
+  accountNumber: number,
+  { reason, sweepToAccountNumber }: CloseAccountRequest,
+): Promise<CloseResult> {
+  const lockAccounts = sweepToAccountNumber === undefined ? [accountNumber] : [accountNumber, sweepToAccountNumber];
+
+  return store.runInTransaction(lockAccounts, async (tx) => {
+    const account = await requireAccount(tx, accountNumber);
+
+    if (account.status === 'closed') {
+      throw new ApiError(409, `Account ${accountNumber} is already closed`);
+    }
+    if (account.heldAmount > 0) {
+      throw new ApiError(409, `Account ${accountNumber} has money on hold; capture or release its holds first`);
+    }
+
+    let sweep: Transaction | undefined;
+    if (account.balance !== 0) {
+      if (sweepToAccountNumber === undefined) {
+        throw new ApiError(400, "Account balance must be zero to close, or choose an account to sweep it to");
+      }
+      if (account.balance < 0) {
+        throw new ApiError(400, "Cannot sweep a negative balance");
+      }
+      sweep = (await transfer(tx, accountNumber, sweepToAccountNumber, account.balance, { bankInitiated: true })).transaction;
+    }
+
+    return { account: await tx.updateAccountStatus(accountNumber, 'closed', reason), sweep };
+  });
+}
@@ -0,0 +1,96 @@
+import type {
+  AccountHolder,
+  AddAccountHolderRequest,
+  Customer,
+  CustomerProfile,
+  OpenAccountRequest,
+} from "@shared/schema";
+import type { Currency, Money } from "@shared/money";
+import type { IStorage } from "./storage";
+import { ApiError } from "./errors";
+import { assertStatusAllowsCredit } from "./account-rules";
+
+// Customers are the people behind accounts. An account has one primary
+// holder, set when it is opened, and any number of joint holders and
+// authorized signers added later.
+
+/**
+ * The customer a new account belongs to: an existing customer, a new one
+ * described in the request, or failing both, a new customer named after the
+ * account so every account still has a primary holder.
+ */
+export async function findOrCreateOwner(
+  tx: IStorage,
+  { customerId, customer, name }: Pick<OpenAccountRequest, "customerId" | "customer" | "name">,
+): Promise<Customer> {
+  if (customerId !== undefined) {
+    const existing = await tx.getCustomer(customerId);
+    if (!existing) {
+      throw new ApiError(404, `Customer ${customerId} not found`);
+    }
+    return existing;
+  }
+  return tx.createCustomer(customer ?? { name });
+}
+
+export async function addAccountHolder(
+  store: IStorage,
+  accountNumber: number,
+  { customerId, role }: AddAccountHolderRequest,
+): Promise<AccountHolder> {
+  return store.runInTransaction([accountNumber], async (tx) => {
+    const account = await tx.getAccountByNumber(accountNumber);
+    if (!account) {
+      throw new ApiError(404, `Account ${accountNumber} not found`);
+    }
+    assertStatusAllowsCredit(account);
+
+    if (!(await tx.getCustomer(customerId))) {
+      throw new ApiError(404, `Customer ${customerId} not found`);
+    }
+    const holders = await tx.getAccountHolders(account.id);
+    if (holders.some((holder) => holder.customerId === customerId)) {
+      throw new ApiError(409, `Customer ${customerId} already holds account ${accountNumber}`);
+    }
+
+    return tx.addAccountHolder({ accountId: account.id, customerId, role });
+  });
+}
+
+export async function removeAccountHolder(store: IStorage, accountNumber: number, customerId: string): Promise<void> {
+  await store.runInTransaction([accountNumber], async (tx) => {
+    const account = await tx.getAccountByNumber(accountNumber);
+    if (!account) {
+      throw new ApiError(404, `Account ${accountNumber} not found`);
+    }
+
+    const holder = (await tx.getAccountHolders(account.id)).find((holder) => holder.customerId === customerId);
+    if (!holder) {
+      throw new ApiError(404, `Customer ${customerId} does not hold account ${accountNumber}`);
+    }
+    if (holder.role === 'primary') {
+      throw new ApiError(400, "The primary holder can't be removed from an account");
+    }
+
+    await tx.removeAccountHolder(account.id, customerId);
+  });
+}
+
+export async function getCustomerProfile(store: IStorage, customerId: string): Promise<CustomerProfile> {
+  const customer = await store.getCustomer(customerId);
+  if (!customer) {
+    throw new ApiError(404, `Customer ${customerId} not found`);
+  }
+
+  const accounts = await store.getCustomerAccounts(customerId);
+  const balances = new Map<Currency, Money>();
+  for (const { account } of accounts) {
+    if (account.status !== 'closed') {
+      balances.set(account.currency, (balances.get(account.currency) ?? 0) + account.balance);
+    }
+  }
+  const combinedBalances = Array.from(balances, ([currency, balance]) => ({ currency, balance }))
+    .sort((a, b) => a.currency.localeCompare(b.currency));
+
+  return { customer, accounts, combinedBalances };
+}
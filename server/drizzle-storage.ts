@@ -0,0 +1,939 @@
+import { and, arrayContains, asc, count, desc, eq, gte, ilike, inArray, isNotNull, isNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import {
+  accounts,
+  accountNumberSequence,
+  transactions,
+  journalEntries,
+  postings,
+  idempotencyKeys,
+  interestRateTiers,
+  interestAccruals,
+  interestAccrualRuns,
+  feeRules,
+  velocityLimits,
+  customers,
+  accountHolders,
+  accountHolderRoles,
+  users,
+  auditLog,
+  approvalThresholds,
+  approvalRequests,
+  holds,
+  scheduledTransfers,
+  scheduledTransferRuns,
+  fxRates,
+  type Account,
+  type InsertAccount,
+  type Transaction,
+  type InsertTransaction,
+  type TransactionWithDetails,
+  type CurrencyTotals,
+  type FxRate,
+  type InsertFxRate,
+  type InsertJournalEntry,
+  type InsertPosting,
+  type JournalEntryWithPostings,
+  type LedgerTotals,
+  type IdempotencyKey,
+  type AccountHistoryFilters,
+  type AccountHistoryPage,
+  type AccountStatus,
+  type AccountStatusReason,
+  type DebitSummary,
+  type AccountType,
+  type InterestRateTier,
+  type InsertInterestRateTier,
+  type InterestAccrual,
+  type InsertInterestAccrual,
+  type FeeRule,
+  type InsertFeeRule,
+  type VelocityLimit,
+  type InsertVelocityLimit,
+  type Customer,
+  type InsertCustomer,
+  type UpdateCustomer,
+  type AccountHolder,
+  type InsertAccountHolder,
+  type AccountHolderWithCustomer,
+  type CustomerAccount,
+  type User,
+  type InsertUser,
+  type UserTwoFactor,
+  type AuditEntry,
+  type InsertAuditEntry,
+  type AuditLogFilters,
+  type AuditLogPage,
+  type StaffRole,
+  type ApprovalThreshold,
+  type ApprovalRequest,
+  type InsertApprovalRequest,
+  type ApprovalRequestWithDetails,
+  type ApprovalStatus,
+  type Hold,
+  type InsertHold,
+  type HoldStatus,
+  type ScheduledTransfer,
+  type InsertScheduledTransfer,
+  type ScheduledTransferRun,
+  type InsertScheduledTransferRun,
+  type ScheduledTransferWithDetails,
+} from "@shared/schema";
+import { type Currency, type Money } from "@shared/money";
+import { withCheckDigit } from "@shared/account-number";
+import type { Database } from "./db";
+import type {
+  ApprovalDecisionRecord,
+  DashboardTotals,
+  HoldResolution,
+  IStorage,
+  ScheduledTransferFilters,
+  ScheduledTransferProgress,
+} from "./storage";
+
+const fromAccounts = alias(accounts, "from_account");
+const toAccounts = alias(accounts, "to_account");
+
+const transactionWithDetailsColumns = {
+  transaction: transactions,
+  fromAccount: {
+    accountNumber: fromAccounts.accountNumber,
+    name: fromAccounts.name,
+    currency: fromAccounts.currency,
+  },
+  toAccount: {
+    accountNumber: toAccounts.accountNumber,
+    name: toAccounts.name,
+    currency: toAccounts.currency,
+  },
+};
+
+function toTransactionWithDetails({ transaction, fromAccount, toAccount }: {
+  transaction: Transaction;
+  fromAccount: TransactionWithDetails["fromAccount"] | null;
+  toAccount: TransactionWithDetails["toAccount"] | null;
+}): TransactionWithDetails {
+  return {
+    ...transaction,
+    ...(fromAccount && { fromAccount }),
+    ...(toAccount && { toAccount }),
+  };
+}
+
+const requesters = alias(users, "requested_by");
+const deciders = alias(users, "decided_by");
+
+const approvalRequestWithDetailsColumns = {
+  request: approvalRequests,
+  fromAccount: transactionWithDetailsColumns.fromAccount,
+  toAccount: transactionWithDetailsColumns.toAccount,
+  requestedBy: { username: requesters.username, displayName: requesters.displayName },
+  decidedBy: { username: deciders.username, displayName: deciders.displayName },
+};
+
+const scheduledTransferWithDetailsColumns = {
+  schedule: scheduledTransfers,
+  fromAccount: transactionWithDetailsColumns.fromAccount,
+  toAccount: transactionWithDetailsColumns.toAccount,
+  createdBy: { username: users.username, displayName: users.displayName },
+};
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async runInTransaction<T>(accountNumbers: number[], work: (tx: IStorage) => Promise<T>): Promise<T> {
+    const lockOrder = Array.from(new Set(accountNumbers)).sort((a, b) => a - b);
+
+    return this.db.transaction(async (tx) => {
+      // Row locks are taken in ascending account number order, so two
+      // transfers between the same pair of accounts can't deadlock
+      if (lockOrder.length > 0) {
+        await tx
+          .select({ id: accounts.id })
+          .from(accounts)
+          .where(inArray(accounts.accountNumber, lockOrder))
+          .orderBy(asc(accounts.accountNumber))
+          .for("update");
+      }
+      return work(new DrizzleStorage(tx));
+    });
+  }
+
+  async getAccount(id: string): Promise<Account | undefined> {
+    const [account] = await this.db.select().from(accounts).where(eq(accounts.id, id));
+    return account;
+  }
+
+  async getAccountByNumber(accountNumber: number): Promise<Account | undefined> {
+    const [account] = await this.db
+      .select()
+      .from(accounts)
+      .where(eq(accounts.accountNumber, accountNumber));
+    return account;
+  }
+
+  async nextAccountNumber(): Promise<number> {
+    // Sequences live outside transactions, so a rolled back account just
+    // leaves a gap in the numbering
+    const [{ value }] = await this.db
+      .select({ value: sql<string>`nextval(${accountNumberSequence.seqName})` })
+      .from(sql`(select 1) as one`);
+    return withCheckDigit(Number(value));
+  }
+
+  async createAccount(insertAccount: InsertAccount): Promise<Account> {
+    // Check if account number already exists
+    const existing = await this.getAccountByNumber(insertAccount.accountNumber);
+    if (existing) {
+      throw new Error(`Account ${insertAccount.accountNumber} already exists`);
+    }
+
+    const [account] = await this.db.insert(accounts).values(insertAccount).returning();
+    return account;
+  }
+
+  async updateAccountBalance(accountNumber: number, newBalance: Money): Promise<Account> {
+    const [account] = await this.db
+      .update(accounts)
+      .set({ balance: newBalance })
+      .where(eq(accounts.accountNumber, accountNumber))
+      .returning();
+
+    if (!account) {
+      throw new Error(`Account ${accountNumber} not found`);
+    }
+    return account;
+  }
+
+  async updateAccountHeldAmount(accountNumber: number, heldAmount: Money): Promise<Account> {
+    const [account] = await this.db
+      .update(accounts)
+      .set({ heldAmount })
+      .where(eq(accounts.accountNumber, accountNumber))
+      .returning();
+
+    if (!account) {
+      throw new Error(`Account ${accountNumber} not found`);
+    }
+    return account;
+  }
+
+  async updateAccountStatus(accountNumber: number, status: AccountStatus, reason: AccountStatusReason): Promise<Account> {
+    const [account] = await this.db
+      .update(accounts)
+      .set({ status, statusReason: reason, statusChangedAt: new Date() })
+      .where(eq(accounts.accountNumber, accountNumber))
+      .returning();
+
+    if (!account) {
+      throw new Error(`Account ${accountNumber} not found`);
+    }
+    return account;
+  }
+
+  async updateOverdraftLimit(accountNumber: number, overdraftLimit: Money): Promise<Account> {
+    const [account] = await this.db
+      .update(accounts)
+      .set({ overdraftLimit })
+      .where(eq(accounts.accountNumber, accountNumber))
+      .returning();
+
+    if (!account) {
+      throw new Error(`Account ${accountNumber} not found`);
+    }
+    return account;
+  }
+
+  async getAllAccounts(): Promise<Account[]> {
+    return this.db.select().from(accounts).orderBy(asc(accounts.accountNumber));
+  }
+
+  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
+    const [customer] = await this.db.insert(customers).values(insertCustomer).returning();
+    return customer;
+  }
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    const [customer] = await this.db.select().from(customers).where(eq(customers.id, id));
+    return customer || undefined;
+  }
+
+  async getAllCustomers(): Promise<Customer[]> {
+    return this.db.select().from(customers).orderBy(asc(customers.name));
+  }
+
+  async updateCustomer(id: string, changes: UpdateCustomer): Promise<Customer> {
+    const [customer] = await this.db.update(customers).set(changes).where(eq(customers.id, id)).returning();
+
+    if (!customer) {
+      throw new Error(`Customer ${id} not found`);
+    }
+    return customer;
+  }
+
+  async addAccountHolder(insertHolder: InsertAccountHolder): Promise<AccountHolder> {
+    const [holder] = await this.db.insert(accountHolders).values(insertHolder).returning();
+    return holder;
+  }
+
+  async removeAccountHolder(accountId: string, customerId: string): Promise<void> {
+    await this.db
+      .delete(accountHolders)
+      .where(and(eq(accountHolders.accountId, accountId), eq(accountHolders.customerId, customerId)));
+  }
+
+  async getAccountHolders(accountId: string): Promise<AccountHolderWithCustomer[]> {
+    const rows = await this.db
+      .select({ holder: accountHolders, customer: customers })
+      .from(accountHolders)
+      .innerJoin(customers, eq(accountHolders.customerId, customers.id))
+      .where(eq(accountHolders.accountId, accountId))
+      .orderBy(asc(accountHolders.createdAt));
+
+    return rows
+      .map(({ holder, customer }) => ({ ...holder, customer }))
+      .sort((a, b) => accountHolderRoles.indexOf(a.role) - accountHolderRoles.indexOf(b.role));
+  }
+
+  async getCustomerAccounts(customerId: string): Promise<CustomerAccount[]> {
+    const rows = await this.db
+      .select({ account: accounts, role: accountHolders.role })
+      .from(accountHolders)
+      .innerJoin(accounts, eq(accountHolders.accountId, accounts.id))
+      .where(eq(accountHolders.customerId, customerId))
+      .orderBy(asc(accounts.accountNumber));
+    return rows;
+  }
+
+  async getTransaction(id: string): Promise<Transaction | undefined> {
+    const [transaction] = await this.db.select().from(transactions).where(eq(transactions.id, id));
+    return transaction;
+  }
+
+  async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
+    const [transaction] = await this.db.insert(transactions).values(insertTransaction).returning();
+    return transaction;
+  }
+
+  async markTransactionReversed(id: string, reversedById: string): Promise<Transaction | undefined> {
+    const [transaction] = await this.db
+      .update(transactions)
+      .set({ status: 'reversed', reversedById })
+      .where(and(eq(transactions.id, id), eq(transactions.status, 'posted')))
+      .returning();
+    return transaction;
+  }
+
+  async getRecentTransactions(limit: number = 10): Promise<TransactionWithDetails[]> {
+    const rows = await this.db
+      .select(transactionWithDetailsColumns)
+      .from(transactions)
+      .leftJoin(fromAccounts, eq(transactions.fromAccountId, fromAccounts.id))
+      .leftJoin(toAccounts, eq(transactions.toAccountId, toAccounts.id))
+      .orderBy(desc(transactions.createdAt))
+      .limit(limit);
+
+    return rows.map(toTransactionWithDetails);
+  }
+
+  async summarizeDebits(accountId: string, since: Date, types: string[]): Promise<DebitSummary> {
+    const [summary] = await this.db
+      .select({
+        count: count(),
+        total: sql<Money>`coalesce(sum(${transactions.amount}), 0)`.mapWith(Number),
+      })
+      .from(transactions)
+      .where(and(
+        eq(transactions.fromAccountId, accountId),
+        eq(transactions.status, 'posted'),
+        inArray(transactions.type, types),
+        gte(transactions.createdAt, since),
+      ));
+    return summary;
+  }
+
+  async getAccountHistory(
+    accountId: string,
+    { cursor, limit, ...filters }: AccountHistoryFilters & { cursor?: string; limit: number },
+  ): Promise<AccountHistoryPage> {
+    const conditions: SQL[] = [eq(postings.accountId, accountId)];
+    const { type, from, to, minAmount, maxAmount, counterpartyAccountId } = filters;
+
+    if (type) conditions.push(eq(transactions.type, type));
+    if (from) conditions.push(gte(postings.createdAt, from));
+    if (to) conditions.push(lt(postings.createdAt, to));
+    if (minAmount !== undefined) conditions.push(gte(postings.amount, minAmount));
+    if (maxAmount !== undefined) conditions.push(lte(postings.amount, maxAmount));
+    if (counterpartyAccountId) {
+      conditions.push(
+        or(eq(transactions.fromAccountId, counterpartyAccountId), eq(transactions.toAccountId, counterpartyAccountId))!,
+      );
+    }
+    if (cursor) {
+      // Compare against the cursor row itself, so timestamp precision can't
+      // make a page repeat or skip entries
+      conditions.push(
+        sql`(${postings.createdAt}, ${postings.seq}) < (select ${postings.createdAt}, ${postings.seq} from ${postings} where ${postings.id} = ${cursor})`,
+      );
+    }
+
+    const rows = await this.db
+      .select({
+        ...transactionWithDetailsColumns,
+        postingId: postings.id,
+        direction: postings.direction,
+        balanceAfter: postings.balanceAfter,
+      })
+      .from(postings)
+      .innerJoin(journalEntries, eq(postings.journalEntryId, journalEntries.id))
+      .innerJoin(transactions, eq(journalEntries.transactionId, transactions.id))
+      .leftJoin(fromAccounts, eq(transactions.fromAccountId, fromAccounts.id))
+      .leftJoin(toAccounts, eq(transactions.toAccountId, toAccounts.id))
+      .where(and(...conditions))
+      .orderBy(desc(postings.createdAt), desc(postings.seq))
+      .limit(limit + 1);
+
+    const entries = rows.slice(0, limit).map(({ postingId, direction, balanceAfter, ...row }) => ({
+      ...toTransactionWithDetails(row),
+      postingId,
+      direction,
+      balanceAfter,
+    }));
+
+    return {
+      entries,
+      nextCursor: rows.length > limit ? entries[entries.length - 1].postingId : null,
+    };
+  }
+
+  async createJournalEntry(insertEntry: InsertJournalEntry, insertPostings: InsertPosting[]): Promise<JournalEntryWithPostings> {
+    const [entry] = await this.db.insert(journalEntries).values(insertEntry).returning();
+    const createdPostings = await this.db
+      .insert(postings)
+      .values(insertPostings.map((posting) => ({ ...posting, journalEntryId: entry.id })))
+      .returning();
+
+    return { ...entry, postings: createdPostings };
+  }
+
+  async getJournalEntriesForTransaction(transactionId: string): Promise<JournalEntryWithPostings[]> {
+    const entries = await this.db
+      .select()
+      .from(journalEntries)
+      .where(eq(journalEntries.transactionId, transactionId))
+      .orderBy(asc(journalEntries.createdAt));
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const entryPostings = await this.db
+      .select()
+      .from(postings)
+      .where(inArray(postings.journalEntryId, entries.map((entry) => entry.id)));
+
+    return entries.map((entry) => ({
+      ...entry,
+      postings: entryPostings.filter((posting) => posting.journalEntryId === entry.id),
+    }));
+  }
+
+  async getLedgerTotals(): Promise<LedgerTotals[]> {
+    return this.db
+      .select({
+        accountId: postings.accountId,
+        systemAccount: postings.systemAccount,
+        debits: sql<Money>`coalesce(sum(${postings.amount}) filter (where ${postings.direction} = 'debit'), 0)`.mapWith(Number),
+        credits: sql<Money>`coalesce(sum(${postings.amount}) filter (where ${postings.direction} = 'credit'), 0)`.mapWith(Number),
+      })
+      .from(postings)
+      .groupBy(postings.accountId, postings.systemAccount);
+  }
+
+  async getFeeRules(): Promise<FeeRule[]> {
+    return this.db.select().from(feeRules);
+  }
+
+  async replaceFeeRules(rules: InsertFeeRule[]): Promise<FeeRule[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(feeRules);
+      return rules.length === 0 ? [] : tx.insert(feeRules).values(rules).returning();
+    });
+  }
+
+  async getVelocityLimits(): Promise<VelocityLimit[]> {
+    return this.db.select().from(velocityLimits);
+  }
+
+  async replaceVelocityLimits(accountId: string | null, limits: InsertVelocityLimit[]): Promise<VelocityLimit[]> {
+    return this.db.transaction(async (tx) => {
+      await tx
+        .delete(velocityLimits)
+        .where(accountId === null ? isNull(velocityLimits.accountId) : eq(velocityLimits.accountId, accountId));
+      if (limits.length === 0) {
+        return [];
+      }
+
+      return tx
+        .insert(velocityLimits)
+        .values(limits.map((limit) => ({
+          ...limit,
+          accountId,
+          accountType: accountId === null ? limit.accountType ?? null : null,
+        })))
+        .returning();
+    });
+  }
+
+  async getApprovalThresholds(): Promise<ApprovalThreshold[]> {
+    return this.db.select().from(approvalThresholds);
+  }
+
+  async replaceApprovalThresholds(thresholds: ApprovalThreshold[]): Promise<ApprovalThreshold[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(approvalThresholds);
+      return thresholds.length === 0 ? [] : tx.insert(approvalThresholds).values(thresholds).returning();
+    });
+  }
+
+  async createApprovalRequest(insertRequest: InsertApprovalRequest): Promise<ApprovalRequest> {
+    const [request] = await this.db.insert(approvalRequests).values(insertRequest).returning();
+    return request;
+  }
+
+  async getApprovalRequest(id: string): Promise<ApprovalRequest | undefined> {
+    const [request] = await this.db.select().from(approvalRequests).where(eq(approvalRequests.id, id));
+    return request;
+  }
+
+  async getApprovalRequests(status: ApprovalStatus, limit: number): Promise<ApprovalRequestWithDetails[]> {
+    const rows = await this.db
+      .select(approvalRequestWithDetailsColumns)
+      .from(approvalRequests)
+      .leftJoin(fromAccounts, eq(approvalRequests.fromAccountId, fromAccounts.id))
+      .leftJoin(toAccounts, eq(approvalRequests.toAccountId, toAccounts.id))
+      .leftJoin(requesters, eq(approvalRequests.requestedById, requesters.id))
+      .leftJoin(deciders, eq(approvalRequests.decidedById, deciders.id))
+      .where(eq(approvalRequests.status, status))
+      .orderBy(desc(approvalRequests.requestedAt), desc(approvalRequests.id))
+      .limit(limit);
+
+    return rows.map(({ request, fromAccount, toAccount, requestedBy, decidedBy }) => ({
+      ...request,
+      ...(fromAccount && { fromAccount }),
+      ...(toAccount && { toAccount }),
+      ...(requestedBy && { requestedBy }),
+      ...(decidedBy && { decidedBy }),
+    }));
+  }
+
+  async decideApprovalRequest(id: string, decision: ApprovalDecisionRecord): Promise<ApprovalRequest | undefined> {
+    const [request] = await this.db
+      .update(approvalRequests)
+      .set({ ...decision, decidedAt: new Date() })
+      .where(and(eq(approvalRequests.id, id), eq(approvalRequests.status, 'pending')))
+      .returning();
+    return request;
+  }
+
+  async setApprovalTransaction(id: string, transactionId: string): Promise<ApprovalRequest> {
+    const [request] = await this.db
+      .update(approvalRequests)
+      .set({ transactionId })
+      .where(eq(approvalRequests.id, id))
+      .returning();
+
+    if (!request) {
+      throw new Error(`Approval request ${id} not found`);
+    }
+    return request;
+  }
+
+  async getPendingApprovalForHold(holdId: string): Promise<ApprovalRequest | undefined> {
+    const [request] = await this.db
+      .select()
+      .from(approvalRequests)
+      .where(and(eq(approvalRequests.holdId, holdId), eq(approvalRequests.status, 'pending')));
+    return request;
+  }
+
+  async createHold(insertHold: InsertHold): Promise<Hold> {
+    const [hold] = await this.db.insert(holds).values(insertHold).returning();
+    return hold;
+  }
+
+  async getHold(id: string): Promise<Hold | undefined> {
+    const [hold] = await this.db.select().from(holds).where(eq(holds.id, id));
+    return hold;
+  }
+
+  async getAccountHolds(accountId: string, status?: HoldStatus): Promise<Hold[]> {
+    return this.db
+      .select()
+      .from(holds)
+      .where(and(eq(holds.accountId, accountId), status ? eq(holds.status, status) : undefined))
+      .orderBy(desc(holds.createdAt), desc(holds.id));
+  }
+
+  async getExpiredHolds(now: Date): Promise<Hold[]> {
+    return this.db
+      .select()
+      .from(holds)
+      .where(and(eq(holds.status, 'active'), lt(holds.expiresAt, now)))
+      .orderBy(asc(holds.expiresAt));
+  }
+
+  async resolveHold(id: string, resolution: HoldResolution): Promise<Hold | undefined> {
+    const [hold] = await this.db
+      .update(holds)
+      .set({ ...resolution, resolvedAt: new Date() })
+      .where(and(eq(holds.id, id), eq(holds.status, 'active')))
+      .returning();
+    return hold;
+  }
+
+  async setHoldTransaction(id: string, transactionId: string): Promise<Hold> {
+    const [hold] = await this.db
+      .update(holds)
+      .set({ transactionId })
+      .where(eq(holds.id, id))
+      .returning();
+
+    if (!hold) {
+      throw new Error(`Hold ${id} not found`);
+    }
+    return hold;
+  }
+
+  async createScheduledTransfer(insertSchedule: InsertScheduledTransfer): Promise<ScheduledTransfer> {
+    const [schedule] = await this.db.insert(scheduledTransfers).values(insertSchedule).returning();
+    return schedule;
+  }
+
+  async getScheduledTransfer(id: string): Promise<ScheduledTransfer | undefined> {
+    const [schedule] = await this.db.select().from(scheduledTransfers).where(eq(scheduledTransfers.id, id));
+    return schedule;
+  }
+
+  async getScheduledTransfers({ accountId, status }: ScheduledTransferFilters): Promise<ScheduledTransferWithDetails[]> {
+    const rows = await this.db
+      .select(scheduledTransferWithDetailsColumns)
+      .from(scheduledTransfers)
+      .leftJoin(fromAccounts, eq(scheduledTransfers.fromAccountId, fromAccounts.id))
+      .leftJoin(toAccounts, eq(scheduledTransfers.toAccountId, toAccounts.id))
+      .leftJoin(users, eq(scheduledTransfers.createdById, users.id))
+      .where(and(
+        accountId ? or(eq(scheduledTransfers.fromAccountId, accountId), eq(scheduledTransfers.toAccountId, accountId)) : undefined,
+        status ? eq(scheduledTransfers.status, status) : undefined,
+      ))
+      // Postgres sorts nulls last going up, so ended schedules come last
+      .orderBy(asc(scheduledTransfers.nextRunAt), desc(scheduledTransfers.createdAt), desc(scheduledTransfers.id));
+
+    return rows.map(({ schedule, fromAccount, toAccount, createdBy }) => ({
+      ...schedule,
+      ...(fromAccount && { fromAccount }),
+      ...(toAccount && { toAccount }),
+      ...(createdBy && { createdBy }),
+    }));
+  }
+
+  async getDueScheduledTransfers(now: Date): Promise<ScheduledTransfer[]> {
+    return this.db
+      .select()
+      .from(scheduledTransfers)
+      .where(and(eq(scheduledTransfers.status, 'active'), lte(scheduledTransfers.nextRunAt, now)))
+      .orderBy(asc(scheduledTransfers.nextRunAt));
+  }
+
+  async updateScheduledTransfer(id: string, changes: ScheduledTransferProgress): Promise<ScheduledTransfer> {
+    const [schedule] = await this.db
+      .update(scheduledTransfers)
+      .set(changes)
+      .where(eq(scheduledTransfers.id, id))
+      .returning();
+
+    if (!schedule) {
+      throw new Error(`Scheduled transfer ${id} not found`);
+    }
+    return schedule;
+  }
+
+  async createScheduledTransferRun(insertRun: InsertScheduledTransferRun): Promise<ScheduledTransferRun> {
+    const [run] = await this.db.insert(scheduledTransferRuns).values(insertRun).returning();
+    return run;
+  }
+
+  async getScheduledTransferRuns(scheduledTransferId: string): Promise<ScheduledTransferRun[]> {
+    return this.db
+      .select()
+      .from(scheduledTransferRuns)
+      .where(eq(scheduledTransferRuns.scheduledTransferId, scheduledTransferId))
+      .orderBy(desc(scheduledTransferRuns.createdAt), desc(scheduledTransferRuns.id));
+  }
+
+  async createFxRates(insertRates: InsertFxRate[]): Promise<FxRate[]> {
+    return this.db.insert(fxRates).values(insertRates).returning();
+  }
+
+  async getFxRates(): Promise<FxRate[]> {
+    return this.db
+      .selectDistinctOn([fxRates.baseCurrency, fxRates.quoteCurrency])
+      .from(fxRates)
+      .orderBy(asc(fxRates.baseCurrency), asc(fxRates.quoteCurrency), desc(fxRates.createdAt));
+  }
+
+  async getFxRate(baseCurrency: Currency, quoteCurrency: Currency): Promise<FxRate | undefined> {
+    const [rate] = await this.db
+      .select()
+      .from(fxRates)
+      .where(and(eq(fxRates.baseCurrency, baseCurrency), eq(fxRates.quoteCurrency, quoteCurrency)))
+      .orderBy(desc(fxRates.createdAt))
+      .limit(1);
+    return rate;
+  }
+
+  async getInterestRateTiers(): Promise<InterestRateTier[]> {
+    return this.db
+      .select()
+      .from(interestRateTiers)
+      .orderBy(asc(interestRateTiers.accountType), asc(interestRateTiers.minBalance));
+  }
+
+  async replaceInterestRateTiers(accountType: AccountType, tiers: InsertInterestRateTier[]): Promise<InterestRateTier[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(interestRateTiers).where(eq(interestRateTiers.accountType, accountType));
+      if (tiers.length === 0) {
+        return [];
+      }
+
+      const created = await tx
+        .insert(interestRateTiers)
+        .values(tiers.map((tier) => ({ ...tier, accountType })))
+        .returning();
+      return created.sort((a, b) => a.minBalance - b.minBalance);
+    });
+  }
+
+  async createInterestAccrual(insertAccrual: InsertInterestAccrual): Promise<InterestAccrual | undefined> {
+    const [accrual] = await this.db
+      .insert(interestAccruals)
+      .values(insertAccrual)
+      .onConflictDoNothing()
+      .returning();
+    return accrual;
+  }
+
+  async getUnpostedInterestAccruals(accountId: string): Promise<InterestAccrual[]> {
+    return this.db
+      .select()
+      .from(interestAccruals)
+      .where(and(eq(interestAccruals.accountId, accountId), isNull(interestAccruals.postedAt)))
+      .orderBy(asc(interestAccruals.accrualDate));
+  }
+
+  async startInterestAccrualRun(accrualDate: string): Promise<void> {
+    await this.db.insert(interestAccrualRuns).values({ accrualDate }).onConflictDoNothing();
+  }
+
+  async finishInterestAccrualRun(accrualDate: string): Promise<void> {
+    await this.db
+      .update(interestAccrualRuns)
+      .set({ finishedAt: new Date() })
+      .where(eq(interestAccrualRuns.accrualDate, accrualDate));
+  }
+
+  async getEarliestUnfinishedInterestAccrualRun(): Promise<string | undefined> {
+    const [run] = await this.db
+      .select({ accrualDate: interestAccrualRuns.accrualDate })
+      .from(interestAccrualRuns)
+      .where(isNull(interestAccrualRuns.finishedAt))
+      .orderBy(asc(interestAccrualRuns.accrualDate))
+      .limit(1);
+    return run?.accrualDate;
+  }
+
+  async getLatestFinishedInterestAccrualRun(): Promise<string | undefined> {
+    const [run] = await this.db
+      .select({ accrualDate: interestAccrualRuns.accrualDate })
+      .from(interestAccrualRuns)
+      .where(isNotNull(interestAccrualRuns.finishedAt))
+      .orderBy(desc(interestAccrualRuns.accrualDate))
+      .limit(1);
+    return run?.accrualDate;
+  }
+
+  async getBalanceBefore(accountId: string, before: Date): Promise<Money | undefined> {
+    const [posting] = await this.db
+      .select({ balanceAfter: postings.balanceAfter })
+      .from(postings)
+      .where(and(eq(postings.accountId, accountId), lt(postings.createdAt, before)))
+      .orderBy(desc(postings.createdAt), desc(postings.seq))
+      .limit(1);
+    return posting?.balanceAfter ?? undefined;
+  }
+
+  async markInterestAccrualsPosted(ids: string[], transactionId: string | null): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await this.db
+      .update(interestAccruals)
+      .set({ postedAt: new Date(), transactionId })
+      .where(inArray(interestAccruals.id, ids));
+  }
+
+  async claimIdempotencyKey(key: string, requestHash: string): Promise<IdempotencyKey | undefined> {
+    const claimed = await this.db
+      .insert(idempotencyKeys)
+      .values({ key, requestHash })
+      .onConflictDoNothing()
+      .returning();
+    if (claimed.length > 0) {
+      return undefined;
+    }
+
+    const [existing] = await this.db.select().from(idempotencyKeys).where(eq(idempotencyKeys.key, key));
+    // Released between our insert and select: try to claim it again
+    return existing ?? this.claimIdempotencyKey(key, requestHash);
+  }
+
+  async completeIdempotencyKey(key: string, responseStatus: number, responseBody: unknown): Promise<void> {
+    await this.db
+      .update(idempotencyKeys)
+      .set({ responseStatus, responseBody })
+      .where(eq(idempotencyKeys.key, key));
+  }
+
+  async releaseIdempotencyKey(key: string): Promise<void> {
+    await this.db.delete(idempotencyKeys).where(eq(idempotencyKeys.key, key));
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error(`User ${insertUser.username} already exists`);
+    }
+
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async updateUserRole(id: string, role: StaffRole): Promise<User> {
+    const [user] = await this.db.update(users).set({ role }).where(eq(users.id, id)).returning();
+
+    if (!user) {
+      throw new Error(`User ${id} not found`);
+    }
+    return user;
+  }
+
+  async updateUserTwoFactor(id: string, changes: Partial<UserTwoFactor>): Promise<User> {
+    const [user] = await this.db.update(users).set(changes).where(eq(users.id, id)).returning();
+
+    if (!user) {
+      throw new Error(`User ${id} not found`);
+    }
+    return user;
+  }
+
+  async useTotpCounter(id: string, counter: number): Promise<boolean> {
+    const updated = await this.db
+      .update(users)
+      .set({ totpLastCounter: counter })
+      .where(and(eq(users.id, id), or(isNull(users.totpLastCounter), lt(users.totpLastCounter, counter))))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async useRecoveryCode(id: string, codeHash: string): Promise<boolean> {
+    const updated = await this.db
+      .update(users)
+      .set({ recoveryCodeHashes: sql`array_remove(${users.recoveryCodeHashes}, ${codeHash})` })
+      .where(and(eq(users.id, id), arrayContains(users.recoveryCodeHashes, [codeHash])))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async appendAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const [entry] = await this.db.insert(auditLog).values(insertEntry).returning();
+    return entry;
+  }
+
+  async getAuditEntries(
+    { cursor, limit, ...filters }: AuditLogFilters & { cursor?: string; limit: number },
+  ): Promise<AuditLogPage> {
+    const conditions: SQL[] = [];
+    const { actor, method, outcome, route, subject, from, to } = filters;
+
+    if (actor) conditions.push(eq(auditLog.actorUsername, actor));
+    if (method) conditions.push(eq(auditLog.method, method));
+    if (outcome) conditions.push(eq(auditLog.outcome, outcome));
+    if (route) conditions.push(ilike(auditLog.route, `%${route.replace(/[\\%_]/g, "\\$&")}%`));
+    if (subject) conditions.push(arrayContains(auditLog.subjects, [subject]));
+    if (from) conditions.push(gte(auditLog.createdAt, from));
+    if (to) conditions.push(lt(auditLog.createdAt, to));
+    if (cursor) {
+      conditions.push(
+        sql`(${auditLog.createdAt}, ${auditLog.id}) < (select ${auditLog.createdAt}, ${auditLog.id} from ${auditLog} where ${auditLog.id} = ${cursor})`,
+      );
+    }
+
+    const rows = await this.db
+      .select()
+      .from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(limit + 1);
+
+    const entries = rows.slice(0, limit);
+    return {
+      entries,
+      nextCursor: rows.length > limit ? entries[entries.length - 1].id : null,
+    };
+  }
+
+  async getDashboardStats(): Promise<DashboardTotals> {
+    const [{ totalAccounts }] = await this.db.select({ totalAccounts: count() }).from(accounts);
+
+    // Deposits count in the currency of the account paid into, withdrawals
+    // in the currency of the account paid out of
+    const byCurrency: CurrencyTotals[] = await this.db
+      .select({
+        currency: accounts.currency,
+        totalDeposits: sql<Money>`coalesce(sum(${transactions.amount}) filter (where ${transactions.type} = 'deposit' and ${transactions.toAccountId} = ${accounts.id}), 0)`.mapWith(Number),
+        totalWithdrawals: sql<Money>`coalesce(sum(${transactions.amount}) filter (where ${transactions.type} = 'withdraw' and ${transactions.fromAccountId} = ${accounts.id}), 0)`.mapWith(Number),
+      })
+      .from(accounts)
+      .leftJoin(transactions, and(
+        or(eq(transactions.toAccountId, accounts.id), eq(transactions.fromAccountId, accounts.id)),
+        // Reversed transactions no longer count towards the totals
+        eq(transactions.status, 'posted'),
+      ))
+      .groupBy(accounts.currency)
+      .orderBy(asc(accounts.currency));
+
+    const [{ activeTransfers }] = await this.db
+      .select({ activeTransfers: count() })
+      .from(transactions)
+      .where(and(eq(transactions.type, 'transfer'), eq(transactions.status, 'posted')));
+
+    return {
+      totalAccounts,
+      activeTransfers,
+      byCurrency
+    };
+  }
+}
@@ -0,0 +1,14 @@
+// An error that carries the HTTP status it should be reported with. Route
+// handlers turn it into `{ message, code }` responses, and the fallback error
+// middleware in index.ts already honours `status`. `code` is a stable,
+// machine-readable reason for clients that need to tell errors apart.
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public code?: string,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
@@ -0,0 +1,85 @@
+import type { Account, FeeQuote, FeeableTransactionType, FeeRule, InsertFeeRule, Transaction } from "@shared/schema";
+import { multiplyMoney, type Money } from "@shared/money";
+import type { IStorage } from "./storage";
+import { fromBaseCurrency } from "./fx";
+import { credit, debit, postJournalEntry } from "./ledger";
+import { startOfMonth } from "./account-rules";
+
+// Fees are charged as separate 'fee' transactions next to the withdrawal or
+// transfer they are for, paid into the fee_income system account.
+// Overdraft fees accrue daily with interest and are charged monthly by
+// postMonthlyInterest in ./interest. Flat fees and the balances that waive
+// fees are in the base currency, converted to the account's at the current
+// rate.
+
+// Also seeded into Postgres by migrations/manual/0005_fee_rules.sql
+export const DEFAULT_FEE_RULES: InsertFeeRule[] = [
+  { transactionType: 'withdraw', kind: 'flat', flatFee: 250, waiveAtBalance: 150_000, freePerMonth: 4 },
+  { transactionType: 'transfer', kind: 'percentage', rateBasisPoints: 50, waiveAtBalance: 500_000, freePerMonth: 10 },
+];
+
+// Charged for each day an account ends overdrawn, in the base currency
+export const OVERDRAFT_DAILY_FEE: Money = 500;
+
+const BASIS_POINTS_PER_UNIT = 10_000;
+
+export const NO_FEE: FeeQuote = { fee: 0, waiver: null, freeRemaining: null };
+
+// The account type's own rule, falling back to the catch-all rule
+function findRule(rules: FeeRule[], type: FeeableTransactionType, account: Account): FeeRule | undefined {
+  const forType = rules.filter((rule) => rule.transactionType === type);
+  return (
+    forType.find((rule) => rule.accountType === account.accountType) ??
+    forType.find((rule) => rule.accountType === null)
+  );
+}
+
+/** Works out the fee for a withdrawal or transfer of `amount` out of `account`. */
+export async function quoteFee(
+  store: IStorage,
+  account: Account,
+  type: FeeableTransactionType,
+  amount: Money,
+): Promise<FeeQuote> {
+  const rule = findRule(await store.getFeeRules(), type, account);
+  if (!rule) {
+    return NO_FEE;
+  }
+
+  let freeRemaining: number | null = null;
+  if (rule.freePerMonth > 0) {
+    const { count } = await store.summarizeDebits(account.id, startOfMonth(), [type]);
+    freeRemaining = Math.max(rule.freePerMonth - count, 0);
+    if (freeRemaining > 0) {
+      return { fee: 0, waiver: "free_allowance", freeRemaining };
+    }
+  }
+
+  if (rule.waiveAtBalance !== null && account.balance >= await fromBaseCurrency(store, rule.waiveAtBalance, account.currency)) {
+    return { fee: 0, waiver: "minimum_balance", freeRemaining };
+  }
+
+  const fee = rule.kind === 'flat'
+    ? await fromBaseCurrency(store, rule.flatFee, account.currency)
+    : multiplyMoney(amount, rule.rateBasisPoints / BASIS_POINTS_PER_UNIT);
+  return { fee, waiver: null, freeRemaining };
+}
+
+/**
+ * Records a fee, e.g. `chargeFee(tx, account, fee, "withdraw 42")`. Must run
+ * in the same unit of work as what it is for, with the account locked.
+ */
+export async function chargeFee(tx: IStorage, account: Account, fee: Money, chargedFor: string): Promise<Transaction> {
+  const feeTransaction = await tx.createTransaction({
+    type: 'fee',
+    fromAccountId: account.id,
+    toAccountId: null,
+    amount: fee
+  });
+  await postJournalEntry(tx, {
+    transactionId: feeTransaction.id,
+    description: `Fee for ${chargedFor} on account ${account.accountNumber}`,
+    lines: [debit(account, fee), credit("fee_income", fee)],
+  });
+  return feeTransaction;
+}
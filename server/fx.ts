@@ -0,0 +1,101 @@
+import type { CurrencyTotals, FxRate, LoadFxRatesRequest, PublicUser } from "@shared/schema";
+import {
+  BASE_CURRENCY,
+  convertMoney,
+  invertRate,
+  RATE_MICROS_PER_UNIT,
+  toRateMicros,
+  type Currency,
+  type Money,
+  type RateMicros,
+} from "@shared/money";
+import type { IStorage } from "./storage";
+import { ApiError } from "./errors";
+
+// Exchange rates for transfers between accounts in different currencies.
+// A pair's latest rate is used whichever way round it was loaded, and
+// currencies without a rate between them are crossed through the base
+// currency. Fees, limits and thresholds are set in the base currency too, and
+// converted at the current rate to compare with an account's amounts.
+
+export const NO_FX_RATE = "no_fx_rate";
+
+// The latest rate loaded for the pair, either way round
+async function pairRate(store: IStorage, from: Currency, to: Currency): Promise<RateMicros | undefined> {
+  const direct = await store.getFxRate(from, to);
+  if (direct) {
+    return direct.rateMicros;
+  }
+  const inverse = await store.getFxRate(to, from);
+  return inverse && invertRate(inverse.rateMicros);
+}
+
+/** Units of `to` that one unit of `from` buys, if there is a rate for it. */
+export async function findRate(store: IStorage, from: Currency, to: Currency): Promise<RateMicros | undefined> {
+  if (from === to) {
+    return RATE_MICROS_PER_UNIT;
+  }
+  const rate = await pairRate(store, from, to);
+  if (rate !== undefined || from === BASE_CURRENCY || to === BASE_CURRENCY) {
+    return rate;
+  }
+
+  const toBase = await pairRate(store, from, BASE_CURRENCY);
+  const fromBase = await pairRate(store, BASE_CURRENCY, to);
+  if (toBase === undefined || fromBase === undefined) {
+    return undefined;
+  }
+  return Math.round((toBase * fromBase) / RATE_MICROS_PER_UNIT);
+}
+
+export async function requireRate(store: IStorage, from: Currency, to: Currency): Promise<RateMicros> {
+  const rate = await findRate(store, from, to);
+  if (rate === undefined) {
+    throw new ApiError(409, `No exchange rate from ${from} to ${to}`, NO_FX_RATE);
+  }
+  return rate;
+}
+
+/** `amount` in `currency`, converted to the base currency to compare with a limit or threshold. */
+export async function toBaseCurrency(store: IStorage, amount: Money, currency: Currency): Promise<Money> {
+  return convertMoney(amount, await requireRate(store, currency, BASE_CURRENCY));
+}
+
+/** An amount set in the base currency, such as a flat fee, converted to `currency`. */
+export async function fromBaseCurrency(store: IStorage, amount: Money, currency: Currency): Promise<Money> {
+  return convertMoney(amount, await requireRate(store, BASE_CURRENCY, currency));
+}
+
+/** Records new rates, which take over from the pairs' earlier ones. */
+export async function loadFxRates(
+  store: IStorage,
+  loadedBy: PublicUser,
+  { source, rates }: LoadFxRatesRequest,
+): Promise<FxRate[]> {
+  return store.createFxRates(
+    rates.map(({ baseCurrency, quoteCurrency, rate }) => ({
+      baseCurrency,
+      quoteCurrency,
+      rateMicros: toRateMicros(rate),
+      source,
+      createdById: loadedBy.id,
+    })),
+  );
+}
+
+/**
+ * Adds up per-currency totals in the base currency at the current rates,
+ * or null if a currency can't be converted.
+ */
+export async function convertTotals(store: IStorage, totals: CurrencyTotals[]): Promise<CurrencyTotals | null> {
+  const converted: CurrencyTotals = { currency: BASE_CURRENCY, totalDeposits: 0, totalWithdrawals: 0 };
+  for (const { currency, totalDeposits, totalWithdrawals } of totals) {
+    const rate = await findRate(store, currency, BASE_CURRENCY);
+    if (rate === undefined) {
+      return null;
+    }
+    converted.totalDeposits += convertMoney(totalDeposits, rate);
+    converted.totalWithdrawals += convertMoney(totalWithdrawals, rate);
+  }
+  return converted;
+}
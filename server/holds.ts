@@ -0,0 +1,188 @@
+import type { Account, CaptureHoldRequest, Hold, InsertHold, PlaceHoldRequest, PublicUser, Transaction } from "@shared/schema";
+import { HOLD_DEFAULT_DAYS } from "@shared/schema";
+import { formatMoney } from "@shared/money";
+import type { IStorage } from "./storage";
+import { ApiError } from "./errors";
+import { assertCustomerDebitAllowed, isBalanceAllowed } from "./account-rules";
+import { transfer, withdraw } from "./banking";
+import { log } from "./vite";
+
+// Holds reserve part of an account's balance without moving it. Active
+// holds add up to the account's heldAmount, which every debit check takes
+// off the balance (the account's availableBalance). A hold ends one of three
+// ways: captured into a withdrawal or transfer, released by staff, or
+// expired by the scheduler below. Whatever ends it takes its amount back
+// off heldAmount in the same unit of work.
+
+export type CaptureResult = { hold: Hold; transaction: Transaction; fee?: Transaction };
+
+const EXPIRY_INTERVAL_MS = 60 * 1000;
+
+async function requireAccount(tx: IStorage, accountNumber: number): Promise<Account> {
+  const account = await tx.getAccountByNumber(accountNumber);
+  if (!account) {
+    throw new ApiError(404, `Account ${accountNumber} not found`);
+  }
+  return account;
+}
+
+// The account a hold is on, read without locks so callers know what to lock
+export async function holdAccountNumber(store: IStorage, id: string): Promise<number> {
+  const hold = await store.getHold(id);
+  const account = hold && (await store.getAccount(hold.accountId));
+  if (!account) {
+    throw new ApiError(404, `Hold ${id} not found`);
+  }
+  return account.accountNumber;
+}
+
+/**
+ * Records a hold and adds it to the account's heldAmount. The caller holds
+ * the account's lock and has already checked the funds.
+ */
+export async function addHold(tx: IStorage, account: Account, hold: Omit<InsertHold, "accountId">): Promise<Hold> {
+  const created = await tx.createHold({ ...hold, accountId: account.id });
+  await tx.updateAccountHeldAmount(account.accountNumber, account.heldAmount + hold.amount);
+  return created;
+}
+
+// Marks the hold resolved and takes it off the account's heldAmount.
+// Returns undefined if it was no longer active.
+async function resolve(
+  tx: IStorage,
+  hold: Hold,
+  status: 'captured' | 'released' | 'expired',
+  resolvedBy: PublicUser | null,
+  capturedAmount: number | null = null,
+): Promise<Hold | undefined> {
+  const resolved = await tx.resolveHold(hold.id, { status, resolvedById: resolvedBy?.id ?? null, capturedAmount });
+  if (!resolved) {
+    return undefined;
+  }
+
+  const account = await tx.getAccount(hold.accountId);
+  if (!account) {
+    throw new ApiError(404, `Account ${hold.accountId} not found`);
+  }
+  await tx.updateAccountHeldAmount(account.accountNumber, account.heldAmount - hold.amount);
+  return resolved;
+}
+
+// Re-reads the hold under the lock and checks it can still be acted on.
+// Holds behind a pending approval request are only moved by its decision.
+async function activeHold(tx: IStorage, id: string): Promise<Hold> {
+  const hold = await tx.getHold(id);
+  if (!hold) {
+    throw new ApiError(404, `Hold ${id} not found`);
+  }
+  if (hold.status !== 'active') {
+    throw new ApiError(409, `This hold has already been ${hold.status}`);
+  }
+  if (await tx.getPendingApprovalForHold(id)) {
+    throw new ApiError(409, "This hold is waiting for approval");
+  }
+  return hold;
+}
+
+/** Places a hold on an account, as long as it could be withdrawn right now. */
+export async function placeHold(
+  store: IStorage,
+  createdBy: PublicUser,
+  accountNumber: number,
+  { amount, reason, expiresAt }: PlaceHoldRequest,
+): Promise<Hold> {
+  return store.runInTransaction([accountNumber], async (tx) => {
+    const account = await requireAccount(tx, accountNumber);
+    await assertCustomerDebitAllowed(tx, account);
+    if (!isBalanceAllowed(account, account.availableBalance - amount)) {
+      throw new ApiError(400, `Insufficient funds to hold ${formatMoney(amount, account.currency)}`);
+    }
+
+    return addHold(tx, account, {
+      amount,
+      reason,
+      expiresAt: expiresAt ?? new Date(Date.now() + HOLD_DEFAULT_DAYS * 24 * 60 * 60 * 1000),
+      createdById: createdBy.id,
+    });
+  });
+}
+
+/**
+ * Captures a hold: posts a withdrawal, or a transfer when given an account,
+ * of up to the held amount, and releases whatever is left. The hold comes
+ * off before posting, so the posting's funds check sees the money again,
+ * and if the posting fails the hold stays as it was.
+ */
+export async function captureHold(
+  store: IStorage,
+  capturedBy: PublicUser,
+  id: string,
+  { amount, toAccountNumber }: CaptureHoldRequest,
+): Promise<CaptureResult> {
+  const accountNumber = await holdAccountNumber(store, id);
+  const accountNumbers = toAccountNumber === undefined ? [accountNumber] : [accountNumber, toAccountNumber];
+
+  return store.runInTransaction(accountNumbers, async (tx) => {
+    const hold = await activeHold(tx, id);
+    const capturedAmount = amount ?? hold.amount;
+    if (capturedAmount > hold.amount) {
+      const { currency } = await requireAccount(tx, accountNumber);
+      throw new ApiError(400, `Can't capture more than the ${formatMoney(hold.amount, currency)} held`);
+    }
+
+    await resolve(tx, hold, 'captured', capturedBy, capturedAmount);
+    const { transaction, fee } = toAccountNumber === undefined
+      ? await withdraw(tx, accountNumber, capturedAmount)
+      : await transfer(tx, accountNumber, toAccountNumber, capturedAmount);
+
+    return { hold: await tx.setHoldTransaction(id, transaction.id), transaction, fee };
+  });
+}
+
+/** Releases a hold, handing its amount back to the available balance. */
+export async function releaseHold(store: IStorage, releasedBy: PublicUser, id: string): Promise<Hold> {
+  const accountNumber = await holdAccountNumber(store, id);
+  return store.runInTransaction([accountNumber], async (tx) => {
+    const hold = await activeHold(tx, id);
+    // Still active, since activeHold read it under the lock
+    return (await resolve(tx, hold, 'released', releasedBy))!;
+  });
+}
+
+/**
+ * Expires every active hold whose expiry has passed, one account at a time.
+ * Holds waiting for an approval decision are left for the decision.
+ * Returns the holds it expired.
+ */
+export async function expireHolds(store: IStorage, now: Date = new Date()): Promise<Hold[]> {
+  const expired: Hold[] = [];
+  for (const candidate of await store.getExpiredHolds(now)) {
+    const accountNumber = await holdAccountNumber(store, candidate.id);
+    const hold = await store.runInTransaction([accountNumber], async (tx) => {
+      if (await tx.getPendingApprovalForHold(candidate.id)) {
+        return undefined;
+      }
+      return resolve(tx, candidate, 'expired', null);
+    });
+    if (hold) {
+      expired.push(hold);
+    }
+  }
+  return expired;
+}
+
+export function startHoldExpiryScheduler(store: IStorage): NodeJS.Timeout {
+  const run = async () => {
+    try {
+      const expired = await expireHolds(store);
+      if (expired.length > 0) {
+        log(`expired ${expired.length} holds`, "holds");
+      }
+    } catch (error) {
+      log(`run failed: ${error}`, "holds");
+    }
+  };
+
+  void run();
+  return setInterval(run, EXPIRY_INTERVAL_MS);
+}
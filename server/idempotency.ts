@@ -0,0 +1,109 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const HEADER = "Idempotency-Key";
+const MAX_KEY_LENGTH = 255;
+// No request runs anywhere near this long, so a key still in progress after
+// it was claimed by a process that stopped mid-request. Whether its money
+// moved can't be told from the key, so it is never claimed again
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+export const REQUEST_IN_PROGRESS = "request_in_progress";
+export const REQUEST_OUTCOME_UNKNOWN = "request_outcome_unknown";
+export const IDEMPOTENCY_KEY_REUSED = "idempotency_key_reused";
+
+// JSON.stringify with sorted object keys, so {a, b} and {b, a} hash the same
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function hashRequest(req: Request): string {
+  return createHash("sha256")
+    .update(`${req.method} ${req.originalUrl}\n${canonicalJson(req.body ?? null)}`)
+    .digest("hex");
+}
+
+/**
+ * Route middleware for requests that move money. When the client sends an
+ * Idempotency-Key header, the first request with that key runs normally and
+ * its response is stored; later requests with the same key get the stored
+ * response replayed instead of moving money again. Reusing a key for a
+ * different request is rejected. Server errors (5xx) are not stored, so the
+ * client can retry them with the same key. A key whose request never
+ * answered, because the process stopped or the response couldn't be stored,
+ * stays taken: it may have moved money, so someone has to check. Keys belong
+ * to the user who sent them, so two users can't collide or see each other's
+ * responses.
+ */
+export async function idempotent(req: Request, res: Response, next: NextFunction) {
+  const key = req.get(HEADER);
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+    res.status(400).json({ message: `${HEADER} must be between 1 and ${MAX_KEY_LENGTH} characters` });
+    return;
+  }
+
+  // Every route taking a key needs a signed in user
+  const scopedKey = `${req.user!.id}:${key}`;
+
+  try {
+    const requestHash = hashRequest(req);
+    const existing = await storage.claimIdempotencyKey(scopedKey, requestHash);
+
+    if (existing) {
+      if (existing.requestHash !== requestHash) {
+        res.status(422).json({
+          message: `${HEADER} has already been used for a different request`,
+          code: IDEMPOTENCY_KEY_REUSED,
+        });
+      } else if (existing.responseStatus === null && existing.createdAt.getTime() < Date.now() - STALE_CLAIM_MS) {
+        res.status(409).json({
+          message: `A request with this ${HEADER} never finished and may or may not have gone through. Check the account's history before sending it again with a new key`,
+          code: REQUEST_OUTCOME_UNKNOWN,
+        });
+      } else if (existing.responseStatus === null) {
+        res.status(409).json({
+          message: `A request with this ${HEADER} is still being processed`,
+          code: REQUEST_IN_PROGRESS,
+        });
+      } else {
+        res.set("Idempotent-Replayed", "true");
+        res.status(existing.responseStatus).json(existing.responseBody);
+      }
+      return;
+    }
+
+    // Store the response before it is sent, so a retry that arrives right
+    // after can never find the key still marked as in progress
+    const originalResJson = res.json;
+    res.json = function (bodyJson) {
+      const saved = res.statusCode >= 500
+        ? storage.releaseIdempotencyKey(scopedKey)
+        : storage.completeIdempotencyKey(scopedKey, res.statusCode, bodyJson);
+
+      saved
+        .catch((error) => log(`Failed to save idempotent response for ${key}: ${error}`))
+        .finally(() => originalResJson.call(res, bodyJson));
+      return res;
+    };
+
+    next();
+  } catch (error) {
+    res.status(500).json({ message: "Failed to check idempotency key" });
+  }
+}
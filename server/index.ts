@@ -1,6 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { startInterestScheduler } from "./interest";
+import { startHoldExpiryScheduler } from "./holds";
+import { startTransferScheduler } from "./scheduled-transfers";
+import { ensureFirstUser } from "./auth";
+import { auditRequests } from "./audit";
 
 const app = express();
 app.use(express.json());
@@ -36,6 +42,9 @@ app.use((req, res, next) => {
   next();
 });
 
+// Every POST, PUT, PATCH and DELETE under /api goes in the audit log
+app.use(auditRequests);
+
 (async () => {
   const server = await registerRoutes(app);
 
@@ -43,7 +52,7 @@ app.use((req, res, next) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
 
-    res.status(status).json({ message });
+    res.status(status).json({ message, code: err.code });
     throw err;
   });
 
@@ -67,5 +76,9 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    ensureFirstUser(storage).catch((error) => log(`couldn't create the first user: ${error}`, "auth"));
+    startInterestScheduler(storage);
+    startHoldExpiryScheduler(storage);
+    startTransferScheduler(storage);
   });
 })();
@@ -0,0 +1,314 @@
+import type {
+  Account,
+  AccountType,
+  InsertInterestRateTier,
+  InterestAccrual,
+  InterestPreview,
+  InterestRateTier,
+  Transaction,
+} from "@shared/schema";
+import { BASE_CURRENCY, convertMoney, MICROS_PER_MINOR, microsToMoney, roundMinor, type Currency, type Micros, type Money } from "@shared/money";
+import type { IStorage } from "./storage";
+import { credit, debit, postJournalEntry } from "./ledger";
+import { isOverdrawn, startOfMonth } from "./account-rules";
+import { chargeFee, OVERDRAFT_DAILY_FEE } from "./fees";
+import { findRate } from "./fx";
+import { log } from "./vite";
+
+// Interest accrues daily on every account whose type has a rate table, in
+// micros, and is paid out once a month as an 'interest' transaction funded
+// from the interest_expense system account.
+//
+// Overdrawn accounts accrue the other way: overdraft interest (as negative
+// micros) plus a flat fee per day, charged once a month as an
+// 'overdraft_interest' transaction into interest_income and a 'fee'.
+
+// Also seeded into Postgres by migrations/manual/0004_interest_rate_tiers.sql
+export const DEFAULT_INTEREST_RATE_TIERS: Partial<Record<AccountType, InsertInterestRateTier[]>> = {
+  savings: [
+    { minBalance: 0, rateBasisPoints: 150 },
+    { minBalance: 1_000_000, rateBasisPoints: 250 },
+    { minBalance: 10_000_000, rateBasisPoints: 350 },
+  ],
+};
+
+// Yearly rate on overdrawn balances
+export const OVERDRAFT_RATE_BASIS_POINTS = 1900;
+
+const BASIS_POINTS_PER_UNIT = 10_000;
+const DAYS_PER_YEAR = 365;
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+export type AccrualRun = { date: string; accrued: number; skipped: number };
+
+/** Formats a date as YYYY-MM-DD in server local time, the key accruals are stored under. */
+export function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** One day's interest on a balance. Each tier's rate applies only to the band of the balance above its minimum. */
+export function dailyInterest(balance: Money, tiers: InterestRateTier[]): Micros {
+  const sorted = [...tiers].sort((a, b) => a.minBalance - b.minBalance);
+
+  let total = 0;
+  sorted.forEach((tier, index) => {
+    const upper = sorted[index + 1]?.minBalance ?? Infinity;
+    const band = Math.min(balance, upper) - tier.minBalance;
+    if (band > 0) {
+      total += (band * MICROS_PER_MINOR * tier.rateBasisPoints) / BASIS_POINTS_PER_UNIT / DAYS_PER_YEAR;
+    }
+  });
+  return roundMinor(total);
+}
+
+/** One day's overdraft interest on a negative balance, as a negative amount. */
+export function dailyOverdraftInterest(balance: Money): Micros {
+  return roundMinor(Math.min(balance, 0) * MICROS_PER_MINOR * OVERDRAFT_RATE_BASIS_POINTS / BASIS_POINTS_PER_UNIT / DAYS_PER_YEAR);
+}
+
+// What one day at a balance of the account's accrues
+function dailyAccrual(account: Account, balance: Money, tiers: InterestRateTier[]): { amountMicros: Micros; feeAmount: Money } {
+  if (isOverdrawn({ ...account, balance })) {
+    return { amountMicros: dailyOverdraftInterest(balance), feeAmount: OVERDRAFT_DAILY_FEE };
+  }
+  return { amountMicros: dailyInterest(balance, tiers), feeAmount: 0 };
+}
+
+// A fee set in the base currency, in the account's at the current rate.
+// Without a rate it isn't charged, rather than holding up every other
+// account's accrual.
+async function feeIn(store: IStorage, fee: Money, currency: Currency): Promise<Money> {
+  const rate = await findRate(store, BASE_CURRENCY, currency);
+  if (rate === undefined) {
+    log(`no ${BASE_CURRENCY} to ${currency} rate, so no overdraft fee accrued`, "interest");
+    return 0;
+  }
+  return convertMoney(fee, rate);
+}
+
+// Each day after `after` (YYYY-MM-DD), up to and including `until`
+function daysAfter(after: string, until: Date): Date[] {
+  const days: Date[] = [];
+  const day = new Date(`${after}T00:00:00`);
+  day.setDate(day.getDate() + 1);
+  while (toDateString(day) <= toDateString(until)) {
+    days.push(new Date(day));
+    day.setDate(day.getDate() + 1);
+  }
+  return days;
+}
+
+// The day before a YYYY-MM-DD date, in the same form
+function dayBefore(date: string): string {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() - 1);
+  return toDateString(day);
+}
+
+// Accruals grouped by calendar month (YYYY-MM), each month paid out separately
+function groupByMonth(accruals: InterestAccrual[]): Map<string, InterestAccrual[]> {
+  const months = new Map<string, InterestAccrual[]>();
+  for (const accrual of accruals) {
+    const month = accrual.accrualDate.slice(0, 7);
+    months.set(month, [...(months.get(month) ?? []), accrual]);
+  }
+  return months;
+}
+
+const sumMicros = (accruals: InterestAccrual[]): Micros =>
+  accruals.reduce((sum, accrual) => sum + accrual.amountMicros, 0);
+
+const sumFees = (accruals: InterestAccrual[]): Money =>
+  accruals.reduce((sum, accrual) => sum + accrual.feeAmount, 0);
+
+/**
+ * Accrues one day's interest on every open account with a rate table, and
+ * overdraft interest and fees on every overdrawn one, on the balance the
+ * account closed the day with.
+ * Re-running it for the same date is harmless: accounts that already have
+ * an accrual for that date are skipped. The date's run is only marked
+ * finished once every account has been through it.
+ */
+export async function accrueDailyInterest(store: IStorage, date: Date): Promise<AccrualRun> {
+  const accrualDate = toDateString(date);
+  const endOfDay = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+  const tiers = await store.getInterestRateTiers();
+  await store.startInterestAccrualRun(accrualDate);
+
+  let accrued = 0;
+  let skipped = 0;
+  for (const account of await store.getAllAccounts()) {
+    if (account.status === 'closed') {
+      continue;
+    }
+
+    // Undefined if the account was opened after the day
+    const balance = await store.getBalanceBefore(account.id, endOfDay);
+    if (balance === undefined) {
+      continue;
+    }
+
+    const accountTiers = tiers.filter((tier) => tier.accountType === account.accountType);
+    const daily = dailyAccrual(account, balance, accountTiers);
+    const amountMicros = daily.amountMicros;
+    const feeAmount = daily.feeAmount > 0 ? await feeIn(store, daily.feeAmount, account.currency) : 0;
+    if (amountMicros === 0 && feeAmount === 0) {
+      continue;
+    }
+
+    const accrual = await store.createInterestAccrual({
+      accountId: account.id,
+      accrualDate,
+      balance,
+      amountMicros,
+      feeAmount,
+    });
+    if (accrual) {
+      accrued++;
+    } else {
+      skipped++;
+    }
+  }
+
+  await store.finishInterestAccrualRun(accrualDate);
+  return { date: accrualDate, accrued, skipped };
+}
+
+/**
+ * Pays out interest accrued in the months before `asOf`'s month, as one
+ * 'interest' transaction per account and month, or charges the month's
+ * overdraft interest and fees. Accruals are marked posted
+ * in the same unit of work, so a second run finds nothing left to pay.
+ * Closed accounts are left until they are reopened.
+ */
+export async function postMonthlyInterest(store: IStorage, asOf: Date = new Date()): Promise<Transaction[]> {
+  const cutoff = toDateString(startOfMonth(asOf));
+  const isDue = (accrual: InterestAccrual) => accrual.accrualDate < cutoff;
+
+  const posted: Transaction[] = [];
+  for (const account of await store.getAllAccounts()) {
+    if (account.status === 'closed' || !(await store.getUnpostedInterestAccruals(account.id)).some(isDue)) {
+      continue;
+    }
+
+    const transactions = await store.runInTransaction([account.accountNumber], async (tx) => {
+      // Re-read under the lock; another run may have paid these already
+      const current = (await tx.getAccount(account.id))!;
+      if (current.status === 'closed') {
+        return [];
+      }
+
+      const due = (await tx.getUnpostedInterestAccruals(account.id)).filter(isDue);
+      const created: Transaction[] = [];
+      for (const [month, accruals] of Array.from(groupByMonth(due))) {
+        const amount = microsToMoney(sumMicros(accruals));
+
+        let transaction: Transaction | undefined;
+        if (amount > 0) {
+          transaction = await tx.createTransaction({
+            type: 'interest',
+            fromAccountId: null,
+            toAccountId: account.id,
+            amount
+          });
+          await postJournalEntry(tx, {
+            transactionId: transaction.id,
+            description: `Interest for ${month} on account ${account.accountNumber}`,
+            lines: [debit("interest_expense", amount), credit(current, amount)],
+          });
+          created.push(transaction);
+        } else if (amount < 0) {
+          transaction = await tx.createTransaction({
+            type: 'overdraft_interest',
+            fromAccountId: account.id,
+            toAccountId: null,
+            amount: -amount
+          });
+          await postJournalEntry(tx, {
+            transactionId: transaction.id,
+            description: `Overdraft interest for ${month} on account ${account.accountNumber}`,
+            lines: [debit(current, -amount), credit("interest_income", -amount)],
+          });
+          created.push(transaction);
+        }
+
+        const fees = sumFees(accruals);
+        if (fees > 0) {
+          const fee = await chargeFee(tx, current, fees, `overdraft in ${month}`);
+          transaction ??= fee;
+          created.push(fee);
+        }
+
+        await tx.markInterestAccrualsPosted(accruals.map((accrual) => accrual.id), transaction?.id ?? null);
+      }
+      return created;
+    });
+    posted.push(...transactions);
+  }
+
+  return posted;
+}
+
+export async function previewInterest(store: IStorage, account: Account): Promise<InterestPreview> {
+  const accruals = await store.getUnpostedInterestAccruals(account.id);
+  const tiers = (await store.getInterestRateTiers()).filter((tier) => tier.accountType === account.accountType);
+
+  return {
+    accountNumber: account.accountNumber,
+    accruedMicros: sumMicros(accruals),
+    accrued: Array.from(groupByMonth(accruals).values()).reduce(
+      (sum, monthAccruals) => sum + microsToMoney(sumMicros(monthAccruals)),
+      0,
+    ),
+    overdraftFees: sumFees(accruals),
+    days: accruals.length,
+    since: accruals[0]?.accrualDate ?? null,
+    dailyMicros: account.status === 'closed' ? 0 : dailyAccrual(account, account.balance, tiers).amountMicros,
+  };
+}
+
+/**
+ * Accrues interest for every day up to yesterday and pays out last month's,
+ * once at startup and then every hour. Days missed while the server was
+ * down are accrued on its next run, counting from the last day whose run
+ * finished, or from the first one that stopped partway. Both steps are
+ * idempotent, so running more often than once a day only costs a few queries.
+ */
+export function startInterestScheduler(store: IStorage): NodeJS.Timeout {
+  // The last day accrued by this process, so later runs don't look back again
+  let accruedThrough: string | undefined;
+
+  const run = async () => {
+    try {
+      const yesterday = new Date();
+      yesterday.setDate(yesterday.getDate() - 1);
+      if (accruedThrough === undefined) {
+        const unfinished = await store.getEarliestUnfinishedInterestAccrualRun();
+        accruedThrough = unfinished !== undefined
+          ? dayBefore(unfinished)
+          : (await store.getLatestFinishedInterestAccrualRun()) ?? dayBefore(toDateString(yesterday));
+      }
+
+      for (const day of daysAfter(accruedThrough, yesterday)) {
+        const accrual = await accrueDailyInterest(store, day);
+        accruedThrough = accrual.date;
+        if (accrual.accrued > 0) {
+          log(`accrued ${accrual.accrued} accounts for ${accrual.date}`, "interest");
+        }
+      }
+
+      // After accruing, so the month's last days are in what it pays out
+      const posted = await postMonthlyInterest(store);
+      if (posted.length > 0) {
+        log(`posted ${posted.length} transactions`, "interest");
+      }
+    } catch (error) {
+      log(`run failed: ${error}`, "interest");
+    }
+  };
+
+  void run();
+  return setInterval(run, SCHEDULER_INTERVAL_MS);
+}
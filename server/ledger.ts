@@ -0,0 +1,127 @@
+import {
+  type Account,
+  type InsertPosting,
+  type JournalEntryWithPostings,
+  type LedgerVerification,
+  type PostingDirection,
+  type SystemAccount,
+} from "@shared/schema";
+import { isMoney, type Money } from "@shared/money";
+import type { IStorage } from "./storage";
+
+export type PostingLine = {
+  account: Account | SystemAccount;
+  direction: PostingDirection;
+  amount: Money;
+};
+
+export const debit = (account: Account | SystemAccount, amount: Money): PostingLine => ({
+  account,
+  direction: "debit",
+  amount,
+});
+
+export const credit = (account: Account | SystemAccount, amount: Money): PostingLine => ({
+  account,
+  direction: "credit",
+  amount,
+});
+
+// Customer accounts are liabilities: credits raise the balance, debits lower it
+export function balanceEffect({ direction, amount }: { direction: PostingDirection; amount: Money }): Money {
+  return direction === "credit" ? amount : -amount;
+}
+
+/**
+ * Writes a balanced journal entry and applies its postings to the balances of
+ * the customer accounts involved. Must be called inside runInTransaction with
+ * those accounts locked.
+ */
+export async function postJournalEntry(
+  tx: IStorage,
+  entry: { transactionId?: string; description: string; lines: PostingLine[] },
+): Promise<JournalEntryWithPostings> {
+  if (entry.lines.length < 2) {
+    throw new Error("A journal entry needs at least two postings");
+  }
+  if (entry.lines.some((line) => !isMoney(line.amount) || line.amount <= 0)) {
+    throw new Error("Posting amounts must be positive whole minor units");
+  }
+
+  const debits = entry.lines.filter((line) => line.direction === "debit").reduce((sum, line) => sum + line.amount, 0);
+  const credits = entry.lines.filter((line) => line.direction === "credit").reduce((sum, line) => sum + line.amount, 0);
+  if (debits !== credits) {
+    throw new Error(`Unbalanced journal entry: debits ${debits} != credits ${credits}`);
+  }
+
+  // Run each customer account's balance forward through the postings, so
+  // every posting records the balance it left behind
+  const balances = new Map<string, { account: Account; balance: Money }>();
+  const insertPostings: InsertPosting[] = [];
+
+  for (const { account, direction, amount } of entry.lines) {
+    if (typeof account === "string") {
+      insertPostings.push({ systemAccount: account, direction, amount });
+      continue;
+    }
+
+    let running = balances.get(account.id);
+    if (!running) {
+      const current = await tx.getAccount(account.id);
+      if (!current) {
+        throw new Error(`Account ${account.id} not found`);
+      }
+      running = { account: current, balance: current.balance };
+      balances.set(account.id, running);
+    }
+
+    running.balance += balanceEffect({ direction, amount });
+    insertPostings.push({ accountId: account.id, direction, amount, balanceAfter: running.balance });
+  }
+
+  const journalEntry = await tx.createJournalEntry(
+    { transactionId: entry.transactionId, description: entry.description },
+    insertPostings,
+  );
+
+  for (const { account, balance } of Array.from(balances.values())) {
+    await tx.updateAccountBalance(account.accountNumber, balance);
+  }
+
+  return journalEntry;
+}
+
+/** Checks that the ledger balances and that every stored balance matches its postings. */
+export async function verifyLedger(store: IStorage): Promise<LedgerVerification> {
+  const totals = await store.getLedgerTotals();
+  const accounts = await store.getAllAccounts();
+
+  const totalDebits = totals.reduce((sum, total) => sum + total.debits, 0);
+  const totalCredits = totals.reduce((sum, total) => sum + total.credits, 0);
+
+  const systemAccounts = totals
+    .filter((total) => total.systemAccount)
+    .map((total) => ({ systemAccount: total.systemAccount!, balance: total.debits - total.credits }));
+
+  const ledgerBalances = new Map(
+    totals
+      .filter((total) => total.accountId)
+      .map((total) => [total.accountId!, total.credits - total.debits]),
+  );
+
+  const mismatches = accounts
+    .map((account) => ({
+      accountNumber: account.accountNumber,
+      balance: account.balance,
+      ledgerBalance: ledgerBalances.get(account.id) ?? 0,
+    }))
+    .filter((account) => account.balance !== account.ledgerBalance);
+
+  return {
+    balanced: totalDebits === totalCredits && mismatches.length === 0,
+    totalDebits,
+    totalCredits,
+    systemAccounts,
+    mismatches,
+  };
+}
@@ -1,15 +1,187 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertAccountSchema } from "@shared/schema";
+import { insertUserSchema, updateUserSchema, twoFactorCodeSchema, openAccountSchema, insertCustomerSchema, updateCustomerSchema, addAccountHolderSchema, accountHistoryQuerySchema, accountStatusChangeSchema, closeAccountSchema, overdraftLimitSchema, accountTypes, interestRateTableSchema, interestAccrualRunSchema, feeRulesSchema, feeQuoteQuerySchema, velocityLimitsSchema, accountVelocityLimitsSchema, auditLogQuerySchema, approvalThresholdsSchema, approvalDecisionSchema, approvalQuerySchema, placeHoldSchema, captureHoldSchema, holdQuerySchema, createScheduledTransferSchema, scheduledTransferQuerySchema, transferBatchSchema, loadFxRatesSchema, fxQuoteQuerySchema, type ApprovalPendingResponse, type DashboardStats, type FxQuote } from "@shared/schema";
+import { formatMoney, formatRate, isMoney, type Currency } from "@shared/money";
+import { INVALID_ACCOUNT_NUMBER, isValidAccountNumber } from "@shared/account-number";
 import { z } from "zod";
 import { deployToGitHub } from "./deploy-to-github";
+import { openAccount, deposit, withdraw, transfer, reverseTransaction, changeAccountStatus, closeAccount, setOverdraftLimit } from "./banking";
+import { verifyLedger } from "./ledger";
+import { idempotent } from "./idempotency";
+import { ApiError } from "./errors";
+import { accrueDailyInterest, postMonthlyInterest, previewInterest } from "./interest";
+import { quoteFee } from "./fees";
+import { getVelocityHeadroom } from "./velocity";
+import { addAccountHolder, getCustomerProfile, removeAccountHolder } from "./customers";
+import { setupAuth, createUser, changeUserRole, toPublicUser, requirePermission, requireTransactionPermission, assertWithinTellerLimit } from "./auth";
+import { approveRequest, needsApproval, rejectRequest, requestApproval } from "./approvals";
+import { captureHold, holdAccountNumber, placeHold, releaseHold } from "./holds";
+import { cancelScheduledTransfer, createScheduledTransfer } from "./scheduled-transfers";
+import { runTransferBatch } from "./transfer-batches";
+import { convertTotals, loadFxRates, requireRate } from "./fx";
+import { startTwoFactorSetup, enableTwoFactor, disableTwoFactor, regenerateRecoveryCodes, resetTwoFactor } from "./two-factor";
+
+// The currency of an account, to show amounts that moved through it in
+async function currencyOf(accountId: string | null): Promise<Currency | undefined> {
+  return accountId ? (await storage.getAccount(accountId))?.currency : undefined;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sign in; every route below needs a signed in user
+  setupAuth(app);
+
+  // A mistyped account number fails its check digit; turn it away before
+  // it is looked up, so it can't be mistaken for some other account
+  app.param("accountNumber", (req, res, next, value: string) => {
+    if (!/^\d+$/.test(value) || !isValidAccountNumber(Number(value))) {
+      res.status(400).json({ message: `${value} is not a valid account number`, code: INVALID_ACCOUNT_NUMBER });
+      return;
+    }
+    next();
+  });
+
+  // Staff users
+  app.get("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get users" });
+    }
+  });
+
+  app.post("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const user = await createUser(storage, insertUserSchema.parse(req.body));
+      res.status(201).json(user);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to create user" });
+      }
+    }
+  });
+
+  app.patch("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const { role } = updateUserSchema.parse(req.body);
+      const user = await changeUserRole(storage, req.params.id, role);
+      res.json(user);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to update user" });
+      }
+    }
+  });
+
+  // An admin turns off two-factor for a user who has lost their device and
+  // recovery codes
+  app.delete("/api/users/:id/two-factor", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const user = await resetTwoFactor(storage, req.params.id);
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to reset two-factor sign in" });
+      }
+    }
+  });
+
+  // The signed in user's own two-factor sign in
+  app.post("/api/user/two-factor/setup", async (req, res) => {
+    try {
+      const setup = await startTwoFactorSetup(storage, req.user!.id);
+      res.json(setup);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to start two-factor setup" });
+      }
+    }
+  });
+
+  app.post("/api/user/two-factor/enable", async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const recoveryCodes = await enableTwoFactor(storage, req.user!.id, code);
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid two-factor code", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to turn on two-factor sign in" });
+      }
+    }
+  });
+
+  app.post("/api/user/two-factor/disable", async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await disableTwoFactor(storage, req.user!.id, code);
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid two-factor code", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to turn off two-factor sign in" });
+      }
+    }
+  });
+
+  app.post("/api/user/two-factor/recovery-codes", async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const recoveryCodes = await regenerateRecoveryCodes(storage, req.user!.id, code);
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid two-factor code", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to replace recovery codes" });
+      }
+    }
+  });
+
+  // The audit log, newest first
+  app.get("/api/audit", requirePermission("audit:read"), async (req, res) => {
+    try {
+      const { accountNumber, ...query } = auditLogQuerySchema.parse(req.query);
+      const page = await storage.getAuditEntries({
+        ...query,
+        subject: accountNumber !== undefined ? `account:${accountNumber}` : undefined,
+      });
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid audit log query", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to get the audit log" });
+      }
+    }
+  });
+
   // Get dashboard stats
   app.get("/api/dashboard/stats", async (req, res) => {
     try {
-      const stats = await storage.getDashboardStats();
+      const totals = await storage.getDashboardStats();
+      const stats: DashboardStats = { ...totals, converted: await convertTotals(storage, totals.byCurrency) };
       res.json(stats);
     } catch (error) {
       res.status(500).json({ message: "Failed to get dashboard stats" });
@@ -27,26 +199,222 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Create account
-  app.post("/api/accounts", async (req, res) => {
+  // Check the ledger balances and agrees with every account balance
+  app.get("/api/ledger/verify", async (req, res) => {
     try {
-      const validatedData = insertAccountSchema.parse(req.body);
-      const account = await storage.createAccount(validatedData);
-      
-      // Create initial transaction record if balance > 0
-      if (account.balance > 0) {
-        await storage.createTransaction({
-          type: 'deposit',
-          toAccountId: account.id,
-          fromAccountId: null,
-          amount: account.balance
-        });
+      const verification = await verifyLedger(storage);
+      res.json(verification);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to verify ledger" });
+    }
+  });
+
+  // Fee rules for withdrawals and transfers
+  app.get("/api/fees/rules", async (req, res) => {
+    try {
+      const rules = await storage.getFeeRules();
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get fee rules" });
+    }
+  });
+
+  app.put("/api/fees/rules", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const { rules } = feeRulesSchema.parse(req.body);
+      const saved = await storage.replaceFeeRules(rules);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid fee rules", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to save fee rules" });
       }
+    }
+  });
+
+  // The fee a withdrawal or transfer would be charged if made now
+  app.get("/api/fees/quote", async (req, res) => {
+    try {
+      const { type, accountNumber, amount } = feeQuoteQuerySchema.parse(req.query);
+      const account = await storage.getAccountByNumber(accountNumber);
+
+      if (!account) {
+        res.status(404).json({ message: `Account ${accountNumber} not found` });
+        return;
+      }
+
+      const quote = await quoteFee(storage, account, type, amount);
+      res.json(quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid fee quote request", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to quote fee" });
+      }
+    }
+  });
+
+  // Velocity limits shared by account type, and the catch-all
+  app.get("/api/velocity-limits", async (req, res) => {
+    try {
+      const limits = await storage.getVelocityLimits();
+      res.json(limits.filter((limit) => limit.accountId === null));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get velocity limits" });
+    }
+  });
+
+  app.put("/api/velocity-limits", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const { limits } = velocityLimitsSchema.parse(req.body);
+      const saved = await storage.replaceVelocityLimits(null, limits);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid velocity limits", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to save velocity limits" });
+      }
+    }
+  });
+
+  // Withdrawals and transfers over these amounts need a second member of staff
+  app.get("/api/approvals/thresholds", async (req, res) => {
+    try {
+      const thresholds = await storage.getApprovalThresholds();
+      res.json(thresholds);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get approval thresholds" });
+    }
+  });
+
+  app.put("/api/approvals/thresholds", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const { thresholds } = approvalThresholdsSchema.parse(req.body);
+      const saved = await storage.replaceApprovalThresholds(thresholds);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid approval thresholds", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to save approval thresholds" });
+      }
+    }
+  });
+
+  // The latest exchange rate for each currency pair
+  app.get("/api/fx-rates", async (req, res) => {
+    try {
+      const rates = await storage.getFxRates();
+      res.json(rates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get exchange rates" });
+    }
+  });
+
+  // Load new rates, typed in or from a rates file; earlier rates are kept
+  app.post("/api/fx-rates", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const request = loadFxRatesSchema.parse(req.body);
+      const saved = await loadFxRates(storage, req.user!, request);
+      res.status(201).json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid exchange rates", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to load exchange rates" });
+      }
+    }
+  });
+
+  // The rate a transfer from one currency to another would convert at now
+  app.get("/api/fx-rates/quote", async (req, res) => {
+    try {
+      const { from, to } = fxQuoteQuerySchema.parse(req.query);
+      const quote: FxQuote = { from, to, rateMicros: await requireRate(storage, from, to) };
+      res.json(quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid exchange rate quote", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to get exchange rate" });
+      }
+    }
+  });
+
+  // Interest rate tables, per account type
+  app.get("/api/interest/rates", async (req, res) => {
+    try {
+      const tiers = await storage.getInterestRateTiers();
+      res.json(tiers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get interest rates" });
+    }
+  });
+
+  app.put("/api/interest/rates/:accountType", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const accountType = z.enum(accountTypes).parse(req.params.accountType);
+      const { tiers } = interestRateTableSchema.parse(req.body);
+      const saved = await storage.replaceInterestRateTiers(accountType, tiers);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid interest rate table", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to save interest rates" });
+      }
+    }
+  });
+
+  // Accrue a day's interest (yesterday by default); re-running a day is a no-op
+  app.post("/api/interest/accrue", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const { date } = interestAccrualRunSchema.parse(req.body ?? {});
+      const day = date ? new Date(`${date}T00:00:00`) : new Date(Date.now() - 24 * 60 * 60 * 1000);
+      const run = await accrueDailyInterest(storage, day);
+      res.json(run);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid accrual run", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to accrue interest" });
+      }
+    }
+  });
+
+  // Pay out interest accrued in previous months, and charge overdraft interest and fees
+  app.post("/api/interest/post", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const transactions = await postMonthlyInterest(storage);
+      res.json({
+        transactions,
+        message: `Posted ${transactions.length} interest transaction${transactions.length === 1 ? "" : "s"}`
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to post interest" });
+      }
+    }
+  });
+
+  // Create account
+  app.post("/api/accounts", requirePermission("accounts:manage"), idempotent, async (req, res) => {
+    try {
+      const validatedData = openAccountSchema.parse(req.body);
+      const account = await openAccount(storage, validatedData);
       
       res.status(201).json(account);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid account data", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
       } else if (error instanceof Error) {
         res.status(400).json({ message: error.message });
       } else {
@@ -55,6 +423,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Customers, optionally filtered by `search` over name, email and phone
+  app.get("/api/customers", async (req, res) => {
+    try {
+      const search = typeof req.query.search === "string" ? req.query.search.trim().toLowerCase() : "";
+      const customers = await storage.getAllCustomers();
+      res.json(
+        search
+          ? customers.filter((customer) =>
+              [customer.name, customer.email, customer.phone].some((field) => field?.toLowerCase().includes(search)),
+            )
+          : customers,
+      );
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get customers" });
+    }
+  });
+
+  app.post("/api/customers", requirePermission("customers:manage"), async (req, res) => {
+    try {
+      const customer = await storage.createCustomer(insertCustomerSchema.parse(req.body));
+      res.status(201).json(customer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid customer data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create customer" });
+      }
+    }
+  });
+
+  // A customer with all of their accounts and the combined balance
+  app.get("/api/customers/:id", async (req, res) => {
+    try {
+      const profile = await getCustomerProfile(storage, req.params.id);
+      res.json(profile);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to get customer" });
+      }
+    }
+  });
+
+  app.patch("/api/customers/:id", requirePermission("customers:manage"), async (req, res) => {
+    try {
+      const changes = updateCustomerSchema.parse(req.body);
+      if (!(await storage.getCustomer(req.params.id))) {
+        res.status(404).json({ message: `Customer ${req.params.id} not found` });
+        return;
+      }
+
+      const customer = await storage.updateCustomer(req.params.id, changes);
+      res.json(customer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid customer data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update customer" });
+      }
+    }
+  });
+
   // Get all accounts
   app.get("/api/accounts", async (req, res) => {
     try {
@@ -82,53 +513,203 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Deposit
-  app.post("/api/accounts/:accountNumber/deposit", async (req, res) => {
+  // The customers who hold an account, primary holder first
+  app.get("/api/accounts/:accountNumber/holders", async (req, res) => {
     try {
       const accountNumber = parseInt(req.params.accountNumber);
-      const { amount } = req.body;
+      const account = await storage.getAccountByNumber(accountNumber);
+
+      if (!account) {
+        res.status(404).json({ message: `Account ${accountNumber} not found` });
+        return;
+      }
+
+      const holders = await storage.getAccountHolders(account.id);
+      res.json(holders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get account holders" });
+    }
+  });
+
+  app.post("/api/accounts/:accountNumber/holders", requirePermission("accounts:manage"), async (req, res) => {
+    try {
+      const accountNumber = parseInt(req.params.accountNumber);
+      const holder = await addAccountHolder(storage, accountNumber, addAccountHolderSchema.parse(req.body));
+      res.status(201).json(holder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid account holder", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to add account holder" });
+      }
+    }
+  });
+
+  app.delete("/api/accounts/:accountNumber/holders/:customerId", requirePermission("accounts:manage"), async (req, res) => {
+    try {
+      const accountNumber = parseInt(req.params.accountNumber);
+      await removeAccountHolder(storage, accountNumber, req.params.customerId);
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to remove account holder" });
+      }
+    }
+  });
+
+  // An account's own velocity limits, which override the shared ones
+  app.get("/api/accounts/:accountNumber/velocity-limits", async (req, res) => {
+    try {
+      const accountNumber = parseInt(req.params.accountNumber);
+      const account = await storage.getAccountByNumber(accountNumber);
 
-      if (!amount || amount <= 0) {
-        res.status(400).json({ message: "Amount must be positive" });
+      if (!account) {
+        res.status(404).json({ message: `Account ${accountNumber} not found` });
         return;
       }
 
+      const limits = await storage.getVelocityLimits();
+      res.json(limits.filter((limit) => limit.accountId === account.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get velocity limits" });
+    }
+  });
+
+  app.put("/api/accounts/:accountNumber/velocity-limits", requirePermission("accounts:manage"), async (req, res) => {
+    try {
+      const accountNumber = parseInt(req.params.accountNumber);
+      const { limits } = accountVelocityLimitsSchema.parse(req.body);
       const account = await storage.getAccountByNumber(accountNumber);
+
       if (!account) {
         res.status(404).json({ message: `Account ${accountNumber} not found` });
         return;
       }
 
-      const newBalance = account.balance + amount;
-      const updatedAccount = await storage.updateAccountBalance(accountNumber, newBalance);
+      const saved = await storage.replaceVelocityLimits(account.id, limits);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid velocity limits", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to save velocity limits" });
+      }
+    }
+  });
 
-      // Record transaction
-      await storage.createTransaction({
-        type: 'deposit',
-        toAccountId: account.id,
-        fromAccountId: null,
-        amount: amount
+  // What the account can still withdraw or transfer out today and this month
+  app.get("/api/accounts/:accountNumber/velocity", async (req, res) => {
+    try {
+      const accountNumber = parseInt(req.params.accountNumber);
+      const account = await storage.getAccountByNumber(accountNumber);
+
+      if (!account) {
+        res.status(404).json({ message: `Account ${accountNumber} not found` });
+        return;
+      }
+
+      const headroom = await getVelocityHeadroom(storage, account);
+      res.json(headroom);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get velocity headroom" });
+    }
+  });
+
+  // Interest accrued on an account but not yet paid out
+  app.get("/api/accounts/:accountNumber/interest", async (req, res) => {
+    try {
+      const accountNumber = parseInt(req.params.accountNumber);
+      const account = await storage.getAccountByNumber(accountNumber);
+
+      if (!account) {
+        res.status(404).json({ message: `Account ${accountNumber} not found` });
+        return;
+      }
+
+      const preview = await previewInterest(storage, account);
+      res.json(preview);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to preview interest" });
+    }
+  });
+
+  // Freeze, unfreeze, mark dormant or reopen an account
+  app.post("/api/accounts/:accountNumber/status", requirePermission("accounts:manage"), async (req, res) => {
+    try {
+      const accountNumber = parseInt(req.params.accountNumber);
+      const change = accountStatusChangeSchema.parse(req.body);
+      const account = await changeAccountStatus(storage, accountNumber, change);
+
+      res.json({
+        account,
+        message: `Account ${accountNumber} is now ${account.status}`
       });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid status change", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to change account status" });
+      }
+    }
+  });
 
-      res.json({ 
-        account: updatedAccount, 
-        message: `Deposit successful! New Balance: $${newBalance.toFixed(2)}`
+  app.put("/api/accounts/:accountNumber/overdraft", requirePermission("accounts:manage"), async (req, res) => {
+    try {
+      const accountNumber = parseInt(req.params.accountNumber);
+      const change = overdraftLimitSchema.parse(req.body);
+      const account = await setOverdraftLimit(storage, accountNumber, change);
+
+      res.json({
+        account,
+        message: `Overdraft limit for account ${accountNumber} is now ${formatMoney(account.overdraftLimit, account.currency)}`
       });
     } catch (error) {
-      res.status(500).json({ message: "Failed to process deposit" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid overdraft limit", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to set overdraft limit" });
+      }
     }
   });
 
-  // Withdraw
-  app.post("/api/accounts/:accountNumber/withdraw", async (req, res) => {
+  // Close an account, sweeping any remaining balance to another account
+  app.post("/api/accounts/:accountNumber/close", requirePermission("accounts:manage"), idempotent, async (req, res) => {
     try {
       const accountNumber = parseInt(req.params.accountNumber);
-      const { amount } = req.body;
+      const request = closeAccountSchema.parse(req.body);
+      const { account, sweep } = await closeAccount(storage, accountNumber, request);
 
-      if (!amount || amount <= 0) {
-        res.status(400).json({ message: "Amount must be positive" });
-        return;
+      res.json({
+        account,
+        sweep,
+        message: sweep
+          ? `Account ${accountNumber} closed! ${formatMoney(sweep.amount, account.currency)} swept to account ${request.sweepToAccountNumber}`
+          : `Account ${accountNumber} closed!`
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid close request", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to close account" });
       }
+    }
+  });
+
+  // Transaction history for one account, newest first, with running balance
+  app.get("/api/accounts/:accountNumber/transactions", async (req, res) => {
+    try {
+      const accountNumber = parseInt(req.params.accountNumber);
+      const { counterparty, ...query } = accountHistoryQuerySchema.parse(req.query);
 
       const account = await storage.getAccountByNumber(accountNumber);
       if (!account) {
@@ -136,86 +717,423 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
 
-      if (account.balance < amount) {
-        res.status(400).json({ message: "Insufficient funds" });
+      let counterpartyAccountId: string | undefined;
+      if (counterparty !== undefined) {
+        const counterpartyAccount = await storage.getAccountByNumber(counterparty);
+        if (!counterpartyAccount) {
+          res.json({ entries: [], nextCursor: null });
+          return;
+        }
+        counterpartyAccountId = counterpartyAccount.id;
+      }
+
+      const page = await storage.getAccountHistory(account.id, { ...query, counterpartyAccountId });
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid history query", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to get account transactions" });
+      }
+    }
+  });
+
+  // Deposit
+  app.post("/api/accounts/:accountNumber/deposit", requireTransactionPermission, idempotent, async (req, res) => {
+    try {
+      const accountNumber = parseInt(req.params.accountNumber);
+      const { amount } = req.body;
+
+      if (!isMoney(amount) || amount <= 0) {
+        res.status(400).json({ message: "Amount must be a positive whole number of cents" });
         return;
       }
 
-      const newBalance = account.balance - amount;
-      const updatedAccount = await storage.updateAccountBalance(accountNumber, newBalance);
+      const { account } = await deposit(storage, accountNumber, amount);
 
-      // Record transaction
-      await storage.createTransaction({
-        type: 'withdraw',
-        fromAccountId: account.id,
-        toAccountId: null,
-        amount: amount
+      res.json({ 
+        account, 
+        message: `Deposit successful! New Balance: ${formatMoney(account.balance, account.currency)}`
       });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to process deposit" });
+      }
+    }
+  });
+
+  // Withdraw
+  app.post("/api/accounts/:accountNumber/withdraw", requireTransactionPermission, idempotent, async (req, res) => {
+    try {
+      const accountNumber = parseInt(req.params.accountNumber);
+      const { amount } = req.body;
+
+      if (!isMoney(amount) || amount <= 0) {
+        res.status(400).json({ message: "Amount must be a positive whole number of cents" });
+        return;
+      }
+
+      if (await needsApproval(storage, 'withdraw', accountNumber, amount)) {
+        const approval = await requestApproval(storage, req.user!, {
+          transactionType: 'withdraw',
+          fromAccountNumber: accountNumber,
+          amount,
+        });
+        const response: ApprovalPendingResponse = {
+          approval,
+          message: `Withdrawal of ${formatMoney(amount, await currencyOf(approval.fromAccountId))} sent for approval`,
+        };
+        res.status(202).json(response);
+        return;
+      }
+
+      const { account, fee } = await withdraw(storage, accountNumber, amount);
 
       res.json({ 
-        account: updatedAccount, 
-        message: `Withdrawal successful! New Balance: $${newBalance.toFixed(2)}`
+        account, 
+        fee,
+        message: `Withdrawal successful!${fee ? ` Fee: ${formatMoney(fee.amount, account.currency)} |` : ""} New Balance: ${formatMoney(account.balance, account.currency)}`
       });
     } catch (error) {
-      res.status(500).json({ message: "Failed to process withdrawal" });
+      if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to process withdrawal" });
+      }
     }
   });
 
   // Transfer
-  app.post("/api/accounts/transfer", async (req, res) => {
+  app.post("/api/accounts/transfer", requireTransactionPermission, idempotent, async (req, res) => {
     try {
       const { fromAccountNumber, toAccountNumber, amount } = req.body;
 
-      if (!amount || amount <= 0) {
-        res.status(400).json({ message: "Amount must be positive" });
+      if (!isMoney(amount) || amount <= 0) {
+        res.status(400).json({ message: "Amount must be a positive whole number of cents" });
         return;
       }
 
-      if (fromAccountNumber === toAccountNumber) {
-        res.status(400).json({ message: "Cannot transfer to the same account" });
+      for (const accountNumber of [fromAccountNumber, toAccountNumber]) {
+        if (!isValidAccountNumber(accountNumber)) {
+          res.status(400).json({ message: `${accountNumber} is not a valid account number`, code: INVALID_ACCOUNT_NUMBER });
+          return;
+        }
+      }
+
+      if (await needsApproval(storage, 'transfer', fromAccountNumber, amount)) {
+        const approval = await requestApproval(storage, req.user!, {
+          transactionType: 'transfer',
+          fromAccountNumber,
+          toAccountNumber,
+          amount,
+        });
+        const response: ApprovalPendingResponse = {
+          approval,
+          message: `Transfer of ${formatMoney(amount, await currencyOf(approval.fromAccountId))} sent for approval`,
+        };
+        res.status(202).json(response);
         return;
       }
 
-      const fromAccount = await storage.getAccountByNumber(fromAccountNumber);
-      const toAccount = await storage.getAccountByNumber(toAccountNumber);
+      const { fromAccount, toAccount, transaction, fee } = await transfer(storage, fromAccountNumber, toAccountNumber, amount);
+      const converted = transaction.toAmount !== null && transaction.fxRateMicros !== null
+        ? ` Converted to ${formatMoney(transaction.toAmount, toAccount.currency)} at ${formatRate(transaction.fxRateMicros)} |`
+        : "";
 
-      if (!fromAccount || !toAccount) {
-        res.status(404).json({ message: "One or both accounts not found" });
+      res.json({ 
+        fromAccount,
+        toAccount,
+        fee,
+        message: `Transfer successful!${converted}${fee ? ` Fee: ${formatMoney(fee.amount, fromAccount.currency)} |` : ""} Sender Balance: ${formatMoney(fromAccount.balance, fromAccount.currency)} | Receiver Balance: ${formatMoney(toAccount.balance, toAccount.currency)}`
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to process transfer" });
+      }
+    }
+  });
+
+  // An account's holds, newest first, optionally only those with one status
+  app.get("/api/accounts/:accountNumber/holds", async (req, res) => {
+    try {
+      const accountNumber = parseInt(req.params.accountNumber);
+      const { status } = holdQuerySchema.parse(req.query);
+      const account = await storage.getAccountByNumber(accountNumber);
+
+      if (!account) {
+        res.status(404).json({ message: `Account ${accountNumber} not found` });
         return;
       }
 
-      if (fromAccount.balance < amount) {
-        res.status(400).json({ message: "Insufficient funds in source account" });
+      res.json(await storage.getAccountHolds(account.id, status));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid holds query", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to get holds" });
+      }
+    }
+  });
+
+  // Reserve money on an account without moving it
+  app.post("/api/accounts/:accountNumber/holds", requireTransactionPermission, idempotent, async (req, res) => {
+    try {
+      const accountNumber = parseInt(req.params.accountNumber);
+      const request = placeHoldSchema.parse(req.body);
+      const hold = await placeHold(storage, req.user!, accountNumber, request);
+
+      res.status(201).json(hold);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid hold", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to place hold" });
+      }
+    }
+  });
+
+  // Capture a hold as a withdrawal, or a transfer when given an account.
+  // Large captures go for approval like any other withdrawal or transfer.
+  app.post("/api/holds/:id/capture", requireTransactionPermission, idempotent, async (req, res) => {
+    try {
+      const { amount, toAccountNumber } = captureHoldSchema.parse(req.body);
+      const hold = await storage.getHold(req.params.id);
+      if (!hold) {
+        res.status(404).json({ message: `Hold ${req.params.id} not found` });
         return;
       }
 
-      // Update balances
-      const newFromBalance = fromAccount.balance - amount;
-      const newToBalance = toAccount.balance + amount;
+      // requireTransactionPermission doesn't know the hold's account
+      const capturedAmount = amount ?? hold.amount;
+      const fromAccountNumber = await holdAccountNumber(storage, hold.id);
+      await assertWithinTellerLimit(storage, req.user!, capturedAmount, (await currencyOf(hold.accountId))!);
 
-      await storage.updateAccountBalance(fromAccountNumber, newFromBalance);
-      await storage.updateAccountBalance(toAccountNumber, newToBalance);
+      const transactionType = toAccountNumber === undefined ? 'withdraw' : 'transfer';
+      if (await needsApproval(storage, transactionType, fromAccountNumber, capturedAmount)) {
+        const approval = await requestApproval(storage, req.user!, {
+          transactionType,
+          fromAccountNumber,
+          toAccountNumber,
+          amount: capturedAmount,
+          holdId: hold.id,
+        });
+        const response: ApprovalPendingResponse = {
+          approval,
+          message: `Capture of ${formatMoney(capturedAmount, await currencyOf(hold.accountId))} sent for approval`,
+        };
+        res.status(202).json(response);
+        return;
+      }
 
-      // Record transaction
-      await storage.createTransaction({
-        type: 'transfer',
-        fromAccountId: fromAccount.id,
-        toAccountId: toAccount.id,
-        amount: amount
+      const result = await captureHold(storage, req.user!, hold.id, { amount, toAccountNumber });
+      const released = hold.amount - capturedAmount;
+      const currency = await currencyOf(hold.accountId);
+
+      res.json({
+        ...result,
+        message: `Hold captured! ${formatMoney(capturedAmount, currency)} ${transactionType === 'transfer' ? "transferred" : "withdrawn"}${released > 0 ? `, ${formatMoney(released, currency)} released` : ""}`
       });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid capture", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to capture hold" });
+      }
+    }
+  });
 
-      res.json({ 
-        fromAccount: { ...fromAccount, balance: newFromBalance },
-        toAccount: { ...toAccount, balance: newToBalance },
-        message: `Transfer successful! Sender Balance: $${newFromBalance.toFixed(2)} | Receiver Balance: $${newToBalance.toFixed(2)}`
+  app.post("/api/holds/:id/release", requirePermission("transactions:create"), async (req, res) => {
+    try {
+      const hold = await releaseHold(storage, req.user!, req.params.id);
+
+      res.json({ hold, message: `Hold released. ${formatMoney(hold.amount, await currencyOf(hold.accountId))} is available again` });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to release hold" });
+      }
+    }
+  });
+
+  // Reverse a transaction with a linked compensating transaction
+  app.post("/api/transactions/:id/reverse", requirePermission("transactions:reverse"), idempotent, async (req, res) => {
+    try {
+      const { original, reversal } = await reverseTransaction(storage, req.params.id);
+
+      res.json({
+        original,
+        reversal,
+        message: `Transaction reversed! ${formatMoney(reversal.amount, await currencyOf(reversal.fromAccountId ?? reversal.toAccountId))} returned`
       });
     } catch (error) {
-      res.status(500).json({ message: "Failed to process transfer" });
+      if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to reverse transaction" });
+      }
+    }
+  });
+
+  // Many transfers out of one account, e.g. payroll. Answers 200 with a
+  // result per line whether or not the lines posted.
+  app.post("/api/transfer-batches", requirePermission("transactions:create"), idempotent, async (req, res) => {
+    try {
+      const batch = transferBatchSchema.parse(req.body);
+
+      // The teller limit applies to the batch as a whole, not line by line
+      const total = batch.lines.reduce((sum, line) => sum + line.amount, 0);
+      const fromAccount = await storage.getAccountByNumber(batch.fromAccountNumber);
+      if (fromAccount) {
+        await assertWithinTellerLimit(storage, req.user!, total, fromAccount.currency, "Batches");
+      }
+
+      res.json(await runTransferBatch(storage, req.user!, batch));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid transfer batch", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to process transfer batch" });
+      }
+    }
+  });
+
+  // Standing orders, soonest due first, optionally for one account
+  app.get("/api/scheduled-transfers", async (req, res) => {
+    try {
+      const { accountNumber, status } = scheduledTransferQuerySchema.parse(req.query);
+      let accountId: string | undefined;
+      if (accountNumber !== undefined) {
+        const account = await storage.getAccountByNumber(accountNumber);
+        if (!account) {
+          res.status(404).json({ message: `Account ${accountNumber} not found` });
+          return;
+        }
+        accountId = account.id;
+      }
+
+      res.json(await storage.getScheduledTransfers({ accountId, status }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid scheduled transfers query", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to get scheduled transfers" });
+      }
+    }
+  });
+
+  // Schedule a transfer for later, once or repeating
+  app.post("/api/scheduled-transfers", requireTransactionPermission, idempotent, async (req, res) => {
+    try {
+      const request = createScheduledTransferSchema.parse(req.body);
+      const schedule = await createScheduledTransfer(storage, req.user!, request);
+
+      res.status(201).json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid scheduled transfer", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to schedule transfer" });
+      }
+    }
+  });
+
+  // Every attempt the scheduler has made at a standing order, newest first
+  app.get("/api/scheduled-transfers/:id/runs", async (req, res) => {
+    try {
+      if (!(await storage.getScheduledTransfer(req.params.id))) {
+        res.status(404).json({ message: `Scheduled transfer ${req.params.id} not found` });
+        return;
+      }
+
+      res.json(await storage.getScheduledTransferRuns(req.params.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get scheduled transfer runs" });
+    }
+  });
+
+  app.post("/api/scheduled-transfers/:id/cancel", requirePermission("transactions:create"), async (req, res) => {
+    try {
+      const schedule = await cancelScheduledTransfer(storage, req.user!, req.params.id);
+
+      res.json({ schedule, message: "Scheduled transfer cancelled" });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to cancel scheduled transfer" });
+      }
+    }
+  });
+
+  // Withdrawals and transfers waiting for approval, or already decided
+  app.get("/api/approvals", async (req, res) => {
+    try {
+      const { status, limit } = approvalQuerySchema.parse(req.query);
+      const requests = await storage.getApprovalRequests(status, limit);
+      res.json(requests);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid approvals query", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to get approval requests" });
+      }
+    }
+  });
+
+  // Approve a request, posting its transaction
+  app.post("/api/approvals/:id/approve", requirePermission("approvals:decide"), idempotent, async (req, res) => {
+    try {
+      const decision = approvalDecisionSchema.parse(req.body);
+      const approval = await approveRequest(storage, req.user!, req.params.id, decision);
+
+      res.json({
+        approval,
+        message: `Approved! ${formatMoney(approval.amount, await currencyOf(approval.fromAccountId))} ${approval.transactionType === 'transfer' ? "transferred" : "withdrawn"}` +
+          (approval.batchLines ? ` in ${approval.batchLines.length} lines` : "")
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid approval", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to approve request" });
+      }
+    }
+  });
+
+  app.post("/api/approvals/:id/reject", requirePermission("approvals:decide"), async (req, res) => {
+    try {
+      const decision = approvalDecisionSchema.parse(req.body);
+      const approval = await rejectRequest(storage, req.user!, req.params.id, decision);
+
+      res.json({ approval, message: `Rejected. ${formatMoney(approval.amount, await currencyOf(approval.fromAccountId))} is no longer held` });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid rejection", errors: error.errors });
+      } else if (error instanceof ApiError) {
+        res.status(error.status).json({ message: error.message, code: error.code });
+      } else {
+        res.status(500).json({ message: "Failed to reject request" });
+      }
     }
   });
 
   // GitHub deployment endpoint
-  app.post("/api/deploy-to-github", async (req, res) => {
+  app.post("/api/deploy-to-github", requirePermission("deploy"), async (req, res) => {
     try {
       const { repoName, description } = req.body;
       
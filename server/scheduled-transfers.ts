@@ -0,0 +1,280 @@
+import type {
+  Account,
+  CreateScheduledTransferRequest,
+  InsertScheduledTransferRun,
+  PublicUser,
+  ScheduledTransfer,
+  ScheduledTransferRun,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { ApiError } from "./errors";
+import { assertStatusAllowsCredit, assertStatusAllowsDebit, assertTypeAllowsDebits } from "./account-rules";
+import { INSUFFICIENT_FUNDS, transfer } from "./banking";
+import { needsApproval, requestApproval } from "./approvals";
+import { toPublicUser } from "./auth";
+import { VELOCITY_LIMIT_EXCEEDED } from "./velocity";
+import { log } from "./vite";
+
+// Standing orders. The scheduler below picks up every active schedule whose
+// nextRunAt has passed and posts that occurrence through transfer(), so it
+// is checked and charged like a transfer made at the counter. Amounts over
+// the approval threshold are sent for approval in the name of whoever set
+// the schedule up. Each attempt is recorded as a run. A missed occurrence
+// is still made, one per scheduler pass, so a schedule catches up after
+// downtime instead of skipping ahead.
+
+export const SCHEDULE_MAX_ATTEMPTS = 3;
+
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+// Failures that can clear up by themselves before the next attempt
+const RETRYABLE_CODES = [INSUFFICIENT_FUNDS, VELOCITY_LIMIT_EXCEEDED];
+
+/** When occurrence `index` (counting from 0) of a schedule is due. */
+export function occurrenceAt(schedule: ScheduledTransfer, index: number): Date {
+  const start = new Date(schedule.startAt);
+  const steps = index * schedule.interval;
+  const [year, month, day] = [start.getFullYear(), start.getMonth(), start.getDate()];
+  const time = [start.getHours(), start.getMinutes(), start.getSeconds(), start.getMilliseconds()] as const;
+
+  switch (schedule.frequency) {
+    case 'once':
+      return start;
+    case 'daily':
+      return new Date(year, month, day + steps, ...time);
+    case 'weekly':
+      return new Date(year, month, day + 7 * steps, ...time);
+    case 'monthly': {
+      // Day 0 of the following month is the last day of this one
+      const lastDay = new Date(year, month + steps + 1, 0).getDate();
+      return new Date(year, month + steps, Math.min(day, lastDay), ...time);
+    }
+  }
+}
+
+// The occurrence after `runCount` have been dealt with, or null if the
+// schedule has run its course
+function nextOccurrence(schedule: ScheduledTransfer, runCount: number): Date | null {
+  if (schedule.frequency === 'once' || (schedule.runLimit !== null && runCount >= schedule.runLimit)) {
+    return null;
+  }
+  const next = occurrenceAt(schedule, runCount);
+  return schedule.endAt && next > schedule.endAt ? null : next;
+}
+
+async function scheduleAccounts(store: IStorage, schedule: ScheduledTransfer): Promise<[Account, Account]> {
+  const fromAccount = await store.getAccount(schedule.fromAccountId);
+  const toAccount = await store.getAccount(schedule.toAccountId);
+  if (!fromAccount || !toAccount) {
+    throw new ApiError(404, "One or both accounts not found");
+  }
+  return [fromAccount, toAccount];
+}
+
+// The accounts a schedule moves money between, read without locks so
+// callers know what to lock
+async function scheduleAccountNumbers(store: IStorage, id: string): Promise<number[]> {
+  const schedule = await store.getScheduledTransfer(id);
+  if (!schedule) {
+    throw new ApiError(404, `Scheduled transfer ${id} not found`);
+  }
+  const [fromAccount, toAccount] = await scheduleAccounts(store, schedule);
+  return [fromAccount.accountNumber, toAccount.accountNumber];
+}
+
+/**
+ * Sets up a standing order. Only checks what can't change by the time it
+ * runs, such as a closed account or a loan as the source; the funds and
+ * limits are checked when each occurrence posts.
+ */
+export async function createScheduledTransfer(
+  store: IStorage,
+  createdBy: PublicUser,
+  { fromAccountNumber, toAccountNumber, amount, description, frequency, interval, startAt, endAt, runLimit }: CreateScheduledTransferRequest,
+): Promise<ScheduledTransfer> {
+  return store.runInTransaction([fromAccountNumber, toAccountNumber], async (tx) => {
+    const fromAccount = await tx.getAccountByNumber(fromAccountNumber);
+    const toAccount = await tx.getAccountByNumber(toAccountNumber);
+    if (!fromAccount || !toAccount) {
+      throw new ApiError(404, "One or both accounts not found");
+    }
+    assertStatusAllowsDebit(fromAccount);
+    assertTypeAllowsDebits(fromAccount);
+    assertStatusAllowsCredit(toAccount);
+
+    return tx.createScheduledTransfer({
+      fromAccountId: fromAccount.id,
+      toAccountId: toAccount.id,
+      amount,
+      description: description || null,
+      frequency,
+      // A one-off transfer has nothing to repeat
+      interval: frequency === 'once' ? 1 : interval,
+      startAt,
+      endAt: frequency === 'once' ? null : endAt ?? null,
+      runLimit: frequency === 'once' ? null : runLimit ?? null,
+      nextRunAt: startAt,
+      createdById: createdBy.id,
+    });
+  });
+}
+
+/** Stops a schedule before its next occurrence. Runs already made stand. */
+export async function cancelScheduledTransfer(store: IStorage, cancelledBy: PublicUser, id: string): Promise<ScheduledTransfer> {
+  const accountNumbers = await scheduleAccountNumbers(store, id);
+  return store.runInTransaction(accountNumbers, async (tx) => {
+    const schedule = await tx.getScheduledTransfer(id);
+    if (!schedule) {
+      throw new ApiError(404, `Scheduled transfer ${id} not found`);
+    }
+    if (schedule.status !== 'active') {
+      throw new ApiError(409, `This scheduled transfer has already been ${schedule.status}`);
+    }
+    return tx.updateScheduledTransfer(id, {
+      status: 'cancelled',
+      nextRunAt: null,
+      cancelledById: cancelledBy.id,
+      cancelledAt: new Date(),
+    });
+  });
+}
+
+// Re-reads the schedule under the locks. Another pass may have run it, or
+// someone cancelled it, since it was picked up.
+async function dueSchedule(tx: IStorage, id: string, now: Date): Promise<ScheduledTransfer | undefined> {
+  const schedule = await tx.getScheduledTransfer(id);
+  if (schedule?.status !== 'active' || !schedule.nextRunAt || schedule.nextRunAt > now) {
+    return undefined;
+  }
+  return schedule;
+}
+
+// Records the final attempt at the current occurrence and moves the
+// schedule on to the next one, completing it if there isn't one
+async function finishOccurrence(
+  tx: IStorage,
+  schedule: ScheduledTransfer,
+  run: Pick<InsertScheduledTransferRun, "status" | "transactionId" | "approvalRequestId" | "message">,
+): Promise<ScheduledTransferRun> {
+  const runCount = schedule.runCount + 1;
+  const nextRunAt = nextOccurrence(schedule, runCount);
+  await tx.updateScheduledTransfer(schedule.id, {
+    runCount,
+    failedAttempts: 0,
+    nextRunAt,
+    status: nextRunAt ? 'active' : 'completed',
+  });
+  return tx.createScheduledTransferRun({
+    ...run,
+    scheduledTransferId: schedule.id,
+    dueAt: occurrenceAt(schedule, schedule.runCount),
+    attempt: schedule.failedAttempts + 1,
+  });
+}
+
+/**
+ * Makes one attempt at a schedule's current occurrence, if it is still due.
+ * A failure is recorded once the attempt has rolled back: funds and
+ * velocity failures are retried later, up to SCHEDULE_MAX_ATTEMPTS, and
+ * anything else gives up on that occurrence. Returns the recorded run.
+ */
+export async function runScheduledTransfer(
+  store: IStorage,
+  id: string,
+  now: Date = new Date(),
+): Promise<ScheduledTransferRun | undefined> {
+  const accountNumbers = await scheduleAccountNumbers(store, id);
+
+  try {
+    return await store.runInTransaction(accountNumbers, async (tx) => {
+      const schedule = await dueSchedule(tx, id, now);
+      if (!schedule) {
+        return undefined;
+      }
+      const [fromAccount, toAccount] = await scheduleAccounts(tx, schedule);
+
+      if (await needsApproval(tx, 'transfer', fromAccount.accountNumber, schedule.amount)) {
+        const createdBy = await tx.getUser(schedule.createdById);
+        if (!createdBy) {
+          throw new ApiError(404, `User ${schedule.createdById} not found`);
+        }
+        const approval = await requestApproval(tx, toPublicUser(createdBy), {
+          transactionType: 'transfer',
+          fromAccountNumber: fromAccount.accountNumber,
+          toAccountNumber: toAccount.accountNumber,
+          amount: schedule.amount,
+        });
+        return finishOccurrence(tx, schedule, { status: 'sent_for_approval', approvalRequestId: approval.id });
+      }
+
+      const { transaction } = await transfer(tx, fromAccount.accountNumber, toAccount.accountNumber, schedule.amount);
+      return finishOccurrence(tx, schedule, { status: 'succeeded', transactionId: transaction.id });
+    });
+  } catch (error) {
+    const retryable = !(error instanceof ApiError) || RETRYABLE_CODES.includes(error.code ?? "");
+    const message = error instanceof ApiError ? error.message : "Unexpected error";
+    if (!(error instanceof ApiError)) {
+      log(`scheduled transfer ${id} failed: ${error}`, "schedules");
+    }
+
+    return store.runInTransaction(accountNumbers, async (tx) => {
+      const schedule = await dueSchedule(tx, id, now);
+      if (!schedule) {
+        return undefined;
+      }
+      const attempt = schedule.failedAttempts + 1;
+      if (!retryable || attempt >= SCHEDULE_MAX_ATTEMPTS) {
+        return finishOccurrence(tx, schedule, { status: 'failed', message });
+      }
+
+      await tx.updateScheduledTransfer(id, {
+        failedAttempts: attempt,
+        nextRunAt: new Date(now.getTime() + RETRY_DELAY_MS),
+      });
+      return tx.createScheduledTransferRun({
+        scheduledTransferId: id,
+        dueAt: occurrenceAt(schedule, schedule.runCount),
+        attempt,
+        status: 'retrying',
+        message,
+      });
+    });
+  }
+}
+
+/**
+ * Attempts every schedule that is due, one at a time, so a failure on one
+ * doesn't hold up the rest. Returns the runs it recorded.
+ */
+export async function runDueTransfers(store: IStorage, now: Date = new Date()): Promise<ScheduledTransferRun[]> {
+  const runs: ScheduledTransferRun[] = [];
+  for (const schedule of await store.getDueScheduledTransfers(now)) {
+    try {
+      const run = await runScheduledTransfer(store, schedule.id, now);
+      if (run) {
+        runs.push(run);
+      }
+    } catch (error) {
+      log(`scheduled transfer ${schedule.id} failed: ${error}`, "schedules");
+    }
+  }
+  return runs;
+}
+
+export function startTransferScheduler(store: IStorage): NodeJS.Timeout {
+  const run = async () => {
+    try {
+      const runs = await runDueTransfers(store);
+      if (runs.length > 0) {
+        const succeeded = runs.filter((r) => r.status === 'succeeded').length;
+        log(`made ${runs.length} scheduled transfer attempts, ${succeeded} succeeded`, "schedules");
+      }
+    } catch (error) {
+      log(`run failed: ${error}`, "schedules");
+    }
+  };
+
+  void run();
+  return setInterval(run, SCHEDULER_INTERVAL_MS);
+}
@@ -0,0 +1,253 @@
+import { createRequire } from "module";
+import { beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import type { AccountType, PublicUser } from "@shared/schema";
+import { isValidAccountNumber } from "@shared/account-number";
+import { MemStorage, type IStorage } from "./storage";
+import { DrizzleStorage } from "./drizzle-storage";
+import type { Database } from "./db";
+import { deposit, openAccount, transfer, withdraw } from "./banking";
+import { verifyLedger } from "./ledger";
+import { placeHold, releaseHold } from "./holds";
+import { approveRequest, DEFAULT_APPROVAL_THRESHOLDS, rejectRequest, requestApproval } from "./approvals";
+import { DEFAULT_FEE_RULES } from "./fees";
+import { DEFAULT_VELOCITY_LIMITS } from "./velocity";
+import { DEFAULT_INTEREST_RATE_TIERS } from "./interest";
+import { toPublicUser } from "./auth";
+
+// The same checks run against both storage backends, so whatever the app
+// sees from MemStorage it also sees from Postgres. Postgres here is PGlite,
+// the real thing compiled to WebAssembly and run in process, with the schema
+// pushed the way `npm run db:push` would.
+
+// drizzle-kit's ESM build can't be loaded from a module; its CommonJS one can
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api");
+
+async function createPostgresStorage(): Promise<IStorage> {
+  const client = new PGlite();
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    await client.exec(statement);
+  }
+  const store = new DrizzleStorage(drizzle({ client, schema }) as unknown as Database);
+
+  // What the migrations in migrations/manual seed, and MemStorage starts with
+  await store.replaceFeeRules(DEFAULT_FEE_RULES);
+  await store.replaceVelocityLimits(null, DEFAULT_VELOCITY_LIMITS);
+  await store.replaceApprovalThresholds(DEFAULT_APPROVAL_THRESHOLDS);
+  for (const [accountType, tiers] of Object.entries(DEFAULT_INTEREST_RATE_TIERS)) {
+    await store.replaceInterestRateTiers(accountType as AccountType, tiers);
+  }
+  return store;
+}
+
+const backends: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DrizzleStorage", createPostgresStorage],
+];
+
+describe.each(backends)("%s", (_, createStorage) => {
+  let store: IStorage;
+  let maker: PublicUser;
+  let checker: PublicUser;
+
+  beforeEach(async () => {
+    store = await createStorage();
+    maker = toPublicUser(await store.createUser({ username: "maker", displayName: "Maker", passwordHash: "x" }));
+    checker = toPublicUser(await store.createUser({ username: "checker", displayName: "Checker", passwordHash: "x", role: "manager" }));
+  }, 30_000);
+
+  const balanceOf = async (accountNumber: number) => (await store.getAccountByNumber(accountNumber))!.balance;
+
+  it("numbers accounts in sequence with a check digit", async () => {
+    const first = await openAccount(store, { name: "First", balance: 0 });
+    const second = await openAccount(store, { name: "Second", balance: 0 });
+
+    expect(isValidAccountNumber(first.accountNumber)).toBe(true);
+    expect(Math.floor(second.accountNumber / 10)).toBe(Math.floor(first.accountNumber / 10) + 1);
+    expect((await store.getAllAccounts()).map((account) => account.name).sort()).toEqual(["First", "Second"]);
+    expect((await store.getAccountHolders(first.id)).map((holder) => [holder.role, holder.customer.name])).toEqual([["primary", "First"]]);
+  });
+
+  it("moves money and keeps the ledger balanced", async () => {
+    const from = await openAccount(store, { name: "From", balance: 100_000 });
+    const to = await openAccount(store, { name: "To", balance: 0 });
+
+    await deposit(store, from.accountNumber, 5_000);
+    await withdraw(store, from.accountNumber, 2_000);
+    const { transaction } = await transfer(store, from.accountNumber, to.accountNumber, 30_000, { reference: "Rent" });
+
+    expect(await balanceOf(from.accountNumber)).toBe(73_000);
+    expect(await balanceOf(to.accountNumber)).toBe(30_000);
+    expect((await store.getJournalEntriesForTransaction(transaction.id))[0].description).toContain("Rent");
+    expect(await store.summarizeDebits(from.id, new Date(0), ["withdraw", "transfer"])).toEqual({ count: 2, total: 32_000 });
+
+    const ledger = await verifyLedger(store);
+    expect(ledger.balanced).toBe(true);
+    expect(ledger.mismatches).toEqual([]);
+  });
+
+  it("pages through history newest first with running balances", async () => {
+    const account = await openAccount(store, { name: "History", balance: 1_000 });
+    for (let i = 1; i <= 5; i++) {
+      await deposit(store, account.accountNumber, i * 100);
+    }
+
+    const seen: (number | null)[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await store.getAccountHistory(account.id, { limit: 2, cursor });
+      expect(page.entries.length).toBeLessThanOrEqual(2);
+      seen.push(...page.entries.map((entry) => entry.balanceAfter));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual([2_500, 2_000, 1_600, 1_300, 1_100, 1_000]);
+    expect(await store.getBalanceBefore(account.id, new Date(Date.now() + 1000))).toBe(2_500);
+    expect(await store.getBalanceBefore(account.id, new Date(0))).toBeUndefined();
+  });
+
+  it("rolls back everything written in a failed unit of work", async () => {
+    const account = await openAccount(store, { name: "Rollback", balance: 10_000 });
+    const rules = await store.getFeeRules();
+
+    await expect(
+      store.runInTransaction([account.accountNumber], async (tx) => {
+        await deposit(tx, account.accountNumber, 5_000);
+        await tx.replaceFeeRules([]);
+        await tx.replaceApprovalThresholds([]);
+        throw new Error("changed my mind");
+      }),
+    ).rejects.toThrow("changed my mind");
+
+    expect(await balanceOf(account.accountNumber)).toBe(10_000);
+    expect((await store.getAccountHistory(account.id, { limit: 10 })).entries).toHaveLength(1);
+    const sortById = <T extends { id: string }>(items: T[]) => [...items].sort((a, b) => a.id.localeCompare(b.id));
+    expect(sortById(await store.getFeeRules())).toEqual(sortById(rules));
+    expect(await store.getApprovalThresholds()).toHaveLength(DEFAULT_APPROVAL_THRESHOLDS.length);
+  });
+
+  it("hands out an idempotency key once, and never again while it is in progress", async () => {
+    expect(await store.claimIdempotencyKey("key", "hash")).toBeUndefined();
+    expect(await store.claimIdempotencyKey("key", "hash")).toMatchObject({ key: "key", responseStatus: null });
+    expect(await store.claimIdempotencyKey("key", "other")).toMatchObject({ requestHash: "hash" });
+
+    await store.completeIdempotencyKey("key", 200, { ok: true });
+    expect(await store.claimIdempotencyKey("key", "hash")).toMatchObject({
+      responseStatus: 200,
+      responseBody: { ok: true },
+    });
+
+    await store.claimIdempotencyKey("released", "hash");
+    await store.releaseIdempotencyKey("released");
+    expect(await store.claimIdempotencyKey("released", "hash")).toBeUndefined();
+  });
+
+  it("uses up each second factor once, even when two sign ins race", async () => {
+    await store.updateUserTwoFactor(maker.id, { totpLastCounter: 10, recoveryCodeHashes: ["a", "b"] });
+
+    expect(await Promise.all([store.useTotpCounter(maker.id, 11), store.useTotpCounter(maker.id, 11)])).toEqual([true, false]);
+    expect(await store.useTotpCounter(maker.id, 10)).toBe(false);
+    expect(await Promise.all([store.useRecoveryCode(maker.id, "a"), store.useRecoveryCode(maker.id, "a")])).toEqual([true, false]);
+    expect(await store.useRecoveryCode(maker.id, "c")).toBe(false);
+
+    expect(await store.getUser(maker.id)).toMatchObject({ totpLastCounter: 11, recoveryCodeHashes: ["b"] });
+  });
+
+  it("keeps held money out of the available balance", async () => {
+    const account = await openAccount(store, { name: "Holds", balance: 10_000 });
+    const hold = await placeHold(store, maker, account.accountNumber, { amount: 4_000, reason: "Card payment" });
+
+    const held = (await store.getAccountByNumber(account.accountNumber))!;
+    expect([held.balance, held.heldAmount, held.availableBalance]).toEqual([10_000, 4_000, 6_000]);
+    await expect(withdraw(store, account.accountNumber, 7_000)).rejects.toThrow("Insufficient funds");
+
+    await releaseHold(store, maker, hold.id);
+    expect((await store.getAccountByNumber(account.accountNumber))!.availableBalance).toBe(10_000);
+    expect(await store.resolveHold(hold.id, { status: "released", resolvedById: maker.id, capturedAmount: null })).toBeUndefined();
+    expect((await store.getAccountHolds(account.id, "released")).map((released) => released.id)).toEqual([hold.id]);
+  });
+
+  it("lists approval requests with their accounts and people", async () => {
+    const from = await openAccount(store, { name: "Payer", balance: 1_000_000 });
+    const to = await openAccount(store, { name: "Payee", balance: 0 });
+    const request = await requestApproval(store, maker, {
+      transactionType: "transfer",
+      fromAccountNumber: from.accountNumber,
+      toAccountNumber: to.accountNumber,
+      amount: 600_000,
+    });
+
+    const [pending] = await store.getApprovalRequests("pending", 10);
+    expect(pending).toMatchObject({
+      id: request.id,
+      amount: 600_000,
+      batchLines: null,
+      fromAccount: { accountNumber: from.accountNumber, name: "Payer" },
+      toAccount: { accountNumber: to.accountNumber, name: "Payee" },
+      requestedBy: { username: "maker" },
+    });
+
+    const approved = await approveRequest(store, checker, request.id, { comment: "Checked" });
+    expect(approved.status).toBe("approved");
+    expect(approved.transactionId).not.toBeNull();
+    expect(await balanceOf(to.accountNumber)).toBe(600_000);
+    expect(await store.decideApprovalRequest(request.id, { status: "rejected", decidedById: checker.id, comment: "Late" })).toBeUndefined();
+    expect((await store.getApprovalRequests("approved", 10))[0].decidedBy).toMatchObject({ username: "checker" });
+  });
+
+  it("keeps a hold whose capture is rejected, and releases one placed for the request", async () => {
+    const account = await openAccount(store, { name: "Card", balance: 1_000_000 });
+    const hold = await placeHold(store, maker, account.accountNumber, { amount: 700_000, reason: "Card payment" });
+    const capture = await requestApproval(store, maker, {
+      transactionType: "withdraw",
+      fromAccountNumber: account.accountNumber,
+      amount: 600_000,
+      holdId: hold.id,
+    });
+    expect(capture).toMatchObject({ holdId: hold.id, capturesHold: true });
+
+    await rejectRequest(store, checker, capture.id, { comment: "Not yet" });
+    expect((await store.getHold(hold.id))!.status).toBe("active");
+    expect((await store.getAccountByNumber(account.accountNumber))!.heldAmount).toBe(700_000);
+
+    await releaseHold(store, maker, hold.id);
+    const withdrawal = await requestApproval(store, maker, {
+      transactionType: "withdraw",
+      fromAccountNumber: account.accountNumber,
+      amount: 600_000,
+    });
+    expect(withdrawal.capturesHold).toBe(false);
+    await rejectRequest(store, checker, withdrawal.id, { comment: "No" });
+    expect((await store.getHold(withdrawal.holdId!))!.status).toBe("released");
+    expect((await store.getAccountByNumber(account.accountNumber))!.heldAmount).toBe(0);
+  });
+
+  it("accrues interest once per account and day", async () => {
+    const account = await openAccount(store, { name: "Savings", balance: 100_000, accountType: "savings" });
+    const accrual = { accountId: account.id, balance: 100_000, amountMicros: 4_109, feeAmount: 0 };
+
+    expect(await store.createInterestAccrual({ ...accrual, accrualDate: "2026-03-01" })).toBeDefined();
+    expect(await store.createInterestAccrual({ ...accrual, accrualDate: "2026-03-01" })).toBeUndefined();
+    await store.createInterestAccrual({ ...accrual, accrualDate: "2026-03-02" });
+
+    expect((await store.getUnpostedInterestAccruals(account.id)).map((unposted) => unposted.accrualDate)).toEqual([
+      "2026-03-01",
+      "2026-03-02",
+    ]);
+  });
+
+  it("tracks which days' accrual runs finished", async () => {
+    expect(await store.getLatestFinishedInterestAccrualRun()).toBeUndefined();
+    for (const date of ["2026-03-01", "2026-03-02", "2026-03-03", "2026-03-04"]) {
+      await store.startInterestAccrualRun(date);
+    }
+    await store.finishInterestAccrualRun("2026-03-01");
+    await store.finishInterestAccrualRun("2026-03-03");
+    await store.startInterestAccrualRun("2026-03-03");
+
+    expect(await store.getEarliestUnfinishedInterestAccrualRun()).toBe("2026-03-02");
+    expect(await store.getLatestFinishedInterestAccrualRun()).toBe("2026-03-03");
+  });
+});
@@ -1,29 +1,413 @@
-import { type Account, type InsertAccount, type Transaction, type InsertTransaction, type TransactionWithDetails, type DashboardStats } from "@shared/schema";
+import { type Account, type InsertAccount, type Transaction, type InsertTransaction, type TransactionWithDetails, type DashboardStats, type CurrencyTotals, type FxRate, type InsertFxRate, type JournalEntry, type InsertJournalEntry, type Posting, type InsertPosting, type JournalEntryWithPostings, type LedgerTotals, type IdempotencyKey, type AccountHistoryEntry, type AccountHistoryFilters, type AccountHistoryPage, type AccountStatus, type AccountStatusReason, type DebitSummary, type AccountType, type InterestRateTier, type InsertInterestRateTier, type InterestAccrual, type InsertInterestAccrual, type InterestAccrualRun, type FeeRule, type InsertFeeRule, type VelocityLimit, type InsertVelocityLimit, type Customer, type InsertCustomer, type UpdateCustomer, type AccountHolder, type InsertAccountHolder, type AccountHolderWithCustomer, type CustomerAccount, type User, type InsertUser, type StaffRole, type UserTwoFactor, type AuditEntry, type InsertAuditEntry, type AuditLogFilters, type AuditLogPage, type ApprovalThreshold, type ApprovalRequest, type InsertApprovalRequest, type ApprovalRequestWithDetails, type ApprovalStatus, type Hold, type InsertHold, type HoldStatus, type ScheduledTransfer, type InsertScheduledTransfer, type ScheduledTransferRun, type InsertScheduledTransferRun, type ScheduledTransferStatus, type ScheduledTransferWithDetails, accountHolderRoles } from "@shared/schema";
+import { type Currency, type Money } from "@shared/money";
+import { FIRST_ACCOUNT_SEQUENCE, withCheckDigit } from "@shared/account-number";
 import { randomUUID } from "crypto";
+import { createDatabase } from "./db";
+import { DrizzleStorage } from "./drizzle-storage";
+import { DEFAULT_INTEREST_RATE_TIERS } from "./interest";
+import { DEFAULT_FEE_RULES } from "./fees";
+import { DEFAULT_VELOCITY_LIMITS } from "./velocity";
+import { DEFAULT_APPROVAL_THRESHOLDS } from "./approvals";
+
+export type ApprovalDecisionRecord = {
+  status: Exclude<ApprovalStatus, "pending">;
+  decidedById: string;
+  comment: string;
+};
+
+export type HoldResolution = {
+  status: Exclude<HoldStatus, "active">;
+  // Null when the hold expired
+  resolvedById: string | null;
+  capturedAmount: Money | null;
+};
+
+export type ScheduledTransferFilters = {
+  // Schedules paying from or into this account
+  accountId?: string;
+  status?: ScheduledTransferStatus;
+};
+
+// What running or cancelling a schedule changes
+export type ScheduledTransferProgress = Partial<
+  Pick<ScheduledTransfer, "runCount" | "failedAttempts" | "nextRunAt" | "status" | "cancelledById" | "cancelledAt">
+>;
+
+// The dashboard figures that come straight from storage; converting them
+// to the base currency needs the exchange rates
+export type DashboardTotals = Omit<DashboardStats, "converted">;
 
 export interface IStorage {
   // Account operations
   getAccount(id: string): Promise<Account | undefined>;
   getAccountByNumber(accountNumber: number): Promise<Account | undefined>;
+  // Allocates an unused account number, check digit included. Numbers are
+  // never handed out twice, even if the account is then not created.
+  nextAccountNumber(): Promise<number>;
   createAccount(account: InsertAccount): Promise<Account>;
-  updateAccountBalance(accountNumber: number, newBalance: number): Promise<Account>;
+  updateAccountBalance(accountNumber: number, newBalance: Money): Promise<Account>;
+  updateAccountHeldAmount(accountNumber: number, heldAmount: Money): Promise<Account>;
+  updateAccountStatus(accountNumber: number, status: AccountStatus, reason: AccountStatusReason): Promise<Account>;
+  updateOverdraftLimit(accountNumber: number, overdraftLimit: Money): Promise<Account>;
   getAllAccounts(): Promise<Account[]>;
+
+  // Customers and the accounts they hold
+  createCustomer(customer: InsertCustomer): Promise<Customer>;
+  getCustomer(id: string): Promise<Customer | undefined>;
+  // Sorted by name
+  getAllCustomers(): Promise<Customer[]>;
+  updateCustomer(id: string, changes: UpdateCustomer): Promise<Customer>;
+  addAccountHolder(holder: InsertAccountHolder): Promise<AccountHolder>;
+  removeAccountHolder(accountId: string, customerId: string): Promise<void>;
+  // Primary holder first, then joint holders, then authorized signers
+  getAccountHolders(accountId: string): Promise<AccountHolderWithCustomer[]>;
+  // Sorted by account number
+  getCustomerAccounts(customerId: string): Promise<CustomerAccount[]>;
   
   // Transaction operations
+  getTransaction(id: string): Promise<Transaction | undefined>;
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
+  // Returns undefined if the transaction is not currently 'posted'
+  markTransactionReversed(id: string, reversedById: string): Promise<Transaction | undefined>;
   getRecentTransactions(limit?: number): Promise<TransactionWithDetails[]>;
+  // Posted transactions of the given types that took money out of the account
+  summarizeDebits(accountId: string, since: Date, types: string[]): Promise<DebitSummary>;
+  // Newest first; `cursor` is the nextCursor of the previous page
+  getAccountHistory(
+    accountId: string,
+    options: AccountHistoryFilters & { cursor?: string; limit: number },
+  ): Promise<AccountHistoryPage>;
+
+  // Ledger operations
+  createJournalEntry(entry: InsertJournalEntry, postings: InsertPosting[]): Promise<JournalEntryWithPostings>;
+  getJournalEntriesForTransaction(transactionId: string): Promise<JournalEntryWithPostings[]>;
+  getLedgerTotals(): Promise<LedgerTotals[]>;
+
+  // Interest. Rate tiers come back sorted by account type and minBalance;
+  // createInterestAccrual returns undefined if the account already has an
+  // accrual for that date.
+  getInterestRateTiers(): Promise<InterestRateTier[]>;
+  replaceInterestRateTiers(accountType: AccountType, tiers: InsertInterestRateTier[]): Promise<InterestRateTier[]>;
+  createInterestAccrual(accrual: InsertInterestAccrual): Promise<InterestAccrual | undefined>;
+  // Oldest first
+  getUnpostedInterestAccruals(accountId: string): Promise<InterestAccrual[]>;
+  markInterestAccrualsPosted(ids: string[], transactionId: string | null): Promise<void>;
+  // Accrual runs. Starting a date's run again leaves it as it was; the
+  // getters return YYYY-MM-DD dates, or undefined if there is no such run
+  startInterestAccrualRun(accrualDate: string): Promise<void>;
+  finishInterestAccrualRun(accrualDate: string): Promise<void>;
+  getEarliestUnfinishedInterestAccrualRun(): Promise<string | undefined>;
+  getLatestFinishedInterestAccrualRun(): Promise<string | undefined>;
+  // The balance after the account's last posting before `before`, or
+  // undefined if it had none by then
+  getBalanceBefore(accountId: string, before: Date): Promise<Money | undefined>;
+
+  // Fee rules
+  getFeeRules(): Promise<FeeRule[]>;
+  replaceFeeRules(rules: InsertFeeRule[]): Promise<FeeRule[]>;
+
+  // Velocity limits. replaceVelocityLimits(null, ...) replaces the
+  // account-type and catch-all limits; with an account id, that account's own.
+  getVelocityLimits(): Promise<VelocityLimit[]>;
+  replaceVelocityLimits(accountId: string | null, limits: InsertVelocityLimit[]): Promise<VelocityLimit[]>;
+
+  // Approval requests for withdrawals and transfers over a threshold. They
+  // come back newest first; decideApprovalRequest returns undefined if the
+  // request is no longer pending.
+  getApprovalThresholds(): Promise<ApprovalThreshold[]>;
+  replaceApprovalThresholds(thresholds: ApprovalThreshold[]): Promise<ApprovalThreshold[]>;
+  createApprovalRequest(request: InsertApprovalRequest): Promise<ApprovalRequest>;
+  getApprovalRequest(id: string): Promise<ApprovalRequest | undefined>;
+  getApprovalRequests(status: ApprovalStatus, limit: number): Promise<ApprovalRequestWithDetails[]>;
+  decideApprovalRequest(id: string, decision: ApprovalDecisionRecord): Promise<ApprovalRequest | undefined>;
+  setApprovalTransaction(id: string, transactionId: string): Promise<ApprovalRequest>;
+  getPendingApprovalForHold(holdId: string): Promise<ApprovalRequest | undefined>;
+
+  // Holds against account balances, newest first. Callers keep the
+  // account's heldAmount in step; resolveHold returns undefined if the hold
+  // is no longer active.
+  createHold(hold: InsertHold): Promise<Hold>;
+  getHold(id: string): Promise<Hold | undefined>;
+  getAccountHolds(accountId: string, status?: HoldStatus): Promise<Hold[]>;
+  // Active holds whose expiry is before `now`, soonest expired first
+  getExpiredHolds(now: Date): Promise<Hold[]>;
+  resolveHold(id: string, resolution: HoldResolution): Promise<Hold | undefined>;
+  setHoldTransaction(id: string, transactionId: string): Promise<Hold>;
+
+  // Scheduled transfers, soonest next run first, then newest. Due ones are
+  // active with a next run at or before `now`. Runs come back newest first.
+  createScheduledTransfer(schedule: InsertScheduledTransfer): Promise<ScheduledTransfer>;
+  getScheduledTransfer(id: string): Promise<ScheduledTransfer | undefined>;
+  getScheduledTransfers(filters: ScheduledTransferFilters): Promise<ScheduledTransferWithDetails[]>;
+  getDueScheduledTransfers(now: Date): Promise<ScheduledTransfer[]>;
+  updateScheduledTransfer(id: string, changes: ScheduledTransferProgress): Promise<ScheduledTransfer>;
+  createScheduledTransferRun(run: InsertScheduledTransferRun): Promise<ScheduledTransferRun>;
+  getScheduledTransferRuns(scheduledTransferId: string): Promise<ScheduledTransferRun[]>;
+
+  // Idempotency keys. claim returns the existing record if the key is
+  // already taken, or undefined once this caller owns it
+  claimIdempotencyKey(key: string, requestHash: string): Promise<IdempotencyKey | undefined>;
+  completeIdempotencyKey(key: string, responseStatus: number, responseBody: unknown): Promise<void>;
+  releaseIdempotencyKey(key: string): Promise<void>;
+
+  // Staff users. Usernames are unique and stored lowercased.
+  createUser(user: InsertUser): Promise<User>;
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  updateUserRole(id: string, role: StaffRole): Promise<User>;
+  updateUserTwoFactor(id: string, changes: Partial<UserTwoFactor>): Promise<User>;
+  // Use up a second factor as one compare-and-set, so two sign ins racing
+  // with the same code can't both get in. Each returns false if the counter
+  // isn't past the last one used, or the recovery code is already gone.
+  useTotpCounter(id: string, counter: number): Promise<boolean>;
+  useRecoveryCode(id: string, codeHash: string): Promise<boolean>;
+  // Sorted by username
+  getAllUsers(): Promise<User[]>;
   
+  // Audit log. Entries can only be added, never changed; they come back
+  // newest first, and `cursor` is the nextCursor of the previous page.
+  appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  getAuditEntries(options: AuditLogFilters & { cursor?: string; limit: number }): Promise<AuditLogPage>;
+
+  // Exchange rates. Loading rates adds to them, and the latest rate for a
+  // pair is the one in force.
+  createFxRates(rates: InsertFxRate[]): Promise<FxRate[]>;
+  getFxRates(): Promise<FxRate[]>;
+  getFxRate(baseCurrency: Currency, quoteCurrency: Currency): Promise<FxRate | undefined>;
+
   // Stats
-  getDashboardStats(): Promise<DashboardStats>;
+  getDashboardStats(): Promise<DashboardTotals>;
+
+  // Unit of work: locks the given accounts, then runs `work` against a
+  // storage handle scoped to the transaction. Everything written through
+  // that handle is committed together, or not at all if `work` throws.
+  runInTransaction<T>(accountNumbers: number[], work: (tx: IStorage) => Promise<T>): Promise<T>;
+}
+
+// Per-key async mutex: each acquire waits for the previous holder's release.
+class KeyedMutex<K> {
+  private tails = new Map<K, Promise<void>>();
+
+  async acquire(key: K): Promise<() => void> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => (release = resolve));
+    const tail = previous.then(() => current);
+    this.tails.set(key, tail);
+
+    await previous;
+    return () => {
+      release();
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    };
+  }
+}
+
+function matchesHistoryFilters(posting: Posting, transaction: Transaction, filters: AccountHistoryFilters): boolean {
+  const { type, from, to, minAmount, maxAmount, counterpartyAccountId } = filters;
+
+  if (type && transaction.type !== type) return false;
+  if (from && posting.createdAt < from) return false;
+  if (to && posting.createdAt >= to) return false;
+  if (minAmount !== undefined && posting.amount < minAmount) return false;
+  if (maxAmount !== undefined && posting.amount > maxAmount) return false;
+  if (
+    counterpartyAccountId &&
+    transaction.fromAccountId !== counterpartyAccountId &&
+    transaction.toAccountId !== counterpartyAccountId
+  ) {
+    return false;
+  }
+  return true;
+}
+
+function matchesAuditFilters(entry: AuditEntry, filters: AuditLogFilters): boolean {
+  const { actor, method, outcome, route, subject, from, to } = filters;
+
+  if (actor && entry.actorUsername !== actor) return false;
+  if (method && entry.method !== method) return false;
+  if (outcome && entry.outcome !== outcome) return false;
+  if (route && !entry.route.toLowerCase().includes(route.toLowerCase())) return false;
+  if (subject && !entry.subjects.includes(subject)) return false;
+  if (from && entry.createdAt < from) return false;
+  if (to && entry.createdAt >= to) return false;
+  return true;
+}
+
+// Column defaults the database would fill in for a fee rule
+function feeRuleDefaults(rule: InsertFeeRule): Omit<FeeRule, "id" | "transactionType" | "kind"> {
+  return {
+    accountType: rule.accountType ?? null,
+    flatFee: rule.flatFee ?? 0,
+    rateBasisPoints: rule.rateBasisPoints ?? 0,
+    waiveAtBalance: rule.waiveAtBalance ?? null,
+    freePerMonth: rule.freePerMonth ?? 0,
+  };
+}
+
+function velocityLimitDefaults(accountId: string | null, limit: InsertVelocityLimit): Omit<VelocityLimit, "id" | "window"> {
+  return {
+    accountId,
+    accountType: accountId === null ? limit.accountType ?? null : null,
+    maxCount: limit.maxCount ?? null,
+    maxAmount: limit.maxAmount ?? null,
+  };
 }
 
 export class MemStorage implements IStorage {
   private accounts: Map<string, Account>;
   private transactions: Map<string, Transaction>;
+  private journalEntries: Map<string, JournalEntry>;
+  private postings: Map<string, Posting>;
+  // Each account's postings in the order they were made, for history pages
+  private postingsByAccount: Map<string, Posting[]>;
+  private idempotencyKeys: Map<string, IdempotencyKey>;
+  private users: Map<string, User>;
+  // Oldest first
+  private auditLog: AuditEntry[];
+  private customers: Map<string, Customer>;
+  // Keyed by `${accountId}:${customerId}`
+  private accountHolders: Map<string, AccountHolder>;
+  private feeRules: Map<string, FeeRule>;
+  private velocityLimits: Map<string, VelocityLimit>;
+  // Keyed by transaction type
+  private approvalThresholds: Map<string, ApprovalThreshold>;
+  private approvalRequests: Map<string, ApprovalRequest>;
+  private holds: Map<string, Hold>;
+  private scheduledTransfers: Map<string, ScheduledTransfer>;
+  // Oldest first
+  private scheduledTransferRuns: ScheduledTransferRun[];
+  // Oldest first
+  private fxRates: FxRate[];
+  private interestRateTiers: Map<string, InterestRateTier>;
+  // Keyed by `${accountId}:${accrualDate}`, at most one accrual per day
+  private interestAccruals: Map<string, InterestAccrual>;
+  private interestAccrualRuns: Map<string, InterestAccrualRun>;
+  private accountLocks: KeyedMutex<number>;
+  // Objects so transaction handles share them, like the maps
+  private accountNumberSequence: { next: number };
+  private postingSequence: { next: number };
+
+  // Only set on handles created by runInTransaction
+  private undoLog?: Array<() => void>;
+  private heldLocks?: Map<number, () => void>;
 
   constructor() {
     this.accounts = new Map();
     this.transactions = new Map();
+    this.journalEntries = new Map();
+    this.postings = new Map();
+    this.postingsByAccount = new Map();
+    this.idempotencyKeys = new Map();
+    this.users = new Map();
+    this.auditLog = [];
+    this.customers = new Map();
+    this.accountHolders = new Map();
+    this.feeRules = new Map();
+    this.velocityLimits = new Map();
+    this.approvalThresholds = new Map();
+    this.approvalRequests = new Map();
+    this.holds = new Map();
+    this.scheduledTransfers = new Map();
+    this.scheduledTransferRuns = [];
+    this.fxRates = [];
+    this.interestRateTiers = new Map();
+    this.interestAccruals = new Map();
+    this.interestAccrualRuns = new Map();
+    this.accountLocks = new KeyedMutex();
+    this.accountNumberSequence = { next: FIRST_ACCOUNT_SEQUENCE };
+    this.postingSequence = { next: 1 };
+
+    for (const rule of DEFAULT_FEE_RULES) {
+      const id = randomUUID();
+      this.feeRules.set(id, { ...rule, id, ...feeRuleDefaults(rule) });
+    }
+    for (const limit of DEFAULT_VELOCITY_LIMITS) {
+      const id = randomUUID();
+      this.velocityLimits.set(id, { ...limit, id, ...velocityLimitDefaults(null, limit) });
+    }
+    for (const threshold of DEFAULT_APPROVAL_THRESHOLDS) {
+      this.approvalThresholds.set(threshold.transactionType, threshold);
+    }
+    for (const [accountType, tiers] of Object.entries(DEFAULT_INTEREST_RATE_TIERS)) {
+      for (const tier of tiers) {
+        const id = randomUUID();
+        this.interestRateTiers.set(id, { ...tier, id, accountType: accountType as AccountType });
+      }
+    }
+  }
+
+  async runInTransaction<T>(accountNumbers: number[], work: (tx: IStorage) => Promise<T>): Promise<T> {
+    // Nested call: take any extra locks, but let the outer call commit
+    if (this.heldLocks) {
+      await this.lockAccounts(accountNumbers);
+      return work(this);
+    }
+
+    const tx = this.forTransaction();
+    try {
+      await tx.lockAccounts(accountNumbers);
+      return await work(tx);
+    } catch (error) {
+      tx.undoLog!.reverse().forEach((undo) => undo());
+      throw error;
+    } finally {
+      tx.heldLocks!.forEach((release) => release());
+    }
+  }
+
+  private forTransaction(): MemStorage {
+    // Shares every map and the lock table with this storage. Built without
+    // the constructor, which would seed a fresh set of defaults to throw away
+    const tx: MemStorage = Object.assign(Object.create(MemStorage.prototype), this);
+    tx.undoLog = [];
+    tx.heldLocks = new Map();
+    return tx;
+  }
+
+  private async lockAccounts(accountNumbers: number[]): Promise<void> {
+    // Always lock in ascending order so two transfers between the same pair
+    // of accounts can't each hold one lock while waiting for the other
+    const pending = Array.from(new Set(accountNumbers))
+      .filter((accountNumber) => !this.heldLocks!.has(accountNumber))
+      .sort((a, b) => a - b);
+
+    for (const accountNumber of pending) {
+      this.heldLocks!.set(accountNumber, await this.accountLocks.acquire(accountNumber));
+    }
+  }
+
+  // Every mutation goes through here so a failed transaction can be rolled back
+  private write<K, V>(map: Map<K, V>, key: K, value: V): void {
+    if (this.undoLog) {
+      const had = map.has(key);
+      const previous = map.get(key);
+      this.undoLog.push(() => (had ? map.set(key, previous as V) : map.delete(key)));
+    }
+    map.set(key, value);
+  }
+
+  private remove<K, V>(map: Map<K, V>, key: K): void {
+    if (this.undoLog && map.has(key)) {
+      const previous = map.get(key) as V;
+      this.undoLog.push(() => map.set(key, previous));
+    }
+    map.delete(key);
+  }
+
+  private removeWhere<K, V>(map: Map<K, V>, predicate: (value: V) => boolean): void {
+    for (const [key, value] of Array.from(map.entries())) {
+      if (predicate(value)) {
+        this.remove(map, key);
+      }
+    }
+  }
+
+  private append<T>(list: T[], item: T): void {
+    this.undoLog?.push(() => list.splice(list.lastIndexOf(item), 1));
+    list.push(item);
   }
 
   async getAccount(id: string): Promise<Account | undefined> {
@@ -36,6 +420,10 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async nextAccountNumber(): Promise<number> {
+    return withCheckDigit(this.accountNumberSequence.next++);
+  }
+
   async createAccount(insertAccount: InsertAccount): Promise<Account> {
     // Check if account number already exists
     const existing = await this.getAccountByNumber(insertAccount.accountNumber);
@@ -48,20 +436,62 @@ export class MemStorage implements IStorage {
       ...insertAccount, 
       id,
       balance: insertAccount.balance ?? 0,
+      heldAmount: 0,
+      // A generated column in Postgres
+      availableBalance: insertAccount.balance ?? 0,
+      accountType: insertAccount.accountType ?? 'checking',
+      currency: insertAccount.currency ?? 'USD',
+      status: 'active',
+      statusReason: null,
+      statusChangedAt: null,
+      overdraftLimit: insertAccount.overdraftLimit ?? 0,
       createdAt: new Date()
     };
-    this.accounts.set(id, account);
+    this.write(this.accounts, id, account);
     return account;
   }
 
-  async updateAccountBalance(accountNumber: number, newBalance: number): Promise<Account> {
+  async updateAccountBalance(accountNumber: number, newBalance: Money): Promise<Account> {
+    const account = await this.getAccountByNumber(accountNumber);
+    if (!account) {
+      throw new Error(`Account ${accountNumber} not found`);
+    }
+
+    const updatedAccount: Account = { ...account, balance: newBalance, availableBalance: newBalance - account.heldAmount };
+    this.write(this.accounts, account.id, updatedAccount);
+    return updatedAccount;
+  }
+
+  async updateAccountHeldAmount(accountNumber: number, heldAmount: Money): Promise<Account> {
+    const account = await this.getAccountByNumber(accountNumber);
+    if (!account) {
+      throw new Error(`Account ${accountNumber} not found`);
+    }
+
+    const updatedAccount: Account = { ...account, heldAmount, availableBalance: account.balance - heldAmount };
+    this.write(this.accounts, account.id, updatedAccount);
+    return updatedAccount;
+  }
+
+  async updateAccountStatus(accountNumber: number, status: AccountStatus, reason: AccountStatusReason): Promise<Account> {
     const account = await this.getAccountByNumber(accountNumber);
     if (!account) {
       throw new Error(`Account ${accountNumber} not found`);
     }
 
-    const updatedAccount = { ...account, balance: newBalance };
-    this.accounts.set(account.id, updatedAccount);
+    const updatedAccount: Account = { ...account, status, statusReason: reason, statusChangedAt: new Date() };
+    this.write(this.accounts, account.id, updatedAccount);
+    return updatedAccount;
+  }
+
+  async updateOverdraftLimit(accountNumber: number, overdraftLimit: Money): Promise<Account> {
+    const account = await this.getAccountByNumber(accountNumber);
+    if (!account) {
+      throw new Error(`Account ${accountNumber} not found`);
+    }
+
+    const updatedAccount: Account = { ...account, overdraftLimit };
+    this.write(this.accounts, account.id, updatedAccount);
     return updatedAccount;
   }
 
@@ -69,6 +499,79 @@ export class MemStorage implements IStorage {
     return Array.from(this.accounts.values()).sort((a, b) => a.accountNumber - b.accountNumber);
   }
 
+  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
+    const id = randomUUID();
+    const customer: Customer = {
+      ...insertCustomer,
+      id,
+      dateOfBirth: insertCustomer.dateOfBirth ?? null,
+      email: insertCustomer.email ?? null,
+      phone: insertCustomer.phone ?? null,
+      address: insertCustomer.address ?? null,
+      createdAt: new Date()
+    };
+    this.write(this.customers, id, customer);
+    return customer;
+  }
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    return this.customers.get(id);
+  }
+
+  async getAllCustomers(): Promise<Customer[]> {
+    return Array.from(this.customers.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async updateCustomer(id: string, changes: UpdateCustomer): Promise<Customer> {
+    const customer = this.customers.get(id);
+    if (!customer) {
+      throw new Error(`Customer ${id} not found`);
+    }
+
+    // Leave out fields the caller didn't send rather than clearing them
+    const defined = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+    const updatedCustomer: Customer = { ...customer, ...defined };
+    this.write(this.customers, id, updatedCustomer);
+    return updatedCustomer;
+  }
+
+  async addAccountHolder(insertHolder: InsertAccountHolder): Promise<AccountHolder> {
+    const key = `${insertHolder.accountId}:${insertHolder.customerId}`;
+    if (this.accountHolders.has(key)) {
+      throw new Error(`Customer ${insertHolder.customerId} already holds account ${insertHolder.accountId}`);
+    }
+
+    const holder: AccountHolder = { ...insertHolder, id: randomUUID(), createdAt: new Date() };
+    this.write(this.accountHolders, key, holder);
+    return holder;
+  }
+
+  async removeAccountHolder(accountId: string, customerId: string): Promise<void> {
+    this.remove(this.accountHolders, `${accountId}:${customerId}`);
+  }
+
+  async getAccountHolders(accountId: string): Promise<AccountHolderWithCustomer[]> {
+    return Array.from(this.accountHolders.values())
+      .filter((holder) => holder.accountId === accountId)
+      .map((holder) => ({ ...holder, customer: this.customers.get(holder.customerId)! }))
+      .sort(
+        (a, b) =>
+          accountHolderRoles.indexOf(a.role) - accountHolderRoles.indexOf(b.role) ||
+          a.createdAt.getTime() - b.createdAt.getTime(),
+      );
+  }
+
+  async getCustomerAccounts(customerId: string): Promise<CustomerAccount[]> {
+    return Array.from(this.accountHolders.values())
+      .filter((holder) => holder.customerId === customerId)
+      .map((holder) => ({ account: this.accounts.get(holder.accountId)!, role: holder.role }))
+      .sort((a, b) => a.account.accountNumber - b.account.accountNumber);
+  }
+
+  async getTransaction(id: string): Promise<Transaction | undefined> {
+    return this.transactions.get(id);
+  }
+
   async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
     const id = randomUUID();
     const transaction: Transaction = {
@@ -76,12 +579,28 @@ export class MemStorage implements IStorage {
       id,
       fromAccountId: insertTransaction.fromAccountId ?? null,
       toAccountId: insertTransaction.toAccountId ?? null,
+      status: insertTransaction.status ?? 'posted',
+      reversalOfId: insertTransaction.reversalOfId ?? null,
+      reversedById: insertTransaction.reversedById ?? null,
+      toAmount: insertTransaction.toAmount ?? null,
+      fxRateMicros: insertTransaction.fxRateMicros ?? null,
       createdAt: new Date()
     };
-    this.transactions.set(id, transaction);
+    this.write(this.transactions, id, transaction);
     return transaction;
   }
 
+  async markTransactionReversed(id: string, reversedById: string): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(id);
+    if (!transaction || transaction.status !== 'posted') {
+      return undefined;
+    }
+
+    const updatedTransaction: Transaction = { ...transaction, status: 'reversed', reversedById };
+    this.write(this.transactions, id, updatedTransaction);
+    return updatedTransaction;
+  }
+
   async getRecentTransactions(limit: number = 10): Promise<TransactionWithDetails[]> {
     const transactions = Array.from(this.transactions.values())
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
@@ -90,57 +609,681 @@ export class MemStorage implements IStorage {
     const transactionsWithDetails: TransactionWithDetails[] = [];
 
     for (const transaction of transactions) {
-      const transactionWithDetails: TransactionWithDetails = { ...transaction };
-
-      if (transaction.fromAccountId) {
-        const fromAccount = await this.getAccount(transaction.fromAccountId);
-        if (fromAccount) {
-          transactionWithDetails.fromAccount = {
-            accountNumber: fromAccount.accountNumber,
-            name: fromAccount.name
-          };
-        }
+      transactionsWithDetails.push(await this.withDetails(transaction));
+    }
+
+    return transactionsWithDetails;
+  }
+
+  async summarizeDebits(accountId: string, since: Date, types: string[]): Promise<DebitSummary> {
+    const debits = Array.from(this.transactions.values()).filter(
+      (t) => t.fromAccountId === accountId && t.status === 'posted' && types.includes(t.type) && t.createdAt >= since,
+    );
+
+    return {
+      count: debits.length,
+      total: debits.reduce((sum, t) => sum + t.amount, 0)
+    };
+  }
+
+  private async withDetails(transaction: Transaction): Promise<TransactionWithDetails> {
+    const transactionWithDetails: TransactionWithDetails = { ...transaction };
+
+    if (transaction.fromAccountId) {
+      const fromAccount = await this.getAccount(transaction.fromAccountId);
+      if (fromAccount) {
+        transactionWithDetails.fromAccount = {
+          accountNumber: fromAccount.accountNumber,
+          name: fromAccount.name,
+          currency: fromAccount.currency
+        };
+      }
+    }
+
+    if (transaction.toAccountId) {
+      const toAccount = await this.getAccount(transaction.toAccountId);
+      if (toAccount) {
+        transactionWithDetails.toAccount = {
+          accountNumber: toAccount.accountNumber,
+          name: toAccount.name,
+          currency: toAccount.currency
+        };
+      }
+    }
+
+    return transactionWithDetails;
+  }
+
+  async getAccountHistory(
+    accountId: string,
+    { cursor, limit, ...filters }: AccountHistoryFilters & { cursor?: string; limit: number },
+  ): Promise<AccountHistoryPage> {
+    const accountPostings = this.postingsByAccount.get(accountId) ?? [];
+
+    // Walk backwards from just before the cursor, newest first
+    let index = accountPostings.length - 1;
+    if (cursor) {
+      while (index >= 0 && accountPostings[index].id !== cursor) index--;
+      index--;
+    }
+
+    const entries: AccountHistoryEntry[] = [];
+    let nextCursor: string | null = null;
+
+    for (; index >= 0; index--) {
+      const posting = accountPostings[index];
+      const entry = this.journalEntries.get(posting.journalEntryId);
+      const transaction = entry?.transactionId ? this.transactions.get(entry.transactionId) : undefined;
+      if (!transaction || !matchesHistoryFilters(posting, transaction, filters)) {
+        continue;
       }
 
-      if (transaction.toAccountId) {
-        const toAccount = await this.getAccount(transaction.toAccountId);
-        if (toAccount) {
-          transactionWithDetails.toAccount = {
-            accountNumber: toAccount.accountNumber,
-            name: toAccount.name
-          };
+      if (entries.length === limit) {
+        nextCursor = entries[entries.length - 1].postingId;
+        break;
+      }
+      entries.push({
+        ...(await this.withDetails(transaction)),
+        postingId: posting.id,
+        direction: posting.direction,
+        balanceAfter: posting.balanceAfter
+      });
+    }
+
+    return { entries, nextCursor };
+  }
+
+  async createJournalEntry(insertEntry: InsertJournalEntry, insertPostings: InsertPosting[]): Promise<JournalEntryWithPostings> {
+    const createdAt = new Date();
+    const entry: JournalEntry = {
+      id: randomUUID(),
+      transactionId: insertEntry.transactionId ?? null,
+      description: insertEntry.description,
+      createdAt
+    };
+    this.write(this.journalEntries, entry.id, entry);
+
+    const postings = insertPostings.map((insertPosting): Posting => ({
+      id: randomUUID(),
+      journalEntryId: entry.id,
+      accountId: insertPosting.accountId ?? null,
+      systemAccount: insertPosting.systemAccount ?? null,
+      direction: insertPosting.direction,
+      amount: insertPosting.amount,
+      balanceAfter: insertPosting.balanceAfter ?? null,
+      seq: this.postingSequence.next++,
+      createdAt
+    }));
+
+    for (const posting of postings) {
+      this.write(this.postings, posting.id, posting);
+      if (posting.accountId) {
+        if (!this.postingsByAccount.has(posting.accountId)) {
+          this.write(this.postingsByAccount, posting.accountId, []);
         }
+        this.append(this.postingsByAccount.get(posting.accountId)!, posting);
       }
+    }
+
+    return { ...entry, postings };
+  }
+
+  async getJournalEntriesForTransaction(transactionId: string): Promise<JournalEntryWithPostings[]> {
+    const postings = Array.from(this.postings.values());
+
+    return Array.from(this.journalEntries.values())
+      .filter((entry) => entry.transactionId === transactionId)
+      .map((entry) => ({
+        ...entry,
+        postings: postings.filter((posting) => posting.journalEntryId === entry.id)
+      }));
+  }
+
+  async getLedgerTotals(): Promise<LedgerTotals[]> {
+    const totals = new Map<string, LedgerTotals>();
 
-      transactionsWithDetails.push(transactionWithDetails);
+    for (const posting of Array.from(this.postings.values())) {
+      const key = posting.accountId ?? `system:${posting.systemAccount}`;
+      const total = totals.get(key) ?? {
+        accountId: posting.accountId,
+        systemAccount: posting.systemAccount,
+        debits: 0,
+        credits: 0
+      };
+      if (posting.direction === 'debit') {
+        total.debits += posting.amount;
+      } else {
+        total.credits += posting.amount;
+      }
+      totals.set(key, total);
     }
 
-    return transactionsWithDetails;
+    return Array.from(totals.values());
   }
 
-  async getDashboardStats(): Promise<DashboardStats> {
+  async getFeeRules(): Promise<FeeRule[]> {
+    return Array.from(this.feeRules.values());
+  }
+
+  async replaceFeeRules(rules: InsertFeeRule[]): Promise<FeeRule[]> {
+    this.removeWhere(this.feeRules, () => true);
+    const created = rules.map((rule): FeeRule => ({ ...rule, id: randomUUID(), ...feeRuleDefaults(rule) }));
+    created.forEach((rule) => this.write(this.feeRules, rule.id, rule));
+    return created;
+  }
+
+  async getVelocityLimits(): Promise<VelocityLimit[]> {
+    return Array.from(this.velocityLimits.values());
+  }
+
+  async replaceVelocityLimits(accountId: string | null, limits: InsertVelocityLimit[]): Promise<VelocityLimit[]> {
+    this.removeWhere(this.velocityLimits, (limit) => limit.accountId === accountId);
+
+    const created = limits.map((limit): VelocityLimit => ({
+      ...limit,
+      id: randomUUID(),
+      ...velocityLimitDefaults(accountId, limit),
+    }));
+    created.forEach((limit) => this.write(this.velocityLimits, limit.id, limit));
+    return created;
+  }
+
+  async getApprovalThresholds(): Promise<ApprovalThreshold[]> {
+    return Array.from(this.approvalThresholds.values());
+  }
+
+  async replaceApprovalThresholds(thresholds: ApprovalThreshold[]): Promise<ApprovalThreshold[]> {
+    this.removeWhere(this.approvalThresholds, () => true);
+    thresholds.forEach((threshold) => this.write(this.approvalThresholds, threshold.transactionType, threshold));
+    return thresholds;
+  }
+
+  async createApprovalRequest(insertRequest: InsertApprovalRequest): Promise<ApprovalRequest> {
+    const id = randomUUID();
+    const request: ApprovalRequest = {
+      ...insertRequest,
+      id,
+      toAccountId: insertRequest.toAccountId ?? null,
+      batchLines: insertRequest.batchLines ?? null,
+      status: 'pending',
+      requestedAt: new Date(),
+      decidedById: null,
+      decidedAt: null,
+      comment: null,
+      transactionId: null,
+      holdId: insertRequest.holdId ?? null,
+      capturesHold: insertRequest.capturesHold ?? false,
+    };
+    this.write(this.approvalRequests, id, request);
+    return request;
+  }
+
+  async getApprovalRequest(id: string): Promise<ApprovalRequest | undefined> {
+    return this.approvalRequests.get(id);
+  }
+
+  async getApprovalRequests(status: ApprovalStatus, limit: number): Promise<ApprovalRequestWithDetails[]> {
+    const requests = Array.from(this.approvalRequests.values())
+      .filter((request) => request.status === status)
+      .sort((a, b) => b.requestedAt.getTime() - a.requestedAt.getTime())
+      .slice(0, limit);
+
+    const accountDetails = (account?: Account) => account && { accountNumber: account.accountNumber, name: account.name, currency: account.currency };
+    const userDetails = (user?: User) => user && { username: user.username, displayName: user.displayName };
+
+    return requests.map((request): ApprovalRequestWithDetails => ({
+      ...request,
+      fromAccount: accountDetails(this.accounts.get(request.fromAccountId)),
+      toAccount: request.toAccountId ? accountDetails(this.accounts.get(request.toAccountId)) : undefined,
+      requestedBy: userDetails(this.users.get(request.requestedById)),
+      decidedBy: request.decidedById ? userDetails(this.users.get(request.decidedById)) : undefined,
+    }));
+  }
+
+  async decideApprovalRequest(id: string, decision: ApprovalDecisionRecord): Promise<ApprovalRequest | undefined> {
+    const request = this.approvalRequests.get(id);
+    if (!request || request.status !== 'pending') {
+      return undefined;
+    }
+
+    const decided: ApprovalRequest = { ...request, ...decision, decidedAt: new Date() };
+    this.write(this.approvalRequests, id, decided);
+    return decided;
+  }
+
+  async setApprovalTransaction(id: string, transactionId: string): Promise<ApprovalRequest> {
+    const request = this.approvalRequests.get(id);
+    if (!request) {
+      throw new Error(`Approval request ${id} not found`);
+    }
+
+    const updated: ApprovalRequest = { ...request, transactionId };
+    this.write(this.approvalRequests, id, updated);
+    return updated;
+  }
+
+  async getPendingApprovalForHold(holdId: string): Promise<ApprovalRequest | undefined> {
+    return Array.from(this.approvalRequests.values()).find(
+      (request) => request.holdId === holdId && request.status === 'pending',
+    );
+  }
+
+  async createHold(insertHold: InsertHold): Promise<Hold> {
+    const id = randomUUID();
+    const hold: Hold = {
+      ...insertHold,
+      id,
+      status: 'active',
+      expiresAt: insertHold.expiresAt ?? null,
+      createdAt: new Date(),
+      resolvedById: null,
+      resolvedAt: null,
+      capturedAmount: null,
+      transactionId: null,
+    };
+    this.write(this.holds, id, hold);
+    return hold;
+  }
+
+  async getHold(id: string): Promise<Hold | undefined> {
+    return this.holds.get(id);
+  }
+
+  async getAccountHolds(accountId: string, status?: HoldStatus): Promise<Hold[]> {
+    return Array.from(this.holds.values())
+      .filter((hold) => hold.accountId === accountId && (!status || hold.status === status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getExpiredHolds(now: Date): Promise<Hold[]> {
+    return Array.from(this.holds.values())
+      .filter((hold) => hold.status === 'active' && hold.expiresAt && hold.expiresAt < now)
+      .sort((a, b) => a.expiresAt!.getTime() - b.expiresAt!.getTime());
+  }
+
+  async resolveHold(id: string, resolution: HoldResolution): Promise<Hold | undefined> {
+    const hold = this.holds.get(id);
+    if (!hold || hold.status !== 'active') {
+      return undefined;
+    }
+
+    const resolved: Hold = { ...hold, ...resolution, resolvedAt: new Date() };
+    this.write(this.holds, id, resolved);
+    return resolved;
+  }
+
+  async setHoldTransaction(id: string, transactionId: string): Promise<Hold> {
+    const hold = this.holds.get(id);
+    if (!hold) {
+      throw new Error(`Hold ${id} not found`);
+    }
+
+    const updated: Hold = { ...hold, transactionId };
+    this.write(this.holds, id, updated);
+    return updated;
+  }
+
+  async createScheduledTransfer(insertSchedule: InsertScheduledTransfer): Promise<ScheduledTransfer> {
+    const id = randomUUID();
+    const schedule: ScheduledTransfer = {
+      ...insertSchedule,
+      id,
+      description: insertSchedule.description ?? null,
+      interval: insertSchedule.interval ?? 1,
+      endAt: insertSchedule.endAt ?? null,
+      runLimit: insertSchedule.runLimit ?? null,
+      runCount: 0,
+      failedAttempts: 0,
+      nextRunAt: insertSchedule.nextRunAt ?? null,
+      status: 'active',
+      createdAt: new Date(),
+      cancelledById: null,
+      cancelledAt: null,
+    };
+    this.write(this.scheduledTransfers, id, schedule);
+    return schedule;
+  }
+
+  async getScheduledTransfer(id: string): Promise<ScheduledTransfer | undefined> {
+    return this.scheduledTransfers.get(id);
+  }
+
+  async getScheduledTransfers({ accountId, status }: ScheduledTransferFilters): Promise<ScheduledTransferWithDetails[]> {
+    const schedules = Array.from(this.scheduledTransfers.values())
+      .filter((schedule) =>
+        (!accountId || schedule.fromAccountId === accountId || schedule.toAccountId === accountId) &&
+        (!status || schedule.status === status),
+      )
+      .sort((a, b) =>
+        (a.nextRunAt?.getTime() ?? Infinity) - (b.nextRunAt?.getTime() ?? Infinity) ||
+        b.createdAt.getTime() - a.createdAt.getTime(),
+      );
+
+    const accountDetails = (account?: Account) => account && { accountNumber: account.accountNumber, name: account.name, currency: account.currency };
+    const creator = (user?: User) => user && { username: user.username, displayName: user.displayName };
+
+    return schedules.map((schedule): ScheduledTransferWithDetails => ({
+      ...schedule,
+      fromAccount: accountDetails(this.accounts.get(schedule.fromAccountId)),
+      toAccount: accountDetails(this.accounts.get(schedule.toAccountId)),
+      createdBy: creator(this.users.get(schedule.createdById)),
+    }));
+  }
+
+  async getDueScheduledTransfers(now: Date): Promise<ScheduledTransfer[]> {
+    return Array.from(this.scheduledTransfers.values())
+      .filter((schedule) => schedule.status === 'active' && schedule.nextRunAt && schedule.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt!.getTime() - b.nextRunAt!.getTime());
+  }
+
+  async updateScheduledTransfer(id: string, changes: ScheduledTransferProgress): Promise<ScheduledTransfer> {
+    const schedule = this.scheduledTransfers.get(id);
+    if (!schedule) {
+      throw new Error(`Scheduled transfer ${id} not found`);
+    }
+
+    const updated: ScheduledTransfer = { ...schedule, ...changes };
+    this.write(this.scheduledTransfers, id, updated);
+    return updated;
+  }
+
+  async createScheduledTransferRun(insertRun: InsertScheduledTransferRun): Promise<ScheduledTransferRun> {
+    const run: ScheduledTransferRun = {
+      ...insertRun,
+      id: randomUUID(),
+      transactionId: insertRun.transactionId ?? null,
+      approvalRequestId: insertRun.approvalRequestId ?? null,
+      message: insertRun.message ?? null,
+      createdAt: new Date(),
+    };
+    this.append(this.scheduledTransferRuns, run);
+    return run;
+  }
+
+  async getScheduledTransferRuns(scheduledTransferId: string): Promise<ScheduledTransferRun[]> {
+    return this.scheduledTransferRuns.filter((run) => run.scheduledTransferId === scheduledTransferId).reverse();
+  }
+
+  async createFxRates(insertRates: InsertFxRate[]): Promise<FxRate[]> {
+    const createdAt = new Date();
+    return insertRates.map((insertRate) => {
+      const rate: FxRate = { ...insertRate, id: randomUUID(), createdById: insertRate.createdById ?? null, createdAt };
+      this.append(this.fxRates, rate);
+      return rate;
+    });
+  }
+
+  async getFxRates(): Promise<FxRate[]> {
+    const latest = new Map<string, FxRate>();
+    for (const rate of this.fxRates) {
+      latest.set(`${rate.baseCurrency}:${rate.quoteCurrency}`, rate);
+    }
+    return Array.from(latest.values()).sort(
+      (a, b) => a.baseCurrency.localeCompare(b.baseCurrency) || a.quoteCurrency.localeCompare(b.quoteCurrency),
+    );
+  }
+
+  async getFxRate(baseCurrency: Currency, quoteCurrency: Currency): Promise<FxRate | undefined> {
+    return this.fxRates.findLast((rate) => rate.baseCurrency === baseCurrency && rate.quoteCurrency === quoteCurrency);
+  }
+
+  async getInterestRateTiers(): Promise<InterestRateTier[]> {
+    return Array.from(this.interestRateTiers.values()).sort(
+      (a, b) => a.accountType.localeCompare(b.accountType) || a.minBalance - b.minBalance,
+    );
+  }
+
+  async replaceInterestRateTiers(accountType: AccountType, tiers: InsertInterestRateTier[]): Promise<InterestRateTier[]> {
+    this.removeWhere(this.interestRateTiers, (tier) => tier.accountType === accountType);
+
+    const created = tiers.map((tier): InterestRateTier => ({ ...tier, id: randomUUID(), accountType }));
+    created.forEach((tier) => this.write(this.interestRateTiers, tier.id, tier));
+    return created.sort((a, b) => a.minBalance - b.minBalance);
+  }
+
+  async createInterestAccrual(insertAccrual: InsertInterestAccrual): Promise<InterestAccrual | undefined> {
+    const key = `${insertAccrual.accountId}:${insertAccrual.accrualDate}`;
+    if (this.interestAccruals.has(key)) {
+      return undefined;
+    }
+
+    const accrual: InterestAccrual = {
+      ...insertAccrual,
+      id: randomUUID(),
+      feeAmount: insertAccrual.feeAmount ?? 0,
+      postedAt: null,
+      transactionId: null,
+      createdAt: new Date()
+    };
+    this.write(this.interestAccruals, key, accrual);
+    return accrual;
+  }
+
+  async getUnpostedInterestAccruals(accountId: string): Promise<InterestAccrual[]> {
+    return Array.from(this.interestAccruals.values())
+      .filter((accrual) => accrual.accountId === accountId && !accrual.postedAt)
+      .sort((a, b) => a.accrualDate.localeCompare(b.accrualDate));
+  }
+
+  async markInterestAccrualsPosted(ids: string[], transactionId: string | null): Promise<void> {
+    const postedAt = new Date();
+    for (const [key, accrual] of Array.from(this.interestAccruals)) {
+      if (ids.includes(accrual.id)) {
+        this.write(this.interestAccruals, key, { ...accrual, postedAt, transactionId });
+      }
+    }
+  }
+
+  async startInterestAccrualRun(accrualDate: string): Promise<void> {
+    if (!this.interestAccrualRuns.has(accrualDate)) {
+      this.write(this.interestAccrualRuns, accrualDate, { accrualDate, startedAt: new Date(), finishedAt: null });
+    }
+  }
+
+  async finishInterestAccrualRun(accrualDate: string): Promise<void> {
+    const run = this.interestAccrualRuns.get(accrualDate);
+    if (run) {
+      this.write(this.interestAccrualRuns, accrualDate, { ...run, finishedAt: new Date() });
+    }
+  }
+
+  async getEarliestUnfinishedInterestAccrualRun(): Promise<string | undefined> {
+    return Array.from(this.interestAccrualRuns.values())
+      .filter((run) => !run.finishedAt)
+      .map((run) => run.accrualDate)
+      .sort()[0];
+  }
+
+  async getLatestFinishedInterestAccrualRun(): Promise<string | undefined> {
+    return Array.from(this.interestAccrualRuns.values())
+      .filter((run) => run.finishedAt)
+      .map((run) => run.accrualDate)
+      .sort()
+      .at(-1);
+  }
+
+  async getBalanceBefore(accountId: string, before: Date): Promise<Money | undefined> {
+    const posting = this.postingsByAccount.get(accountId)?.findLast((posting) => posting.createdAt < before);
+    return posting?.balanceAfter ?? undefined;
+  }
+
+  async claimIdempotencyKey(key: string, requestHash: string): Promise<IdempotencyKey | undefined> {
+    const existing = this.idempotencyKeys.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    this.write(this.idempotencyKeys, key, {
+      key,
+      requestHash,
+      responseStatus: null,
+      responseBody: null,
+      createdAt: new Date()
+    });
+    return undefined;
+  }
+
+  async completeIdempotencyKey(key: string, responseStatus: number, responseBody: unknown): Promise<void> {
+    const record = this.idempotencyKeys.get(key);
+    if (record) {
+      this.write(this.idempotencyKeys, key, { ...record, responseStatus, responseBody });
+    }
+  }
+
+  async releaseIdempotencyKey(key: string): Promise<void> {
+    this.remove(this.idempotencyKeys, key);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error(`User ${insertUser.username} already exists`);
+    }
+
+    const id = randomUUID();
+    const user: User = {
+      ...insertUser,
+      id,
+      role: insertUser.role ?? 'teller',
+      totpSecret: insertUser.totpSecret ?? null,
+      totpEnabledAt: insertUser.totpEnabledAt ?? null,
+      totpLastCounter: insertUser.totpLastCounter ?? null,
+      recoveryCodeHashes: insertUser.recoveryCodeHashes ?? [],
+      createdAt: new Date(),
+    };
+    this.write(this.users, id, user);
+    return user;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
+  async updateUserRole(id: string, role: StaffRole): Promise<User> {
+    const user = await this.getUser(id);
+    if (!user) {
+      throw new Error(`User ${id} not found`);
+    }
+
+    const updatedUser = { ...user, role };
+    this.write(this.users, id, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserTwoFactor(id: string, changes: Partial<UserTwoFactor>): Promise<User> {
+    const user = await this.getUser(id);
+    if (!user) {
+      throw new Error(`User ${id} not found`);
+    }
+
+    const updatedUser = { ...user, ...changes };
+    this.write(this.users, id, updatedUser);
+    return updatedUser;
+  }
+
+  async useTotpCounter(id: string, counter: number): Promise<boolean> {
+    const user = this.users.get(id);
+    if (!user || (user.totpLastCounter !== null && user.totpLastCounter >= counter)) {
+      return false;
+    }
+    this.write(this.users, id, { ...user, totpLastCounter: counter });
+    return true;
+  }
+
+  async useRecoveryCode(id: string, codeHash: string): Promise<boolean> {
+    const user = this.users.get(id);
+    if (!user || !user.recoveryCodeHashes.includes(codeHash)) {
+      return false;
+    }
+    this.write(this.users, id, { ...user, recoveryCodeHashes: user.recoveryCodeHashes.filter((hash) => hash !== codeHash) });
+    return true;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async appendAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const entry: AuditEntry = {
+      ...insertEntry,
+      id: randomUUID(),
+      actorId: insertEntry.actorId ?? null,
+      actorUsername: insertEntry.actorUsername ?? null,
+      ip: insertEntry.ip ?? null,
+      requestBody: insertEntry.requestBody ?? null,
+      createdAt: new Date(),
+    };
+    // Not through append(): a rolled back transaction doesn't unsay who asked for it
+    this.auditLog.push(entry);
+    return entry;
+  }
+
+  async getAuditEntries(
+    { cursor, limit, ...filters }: AuditLogFilters & { cursor?: string; limit: number },
+  ): Promise<AuditLogPage> {
+    // Walk backwards from just before the cursor, newest first
+    let index = this.auditLog.length - 1;
+    if (cursor) {
+      while (index >= 0 && this.auditLog[index].id !== cursor) index--;
+      index--;
+    }
+
+    const entries: AuditEntry[] = [];
+    let nextCursor: string | null = null;
+
+    for (; index >= 0; index--) {
+      const entry = this.auditLog[index];
+      if (!matchesAuditFilters(entry, filters)) {
+        continue;
+      }
+
+      if (entries.length === limit) {
+        nextCursor = entries[entries.length - 1].id;
+        break;
+      }
+      entries.push(entry);
+    }
+
+    return { entries, nextCursor };
+  }
+
+  async getDashboardStats(): Promise<DashboardTotals> {
     const accounts = await this.getAllAccounts();
     const transactions = Array.from(this.transactions.values());
 
-    const totalDeposits = transactions
-      .filter(t => t.type === 'deposit')
-      .reduce((sum, t) => sum + t.amount, 0);
+    // Reversed transactions no longer count towards the totals
+    const posted = transactions.filter(t => t.status === 'posted');
 
-    const totalWithdrawals = transactions
-      .filter(t => t.type === 'withdraw')
-      .reduce((sum, t) => sum + t.amount, 0);
+    // Every currency an account is held in, even with nothing moved yet
+    const byCurrency = new Map<Currency, CurrencyTotals>();
+    for (const account of accounts) {
+      byCurrency.set(account.currency, { currency: account.currency, totalDeposits: 0, totalWithdrawals: 0 });
+    }
+    for (const t of posted) {
+      if (t.type === 'deposit' && t.toAccountId) {
+        byCurrency.get(this.accounts.get(t.toAccountId)!.currency)!.totalDeposits += t.amount;
+      } else if (t.type === 'withdraw' && t.fromAccountId) {
+        byCurrency.get(this.accounts.get(t.fromAccountId)!.currency)!.totalWithdrawals += t.amount;
+      }
+    }
 
-    const activeTransfers = transactions
+    const activeTransfers = posted
       .filter(t => t.type === 'transfer')
       .length;
 
     return {
       totalAccounts: accounts.length,
-      totalDeposits: `$${totalDeposits.toLocaleString('en-US', { minimumFractionDigits: 2 })}`,
-      totalWithdrawals: `$${totalWithdrawals.toLocaleString('en-US', { minimumFractionDigits: 2 })}`,
-      activeTransfers
+      activeTransfers,
+      byCurrency: Array.from(byCurrency.values()).sort((a, b) => a.currency.localeCompare(b.currency))
     };
   }
 }
 
-export const storage = new MemStorage();
+// Persist to Postgres when a database is provisioned; otherwise keep
+// everything in memory (data is lost on restart).
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DrizzleStorage(createDatabase(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { base32Decode, base32Encode, hotp, provisioningUri, totp, totpCounter, verifyTotp, type TotpAlgorithm } from "./totp";
+
+// RFC 6238 appendix B: the seed is the ASCII digits repeated to the hash's
+// block-friendly length, codes are 8 digits and the period is 30 seconds
+const RFC_6238_SECRETS: Record<TotpAlgorithm, Buffer> = {
+  sha1: Buffer.from("12345678901234567890"),
+  sha256: Buffer.from("12345678901234567890123456789012"),
+  sha512: Buffer.from("1234567890123456789012345678901234567890123456789012345678901234"),
+};
+
+const RFC_6238_VECTORS: { seconds: number; codes: Record<TotpAlgorithm, string> }[] = [
+  { seconds: 59, codes: { sha1: "94287082", sha256: "46119246", sha512: "90693936" } },
+  { seconds: 1111111109, codes: { sha1: "07081804", sha256: "68084774", sha512: "25091201" } },
+  { seconds: 1111111111, codes: { sha1: "14050471", sha256: "67062674", sha512: "99943326" } },
+  { seconds: 1234567890, codes: { sha1: "89005924", sha256: "91819424", sha512: "93441116" } },
+  { seconds: 2000000000, codes: { sha1: "69279037", sha256: "90698825", sha512: "38618901" } },
+  { seconds: 20000000000, codes: { sha1: "65353130", sha256: "77737706", sha512: "47863826" } },
+];
+
+// RFC 4226 appendix D: HOTP codes for counters 0 to 9
+const RFC_4226_CODES = ["755224", "287082", "359152", "969429", "338314", "254676", "287922", "162583", "399871", "520489"];
+
+describe("hotp", () => {
+  it("matches the RFC 4226 test vectors", () => {
+    const codes = RFC_4226_CODES.map((_, counter) => hotp(RFC_6238_SECRETS.sha1, counter));
+    expect(codes).toEqual(RFC_4226_CODES);
+  });
+});
+
+describe("totp", () => {
+  for (const { seconds, codes } of RFC_6238_VECTORS) {
+    for (const algorithm of Object.keys(codes) as TotpAlgorithm[]) {
+      it(`matches the RFC 6238 vector for ${algorithm} at ${seconds}s`, () => {
+        expect(totp(RFC_6238_SECRETS[algorithm], seconds * 1000, { digits: 8, algorithm })).toBe(codes[algorithm]);
+      });
+    }
+  }
+
+  it("defaults to six digit SHA-1 codes, the last six of the eight digit ones", () => {
+    expect(totp(RFC_6238_SECRETS.sha1, 59 * 1000)).toBe("287082");
+  });
+
+  it("counts 30 second periods", () => {
+    expect(totpCounter(29_999)).toBe(0);
+    expect(totpCounter(30_000)).toBe(1);
+    expect(totpCounter(59 * 1000, 60)).toBe(0);
+  });
+});
+
+describe("verifyTotp", () => {
+  const secret = RFC_6238_SECRETS.sha1;
+  const now = 1111111111 * 1000;
+  const current = totpCounter(now);
+
+  it("accepts the current code and returns its counter", () => {
+    expect(verifyTotp(secret, totp(secret, now), now)).toBe(current);
+  });
+
+  it("allows one period of drift either way by default", () => {
+    expect(verifyTotp(secret, totp(secret, now - 30_000), now)).toBe(current - 1);
+    expect(verifyTotp(secret, totp(secret, now + 30_000), now)).toBe(current + 1);
+    expect(verifyTotp(secret, totp(secret, now - 60_000), now)).toBeNull();
+    expect(verifyTotp(secret, totp(secret, now - 60_000), now, { window: 2 })).toBe(current - 2);
+  });
+
+  it("refuses codes up to the last counter used", () => {
+    const code = totp(secret, now);
+    expect(verifyTotp(secret, code, now, { lastCounter: current })).toBeNull();
+    expect(verifyTotp(secret, totp(secret, now - 30_000), now, { lastCounter: current - 1 })).toBeNull();
+    expect(verifyTotp(secret, code, now, { lastCounter: current - 1 })).toBe(current);
+  });
+
+  it("refuses wrong and malformed codes", () => {
+    const code = totp(secret, now);
+    const wrong = String((Number(code) + 1) % 1_000_000).padStart(6, "0");
+    expect(verifyTotp(secret, wrong, now)).toBeNull();
+    expect(verifyTotp(secret, code.slice(1), now)).toBeNull();
+    expect(verifyTotp(secret, ` ${code}`, now)).toBeNull();
+    expect(verifyTotp(secret, "abcdef", now)).toBeNull();
+  });
+});
+
+describe("base32", () => {
+  // RFC 4648 section 10, without the padding
+  const vectors: [string, string][] = [
+    ["", ""],
+    ["f", "MY"],
+    ["fo", "MZXQ"],
+    ["foo", "MZXW6"],
+    ["foob", "MZXW6YQ"],
+    ["fooba", "MZXW6YTB"],
+    ["foobar", "MZXW6YTBOI"],
+  ];
+
+  it("encodes the RFC 4648 test vectors", () => {
+    for (const [text, encoded] of vectors) {
+      expect(base32Encode(Buffer.from(text))).toBe(encoded);
+    }
+  });
+
+  it("decodes them back, ignoring case, padding, spaces and dashes", () => {
+    for (const [text, encoded] of vectors) {
+      expect(base32Decode(encoded).toString()).toBe(text);
+    }
+    expect(base32Decode("mzxw 6ytb-oi======").toString()).toBe("foobar");
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("MZXW1")).toThrow('Invalid base32 character "1"');
+  });
+});
+
+describe("provisioningUri", () => {
+  it("builds the otpauth URI authenticator apps read", () => {
+    expect(provisioningUri({ secret: "GEZDGNBVGY3TQOJQ", account: "jo smith", issuer: "Bank" })).toBe(
+      "otpauth://totp/Bank%3Ajo%20smith?secret=GEZDGNBVGY3TQOJQ&issuer=Bank&algorithm=SHA1&digits=6&period=30",
+    );
+  });
+});
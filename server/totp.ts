@@ -0,0 +1,127 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * Time-based one-time passwords (RFC 6238), the six digit codes shown by
+ * authenticator apps. Everything here is a pure function of the secret and
+ * the time, so it can be checked against the RFC's test vectors offline.
+ */
+
+export type TotpAlgorithm = "sha1" | "sha256" | "sha512";
+
+export interface TotpOptions {
+  digits?: number;
+  // Seconds each code is valid for
+  period?: number;
+  algorithm?: TotpAlgorithm;
+}
+
+const DEFAULTS: Required<TotpOptions> = { digits: 6, period: 30, algorithm: "sha1" };
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// Authenticator apps take the secret in base32 (RFC 4648), without padding
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8) | bytes[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(encoded: string): Buffer {
+  const cleaned = encoded.toUpperCase().replace(/[\s=-]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// A new 160 bit secret, the size RFC 4226 recommends for HMAC-SHA1
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+// RFC 4226: HMAC the counter and dynamically truncate to `digits` digits
+export function hotp(secret: Buffer, counter: number, digits = DEFAULTS.digits, algorithm = DEFAULTS.algorithm): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac(algorithm, secret).update(message).digest();
+
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** digits).toString().padStart(digits, "0");
+}
+
+// Which period the time falls in; codes are HOTP codes for this counter
+export function totpCounter(now: number, period = DEFAULTS.period): number {
+  return Math.floor(now / 1000 / period);
+}
+
+export function totp(secret: Buffer, now: number, options: TotpOptions = {}): string {
+  const { digits, period, algorithm } = { ...DEFAULTS, ...options };
+  return hotp(secret, totpCounter(now, period), digits, algorithm);
+}
+
+/**
+ * Checks a code against the periods around `now`, allowing `window` periods
+ * of clock drift either way. Returns the counter the code matched so the
+ * caller can refuse it, and anything older, next time; codes for counters up
+ * to `lastCounter` are refused here. Returns null for a wrong code.
+ */
+export function verifyTotp(
+  secret: Buffer,
+  code: string,
+  now: number,
+  { window = 1, lastCounter = null, ...options }: TotpOptions & { window?: number; lastCounter?: number | null } = {},
+): number | null {
+  const { digits, period, algorithm } = { ...DEFAULTS, ...options };
+  if (!new RegExp(`^\\d{${digits}}$`).test(code)) {
+    return null;
+  }
+
+  const current = totpCounter(now, period);
+  for (let counter = Math.max(0, current - window); counter <= current + window; counter++) {
+    if (lastCounter !== null && counter <= lastCounter) {
+      continue;
+    }
+    if (timingSafeEqual(Buffer.from(hotp(secret, counter, digits, algorithm)), Buffer.from(code))) {
+      return counter;
+    }
+  }
+  return null;
+}
+
+// The otpauth:// URI authenticator apps read from a QR code
+export function provisioningUri({ secret, account, issuer }: { secret: string; account: string; issuer: string }): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: DEFAULTS.algorithm.toUpperCase(),
+    digits: String(DEFAULTS.digits),
+    period: String(DEFAULTS.period),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
@@ -0,0 +1,185 @@
+import type {
+  Account,
+  PublicUser,
+  TransferBatchLine,
+  TransferBatchLineResult,
+  TransferBatchMode,
+  TransferBatchRequest,
+  TransferBatchResult,
+} from "@shared/schema";
+import { formatMoney, type Money } from "@shared/money";
+import type { IStorage } from "./storage";
+import { ApiError } from "./errors";
+import { assertStatusAllowsCredit, assertStatusAllowsDebit, assertTypeAllowsDebits } from "./account-rules";
+import { transfer } from "./banking";
+import { needsApproval, requestBatchApproval } from "./approvals";
+import { assertWithinVelocityLimits } from "./velocity";
+import { log } from "./vite";
+
+// Transfer batches pay many accounts out of one, e.g. a company's payroll.
+// Every line is checked against the accounts before anything posts, and one
+// bad line rejects the whole batch. A batch whose total is over the approval
+// threshold goes for approval as a whole, so splitting a payment into lines
+// can't get round maker-checker. Velocity limits are checked once for the
+// batch as a whole, so it can't stop partway through on them; otherwise each
+// line posts through transfer() like a single transfer, fees included.
+
+type LineOutcome = Omit<TransferBatchLineResult, keyof TransferBatchLine | "line">;
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function sumOf(lines: TransferBatchLine[]): Money {
+  return lines.reduce((sum, line) => sum + line.amount, 0);
+}
+
+// What is wrong with each line, if anything, that no amount of money in the
+// source account would fix
+async function checkLines(store: IStorage, fromAccount: Account, lines: TransferBatchLine[]): Promise<(string | undefined)[]> {
+  const problems: (string | undefined)[] = [];
+  for (const { toAccountNumber } of lines) {
+    const toAccount = await store.getAccountByNumber(toAccountNumber);
+    if (toAccountNumber === fromAccount.accountNumber) {
+      problems.push("Cannot transfer to the same account");
+    } else if (!toAccount) {
+      problems.push(`Account ${toAccountNumber} not found`);
+    } else {
+      try {
+        assertStatusAllowsCredit(toAccount);
+        problems.push(undefined);
+      } catch (error) {
+        if (!(error instanceof ApiError)) throw error;
+        problems.push(error.message);
+      }
+    }
+  }
+  return problems;
+}
+
+async function postLine(
+  store: IStorage,
+  fromAccountNumber: number,
+  { toAccountNumber, amount, reference }: TransferBatchLine,
+): Promise<LineOutcome> {
+  const { transaction, fee } = await transfer(store, fromAccountNumber, toAccountNumber, amount, { reference, batched: true });
+  return { status: 'transferred', transactionId: transaction.id, fee: fee?.amount };
+}
+
+// Posts every line in one unit of work. The first line that fails rolls
+// back the ones before it.
+async function postAll(
+  store: IStorage,
+  fromAccountNumber: number,
+  lines: TransferBatchLine[],
+): Promise<LineOutcome[]> {
+  const accountNumbers = [fromAccountNumber, ...lines.map((line) => line.toAccountNumber)];
+  let current = 0;
+
+  try {
+    return await store.runInTransaction(accountNumbers, async (tx) => {
+      const outcomes: LineOutcome[] = [];
+      for (current = 0; current < lines.length; current++) {
+        outcomes.push(await postLine(tx, fromAccountNumber, lines[current]));
+      }
+      return outcomes;
+    });
+  } catch (error) {
+    if (!(error instanceof ApiError)) throw error;
+    return lines.map((_, index) =>
+      index === current ? { status: 'failed', message: error.message } : { status: 'not_posted' },
+    );
+  }
+}
+
+// Posts each line on its own, carrying on past the ones that fail
+async function postEach(
+  store: IStorage,
+  fromAccountNumber: number,
+  lines: TransferBatchLine[],
+): Promise<LineOutcome[]> {
+  const outcomes: LineOutcome[] = [];
+  for (const line of lines) {
+    try {
+      outcomes.push(await postLine(store, fromAccountNumber, line));
+    } catch (error) {
+      // Earlier lines have posted, so the batch can't just fail
+      if (!(error instanceof ApiError)) {
+        log(`batch line to ${line.toAccountNumber} failed: ${error}`, "batches");
+      }
+      outcomes.push({ status: 'failed', message: error instanceof ApiError ? error.message : "Failed to post this line" });
+    }
+  }
+  return outcomes;
+}
+
+function summarize(
+  { accountNumber: fromAccountNumber, currency }: Account,
+  mode: TransferBatchMode,
+  lines: TransferBatchLine[],
+  outcomes: LineOutcome[],
+): TransferBatchResult {
+  const results = lines.map((line, index): TransferBatchLineResult => ({ ...line, line: index + 1, ...outcomes[index] }));
+  const transferred = results.filter((result) => result.status === 'transferred');
+  const sentForApproval = results.filter((result) => result.status === 'sent_for_approval').length;
+  const failed = results.filter((result) => result.status === 'failed');
+  const total = sumOf(transferred);
+
+  const posted = `${formatMoney(total, currency)} transferred in ${plural(transferred.length, "line")}`;
+  const outcome = failed.length === 0 ? 'completed' : transferred.length + sentForApproval > 0 ? 'partial' : 'rejected';
+  const message = {
+    completed: sentForApproval > 0
+      ? `Batch sent for approval: ${plural(sentForApproval, "line")}, ${formatMoney(sumOf(lines), currency)} in total`
+      : `Batch posted! ${posted}`,
+    partial: `${plural(failed.length, "line")} failed; ${posted}`,
+    rejected: `Nothing was posted: ${failed.length === 1 ? `line ${failed[0].line} failed` : `${failed.length} lines failed`}`,
+  }[outcome];
+
+  return { fromAccountNumber, mode, outcome, transferred: total, lines: results, message };
+}
+
+/**
+ * Runs a transfer batch and reports how each line went. Problems with the
+ * source account, including a batch over its velocity limits or one that
+ * couldn't be sent for approval, fail the request; problems with lines come back in the
+ * result, with nothing posted if any line couldn't be checked.
+ */
+export async function runTransferBatch(
+  store: IStorage,
+  requestedBy: PublicUser,
+  { fromAccountNumber, mode, lines }: TransferBatchRequest,
+): Promise<TransferBatchResult> {
+  const fromAccount = await store.getAccountByNumber(fromAccountNumber);
+  if (!fromAccount) {
+    throw new ApiError(404, `Account ${fromAccountNumber} not found`);
+  }
+  assertStatusAllowsDebit(fromAccount);
+  assertTypeAllowsDebits(fromAccount);
+
+  const problems = await checkLines(store, fromAccount, lines);
+  if (problems.some((problem) => problem !== undefined)) {
+    const outcomes = problems.map((problem): LineOutcome =>
+      problem ? { status: 'failed', message: problem } : { status: 'not_posted' },
+    );
+    return summarize(fromAccount, mode, lines, outcomes);
+  }
+
+  const total = sumOf(lines);
+  try {
+    await assertWithinVelocityLimits(store, fromAccount, total);
+  } catch (error) {
+    if (!(error instanceof ApiError)) throw error;
+    throw new ApiError(error.status, `Checked as a whole, this batch is over a velocity limit. ${error.message}`, error.code);
+  }
+
+  if (await needsApproval(store, 'transfer', fromAccountNumber, total)) {
+    const approval = await requestBatchApproval(store, requestedBy, fromAccountNumber, lines);
+    const outcomes = lines.map((): LineOutcome => ({ status: 'sent_for_approval', approvalRequestId: approval.id }));
+    return summarize(fromAccount, mode, lines, outcomes);
+  }
+
+  const outcomes = mode === 'all_or_nothing'
+    ? await postAll(store, fromAccountNumber, lines)
+    : await postEach(store, fromAccountNumber, lines);
+  return summarize(fromAccount, mode, lines, outcomes);
+}
@@ -0,0 +1,144 @@
+import { createHash, randomBytes } from "crypto";
+import { INVALID_TWO_FACTOR_CODE, type TwoFactorSetup, type User as StaffUser } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { ApiError } from "./errors";
+import { base32Decode, generateTotpSecret, provisioningUri, verifyTotp } from "./totp";
+
+/**
+ * Two-factor sign in for staff. A user turns it on by scanning the secret
+ * into an authenticator app and entering a code from it, and gets recovery
+ * codes for when the app is lost. After that, login asks for a code as well
+ * as the password. An admin can turn it off for a user who has lost both.
+ */
+
+const ISSUER = "SecureBank";
+const RECOVERY_CODE_COUNT = 10;
+
+// Recovery codes are random, so a plain hash is enough to keep them safe at
+// rest. Spacing, dashes and case don't matter when they're typed back.
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^0-9a-z]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+// Ten codes of ten hex digits, shown as xxxxx-xxxxx
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+async function findUser(store: IStorage, id: string): Promise<StaffUser> {
+  const user = await store.getUser(id);
+  if (!user) {
+    throw new ApiError(404, `User ${id} not found`);
+  }
+  return user;
+}
+
+function requireEnabled(user: StaffUser) {
+  if (!user.totpEnabledAt) {
+    throw new ApiError(409, "Two-factor sign in is off");
+  }
+}
+
+/**
+ * Checks a code from the user's authenticator app, or one of their recovery
+ * codes, and uses it up: the same app code is refused next time, and a
+ * recovery code is deleted. Using it up is checked again as it is saved, so
+ * if two sign ins send the same code at once only one of them gets in.
+ */
+export async function verifySecondFactor(store: IStorage, user: StaffUser, code: string): Promise<boolean> {
+  if (!user.totpEnabledAt || !user.totpSecret) {
+    return false;
+  }
+
+  const counter = verifyTotp(base32Decode(user.totpSecret), code.replace(/\s/g, ""), Date.now(), {
+    lastCounter: user.totpLastCounter,
+  });
+  if (counter !== null) {
+    return store.useTotpCounter(user.id, counter);
+  }
+
+  const hash = hashRecoveryCode(code);
+  if (!user.recoveryCodeHashes.includes(hash)) {
+    return false;
+  }
+  return store.useRecoveryCode(user.id, hash);
+}
+
+// Gives the user a new secret to scan. Two-factor stays off until they
+// confirm it with enableTwoFactor; starting again replaces the secret.
+export async function startTwoFactorSetup(store: IStorage, userId: string): Promise<TwoFactorSetup> {
+  const user = await findUser(store, userId);
+  if (user.totpEnabledAt) {
+    throw new ApiError(409, "Two-factor sign in is already on");
+  }
+
+  const secret = generateTotpSecret();
+  await store.updateUserTwoFactor(user.id, { totpSecret: secret, totpLastCounter: null });
+  return {
+    secret,
+    provisioningUri: provisioningUri({ secret, account: user.username, issuer: ISSUER }),
+  };
+}
+
+// Turns two-factor on once the user shows their app has the secret, and
+// returns their recovery codes. This is the only time they are shown.
+export async function enableTwoFactor(store: IStorage, userId: string, code: string): Promise<string[]> {
+  const user = await findUser(store, userId);
+  if (user.totpEnabledAt) {
+    throw new ApiError(409, "Two-factor sign in is already on");
+  }
+  if (!user.totpSecret) {
+    throw new ApiError(409, "Start two-factor setup first");
+  }
+
+  const counter = verifyTotp(base32Decode(user.totpSecret), code.replace(/\s/g, ""), Date.now());
+  if (counter === null) {
+    throw new ApiError(400, "That code isn't right; check the time on your device", INVALID_TWO_FACTOR_CODE);
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await store.updateUserTwoFactor(user.id, {
+    totpEnabledAt: new Date(),
+    totpLastCounter: counter,
+    recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+  });
+  return recoveryCodes;
+}
+
+// Replaces the user's recovery codes, e.g. when they've used most of them
+export async function regenerateRecoveryCodes(store: IStorage, userId: string, code: string): Promise<string[]> {
+  const user = await findUser(store, userId);
+  requireEnabled(user);
+  if (!(await verifySecondFactor(store, user, code))) {
+    throw new ApiError(400, "That code isn't right", INVALID_TWO_FACTOR_CODE);
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await store.updateUserTwoFactor(user.id, { recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) });
+  return recoveryCodes;
+}
+
+export async function disableTwoFactor(store: IStorage, userId: string, code: string): Promise<StaffUser> {
+  const user = await findUser(store, userId);
+  requireEnabled(user);
+  if (!(await verifySecondFactor(store, user, code))) {
+    throw new ApiError(400, "That code isn't right", INVALID_TWO_FACTOR_CODE);
+  }
+  return resetTwoFactor(store, user.id);
+}
+
+// Turns two-factor off without a code. Only for admins helping a user who
+// has lost their device and recovery codes; the user can set it up again.
+export async function resetTwoFactor(store: IStorage, userId: string): Promise<StaffUser> {
+  await findUser(store, userId);
+  return store.updateUserTwoFactor(userId, {
+    totpSecret: null,
+    totpEnabledAt: null,
+    totpLastCounter: null,
+    recoveryCodeHashes: [],
+  });
+}
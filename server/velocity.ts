@@ -0,0 +1,93 @@
+import type { Account, InsertVelocityLimit, VelocityHeadroom, VelocityLimit, VelocityWindow } from "@shared/schema";
+import { velocityWindows } from "@shared/schema";
+import { formatMoney, type Money } from "@shared/money";
+import type { IStorage } from "./storage";
+import { ApiError } from "./errors";
+import { CUSTOMER_DEBIT_TYPES, startOfMonth } from "./account-rules";
+import { fromBaseCurrency } from "./fx";
+
+// Velocity limits cap how many withdrawals and outgoing transfers an account
+// makes, and how much they add up to, per day and per calendar month. Fees
+// don't count towards the amount. Amount limits are in the base currency and
+// converted to the account's at the current rate.
+
+// Also seeded into Postgres by migrations/manual/0006_velocity_limits.sql
+export const DEFAULT_VELOCITY_LIMITS: InsertVelocityLimit[] = [
+  { window: 'daily', maxCount: 20, maxAmount: 1_000_000 },
+  { window: 'monthly', maxCount: 200, maxAmount: 5_000_000 },
+];
+
+export const VELOCITY_LIMIT_EXCEEDED = "velocity_limit_exceeded";
+
+const windowLabels: Record<VelocityWindow, string> = { daily: "Daily", monthly: "Monthly" };
+
+function windowBounds(window: VelocityWindow, now: Date): { start: Date; end: Date } {
+  if (window === 'daily') {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    return { start, end: new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1) };
+  }
+  return { start: startOfMonth(now), end: new Date(now.getFullYear(), now.getMonth() + 1, 1) };
+}
+
+// The account's own limit, then its type's, then the catch-all
+function findLimit(limits: VelocityLimit[], account: Account, window: VelocityWindow): VelocityLimit | undefined {
+  const forWindow = limits.filter((limit) => limit.window === window);
+  return (
+    forWindow.find((limit) => limit.accountId === account.id) ??
+    forWindow.find((limit) => limit.accountId === null && limit.accountType === account.accountType) ??
+    forWindow.find((limit) => limit.accountId === null && limit.accountType === null)
+  );
+}
+
+/** What the account has used and has left in each window it is limited in. */
+export async function getVelocityHeadroom(
+  store: IStorage,
+  account: Account,
+  now: Date = new Date(),
+): Promise<VelocityHeadroom[]> {
+  const limits = await store.getVelocityLimits();
+
+  const headroom: VelocityHeadroom[] = [];
+  for (const window of velocityWindows) {
+    const limit = findLimit(limits, account, window);
+    if (!limit || (limit.maxCount === null && limit.maxAmount === null)) {
+      continue;
+    }
+
+    const { start, end } = windowBounds(window, now);
+    const { count, total } = await store.summarizeDebits(account.id, start, CUSTOMER_DEBIT_TYPES);
+    const maxAmount = limit.maxAmount === null ? null : await fromBaseCurrency(store, limit.maxAmount, account.currency);
+    headroom.push({
+      window,
+      maxCount: limit.maxCount,
+      maxAmount,
+      usedCount: count,
+      usedAmount: total,
+      remainingCount: limit.maxCount === null ? null : Math.max(limit.maxCount - count, 0),
+      remainingAmount: maxAmount === null ? null : Math.max(maxAmount - total, 0),
+      resetsAt: end,
+    });
+  }
+  return headroom;
+}
+
+/** Rejects a withdrawal or outgoing transfer of `amount` that would go over any of the account's limits. */
+export async function assertWithinVelocityLimits(tx: IStorage, account: Account, amount: Money): Promise<void> {
+  for (const headroom of await getVelocityHeadroom(tx, account)) {
+    const label = windowLabels[headroom.window];
+    if (headroom.remainingCount !== null && headroom.remainingCount < 1) {
+      throw new ApiError(
+        429,
+        `${label} limit of ${headroom.maxCount} withdrawals and transfers reached for account ${account.accountNumber}`,
+        VELOCITY_LIMIT_EXCEEDED,
+      );
+    }
+    if (headroom.remainingAmount !== null && amount > headroom.remainingAmount) {
+      throw new ApiError(
+        429,
+        `${label} limit exceeded: account ${account.accountNumber} can move ${formatMoney(headroom.remainingAmount, account.currency)} more of its ${formatMoney(headroom.maxAmount!, account.currency)} limit`,
+        VELOCITY_LIMIT_EXCEEDED,
+      );
+    }
+  }
+}
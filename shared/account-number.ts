@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+/**
+ * Account numbers are allocated by the server: a number from a sequence with
+ * a Luhn check digit appended, e.g. sequence 1000000 becomes 10000009.
+ *
+ * The check digit catches every single-digit typo and most transpositions of
+ * adjacent digits, so a mistyped number is rejected before it can reach the
+ * wrong account.
+ */
+
+// First value of the account number sequence. Starting at a million keeps
+// every new number eight digits long (up to the integer column's limit).
+export const FIRST_ACCOUNT_SEQUENCE = 1_000_000;
+
+export function luhnCheckDigit(base: number): number {
+  let sum = 0;
+  // Walking right to left, double every other digit starting with the first
+  let double = true;
+  for (let rest = base; rest > 0; rest = Math.floor(rest / 10)) {
+    let digit = rest % 10;
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export function withCheckDigit(base: number): number {
+  return base * 10 + luhnCheckDigit(base);
+}
+
+export function isValidAccountNumber(accountNumber: number): boolean {
+  return (
+    Number.isSafeInteger(accountNumber) &&
+    accountNumber >= 10 &&
+    luhnCheckDigit(Math.floor(accountNumber / 10)) === accountNumber % 10
+  );
+}
+
+export const INVALID_ACCOUNT_NUMBER = "invalid_account_number";
+export const INVALID_ACCOUNT_NUMBER_MESSAGE = "Not a valid account number; check for a typo";
+
+export const accountNumberSchema = z.number().refine(isValidAccountNumber, INVALID_ACCOUNT_NUMBER_MESSAGE);
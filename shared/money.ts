@@ -0,0 +1,160 @@
+import { z } from "zod";
+
+/**
+ * A monetary amount as an integer number of minor units (cents).
+ *
+ * Balances and transaction amounts are stored, transmitted and added up in
+ * this form only. Decimal values exist at the edges: parsing what a teller
+ * types and formatting what we display.
+ *
+ * Rounding rules:
+ * - Parsing input (`parseMoney`, `toMinorUnits`) rounds half away from zero,
+ *   e.g. "0.005" becomes 1 cent. This matches Postgres `round(numeric)`,
+ *   which the minor-units migration uses for existing rows.
+ * - Derived amounts (`multiplyMoney`, used for fees and interest) round half
+ *   to even by default, so a long run of calculations has no upward drift.
+ */
+export type Money = number;
+
+export type Rounding = "half-up" | "half-even";
+
+export const MINOR_UNITS_PER_MAJOR = 100;
+const MINOR_DIGITS = 2;
+
+export function isMoney(value: unknown): value is Money {
+  return typeof value === "number" && Number.isSafeInteger(value);
+}
+
+export const moneySchema = z.number().int().safe();
+export const positiveMoneySchema = moneySchema.positive("Amount must be positive");
+
+function roundHalfEven(value: number): number {
+  const floor = Math.floor(value);
+  const diff = value - floor;
+  if (diff > 0.5) return floor + 1;
+  if (diff < 0.5) return floor;
+  return floor % 2 === 0 ? floor : floor + 1;
+}
+
+function roundHalfUp(value: number): number {
+  return Math.sign(value) * Math.round(Math.abs(value));
+}
+
+export function roundMinor(value: number, rounding: Rounding = "half-even"): Money {
+  const rounded = rounding === "half-even" ? roundHalfEven(value) : roundHalfUp(value);
+  // Avoid handing out -0 from rounding small negative values
+  return rounded === 0 ? 0 : rounded;
+}
+
+/**
+ * Parses a decimal string such as "12.3" or "-0.05" into minor units without
+ * going through floating point. Returns undefined for anything that is not a
+ * plain decimal number.
+ */
+export function parseMoney(input: string): Money | undefined {
+  const match = /^\s*(-)?(\d*)(?:\.(\d*))?\s*$/.exec(input);
+  if (!match || (!match[2] && !match[3])) return undefined;
+
+  const [, sign, whole = "", fraction = ""] = match;
+  const kept = fraction.slice(0, MINOR_DIGITS).padEnd(MINOR_DIGITS, "0");
+  let minor = Number(whole || "0") * MINOR_UNITS_PER_MAJOR + Number(kept);
+  if (fraction.length > MINOR_DIGITS && Number(fraction[MINOR_DIGITS]) >= 5) {
+    minor += 1;
+  }
+
+  if (!Number.isSafeInteger(minor)) return undefined;
+  return sign && minor !== 0 ? -minor : minor;
+}
+
+/** Converts a major-unit number (e.g. a form's `valueAsNumber`) to minor units. */
+export function toMinorUnits(major: number): Money {
+  if (!Number.isFinite(major)) return 0;
+  return parseMoney(major.toFixed(MINOR_DIGITS + 4)) ?? 0;
+}
+
+/** Converts minor units to a major-unit number, for charts and inputs only. */
+export function toMajorUnits(amount: Money): number {
+  return amount / MINOR_UNITS_PER_MAJOR;
+}
+
+/** Multiplies an amount by a rate or factor, rounding the result to whole minor units. */
+export function multiplyMoney(amount: Money, factor: number, rounding: Rounding = "half-even"): Money {
+  return roundMinor(amount * factor, rounding);
+}
+
+/**
+ * Sub-cent amounts, in millionths of a major unit. Daily interest accruals
+ * are usually fractions of a cent, so they are kept in micros and only
+ * rounded to minor units when they are paid out.
+ */
+export type Micros = number;
+
+export const MICROS_PER_MINOR = 10_000;
+
+export function microsToMoney(micros: Micros, rounding: Rounding = "half-even"): Money {
+  return roundMinor(micros / MICROS_PER_MINOR, rounding);
+}
+
+/**
+ * The ISO 4217 currencies an account can hold. Every amount is kept in
+ * hundredths of its currency, so only currencies with two decimal places
+ * can be added here.
+ */
+export const currencies = {
+  USD: { name: "US Dollar", symbol: "$" },
+  EUR: { name: "Euro", symbol: "€" },
+  GBP: { name: "Pound Sterling", symbol: "£" },
+  CAD: { name: "Canadian Dollar", symbol: "CA$" },
+  AUD: { name: "Australian Dollar", symbol: "A$" },
+  CHF: { name: "Swiss Franc", symbol: "CHF " },
+  SGD: { name: "Singapore Dollar", symbol: "S$" },
+  MXN: { name: "Mexican Peso", symbol: "MX$" },
+} as const;
+
+export type Currency = keyof typeof currencies;
+
+export const currencyCodes = Object.keys(currencies) as Currency[];
+
+// What the dashboard and other bank-wide figures are converted to
+export const BASE_CURRENCY: Currency = "USD";
+
+export const currencySchema = z.enum(currencyCodes as [Currency, ...Currency[]]);
+
+export function currencySymbol(currency: Currency): string {
+  return currencies[currency].symbol;
+}
+
+/** Formats minor units for display, e.g. 123456 -> "$1,234.56", or "€1,234.56" in euros. */
+export function formatMoney(amount: Money, currency: Currency = BASE_CURRENCY): string {
+  const abs = Math.abs(amount);
+  const whole = Math.floor(abs / MINOR_UNITS_PER_MAJOR);
+  const fraction = String(abs % MINOR_UNITS_PER_MAJOR).padStart(MINOR_DIGITS, "0");
+  return `${amount < 0 ? "-" : ""}${currencySymbol(currency)}${whole.toLocaleString("en-US")}.${fraction}`;
+}
+
+/**
+ * An exchange rate, as units of one currency per unit of another, in
+ * millionths; 1_083_200 is 1.0832.
+ */
+export type RateMicros = number;
+
+export const RATE_MICROS_PER_UNIT = 1_000_000;
+
+export function toRateMicros(rate: number): RateMicros {
+  return Math.round(rate * RATE_MICROS_PER_UNIT);
+}
+
+/** Converts an amount at a rate, rounding to whole minor units of the other currency. */
+export function convertMoney(amount: Money, rate: RateMicros): Money {
+  return multiplyMoney(amount, rate / RATE_MICROS_PER_UNIT);
+}
+
+/** The rate the other way round, e.g. EUR per USD from USD per EUR. */
+export function invertRate(rate: RateMicros): RateMicros {
+  return Math.round((RATE_MICROS_PER_UNIT * RATE_MICROS_PER_UNIT) / rate);
+}
+
+/** A rate as a decimal for display, e.g. 1083200 -> "1.0832". */
+export function formatRate(rate: RateMicros): string {
+  return String(rate / RATE_MICROS_PER_UNIT);
+}
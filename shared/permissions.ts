@@ -0,0 +1,63 @@
+import type { Money } from "./money";
+import type { StaffRole } from "./schema";
+
+/**
+ * What each staff role may do. Routes check these with requirePermission in
+ * server/auth.ts, and the client uses the same table to hide what the
+ * signed in user can't use. Reading is open to every role, except for the
+ * audit log.
+ */
+export const permissions = [
+  // Deposits, withdrawals and transfers up to TELLER_TRANSACTION_LIMIT
+  "transactions:create",
+  // ...and above it
+  "transactions:large",
+  "transactions:reverse",
+  // Approving or rejecting someone else's withdrawal or transfer that went
+  // over an approval threshold
+  "approvals:decide",
+  "customers:manage",
+  // Opening and closing accounts, and their status, overdraft, holders and
+  // velocity limits
+  "accounts:manage",
+  // Fee rules, interest rates, approval thresholds, shared velocity limits
+  // and interest runs
+  "settings:manage",
+  "users:manage",
+  // Who did what, from GET /api/audit
+  "audit:read",
+  "deploy",
+] as const;
+export type Permission = typeof permissions[number];
+
+const rolePermissions: Record<StaffRole, readonly Permission[]> = {
+  teller: ["transactions:create", "customers:manage"],
+  manager: [
+    "transactions:create",
+    "transactions:large",
+    "transactions:reverse",
+    "approvals:decide",
+    "customers:manage",
+    "accounts:manage",
+    "settings:manage",
+  ],
+  auditor: ["audit:read"],
+  admin: permissions,
+};
+
+// The largest single deposit, withdrawal or transfer a teller can make alone,
+// in the base currency
+export const TELLER_TRANSACTION_LIMIT: Money = 1_000_000;
+
+export const FORBIDDEN = "forbidden";
+export const OVER_TELLER_LIMIT = "over_teller_limit";
+
+export function hasPermission(role: StaffRole, permission: Permission): boolean {
+  return rolePermissions[role].includes(permission);
+}
+
+// Whether the role needs someone else for an amount this large, given in the
+// base currency
+export function exceedsTellerLimit(role: StaffRole, amount: Money): boolean {
+  return amount > TELLER_TRANSACTION_LIMIT && !hasPermission(role, "transactions:large");
+}
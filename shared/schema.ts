@@ -1,49 +1,1060 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, real, timestamp, integer } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
+import { pgTable, pgSequence, text, varchar, bigint, bigserial, timestamp, integer, boolean, jsonb, index, unique, date, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { currencySchema, moneySchema, toRateMicros, type Currency, type Micros, type Money, type RateMicros } from "./money";
+import { accountNumberSchema, FIRST_ACCOUNT_SEQUENCE } from "./account-number";
+
+// Frozen accounts accept credits but no debits; closed accounts accept
+// nothing. Dormant marks long-inactive accounts and does not restrict them.
+export const accountStatuses = ["active", "frozen", "dormant", "closed"] as const;
+export type AccountStatus = typeof accountStatuses[number];
+
+// Why an account's status was last changed
+export const accountStatusReasons = [
+  "customer_request",
+  "suspected_fraud",
+  "legal_order",
+  "kyc_review",
+  "inactivity",
+  "deceased",
+  "resolved",
+  "other",
+] as const;
+export type AccountStatusReason = typeof accountStatusReasons[number];
+
+// Loan accounts hold a negative balance (the amount owed) and only accept
+// repayments; see server/account-rules.ts for each type's rules
+export const accountTypes = ["checking", "savings", "loan"] as const;
+export type AccountType = typeof accountTypes[number];
+
+// Source of new account numbers, each given a check digit; see
+// shared/account-number.ts
+export const accountNumberSequence = pgSequence("account_number_seq", { startWith: FIRST_ACCOUNT_SEQUENCE });
 
 export const accounts = pgTable("accounts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   accountNumber: integer("account_number").notNull().unique(),
   name: text("name").notNull(),
-  balance: real("balance").notNull().default(0),
+  // Money columns hold integer minor units (cents), see shared/money.ts,
+  // in the account's currency. The currency can't change once opened.
+  balance: bigint("balance", { mode: "number" }).notNull().default(0),
+  currency: text("currency").$type<Currency>().notNull().default("USD"),
+  accountType: text("account_type").$type<AccountType>().notNull().default("checking"),
+  status: text("status").$type<AccountStatus>().notNull().default("active"),
+  statusReason: text("status_reason").$type<AccountStatusReason>(),
+  statusChangedAt: timestamp("status_changed_at"),
+  // How far below its minimum balance the account may go; 0 means no overdraft
+  overdraftLimit: bigint("overdraft_limit", { mode: "number" }).notNull().default(0),
+  // The sum of the account's active holds, and what that leaves of the
+  // balance. Debits are checked against availableBalance.
+  heldAmount: bigint("held_amount", { mode: "number" }).notNull().default(0),
+  availableBalance: bigint("available_balance", { mode: "number" })
+    .notNull()
+    .generatedAlwaysAs((): SQL => sql`${accounts.balance} - ${accounts.heldAmount}`),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// The people who own or can operate accounts. Account.name stays as the
+// account's display name; who the account belongs to is in accountHolders.
+export const customers = pgTable("customers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  dateOfBirth: date("date_of_birth", { mode: "string" }),
+  email: text("email"),
+  phone: text("phone"),
+  address: text("address"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Every account has exactly one primary holder; joint holders co-own it and
+// authorized signers can operate it without owning it
+export const accountHolderRoles = ["primary", "joint", "authorized_signer"] as const;
+export type AccountHolderRole = typeof accountHolderRoles[number];
+
+export const accountHolders = pgTable("account_holders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  accountId: varchar("account_id").notNull().references(() => accounts.id),
+  customerId: varchar("customer_id").notNull().references(() => customers.id),
+  role: text("role").$type<AccountHolderRole>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("account_holders_account_customer_unique").on(table.accountId, table.customerId),
+  index("account_holders_customer_idx").on(table.customerId),
+]);
+
+export const transactionStatuses = ["posted", "reversed"] as const;
+export type TransactionStatus = typeof transactionStatuses[number];
+
 export const transactions = pgTable("transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  type: text("type").notNull(), // 'deposit', 'withdraw', 'transfer'
+  type: text("type").notNull(), // 'deposit', 'withdraw', 'transfer', 'reversal', 'disbursement', 'interest', 'overdraft_interest', 'fee'
   fromAccountId: varchar("from_account_id").references(() => accounts.id),
   toAccountId: varchar("to_account_id").references(() => accounts.id),
-  amount: real("amount").notNull(),
+  amount: bigint("amount", { mode: "number" }).notNull(),
+  status: text("status").$type<TransactionStatus>().notNull().default("posted"),
+  // On a reversal: the transaction it undoes
+  reversalOfId: varchar("reversal_of_id").references((): AnyPgColumn => transactions.id),
+  // On a reversed transaction: the reversal that undid it
+  reversedById: varchar("reversed_by_id").references((): AnyPgColumn => transactions.id),
+  // Between accounts in different currencies: `amount` is in the sending
+  // account's currency, toAmount what the receiving account got in its own,
+  // and fxRateMicros the rate between them (see RateMicros)
+  toAmount: bigint("to_amount", { mode: "number" }),
+  fxRateMicros: bigint("fx_rate_micros", { mode: "number" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Double-entry ledger. Every money movement is a journal entry whose postings
+// balance (total debits == total credits). Customer accounts are liabilities
+// of the bank, so their balance is credits minus debits. System accounts
+// stand in for the bank's own books, e.g. the cash vault a teller deposit
+// comes out of. A transfer between currencies goes through fx_position,
+// which takes one currency in and pays the other out, so each currency's
+// postings balance on their own.
+export const systemAccounts = ["cash_vault", "fee_income", "interest_expense", "interest_income", "fx_position"] as const;
+export type SystemAccount = typeof systemAccounts[number];
+
+export type PostingDirection = "debit" | "credit";
+
+export const journalEntries = pgTable("journal_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").references(() => transactions.id),
+  description: text("description").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const postings = pgTable("postings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  journalEntryId: varchar("journal_entry_id").notNull().references(() => journalEntries.id),
+  // Exactly one of accountId (customer account) or systemAccount is set
+  accountId: varchar("account_id").references(() => accounts.id),
+  systemAccount: text("system_account").$type<SystemAccount>(),
+  direction: text("direction").$type<PostingDirection>().notNull(),
+  amount: bigint("amount", { mode: "number" }).notNull(),
+  // Customer account balance right after this posting; null for system accounts
+  balanceAfter: bigint("balance_after", { mode: "number" }),
+  // Postings made in one database transaction share a createdAt; this keeps
+  // them in the order they were written
+  seq: bigserial("seq", { mode: "number" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  // Account history pages walk this index newest first
+  index("postings_account_history_idx").on(table.accountId, table.createdAt, table.seq),
+]);
+
+// Responses to requests sent with an Idempotency-Key header, replayed when
+// the same key arrives again
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  // The header's value, prefixed with the id of the user who sent it
+  key: text("key").primaryKey(),
+  // Hash of method, path and body; a reused key must match it
+  requestHash: text("request_hash").notNull(),
+  // Both null while the original request is still being processed
+  responseStatus: integer("response_status"),
+  responseBody: jsonb("response_body"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Interest rate table, per account type. Each tier's rate applies to the
+// part of the balance from its minBalance up to the next tier's minBalance.
+export const interestRateTiers = pgTable("interest_rate_tiers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  accountType: text("account_type").$type<AccountType>().notNull(),
+  minBalance: bigint("min_balance", { mode: "number" }).notNull(),
+  // Annual rate in basis points; 150 is 1.50%
+  rateBasisPoints: integer("rate_basis_points").notNull(),
+}, (table) => [
+  unique("interest_rate_tiers_type_band_unique").on(table.accountType, table.minBalance),
+]);
+
+// One day's interest on one account. The unique key makes accrual runs
+// idempotent per day; postedAt is set once the monthly posting pays it out.
+export const interestAccruals = pgTable("interest_accruals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  accountId: varchar("account_id").notNull().references(() => accounts.id),
+  accrualDate: date("accrual_date", { mode: "string" }).notNull(),
+  // The balance the interest was worked out on
+  balance: bigint("balance", { mode: "number" }).notNull(),
+  // Sub-cent amount, see Micros in shared/money.ts. Negative for overdraft
+  // interest the customer owes.
+  amountMicros: bigint("amount_micros", { mode: "number" }).notNull(),
+  // Overdraft fee for the day, in minor units
+  feeAmount: bigint("fee_amount", { mode: "number" }).notNull().default(0),
+  postedAt: timestamp("posted_at"),
+  // The interest (or overdraft charge) transaction that posted it; null if
+  // it rounded to zero
+  transactionId: varchar("transaction_id").references(() => transactions.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("interest_accruals_account_date_unique").on(table.accountId, table.accrualDate),
+]);
+
+// One run of the daily accrual per date, finished once every account has
+// been through it. The scheduler picks up after the last day finished in
+// full, so a run that stopped partway is run again.
+export const interestAccrualRuns = pgTable("interest_accrual_runs", {
+  accrualDate: date("accrual_date", { mode: "string" }).primaryKey(),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+});
+
+// Fees on withdrawals and transfers. An account type's own rule wins over
+// the catch-all rule (accountType null) for the same transaction type.
+export const feeableTransactionTypes = ["withdraw", "transfer"] as const;
+export type FeeableTransactionType = typeof feeableTransactionTypes[number];
+
+export const feeKinds = ["flat", "percentage"] as const;
+export type FeeKind = typeof feeKinds[number];
+
+export const feeRules = pgTable("fee_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionType: text("transaction_type").$type<FeeableTransactionType>().notNull(),
+  accountType: text("account_type").$type<AccountType>(),
+  kind: text("kind").$type<FeeKind>().notNull(),
+  // Used by flat fees. Amounts in fee rules are in the base currency.
+  flatFee: bigint("flat_fee", { mode: "number" }).notNull().default(0),
+  // Used by percentage fees; 50 is 0.50% of the amount
+  rateBasisPoints: integer("rate_basis_points").notNull().default(0),
+  // No fee while the balance before the transaction is at least this
+  waiveAtBalance: bigint("waive_at_balance", { mode: "number" }),
+  // This many transactions of the type per calendar month are free
+  freePerMonth: integer("free_per_month").notNull().default(0),
+});
+
+// Caps on withdrawals and outgoing transfers (counted together) per day or
+// calendar month. An account's own limit wins over its type's, which wins
+// over the catch-all (accountId and accountType both null) for the same
+// window. A null maxCount or maxAmount means that measure is unlimited, and
+// maxAmount is in the base currency.
+export const velocityWindows = ["daily", "monthly"] as const;
+export type VelocityWindow = typeof velocityWindows[number];
+
+export const velocityLimits = pgTable("velocity_limits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Set for one account's own limits; otherwise accountType may narrow the
+  // limit to one type of account
+  accountId: varchar("account_id").references(() => accounts.id),
+  accountType: text("account_type").$type<AccountType>(),
+  window: text("window").$type<VelocityWindow>().notNull(),
+  maxCount: integer("max_count"),
+  maxAmount: bigint("max_amount", { mode: "number" }),
+});
+
+// Bank staff who sign in to the app. Customers don't have logins. What each
+// role may do is in shared/permissions.ts.
+export const staffRoles = ["teller", "manager", "auditor", "admin"] as const;
+export type StaffRole = typeof staffRoles[number];
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  displayName: text("display_name").notNull(),
+  role: text("role").$type<StaffRole>().notNull().default("teller"),
+  // scrypt hash and salt, see server/auth.ts
+  passwordHash: text("password_hash").notNull(),
+  // Two-factor sign in, see server/two-factor.ts. The TOTP secret is set when
+  // enrolment starts and only asked for at login once totpEnabledAt is set.
+  totpSecret: text("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  // The time step of the last code accepted, so a code can't be used twice
+  totpLastCounter: integer("totp_last_counter"),
+  // SHA-256 hashes of the unused recovery codes
+  recoveryCodeHashes: text("recovery_code_hashes").array().notNull().default(sql`'{}'::text[]`),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertAccountSchema = createInsertSchema(accounts).omit({
+// Who did what through the API: one row per POST, PUT, PATCH or DELETE
+// under /api, written once it has been answered (see server/audit.ts). Rows
+// are never changed or deleted; migrations/manual/0010_audit_log_append_only.sql
+// makes Postgres refuse to.
+export const auditOutcomes = ["succeeded", "denied", "rejected", "failed"] as const;
+export type AuditOutcome = typeof auditOutcomes[number];
+
+export const auditedMethods = ["POST", "PUT", "PATCH", "DELETE"] as const;
+export type AuditedMethod = typeof auditedMethods[number];
+
+// What a request touched, e.g. "account:10000008", and how it looked
+export type AuditState = Record<string, unknown>;
+
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // No foreign key: entries outlive the users they name. Both are null when
+  // nobody was signed in, e.g. for a failed login.
+  actorId: varchar("actor_id"),
+  actorUsername: text("actor_username"),
+  ip: text("ip"),
+  method: text("method").$type<AuditedMethod>().notNull(),
+  // The matched route pattern, e.g. /api/accounts/:accountNumber/deposit,
+  // and the path actually requested
+  route: text("route").notNull(),
+  path: text("path").notNull(),
+  // Passwords, codes and secrets replaced with "[redacted]"
+  requestBody: jsonb("request_body"),
+  statusCode: integer("status_code").notNull(),
+  outcome: text("outcome").$type<AuditOutcome>().notNull(),
+  // Keys of everything in before and after, for finding an account's entries
+  subjects: text("subjects").array().notNull(),
+  before: jsonb("before").$type<AuditState>().notNull(),
+  after: jsonb("after").$type<AuditState>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  // GET /api/audit walks this index newest first
+  index("audit_log_created_at_idx").on(table.createdAt, table.id),
+  index("audit_log_subjects_idx").using("gin", table.subjects),
+]);
+
+// Maker-checker: a withdrawal or transfer over its type's threshold is saved
+// as an approval request instead of posting, and a second member of staff
+// approves or rejects it (see server/approvals.ts). Thresholds are in the
+// base currency. A type without a threshold never needs approval.
+export const approvalThresholds = pgTable("approval_thresholds", {
+  transactionType: text("transaction_type").$type<FeeableTransactionType>().primaryKey(),
+  amount: bigint("amount", { mode: "number" }).notNull(),
+});
+
+// Money reserved on an account without moving it, e.g. for a card payment
+// or a cheque that hasn't cleared. Active holds add up to the account's
+// heldAmount. Capturing a hold posts a withdrawal or transfer of up to its
+// amount and releases the rest; see server/holds.ts.
+export const holdStatuses = ["active", "captured", "released", "expired"] as const;
+export type HoldStatus = typeof holdStatuses[number];
+
+export const holds = pgTable("holds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  accountId: varchar("account_id").notNull().references(() => accounts.id),
+  amount: bigint("amount", { mode: "number" }).notNull(),
+  reason: text("reason").notNull(),
+  status: text("status").$type<HoldStatus>().notNull().default("active"),
+  // Released automatically after this; null holds until captured or released
+  expiresAt: timestamp("expires_at"),
+  createdById: varchar("created_by_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  // Null when the hold expired
+  resolvedById: varchar("resolved_by_id").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  // Set when captured: how much was taken, and the transaction it posted as
+  capturedAmount: bigint("captured_amount", { mode: "number" }),
+  transactionId: varchar("transaction_id").references(() => transactions.id),
+}, (table) => [
+  index("holds_account_idx").on(table.accountId, table.status),
+  index("holds_expiry_idx").on(table.status, table.expiresAt),
+]);
+
+export const approvalStatuses = ["pending", "approved", "rejected"] as const;
+export type ApprovalStatus = typeof approvalStatuses[number];
+
+export const approvalRequests = pgTable("approval_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionType: text("transaction_type").$type<FeeableTransactionType>().notNull(),
+  fromAccountId: varchar("from_account_id").notNull().references(() => accounts.id),
+  // Set for transfers
+  toAccountId: varchar("to_account_id").references(() => accounts.id),
+  amount: bigint("amount", { mode: "number" }).notNull(),
+  // Set instead of toAccountId for a transfer batch waiting as a whole: the
+  // lines it pays once approved, with amount their total
+  batchLines: jsonb("batch_lines").$type<TransferBatchLine[]>(),
+  status: text("status").$type<ApprovalStatus>().notNull().default("pending"),
+  requestedById: varchar("requested_by_id").notNull().references(() => users.id),
+  requestedAt: timestamp("requested_at").defaultNow().notNull(),
+  // Who approved or rejected it (never the requester), when, and why
+  decidedById: varchar("decided_by_id").references(() => users.id),
+  decidedAt: timestamp("decided_at"),
+  comment: text("comment"),
+  // What it posted as once approved
+  transactionId: varchar("transaction_id").references(() => transactions.id),
+  // The hold keeping the amount aside while the request is pending, either
+  // made for the request or one it asks to capture. Approving captures it;
+  // rejecting releases it only if it was made for the request, since a hold
+  // being captured still reserves money for a real payment.
+  holdId: varchar("hold_id").references(() => holds.id),
+  capturesHold: boolean("captures_hold").notNull().default(false),
+}, (table) => [
+  index("approval_requests_status_idx").on(table.status, table.requestedAt),
+  index("approval_requests_from_account_idx").on(table.fromAccountId, table.status),
+]);
+
+// Standing orders: transfers made later, once or on a repeating rule, by
+// the scheduler in server/scheduled-transfers.ts. Repeats fall on the same
+// time of day as startAt, every `interval` days, weeks or months; monthly
+// ones on startAt's day of the month, or the last day of shorter months.
+export const scheduleFrequencies = ["once", "daily", "weekly", "monthly"] as const;
+export type ScheduleFrequency = typeof scheduleFrequencies[number];
+
+export const scheduledTransferStatuses = ["active", "completed", "cancelled"] as const;
+export type ScheduledTransferStatus = typeof scheduledTransferStatuses[number];
+
+export const scheduledTransfers = pgTable("scheduled_transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fromAccountId: varchar("from_account_id").notNull().references(() => accounts.id),
+  toAccountId: varchar("to_account_id").notNull().references(() => accounts.id),
+  amount: bigint("amount", { mode: "number" }).notNull(),
+  description: text("description"),
+  frequency: text("frequency").$type<ScheduleFrequency>().notNull(),
+  interval: integer("interval").notNull().default(1),
+  startAt: timestamp("start_at").notNull(),
+  // Either or both end a repeating schedule: no run after endAt, and no more
+  // than runLimit runs
+  endAt: timestamp("end_at"),
+  runLimit: integer("run_limit"),
+  // Due dates dealt with so far, paid or not. The next one is occurrence
+  // number runCount.
+  runCount: integer("run_count").notNull().default(0),
+  // Failed attempts at the current due date, which is retried until
+  // SCHEDULE_MAX_ATTEMPTS
+  failedAttempts: integer("failed_attempts").notNull().default(0),
+  // When the scheduler should next try; null once the schedule has ended
+  nextRunAt: timestamp("next_run_at"),
+  status: text("status").$type<ScheduledTransferStatus>().notNull().default("active"),
+  createdById: varchar("created_by_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  cancelledById: varchar("cancelled_by_id").references(() => users.id),
+  cancelledAt: timestamp("cancelled_at"),
+}, (table) => [
+  index("scheduled_transfers_due_idx").on(table.status, table.nextRunAt),
+  index("scheduled_transfers_from_account_idx").on(table.fromAccountId),
+  index("scheduled_transfers_to_account_idx").on(table.toAccountId),
+]);
+
+// Every attempt the scheduler makes. `retrying` failed but will be tried
+// again; `failed` gave up on that due date.
+export const scheduledRunStatuses = ["succeeded", "sent_for_approval", "retrying", "failed"] as const;
+export type ScheduledRunStatus = typeof scheduledRunStatuses[number];
+
+export const scheduledTransferRuns = pgTable("scheduled_transfer_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scheduledTransferId: varchar("scheduled_transfer_id").notNull().references(() => scheduledTransfers.id),
+  // The occurrence this attempt was for, and which attempt at it
+  dueAt: timestamp("due_at").notNull(),
+  attempt: integer("attempt").notNull(),
+  status: text("status").$type<ScheduledRunStatus>().notNull(),
+  transactionId: varchar("transaction_id").references(() => transactions.id),
+  // Set when the amount was over the approval threshold
+  approvalRequestId: varchar("approval_request_id").references(() => approvalRequests.id),
+  // Why it failed
+  message: text("message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("scheduled_transfer_runs_schedule_idx").on(table.scheduledTransferId, table.createdAt),
+]);
+
+// Exchange rates, loaded by hand or from a file. Rows are never updated; the
+// newest row for a pair is its current rate, and older ones are its history.
+export const fxRateSources = ["manual", "file"] as const;
+export type FxRateSource = typeof fxRateSources[number];
+
+export const fxRates = pgTable("fx_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  baseCurrency: text("base_currency").$type<Currency>().notNull(),
+  quoteCurrency: text("quote_currency").$type<Currency>().notNull(),
+  // Units of quoteCurrency one unit of baseCurrency buys, in millionths
+  rateMicros: bigint("rate_micros", { mode: "number" }).$type<RateMicros>().notNull(),
+  source: text("source").$type<FxRateSource>().notNull(),
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("fx_rates_pair_idx").on(table.baseCurrency, table.quoteCurrency, table.createdAt),
+]);
+
+// New accounts always open as active; status changes go through their own endpoints
+export const insertAccountSchema = createInsertSchema(accounts, {
+  accountType: z.enum(accountTypes).optional(),
+  currency: currencySchema.optional(),
+  overdraftLimit: moneySchema.nonnegative("Overdraft limit can't be negative").optional(),
+}).omit({
   id: true,
+  heldAmount: true,
+  status: true,
+  statusReason: true,
+  statusChangedAt: true,
   createdAt: true,
 });
 
-export const insertTransactionSchema = createInsertSchema(transactions).omit({
+export const insertCustomerSchema = createInsertSchema(customers, {
+  name: z.string().trim().min(1, "Name is required"),
+  dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").nullish(),
+  email: z.string().email().nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Body of PATCH /api/customers/:id
+export const updateCustomerSchema = insertCustomerSchema.partial();
+
+// Body of POST /api/users; the password is hashed before it is stored
+export const insertUserSchema = z.object({
+  username: z.string().trim().toLowerCase().min(1, "Username is required"),
+  displayName: z.string().trim().min(1, "Display name is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: z.enum(staffRoles).optional(),
+});
+
+// Body of PATCH /api/users/:id
+export const updateUserSchema = z.object({
+  role: z.enum(staffRoles),
+});
+
+// Body of POST /api/login
+export const loginSchema = z.object({
+  username: z.string().trim().toLowerCase().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// Body of POST /api/login/two-factor and the two-factor settings routes:
+// a code from the authenticator app, or at login a recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Enter a code"),
+});
+export const INVALID_TWO_FACTOR_CODE = "invalid_two_factor_code";
+
+// Body of POST /api/accounts. The server allocates the account number. The
+// account goes to an existing customer, a new one described in `customer`, or
+// without either, a new customer named after the account.
+export const openAccountSchema = insertAccountSchema.omit({ accountNumber: true }).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  customerId: z.string().optional(),
+  customer: insertCustomerSchema.optional(),
+});
+
+// Body of POST /api/accounts/:accountNumber/holders. Primary holders are
+// set when the account is opened.
+export const addAccountHolderSchema = z.object({
+  customerId: z.string(),
+  role: z.enum(["joint", "authorized_signer"]),
+});
+
+// Body of POST /api/accounts/:accountNumber/status. Closing has its own
+// endpoint because it may need to sweep the balance elsewhere first.
+export const accountStatusChangeSchema = z.object({
+  status: z.enum(["active", "frozen", "dormant"]),
+  reason: z.enum(accountStatusReasons),
+});
+
+// Body of POST /api/accounts/:accountNumber/close
+export const closeAccountSchema = z.object({
+  reason: z.enum(accountStatusReasons),
+  // Where to move any remaining balance; without it the balance must be zero
+  sweepToAccountNumber: accountNumberSchema.optional(),
+});
+
+// Body of PUT /api/accounts/:accountNumber/overdraft
+export const overdraftLimitSchema = z.object({
+  overdraftLimit: moneySchema.nonnegative("Overdraft limit can't be negative"),
+});
+
+export const insertTransactionSchema = createInsertSchema(transactions, {
+  status: z.enum(transactionStatuses).optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+// Body of PUT /api/interest/rates/:accountType; replaces that type's table
+export const interestRateTableSchema = z.object({
+  tiers: z
+    .array(z.object({
+      minBalance: moneySchema.nonnegative(),
+      rateBasisPoints: z.number().int().min(0).max(10_000),
+    }))
+    .max(20)
+    .refine(
+      (tiers) => new Set(tiers.map((tier) => tier.minBalance)).size === tiers.length,
+      "Each tier needs a different minimum balance",
+    ),
+});
+
+// Body of PUT /api/fees/rules; replaces every rule
+export const feeRulesSchema = z.object({
+  rules: z
+    .array(z.object({
+      transactionType: z.enum(feeableTransactionTypes),
+      accountType: z.enum(accountTypes).nullable().default(null),
+      kind: z.enum(feeKinds),
+      flatFee: moneySchema.nonnegative().default(0),
+      rateBasisPoints: z.number().int().min(0).max(10_000).default(0),
+      waiveAtBalance: moneySchema.nonnegative().nullable().default(null),
+      freePerMonth: z.number().int().nonnegative().default(0),
+    }))
+    .refine(
+      (rules) => new Set(rules.map((rule) => `${rule.transactionType}:${rule.accountType}`)).size === rules.length,
+      "Only one rule per transaction type and account type",
+    ),
+});
+
+const velocityLimitFields = {
+  window: z.enum(velocityWindows),
+  maxCount: z.number().int().nonnegative().nullable().default(null),
+  maxAmount: moneySchema.nonnegative().nullable().default(null),
+};
+
+// Body of PUT /api/velocity-limits: the account-type and catch-all limits
+export const velocityLimitsSchema = z.object({
+  limits: z
+    .array(z.object({
+      accountType: z.enum(accountTypes).nullable().default(null),
+      ...velocityLimitFields,
+    }))
+    .refine(
+      (limits) => new Set(limits.map((limit) => `${limit.window}:${limit.accountType}`)).size === limits.length,
+      "Only one limit per window and account type",
+    ),
+});
+
+// Body of PUT /api/accounts/:accountNumber/velocity-limits
+export const accountVelocityLimitsSchema = z.object({
+  limits: z
+    .array(z.object(velocityLimitFields))
+    .refine(
+      (limits) => new Set(limits.map((limit) => limit.window)).size === limits.length,
+      "Only one limit per window",
+    ),
+});
+
+// Query string of GET /api/fees/quote
+export const feeQuoteQuerySchema = z.object({
+  type: z.enum(feeableTransactionTypes),
+  accountNumber: z.coerce.number().pipe(accountNumberSchema),
+  amount: z.coerce.number().int().positive(),
+});
+
+// A YYYY-MM-DD date as local midnight, or undefined if there's no such day
+function calendarDay(date: string): Date | undefined {
+  const [year, month, day] = date.split("-").map(Number);
+  const parsed = new Date(year, month - 1, day);
+  const exists = parsed.getFullYear() === year && parsed.getMonth() === month - 1 && parsed.getDate() === day;
+  return exists ? parsed : undefined;
+}
+
+// Body of POST /api/interest/accrue; defaults to yesterday. Only days that
+// have closed can accrue, since an accrual is on the day's closing balance
+// and can't be redone.
+export const interestAccrualRunSchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
+    .refine((date) => calendarDay(date) !== undefined, "Date must be a real calendar date")
+    .refine((date) => {
+      const day = calendarDay(date);
+      const today = new Date();
+      return !day || day < new Date(today.getFullYear(), today.getMonth(), today.getDate());
+    }, "Date must be before today")
+    .optional(),
+});
+
+// Query string of GET /api/accounts/:accountNumber/transactions
+export const accountHistoryQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  type: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  minAmount: z.coerce.number().int().optional(),
+  maxAmount: z.coerce.number().int().optional(),
+  counterparty: z.coerce.number().int().optional(),
+});
+
+// Query string of GET /api/audit
+export const auditLogQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  // Username of whoever made the request
+  actor: z.string().trim().toLowerCase().optional(),
+  method: z.enum(auditedMethods).optional(),
+  outcome: z.enum(auditOutcomes).optional(),
+  // Part of the route pattern, e.g. "deposit"
+  route: z.string().trim().optional(),
+  accountNumber: z.coerce.number().int().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Body of POST /api/accounts/:accountNumber/holds; holds expire after
+// HOLD_DEFAULT_DAYS unless given an expiry
+export const HOLD_DEFAULT_DAYS = 7;
+
+export const placeHoldSchema = z.object({
+  amount: moneySchema.positive("Amount must be positive"),
+  reason: z.string().trim().min(1, "Say what the hold is for").max(200),
+  expiresAt: z.coerce.date().refine((date) => date > new Date(), "Expiry must be in the future").optional(),
+});
+
+// Body of POST /api/holds/:id/capture. Without an amount the whole hold is
+// captured; without an account it is captured as a withdrawal.
+export const captureHoldSchema = z.object({
+  amount: moneySchema.positive("Amount must be positive").optional(),
+  toAccountNumber: accountNumberSchema.optional(),
+});
+
+// Query string of GET /api/accounts/:accountNumber/holds
+export const holdQuerySchema = z.object({
+  status: z.enum(holdStatuses).optional(),
+});
+
+// Body of PUT /api/approvals/thresholds; replaces every threshold
+export const approvalThresholdsSchema = z.object({
+  thresholds: z
+    .array(z.object({
+      transactionType: z.enum(feeableTransactionTypes),
+      amount: moneySchema.nonnegative(),
+    }))
+    .refine(
+      (thresholds) => new Set(thresholds.map((threshold) => threshold.transactionType)).size === thresholds.length,
+      "Only one threshold per transaction type",
+    ),
+});
+
+// Body of POST /api/approvals/:id/approve and /reject
+export const approvalDecisionSchema = z.object({
+  comment: z.string().trim().min(1, "Add a comment explaining the decision").max(500),
+});
+
+// Query string of GET /api/approvals
+export const approvalQuerySchema = z.object({
+  status: z.enum(approvalStatuses).default("pending"),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+// Body of POST /api/scheduled-transfers
+export const createScheduledTransferSchema = z.object({
+  fromAccountNumber: accountNumberSchema,
+  toAccountNumber: accountNumberSchema,
+  amount: moneySchema.positive("Amount must be positive"),
+  description: z.string().trim().max(200).optional(),
+  frequency: z.enum(scheduleFrequencies),
+  interval: z.number().int().min(1).max(52).default(1),
+  startAt: z.coerce.date().refine((date) => date > new Date(), "The first transfer must be in the future"),
+  endAt: z.coerce.date().optional(),
+  runLimit: z.number().int().min(1).max(1000).optional(),
+})
+  .refine((schedule) => schedule.fromAccountNumber !== schedule.toAccountNumber, {
+    message: "Cannot transfer to the same account",
+    path: ["toAccountNumber"],
+  })
+  .refine((schedule) => !schedule.endAt || schedule.endAt >= schedule.startAt, {
+    message: "The end date must be after the first transfer",
+    path: ["endAt"],
+  });
+
+// Query string of GET /api/scheduled-transfers
+export const scheduledTransferQuerySchema = z.object({
+  accountNumber: z.coerce.number().pipe(accountNumberSchema).optional(),
+  status: z.enum(scheduledTransferStatuses).optional(),
+});
+
+// Body of POST /api/fx-rates. Rates are decimals, e.g. 1.0832 US dollars to
+// the euro as { baseCurrency: "EUR", quoteCurrency: "USD", rate: 1.0832 }.
+export const loadFxRatesSchema = z.object({
+  source: z.enum(fxRateSources).default("manual"),
+  rates: z
+    .array(z.object({
+      baseCurrency: currencySchema,
+      quoteCurrency: currencySchema,
+      rate: z.number().positive("Rate must be positive").max(1_000_000)
+        .refine((rate) => toRateMicros(rate) > 0, "Rate is too small"),
+    }).refine((rate) => rate.baseCurrency !== rate.quoteCurrency, {
+      message: "A rate needs two different currencies",
+      path: ["quoteCurrency"],
+    }))
+    .min(1, "Give at least one rate")
+    .max(200)
+    .refine(
+      (rates) => new Set(rates.map((rate) => `${rate.baseCurrency}/${rate.quoteCurrency}`)).size === rates.length,
+      "Give each currency pair only once",
+    ),
+});
+
+// Query string of GET /api/fx-rates/quote
+export const fxQuoteQuerySchema = z.object({
+  from: currencySchema,
+  to: currencySchema,
+});
+
+// Body of POST /api/transfer-batches: many transfers out of one account, e.g.
+// a payroll run. `all_or_nothing` posts every line or none of them;
+// `best_effort` posts what it can and reports the rest.
+export const transferBatchModes = ["all_or_nothing", "best_effort"] as const;
+export type TransferBatchMode = typeof transferBatchModes[number];
+
+export const TRANSFER_BATCH_MAX_LINES = 500;
+
+export const transferBatchSchema = z.object({
+  fromAccountNumber: accountNumberSchema,
+  mode: z.enum(transferBatchModes),
+  lines: z
+    .array(z.object({
+      toAccountNumber: accountNumberSchema,
+      amount: moneySchema.positive("Amount must be positive"),
+      reference: z.string().trim().max(140).optional(),
+    }))
+    .min(1, "A batch needs at least one line")
+    .max(TRANSFER_BATCH_MAX_LINES, `A batch can have at most ${TRANSFER_BATCH_MAX_LINES} lines`),
+});
+
 export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type OpenAccountRequest = z.infer<typeof openAccountSchema>;
+export type Customer = typeof customers.$inferSelect;
+export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type UpdateCustomer = z.infer<typeof updateCustomerSchema>;
+export type AccountHolder = typeof accountHolders.$inferSelect;
+export type InsertAccountHolder = Omit<typeof accountHolders.$inferInsert, "id" | "createdAt">;
+export type AddAccountHolderRequest = z.infer<typeof addAccountHolderSchema>;
+export type AccountHistoryQuery = z.input<typeof accountHistoryQuerySchema>;
+export type AccountStatusChange = z.infer<typeof accountStatusChangeSchema>;
+export type CloseAccountRequest = z.infer<typeof closeAccountSchema>;
+export type OverdraftLimitChange = z.infer<typeof overdraftLimitSchema>;
 export type Account = typeof accounts.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type Transaction = typeof transactions.$inferSelect;
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type InsertJournalEntry = typeof journalEntries.$inferInsert;
+export type Posting = typeof postings.$inferSelect;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type InsertPosting = Omit<typeof postings.$inferInsert, "journalEntryId">;
+export type FeeRule = typeof feeRules.$inferSelect;
+export type InsertFeeRule = Omit<typeof feeRules.$inferInsert, "id">;
+export type User = typeof users.$inferSelect;
+// A user as the API returns it, without the password hash or two-factor secrets
+export type PublicUser = Omit<User, "passwordHash" | "totpSecret" | "totpLastCounter" | "recoveryCodeHashes"> & {
+  recoveryCodesLeft: number;
+};
+export type InsertUser = Omit<typeof users.$inferInsert, "id" | "createdAt">;
+export type CreateUserRequest = z.infer<typeof insertUserSchema>;
+export type UpdateUserRequest = z.infer<typeof updateUserSchema>;
+export type LoginRequest = z.infer<typeof loginSchema>;
+// POST /api/login answers with the user, or this when a code is needed too
+export type LoginResponse = PublicUser | { twoFactorRequired: true };
+export type TwoFactorCodeRequest = z.infer<typeof twoFactorCodeSchema>;
+// The two-factor columns of a user
+export type UserTwoFactor = Pick<User, "totpSecret" | "totpEnabledAt" | "totpLastCounter" | "recoveryCodeHashes">;
+// POST /api/user/two-factor/setup
+export interface TwoFactorSetup {
+  secret: string;
+  provisioningUri: string;
+}
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type InsertAuditEntry = Omit<typeof auditLog.$inferInsert, "id" | "createdAt">;
+export type AuditLogQuery = z.input<typeof auditLogQuerySchema>;
+export type Hold = typeof holds.$inferSelect;
+export type InsertHold = Pick<typeof holds.$inferInsert, "accountId" | "amount" | "reason" | "expiresAt" | "createdById">;
+export type PlaceHoldRequest = z.infer<typeof placeHoldSchema>;
+export type CaptureHoldRequest = z.infer<typeof captureHoldSchema>;
+export type ApprovalThreshold = typeof approvalThresholds.$inferSelect;
+export type ApprovalRequest = typeof approvalRequests.$inferSelect;
+export type InsertApprovalRequest = Pick<
+  typeof approvalRequests.$inferInsert,
+  "transactionType" | "fromAccountId" | "toAccountId" | "amount" | "batchLines" | "requestedById" | "holdId" | "capturesHold"
+>;
+export type ApprovalDecision = z.infer<typeof approvalDecisionSchema>;
+export type ScheduledTransfer = typeof scheduledTransfers.$inferSelect;
+export type InsertScheduledTransfer = Pick<
+  typeof scheduledTransfers.$inferInsert,
+  "fromAccountId" | "toAccountId" | "amount" | "description" | "frequency" | "interval" | "startAt" | "endAt" | "runLimit" | "nextRunAt" | "createdById"
+>;
+export type CreateScheduledTransferRequest = z.infer<typeof createScheduledTransferSchema>;
+export type FxRate = typeof fxRates.$inferSelect;
+export type InsertFxRate = Omit<typeof fxRates.$inferInsert, "id" | "createdAt">;
+export type LoadFxRatesRequest = z.infer<typeof loadFxRatesSchema>;
+export type TransferBatchRequest = z.infer<typeof transferBatchSchema>;
+export type TransferBatchLine = TransferBatchRequest["lines"][number];
+export type ScheduledTransferRun = typeof scheduledTransferRuns.$inferSelect;
+export type InsertScheduledTransferRun = Omit<typeof scheduledTransferRuns.$inferInsert, "id" | "createdAt">;
+export type VelocityLimit = typeof velocityLimits.$inferSelect;
+export type InsertVelocityLimit = Omit<typeof velocityLimits.$inferInsert, "id" | "accountId">;
+export type InterestRateTier = typeof interestRateTiers.$inferSelect;
+export type InsertInterestRateTier = Omit<typeof interestRateTiers.$inferInsert, "id" | "accountType">;
+export type InterestAccrual = typeof interestAccruals.$inferSelect;
+export type InsertInterestAccrual = Omit<typeof interestAccruals.$inferInsert, "id" | "postedAt" | "transactionId" | "createdAt">;
+export type InterestAccrualRun = typeof interestAccrualRuns.$inferSelect;
 
 // API response types
 export type TransactionWithDetails = Transaction & {
-  fromAccount?: Pick<Account, 'accountNumber' | 'name'>;
-  toAccount?: Pick<Account, 'accountNumber' | 'name'>;
+  fromAccount?: Pick<Account, 'accountNumber' | 'name' | 'currency'>;
+  toAccount?: Pick<Account, 'accountNumber' | 'name' | 'currency'>;
+};
+
+export type ApprovalRequestWithDetails = ApprovalRequest & {
+  fromAccount?: Pick<Account, 'accountNumber' | 'name' | 'currency'>;
+  toAccount?: Pick<Account, 'accountNumber' | 'name' | 'currency'>;
+  requestedBy?: Pick<User, 'username' | 'displayName'>;
+  decidedBy?: Pick<User, 'username' | 'displayName'>;
+};
+
+export type ScheduledTransferWithDetails = ScheduledTransfer & {
+  fromAccount?: Pick<Account, 'accountNumber' | 'name' | 'currency'>;
+  toAccount?: Pick<Account, 'accountNumber' | 'name' | 'currency'>;
+  createdBy?: Pick<User, 'username' | 'displayName'>;
+};
+
+// How each line of a transfer batch went. `not_posted` lines were fine but
+// nothing was posted, because the batch was rejected or rolled back.
+export const transferBatchLineStatuses = ["transferred", "sent_for_approval", "failed", "not_posted"] as const;
+export type TransferBatchLineStatus = typeof transferBatchLineStatuses[number];
+
+export type TransferBatchLineResult = TransferBatchLine & {
+  // 1-based, matching the request's order
+  line: number;
+  status: TransferBatchLineStatus;
+  transactionId?: string;
+  fee?: Money;
+  approvalRequestId?: string;
+  message?: string;
+};
+
+// `rejected` batches posted nothing
+export type TransferBatchOutcome = "completed" | "partial" | "rejected";
+
+export type TransferBatchResult = {
+  fromAccountNumber: number;
+  mode: TransferBatchMode;
+  outcome: TransferBatchOutcome;
+  // Sum of the lines transferred, not counting fees or lines sent for approval
+  transferred: Money;
+  lines: TransferBatchLineResult[];
+  message: string;
+};
+
+// What POST withdraw, transfer and hold capture answer with (202) when the
+// amount needs approval
+export type ApprovalPendingResponse = { approval: ApprovalRequest; message: string };
+
+export type AccountHolderWithCustomer = AccountHolder & { customer: Customer };
+
+export type CustomerAccount = { account: Account; role: AccountHolderRole };
+
+export type CustomerProfile = {
+  customer: Customer;
+  accounts: CustomerAccount[];
+  // Sum of the balances of the customer's open accounts in each currency;
+  // loans count as negative
+  combinedBalances: { currency: Currency; balance: Money }[];
+};
+
+export type JournalEntryWithPostings = JournalEntry & {
+  postings: Posting[];
+};
+
+// Sum of debits and credits posted to one ledger account
+export type LedgerTotals = {
+  accountId: string | null;
+  systemAccount: SystemAccount | null;
+  debits: Money;
+  credits: Money;
+};
+
+export type LedgerVerification = {
+  balanced: boolean;
+  totalDebits: Money;
+  totalCredits: Money;
+  // Net debit balance of each system account
+  systemAccounts: { systemAccount: SystemAccount; balance: Money }[];
+  // Customer accounts whose stored balance disagrees with their postings
+  mismatches: { accountNumber: number; balance: Money; ledgerBalance: Money }[];
+};
+
+// One line of an account's statement: the transaction as seen from this
+// account. A debit moved money out of it, a credit moved money in.
+export type AccountHistoryEntry = TransactionWithDetails & {
+  postingId: string;
+  direction: PostingDirection;
+  balanceAfter: Money | null;
+};
+
+export type AccountHistoryFilters = {
+  type?: string;
+  from?: Date; // inclusive
+  to?: Date; // exclusive
+  minAmount?: Money;
+  maxAmount?: Money;
+  counterpartyAccountId?: string;
+};
+
+export type AuditLogFilters = {
+  actor?: string;
+  method?: AuditedMethod;
+  outcome?: AuditOutcome;
+  route?: string;
+  // One of the entry's subjects, e.g. "account:10000008"
+  subject?: string;
+  from?: Date; // inclusive
+  to?: Date; // exclusive
+};
+
+export type AuditLogPage = {
+  entries: AuditEntry[];
+  // Pass back as `cursor` to fetch the next (older) page
+  nextCursor: string | null;
+};
+
+export type AccountHistoryPage = {
+  entries: AccountHistoryEntry[];
+  // Pass back as `cursor` to fetch the next (older) page
+  nextCursor: string | null;
+};
+
+// How many debits an account made in a period and what they added up to
+export type DebitSummary = {
+  count: number;
+  total: Money;
+};
+
+// The fee a withdrawal or transfer would be charged right now
+export type FeeQuote = {
+  fee: Money;
+  // Why a fee the rule would otherwise charge was not charged
+  waiver: "minimum_balance" | "free_allowance" | null;
+  // Free transactions of this type left this month; null without an allowance
+  freeRemaining: number | null;
+};
+
+// What an account can still withdraw or transfer out in one window, in the
+// account's currency with the limit converted at the current rate. The
+// remaining fields are null where the limit doesn't cap that measure.
+export type VelocityHeadroom = {
+  window: VelocityWindow;
+  maxCount: number | null;
+  maxAmount: Money | null;
+  usedCount: number;
+  usedAmount: Money;
+  remainingCount: number | null;
+  remainingAmount: Money | null;
+  resetsAt: Date;
+};
+
+// Interest accrued on an account but not yet paid out
+export type InterestPreview = {
+  accountNumber: number;
+  // Negative while the account is accruing overdraft interest
+  accruedMicros: Micros;
+  // accruedMicros rounded the way the monthly posting will round it
+  accrued: Money;
+  // Overdraft fees accrued so far, charged with the monthly posting
+  overdraftFees: Money;
+  days: number;
+  since: string | null;
+  // What one more day would accrue at the current balance
+  dailyMicros: Micros;
+};
+
+// Response of GET /api/fx-rates/quote
+export type FxQuote = {
+  from: Currency;
+  to: Currency;
+  rateMicros: RateMicros;
+};
+
+export type CurrencyTotals = {
+  currency: Currency;
+  totalDeposits: Money;
+  totalWithdrawals: Money;
 };
 
 export type DashboardStats = {
   totalAccounts: number;
-  totalDeposits: string;
-  totalWithdrawals: string;
   activeTransfers: number;
+  // Each currency's deposits and withdrawals, in that currency
+  byCurrency: CurrencyTotals[];
+  // All of them converted to BASE_CURRENCY at the current rates, or null
+  // while some currency has no rate
+  converted: CurrencyTotals | null;
 };